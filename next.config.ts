@@ -1,8 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  // Required for unpdf package to work properly in server components
-  serverExternalPackages: ['unpdf'],
+  // Required for unpdf package to work properly in server components.
+  // linkedom and mammoth load optional Node-only modules at runtime.
+  serverExternalPackages: ['unpdf', 'linkedom', 'mammoth'],
 };
 
 export default nextConfig;
@@ -5,18 +5,18 @@ import {
   getCollection,
   getCollectionSources,
   getSummariesBySource,
-  createSummary,
+  getActiveJob,
 } from '@/lib/db/client';
-import { aggregateSummaries, generateAggregatedSummary } from '@/lib/ai/aggregator';
+import { enqueueJob } from '@/lib/services/job-queue';
+import { getBudgetStatus, formatBudgetExceeded } from '@/lib/services/ai-usage';
 import {
   checkRateLimit,
   getClientIP,
   createRateLimitHeaders,
   RateLimitConfigs,
 } from '@/lib/rate-limiter';
-import { Summary } from '@/types/summaries';
 
-// POST /api/collections/[id]/aggregate - Generate aggregated summary
+// POST /api/collections/[id]/aggregate - Queue a job generating an aggregated summary
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -59,17 +59,17 @@ export async function POST(
       );
     }
 
-    // Get key_points summaries for each source
-    const summariesToAggregate: Summary[] = [];
+    // Count sources that have key_points summaries to aggregate
+    let summarizedSourceCount = 0;
 
     for (const cs of collectionSources) {
       const summaries = await getSummariesBySource(cs.sourceId, 'key_points', true);
       if (summaries.length > 0) {
-        summariesToAggregate.push(summaries[0]);
+        summarizedSourceCount++;
       }
     }
 
-    if (summariesToAggregate.length < 2) {
+    if (summarizedSourceCount < 2) {
       return NextResponse.json(
         { error: 'At least 2 sources must have key_points summaries' },
         { status: 400 }
@@ -77,49 +77,25 @@ export async function POST(
     }
 
     const body = await request.json().catch(() => ({}));
-    const { includeThemes = true, includeInsights = true } = body;
+    const { includeThemes = true, includeInsights = true, bypassCache = false } = body;
 
-    // Generate aggregated summary
-    let result;
-
-    if (includeThemes || includeInsights) {
-      result = await generateAggregatedSummary({
-        summaries: summariesToAggregate,
-        collectionName: collection.name,
-        collectionId,
-      });
-    } else {
-      const aggregatedInput = await aggregateSummaries({
-        summaries: summariesToAggregate,
-        collectionName: collection.name,
-        collectionId,
-      });
-
-      result = {
-        summary: {
-          ...aggregatedInput,
-          id: '',
-          version: 1,
-          isCurrent: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-        commonThemes: [],
-        uniqueInsights: [],
-        sourceSummaries: summariesToAggregate,
-      };
+    // Refuse new AI work once the monthly budget is spent
+    const budget = await getBudgetStatus();
+    if (budget.exceeded) {
+      return NextResponse.json(
+        { error: formatBudgetExceeded(budget), budget },
+        { status: 402 }
+      );
     }
 
-    // Save the aggregated summary
-    const savedSummary = await createSummary(result.summary);
+    // Aggregation runs as a background job; poll GET /api/jobs/[id]
+    const job = await getActiveJob('aggregate_collection', collectionId)
+      || await enqueueJob('aggregate_collection', collectionId, { collectionId, includeThemes, includeInsights, bypassCache: bypassCache === true });
 
-    return NextResponse.json({
-      success: true,
-      summary: savedSummary,
-      commonThemes: result.commonThemes,
-      uniqueInsights: result.uniqueInsights,
-      sourceCount: summariesToAggregate.length,
-    });
+    return NextResponse.json(
+      { jobId: job.id, status: job.status },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Error aggregating summaries:', error);
     return NextResponse.json(
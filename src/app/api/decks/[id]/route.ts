@@ -0,0 +1,128 @@
+// API routes for a single deck
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteDeck, getDeck, getDecks, initializeDb, updateDeck } from '@/lib/db/client';
+import { getDeckParentError } from '@/lib/services/decks';
+import { UpdateDeckSchema, validateBody } from '@/lib/validations';
+import { Deck } from '@/types';
+
+// GET /api/decks/[id] - Get a deck
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+    const deck = await getDeck(id);
+
+    if (!deck) {
+      return NextResponse.json(
+        { error: 'Deck not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deck });
+  } catch (error) {
+    console.error('Error fetching deck:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch deck' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/decks/[id] - Rename a deck, move it inside another (null for the
+// top level) or change its scheduler, daily limits and review order (null
+// restores the default)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+
+    const validation = await validateBody(request, UpdateDeckSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const decks = await getDecks();
+    const deck = decks.find((candidate) => candidate.id === id);
+    if (!deck) {
+      return NextResponse.json(
+        { error: 'Deck not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = validation.data;
+    const parentError = data.parentId ? getDeckParentError(decks, id, data.parentId) : null;
+    if (parentError) {
+      return NextResponse.json(
+        { error: parentError },
+        { status: 400 }
+      );
+    }
+
+    // Fields left out keep their current value
+    const updated: Deck = {
+      ...deck,
+      name: data.name ?? deck.name,
+      parentId: data.parentId === undefined ? deck.parentId : data.parentId ?? undefined,
+      scheduler: data.scheduler === undefined ? deck.scheduler : data.scheduler ?? undefined,
+      newCardsPerDay: data.newCardsPerDay === undefined ? deck.newCardsPerDay : data.newCardsPerDay ?? undefined,
+      maxReviewsPerDay: data.maxReviewsPerDay === undefined ? deck.maxReviewsPerDay : data.maxReviewsPerDay ?? undefined,
+      reviewOrder: data.reviewOrder === undefined ? deck.reviewOrder : data.reviewOrder ?? undefined,
+    };
+    await updateDeck(updated);
+
+    return NextResponse.json({ deck: await getDeck(id) });
+  } catch (error) {
+    console.error('Error updating deck:', error);
+    return NextResponse.json(
+      { error: 'Failed to update deck' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/decks/[id] - Delete a deck. Its cards go back to their source's
+// default deck and its subdecks move up to its parent. A source's default deck
+// goes with the source.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+    const deck = await getDeck(id);
+
+    if (!deck) {
+      return NextResponse.json(
+        { error: 'Deck not found' },
+        { status: 404 }
+      );
+    }
+    if (deck.sourceId) {
+      return NextResponse.json(
+        { error: 'Default decks are deleted with their source' },
+        { status: 409 }
+      );
+    }
+
+    await deleteDeck(deck);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting deck:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete deck' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+// API routes for decks
+import { NextRequest, NextResponse } from 'next/server';
+import { startOfToday } from 'date-fns';
+import { createDeck, getDeck, getDecks, getDueFlashcards, getReviewCountsSince, initializeDb } from '@/lib/db/client';
+import { getDeckDueCounts } from '@/lib/services/review-queue';
+import { CreateDeckSchema, validateBody } from '@/lib/validations';
+
+// GET /api/decks - List all decks with the cards left today in each (counting subdecks)
+export async function GET() {
+  try {
+    await initializeDb();
+    const [decks, dueCards, doneToday] = await Promise.all([
+      getDecks(),
+      getDueFlashcards(),
+      getReviewCountsSince(startOfToday()),
+    ]);
+    const dueCounts = getDeckDueCounts(dueCards, decks, doneToday);
+
+    return NextResponse.json({
+      decks: decks.map((deck) => ({ ...deck, dueCounts: dueCounts[deck.id] })),
+    });
+  } catch (error) {
+    console.error('Error fetching decks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch decks' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/decks - Create a deck, optionally inside another
+export async function POST(request: NextRequest) {
+  try {
+    await initializeDb();
+
+    const validation = await validateBody(request, CreateDeckSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const { name, parentId } = validation.data;
+    if (parentId && !(await getDeck(parentId))) {
+      return NextResponse.json(
+        { error: 'Parent deck not found' },
+        { status: 404 }
+      );
+    }
+
+    const deck = await createDeck({ name, parentId });
+    return NextResponse.json({ deck }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating deck:', error);
+    return NextResponse.json(
+      { error: 'Failed to create deck' },
+      { status: 500 }
+    );
+  }
+}
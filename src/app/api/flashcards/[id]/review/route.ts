@@ -1,8 +1,24 @@
 // API route for reviewing a flashcard
 import { NextRequest, NextResponse } from 'next/server';
-import { initializeDb, updateFlashcardAfterReview, recordFlashcardReview, getFlashcard } from '@/lib/db/client';
-import { calculateSM2, simpleToSM2Rating } from '@/lib/services/sm2';
+import { startOfTomorrow } from 'date-fns';
+import {
+  initializeDb,
+  updateFlashcardAfterReview,
+  recordFlashcardReview,
+  getFlashcard,
+  getFlashcardsByNote,
+  buryFlashcardSiblings,
+  recordFlashcardLapse,
+  setFlashcardLeech,
+} from '@/lib/db/client';
+import { simpleToSM2Rating } from '@/lib/services/sm2';
+import { getScheduler } from '@/lib/services/scheduler';
+import { getFSRSParameters } from '@/lib/services/review-settings';
+import { isLeechLapse } from '@/lib/services/leeches';
+import { getReviewUndoState } from '@/lib/services/review-undo';
+import { gradeQuizAnswer, isQuizCard, QuizGrade } from '@/lib/services/quiz-grading';
 import { validateBody, FlashcardReviewSchema } from '@/lib/validations';
+import { REVIEW_CONFIG } from '@/config/review-config';
 
 // POST /api/flashcards/[id]/review - Submit a review for a flashcard
 export async function POST(
@@ -22,7 +38,7 @@ export async function POST(
       );
     }
 
-    const { rating, timeToAnswerMs } = validation.data;
+    const { answer, timeToAnswerMs } = validation.data;
 
     // Get the flashcard
     const flashcard = await getFlashcard(id);
@@ -34,35 +50,69 @@ export async function POST(
       );
     }
 
-    // Convert simple rating to SM-2 rating
-    const sm2Rating = simpleToSM2Rating(rating);
+    // Multiple choice and typed cards can be answered instead of self-rated
+    let grade: QuizGrade | undefined;
+    if (answer !== undefined) {
+      if (!isQuizCard(flashcard)) {
+        return NextResponse.json(
+          { error: 'Only multiple choice and typed cards can be answered' },
+          { status: 400 }
+        );
+      }
+      grade = gradeQuizAnswer(flashcard, answer, timeToAnswerMs);
+    }
+    const rating = grade?.rating ?? validation.data.rating!;
 
-    // Calculate new SM-2 values
-    const result = calculateSM2({
-      rating: sm2Rating,
-      previousEaseFactor: flashcard.easeFactor,
-      previousInterval: flashcard.interval,
-      previousRepetitions: flashcard.repetitions,
-    });
+    // The card and its siblings as they are now, so the review can be undone
+    const previousState = getReviewUndoState(
+      flashcard,
+      flashcard.noteId ? await getFlashcardsByNote(flashcard.noteId) : []
+    );
+
+    // Schedule with the algorithm chosen for the card's deck and the learner's FSRS parameters
+    const now = new Date();
+    const scheduler = getScheduler(flashcard.scheduler, await getFSRSParameters());
+    const result = scheduler.review(flashcard, rating, now);
 
     // Update the flashcard
-    await updateFlashcardAfterReview(
-      id,
-      result.easeFactor,
-      result.interval,
-      result.repetitions,
-      result.nextReview
-    );
+    await updateFlashcardAfterReview(id, result);
+
+    // Keep the other cards of the same note (cloze siblings, the reverse card) out of today's reviews
+    const buriedSiblingIds = flashcard.noteId
+      ? await buryFlashcardSiblings(id, flashcard.noteId, startOfTomorrow())
+      : [];
 
-    // Record the review for analytics
-    await recordFlashcardReview(id, sm2Rating, timeToAnswerMs || 0);
+    // Record the review for analytics (on the SM-2 scale, whichever scheduler is used)
+    const sm2Rating = simpleToSM2Rating(rating);
+    await recordFlashcardReview(id, sm2Rating, timeToAnswerMs || 0, previousState);
+
+    // A failed review is a lapse; cards that lapse too often are suspended as leeches
+    let lapses = flashcard.lapses ?? 0;
+    let leech = false;
+    if (sm2Rating < 3) {
+      lapses = await recordFlashcardLapse(id);
+      leech = isLeechLapse(lapses);
+      if (leech) await setFlashcardLeech(id, true);
+    }
 
     return NextResponse.json({
       success: true,
+      scheduler: scheduler.name,
       nextReview: result.nextReview,
       interval: result.interval,
       easeFactor: result.easeFactor,
       repetitions: result.repetitions,
+      stability: result.stability,
+      difficulty: result.difficulty,
+      cardState: result.cardState,
+      learningStep: result.learningStep,
+      lapses,
+      leech,
+      // Learning steps due within the learn-ahead window come back this session
+      dueInSession: !leech && result.nextReview.getTime() <= now.getTime() + REVIEW_CONFIG.learnAheadMinutes * 60 * 1000,
+      flashcard: { ...flashcard, ...result, lapses, isLeech: flashcard.isLeech || leech, isSuspended: flashcard.isSuspended || leech },
+      buriedSiblingIds,
+      grade,
     });
   } catch (error) {
     console.error('Error reviewing flashcard:', error);
@@ -0,0 +1,57 @@
+// API route for undoing a flashcard review
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  initializeDb,
+  getFlashcard,
+  getLatestFlashcardReview,
+  undoFlashcardReview,
+} from '@/lib/db/client';
+
+// POST /api/flashcards/[id]/review/undo - Undo the card's latest review: its
+// scheduling, lapses and leech state go back to what they were, siblings the
+// review buried come back, and the review is deleted
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+    const flashcard = await getFlashcard(id);
+
+    if (!flashcard) {
+      return NextResponse.json(
+        { error: 'Flashcard not found' },
+        { status: 404 }
+      );
+    }
+
+    const review = await getLatestFlashcardReview(id);
+    if (!review) {
+      return NextResponse.json(
+        { error: 'Flashcard has no review to undo' },
+        { status: 404 }
+      );
+    }
+    if (!review.previousState) {
+      return NextResponse.json(
+        { error: 'This review was recorded before reviews could be undone' },
+        { status: 409 }
+      );
+    }
+
+    await undoFlashcardReview(id, review.id, review.previousState);
+
+    return NextResponse.json({
+      success: true,
+      flashcard: await getFlashcard(id),
+      restoredSiblingIds: review.previousState.siblings.map((sibling) => sibling.id),
+    });
+  } catch (error) {
+    console.error('Error undoing review:', error);
+    return NextResponse.json(
+      { error: 'Failed to undo review' },
+      { status: 500 }
+    );
+  }
+}
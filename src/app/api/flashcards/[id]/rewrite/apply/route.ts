@@ -0,0 +1,64 @@
+// API route for applying a leech rewrite
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb, getFlashcard, getJob } from '@/lib/db/client';
+import { applyLeechRewrite } from '@/lib/services/leeches';
+import { ApplyFlashcardRewriteSchema, validateBody } from '@/lib/validations';
+import { LeechRewriteSuggestion } from '@/types';
+
+// POST /api/flashcards/[id]/rewrite/apply - Save the suggestion of a finished
+// rewrite_leech job and resume the card. It keeps its review history.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+
+    const validation = await validateBody(request, ApplyFlashcardRewriteSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const flashcard = await getFlashcard(id);
+    if (!flashcard) {
+      return NextResponse.json(
+        { error: 'Flashcard not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!flashcard.isLeech) {
+      return NextResponse.json(
+        { error: 'Flashcard is not a leech; the rewrite may already be applied' },
+        { status: 409 }
+      );
+    }
+
+    const job = await getJob(validation.data.jobId);
+    if (!job || job.type !== 'rewrite_leech' || job.subjectId !== id) {
+      return NextResponse.json(
+        { error: 'Rewrite job not found for this flashcard' },
+        { status: 404 }
+      );
+    }
+    if (job.status !== 'succeeded' || !job.result) {
+      return NextResponse.json(
+        { error: `Rewrite job has not succeeded (status: ${job.status})` },
+        { status: 409 }
+      );
+    }
+
+    const result = await applyLeechRewrite(flashcard, job.result.suggestion as LeechRewriteSuggestion);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error applying flashcard rewrite:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply flashcard rewrite' },
+      { status: 500 }
+    );
+  }
+}
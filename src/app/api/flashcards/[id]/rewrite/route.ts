@@ -0,0 +1,97 @@
+// API route for AI rewrites of a leech
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb, getFlashcard, getActiveJob } from '@/lib/db/client';
+import { enqueueJob } from '@/lib/services/job-queue';
+import { getBudgetStatus, formatBudgetExceeded } from '@/lib/services/ai-usage';
+import { canRewriteText } from '@/lib/services/leeches';
+import { RewriteFlashcardSchema, validateBody } from '@/lib/validations';
+import {
+  checkRateLimit,
+  getClientIP,
+  createRateLimitHeaders,
+  RateLimitConfigs,
+} from '@/lib/rate-limiter';
+
+// POST /api/flashcards/[id]/rewrite - Queue a job suggesting a rewrite of a
+// leech: split it, give it a better hint and mnemonic, or attach a lesson excerpt
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Rate limit AI processing
+  const clientIP = getClientIP(request);
+  const rateLimitResult = checkRateLimit(
+    `rewrite:${clientIP}`,
+    RateLimitConfigs.AI_PROCESSING
+  );
+
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { error: 'Too many rewrite requests. Please wait before trying again.' },
+      {
+        status: 429,
+        headers: createRateLimitHeaders(rateLimitResult),
+      }
+    );
+  }
+
+  try {
+    await initializeDb();
+    const { id: flashcardId } = await params;
+
+    const validation = await validateBody(request, RewriteFlashcardSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+    const { mode } = validation.data;
+
+    const flashcard = await getFlashcard(flashcardId);
+    if (!flashcard) {
+      return NextResponse.json(
+        { error: 'Flashcard not found' },
+        { status: 404 }
+      );
+    }
+    if (!flashcard.isLeech) {
+      return NextResponse.json(
+        { error: 'Only leeches can be rewritten' },
+        { status: 409 }
+      );
+    }
+    if (mode === 'split' && !canRewriteText(flashcard)) {
+      return NextResponse.json(
+        { error: 'Only basic question-and-answer cards can be split' },
+        { status: 400 }
+      );
+    }
+
+    // Refuse new AI work once the monthly budget is spent
+    const budget = await getBudgetStatus();
+    if (budget.exceeded) {
+      return NextResponse.json(
+        { error: formatBudgetExceeded(budget), budget },
+        { status: 402 }
+      );
+    }
+
+    // The suggestion is made by a background job; poll GET /api/jobs/[id]
+    const active = await getActiveJob('rewrite_leech', flashcardId);
+    const job = active?.payload.mode === mode
+      ? active
+      : await enqueueJob('rewrite_leech', flashcardId, { flashcardId, mode });
+
+    return NextResponse.json(
+      { jobId: job.id, status: job.status },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error rewriting flashcard:', error);
+    return NextResponse.json(
+      { error: 'Failed to rewrite flashcard' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,161 @@
+// API routes for a single flashcard
+import { NextRequest, NextResponse } from 'next/server';
+import { startOfTomorrow } from 'date-fns';
+import {
+  initializeDb,
+  getFlashcard,
+  getNote,
+  setFlashcardSuspended,
+  setFlashcardLeech,
+  buryFlashcard,
+  setFlashcardFlag,
+  getDeck,
+  moveFlashcardToDeck,
+} from '@/lib/db/client';
+import { applyNoteUpdate, deleteCard, getCardEditError, getCardNoteUpdate, getNoteError, saveNote } from '@/lib/services/notes';
+import { UpdateFlashcardSchema, validateBody } from '@/lib/validations';
+import { Note } from '@/types';
+
+// GET /api/flashcards/[id] - Get a flashcard
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+    const flashcard = await getFlashcard(id);
+
+    if (!flashcard) {
+      return NextResponse.json(
+        { error: 'Flashcard not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ flashcard });
+  } catch (error) {
+    console.error('Error fetching flashcard:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch flashcard' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/flashcards/[id] - Edit a card's content (saved to its note, so
+// sibling cards get it too), suspend or resume it, bury it until tomorrow, set
+// its flag or move it to another deck
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+
+    const validation = await validateBody(request, UpdateFlashcardSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const flashcard = await getFlashcard(id);
+    if (!flashcard) {
+      return NextResponse.json(
+        { error: 'Flashcard not found' },
+        { status: 404 }
+      );
+    }
+
+    const { isSuspended, buried, flag, deckId, ...edit } = validation.data;
+    if (deckId && !(await getDeck(deckId))) {
+      return NextResponse.json(
+        { error: 'Deck not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check the content edit before changing anything
+    let note: Note | null = null;
+    if (Object.values(edit).some((value) => value !== undefined)) {
+      const existing = flashcard.noteId ? await getNote(flashcard.noteId) : null;
+      if (!existing) {
+        return NextResponse.json(
+          { error: 'Note not found' },
+          { status: 404 }
+        );
+      }
+
+      const editError = getCardEditError(flashcard, edit);
+      if (editError) {
+        return NextResponse.json(
+          { error: editError },
+          { status: 400 }
+        );
+      }
+
+      note = applyNoteUpdate(existing, getCardNoteUpdate(flashcard, edit));
+      const noteError = getNoteError(note);
+      if (noteError) {
+        return NextResponse.json(
+          { error: noteError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (note) await saveNote(note);
+
+    // Resuming a leech clears the mark, so it leaves the leech queue
+    if (isSuspended !== undefined) {
+      if (!isSuspended && flashcard.isLeech) {
+        await setFlashcardLeech(id, false);
+      } else {
+        await setFlashcardSuspended(id, isSuspended);
+      }
+    }
+    if (buried !== undefined) await buryFlashcard(id, buried ? startOfTomorrow() : null);
+    if (flag !== undefined) await setFlashcardFlag(id, flag);
+    if (deckId) await moveFlashcardToDeck(id, deckId);
+
+    return NextResponse.json({ flashcard: await getFlashcard(id) });
+  } catch (error) {
+    console.error('Error updating flashcard:', error);
+    return NextResponse.json(
+      { error: 'Failed to update flashcard' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/flashcards/[id] - Delete a card with its note and sibling
+// cards; deleting a reverse card only removes the note's term
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+    const flashcard = await getFlashcard(id);
+
+    if (!flashcard) {
+      return NextResponse.json(
+        { error: 'Flashcard not found' },
+        { status: 404 }
+      );
+    }
+
+    const deletedIds = await deleteCard(flashcard);
+    return NextResponse.json({ success: true, deletedIds });
+  } catch (error) {
+    console.error('Error deleting flashcard:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete flashcard' },
+      { status: 500 }
+    );
+  }
+}
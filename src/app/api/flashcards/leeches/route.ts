@@ -0,0 +1,24 @@
+// API route for leeches
+import { NextResponse } from 'next/server';
+import { initializeDb, getLeechFlashcards } from '@/lib/db/client';
+import { REVIEW_CONFIG } from '@/config/review-config';
+
+// GET /api/flashcards/leeches - Suspended leeches waiting to be rewritten
+export async function GET() {
+  try {
+    await initializeDb();
+    const flashcards = await getLeechFlashcards();
+
+    return NextResponse.json({
+      flashcards,
+      count: flashcards.length,
+      threshold: REVIEW_CONFIG.leech.threshold,
+    });
+  } catch (error) {
+    console.error('Error fetching leeches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch leeches' },
+      { status: 500 }
+    );
+  }
+}
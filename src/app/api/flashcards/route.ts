@@ -1,32 +1,74 @@
 // API routes for flashcards
 import { NextRequest, NextResponse } from 'next/server';
+import { startOfToday } from 'date-fns';
 import {
+  getDecks,
   getDueFlashcards,
+  getFlashcardsByDecks,
   getFlashcardsBySource,
   getFlashcardsByLesson,
+  getFlaggedFlashcards,
+  getReviewCountsSince,
   initializeDb,
 } from '@/lib/db/client';
+import { buildReviewQueue, countQueue } from '@/lib/services/review-queue';
+import { getSubdeckIds } from '@/lib/services/decks';
+import { getFSRSParameters } from '@/lib/services/review-settings';
+import { FLASHCARD_FLAGS, FlashcardFlag, QueueCounts } from '@/types';
 
 // GET /api/flashcards - Get flashcards
 // Query params:
-//   - due=true: Get due flashcards for review
+//   - due=true: Get due flashcards for review, within each deck's daily limits
+//   - deckId=xxx: Only cards of the deck and its subdecks (due ones with due=true)
 //   - sourceId=xxx: Get all flashcards for a source
 //   - lessonId=xxx: Get all flashcards for a lesson
+//   - flag=red: Get flagged flashcards (red, orange, green, blue, or any)
 //   - limit=20: Limit number of cards returned
 export async function GET(request: NextRequest) {
   try {
     await initializeDb();
     const { searchParams } = new URL(request.url);
     const due = searchParams.get('due') === 'true';
+    const deckId = searchParams.get('deckId');
     const sourceId = searchParams.get('sourceId');
     const lessonId = searchParams.get('lessonId');
+    const flag = searchParams.get('flag');
     const limit = parseInt(searchParams.get('limit') || '20', 10);
 
+    if (flag && flag !== 'any' && !(FLASHCARD_FLAGS as readonly string[]).includes(flag)) {
+      return NextResponse.json(
+        { error: `Flag must be one of: ${FLASHCARD_FLAGS.join(', ')}, any` },
+        { status: 400 }
+      );
+    }
+
+    const decks = await getDecks();
+    const deckIds = deckId ? getSubdeckIds(decks, deckId) : undefined;
+    if (deckId && !decks.some((deck) => deck.id === deckId)) {
+      return NextResponse.json(
+        { error: 'Deck not found' },
+        { status: 404 }
+      );
+    }
+
     let flashcards;
+    // Due cards: what is left for today in total, which may be more than the limit
+    let counts: QueueCounts | undefined;
 
-    if (due) {
+    if (due || (!deckId && !sourceId && !lessonId && !flag)) {
       // Get due flashcards for review
-      flashcards = await getDueFlashcards(limit);
+      const [dueCards, doneToday] = await Promise.all([
+        getDueFlashcards(),
+        getReviewCountsSince(startOfToday()),
+      ]);
+      const inDeck = deckIds ? dueCards.filter((card) => deckIds.has(card.deckId ?? '')) : dueCards;
+      // Decks above the one reviewed do not limit it
+      const queue = buildReviewQueue(inDeck, deckIds ? decks.filter((deck) => deckIds.has(deck.id)) : decks, doneToday);
+      flashcards = queue.slice(0, limit);
+      counts = countQueue(queue);
+    } else if (deckIds) {
+      // Get all flashcards in a deck
+      flashcards = await getFlashcardsByDecks([...deckIds]);
     } else if (sourceId) {
       // Get all flashcards for a source
       flashcards = await getFlashcardsBySource(sourceId);
@@ -34,13 +76,16 @@ export async function GET(request: NextRequest) {
       // Get all flashcards for a lesson
       flashcards = await getFlashcardsByLesson(lessonId);
     } else {
-      // Get all due flashcards by default
-      flashcards = await getDueFlashcards(limit);
+      // Get flagged flashcards
+      flashcards = await getFlaggedFlashcards(flag === 'any' ? undefined : flag as FlashcardFlag);
     }
 
     return NextResponse.json({
       flashcards,
       count: flashcards.length,
+      counts,
+      // For predicting intervals on the rating buttons
+      fsrsParameters: await getFSRSParameters(),
     });
   } catch (error) {
     console.error('Error fetching flashcards:', error);
@@ -0,0 +1,99 @@
+// API route streaming background job progress as server-sent events
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb, getJob } from '@/lib/db/client';
+import { subscribeToJob, toJobProgressEvent } from '@/lib/services/job-events';
+import { PollingIntervals } from '@/lib/constants';
+import { JobProgressEvent } from '@/types/jobs';
+
+// Re-read the job this often in case it runs in another server process;
+// the read doubles as a keep-alive
+const RECHECK_INTERVAL_MS = 5000;
+
+function isFinished(event: JobProgressEvent): boolean {
+  return event.status === 'succeeded' || event.status === 'failed';
+}
+
+// GET /api/jobs/[id]/events - Stream phase, current/total and percent updates
+// until the job succeeds or fails
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+
+    const job = await getJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        let lastSent = '';
+
+        const send = (event: JobProgressEvent) => {
+          if (closed) return;
+          const data = JSON.stringify(event);
+          if (data === lastSent) return;
+          lastSent = data;
+          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+          if (isFinished(event)) close();
+        };
+
+        const unsubscribe = subscribeToJob(id, send);
+        const recheck = setInterval(async () => {
+          try {
+            const latest = await getJob(id);
+            if (latest) send(toJobProgressEvent(latest));
+            if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+          } catch (error) {
+            console.error('Error re-reading job for progress stream:', error);
+          }
+        }, RECHECK_INTERVAL_MS);
+
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          unsubscribe();
+          clearInterval(recheck);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        };
+        cleanup = close;
+
+        request.signal.addEventListener('abort', close);
+        // Tell EventSource how long to wait before reconnecting
+        controller.enqueue(encoder.encode(`retry: ${PollingIntervals.PROCESSING_STATUS_SLOW}\n\n`));
+        send(toJobProgressEvent(job));
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error streaming job progress:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream job progress' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+// API route for background job status
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb, getJob } from '@/lib/db/client';
+
+// GET /api/jobs/[id] - Get a job's status, progress and result
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+
+    const job = await getJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Error getting job:', error);
+    return NextResponse.json(
+      { error: 'Failed to get job' },
+      { status: 500 }
+    );
+  }
+}
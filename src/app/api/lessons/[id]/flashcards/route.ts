@@ -0,0 +1,81 @@
+// API route for generating extra flashcards for a lesson
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb, getMicroLesson, getActiveJob } from '@/lib/db/client';
+import { enqueueJob } from '@/lib/services/job-queue';
+import { getBudgetStatus, formatBudgetExceeded } from '@/lib/services/ai-usage';
+import { GenerateFlashcardsSchema, validateBody } from '@/lib/validations';
+import {
+  checkRateLimit,
+  getClientIP,
+  createRateLimitHeaders,
+  RateLimitConfigs,
+} from '@/lib/rate-limiter';
+
+// POST /api/lessons/[id]/flashcards - Queue a job generating flashcards in the
+// given formats (multiple choice and typed by default)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // Rate limit AI processing
+  const clientIP = getClientIP(request);
+  const rateLimitResult = checkRateLimit(
+    `flashcards:${clientIP}`,
+    RateLimitConfigs.AI_PROCESSING
+  );
+
+  if (!rateLimitResult.allowed) {
+    return NextResponse.json(
+      { error: 'Too many flashcard generation requests. Please wait before trying again.' },
+      {
+        status: 429,
+        headers: createRateLimitHeaders(rateLimitResult),
+      }
+    );
+  }
+
+  try {
+    await initializeDb();
+    const { id: lessonId } = await params;
+
+    const validation = await validateBody(request, GenerateFlashcardsSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const lesson = await getMicroLesson(lessonId);
+    if (!lesson) {
+      return NextResponse.json(
+        { error: 'Lesson not found' },
+        { status: 404 }
+      );
+    }
+
+    // Refuse new AI work once the monthly budget is spent
+    const budget = await getBudgetStatus();
+    if (budget.exceeded) {
+      return NextResponse.json(
+        { error: formatBudgetExceeded(budget), budget },
+        { status: 402 }
+      );
+    }
+
+    // Generation runs as a background job; poll GET /api/jobs/[id]
+    const job = await getActiveJob('generate_flashcards', lessonId)
+      || await enqueueJob('generate_flashcards', lessonId, { lessonId, formats: validation.data.formats });
+
+    return NextResponse.json(
+      { jobId: job.id, status: job.status },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error generating flashcards:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate flashcards' },
+      { status: 500 }
+    );
+  }
+}
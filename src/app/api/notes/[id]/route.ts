@@ -0,0 +1,79 @@
+// API routes for flashcard notes
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb, getNote, getFlashcardsByNote } from '@/lib/db/client';
+import { applyNoteUpdate, getNoteError, saveNote } from '@/lib/services/notes';
+import { UpdateNoteSchema, validateBody } from '@/lib/validations';
+
+// GET /api/notes/[id] - Get a note with its cards
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+    const note = await getNote(id);
+
+    if (!note) {
+      return NextResponse.json(
+        { error: 'Note not found' },
+        { status: 404 }
+      );
+    }
+
+    const flashcards = await getFlashcardsByNote(id);
+    return NextResponse.json({ note, flashcards });
+  } catch (error) {
+    console.error('Error fetching note:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch note' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/notes/[id] - Edit a note. Its cards get the new content and keep
+// their scheduling; setting or clearing `term` adds or removes the reverse card.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+
+    const validation = await validateBody(request, UpdateNoteSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getNote(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Note not found' },
+        { status: 404 }
+      );
+    }
+
+    const note = applyNoteUpdate(existing, validation.data);
+    const noteError = getNoteError(note);
+    if (noteError) {
+      return NextResponse.json(
+        { error: noteError },
+        { status: 400 }
+      );
+    }
+
+    const flashcards = await saveNote(note);
+    return NextResponse.json({ note, flashcards });
+  } catch (error) {
+    console.error('Error updating note:', error);
+    return NextResponse.json(
+      { error: 'Failed to update note' },
+      { status: 500 }
+    );
+  }
+}
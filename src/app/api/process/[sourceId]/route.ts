@@ -2,14 +2,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getSource,
-  updateSourceStatus,
-  createMicroLessons,
-  createFlashcards,
   getMicroLessons,
+  getActiveJob,
   initializeDb,
   getOne,
 } from '@/lib/db/client';
-import { chunkContent } from '@/lib/ai/chunker';
+import { enqueueJob } from '@/lib/services/job-queue';
+import { getBudgetStatus, formatBudgetExceeded } from '@/lib/services/ai-usage';
+import { loadCheckpoints } from '@/lib/services/checkpoints';
 import {
   checkRateLimit,
   getClientIP,
@@ -17,7 +17,7 @@ import {
   RateLimitConfigs,
 } from '@/lib/rate-limiter';
 
-// POST /api/process/[sourceId] - Process a source into micro-lessons
+// POST /api/process/[sourceId] - Queue a job processing a source into micro-lessons
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ sourceId: string }> }
@@ -51,6 +51,13 @@ export async function POST(
       );
     }
 
+    if (source.processingStatus === 'extracting') {
+      return NextResponse.json(
+        { error: 'Source is still being transcribed' },
+        { status: 409 }
+      );
+    }
+
     if (!source.rawText) {
       return NextResponse.json(
         { error: 'Source has no text content to process' },
@@ -58,65 +65,37 @@ export async function POST(
       );
     }
 
-    // Check if already processed
+    // Check if already processed (checkpoints left behind mean an attempt was interrupted)
     const existingLessons = await getMicroLessons(sourceId);
-    if (existingLessons.length > 0) {
+    const checkpoints = await loadCheckpoints(sourceId, 'lessons');
+    if (existingLessons.length > 0 && checkpoints.size === 0) {
       return NextResponse.json({
         message: 'Source already processed',
         lessonCount: existingLessons.length,
       });
     }
 
-    // Update status to processing
-    await updateSourceStatus(sourceId, 'chunking', 10);
-
-    try {
-      // Process content with AI
-      const result = await chunkContent(source.rawText, sourceId, source.title);
-
-      await updateSourceStatus(sourceId, 'generating_cards', 50);
-
-      // Create lessons in database
-      const lessons = await createMicroLessons(result.lessons);
-
-      // Create flashcards and link to lessons
-      // Distribute flashcards across lessons
-      const cardsPerLesson = Math.ceil(result.flashcards.length / lessons.length);
-
-      for (let i = 0; i < lessons.length; i++) {
-        const lessonFlashcards = result.flashcards.slice(
-          i * cardsPerLesson,
-          (i + 1) * cardsPerLesson
-        );
+    // Refuse new AI work once the monthly budget is spent
+    const budget = await getBudgetStatus();
+    if (budget.exceeded) {
+      return NextResponse.json(
+        { error: formatBudgetExceeded(budget), budget },
+        { status: 402 }
+      );
+    }
 
-        if (lessonFlashcards.length > 0) {
-          await createFlashcards(
-            lessonFlashcards.map((card) => ({
-              ...card,
-              lessonId: lessons[i].id,
-            }))
-          );
-        }
-      }
+    // Optional body: { bypassCache: true } calls the model even for cached segments
+    const body = await request.json().catch(() => ({}));
+    const bypassCache = body?.bypassCache === true;
 
-      // Mark as complete
-      await updateSourceStatus(sourceId, 'complete', 100);
+    // Lesson generation runs as a background job; poll GET /api/jobs/[id]
+    const job = await getActiveJob('process_source', sourceId)
+      || await enqueueJob('process_source', sourceId, { sourceId, bypassCache });
 
-      return NextResponse.json({
-        success: true,
-        lessonCount: lessons.length,
-        flashcardCount: result.flashcards.length,
-      });
-    } catch (aiError) {
-      console.error('AI processing error:', aiError);
-      await updateSourceStatus(
-        sourceId,
-        'error',
-        0,
-        aiError instanceof Error ? aiError.message : 'AI processing failed'
-      );
-      throw aiError;
-    }
+    return NextResponse.json(
+      { jobId: job.id, status: job.status },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Error processing source:', error);
     return NextResponse.json(
@@ -0,0 +1,38 @@
+// API route for switching the active version of a prompt template
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb } from '@/lib/db/client';
+import { activatePromptVersion, isPromptTemplateName } from '@/lib/ai/prompt-templates';
+import { ActivatePromptVersionSchema, validateBody } from '@/lib/validations';
+
+// POST /api/prompts/[name]/activate - Use a version for new generations (also rolls back)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    await initializeDb();
+    const { name } = await params;
+
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 });
+    }
+
+    const validation = await validateBody(request, ActivatePromptVersionSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const template = await activatePromptVersion(name, validation.data.version);
+    if (!template) {
+      return NextResponse.json({ error: 'Prompt template version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    console.error('Error activating prompt template version:', error);
+    return NextResponse.json(
+      { error: 'Failed to activate prompt template version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+// API route for comparing two versions of a prompt template
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb } from '@/lib/db/client';
+import { diffPromptBodies, getPromptTemplateHistory, isPromptTemplateName } from '@/lib/ai/prompt-templates';
+import { PromptDiffQuerySchema, validateQuery } from '@/lib/validations';
+import { PromptDiff } from '@/types/prompts';
+
+// GET /api/prompts/[name]/diff?from=1&to=2 - Line diff between versions.
+// `to` defaults to the active version and `from` to the version before `to`.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    await initializeDb();
+    const { name } = await params;
+    const { searchParams } = new URL(request.url);
+
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 });
+    }
+
+    const query = validateQuery(searchParams, PromptDiffQuerySchema);
+    if (!query.success) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    const versions = await getPromptTemplateHistory(name);
+    const to = query.data.to ?? versions.find((version) => version.isActive)?.version ?? versions.length;
+    const from = query.data.from ?? Math.max(to - 1, 1);
+
+    const fromTemplate = versions.find((version) => version.version === from);
+    const toTemplate = versions.find((version) => version.version === to);
+    if (!fromTemplate || !toTemplate) {
+      return NextResponse.json({ error: 'Prompt template version not found' }, { status: 404 });
+    }
+
+    const diff: PromptDiff = {
+      name,
+      from,
+      to,
+      lines: diffPromptBodies(fromTemplate.body, toTemplate.body),
+    };
+    return NextResponse.json(diff);
+  } catch (error) {
+    console.error('Error diffing prompt template versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to diff prompt template versions' },
+      { status: 500 }
+    );
+  }
+}
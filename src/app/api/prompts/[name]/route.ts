@@ -0,0 +1,72 @@
+// API routes for the versions of one prompt template
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb } from '@/lib/db/client';
+import {
+  createPromptVersion,
+  findUnknownVariables,
+  getPromptTemplateHistory,
+  isPromptTemplateName,
+} from '@/lib/ai/prompt-templates';
+import { CreatePromptVersionSchema, validateBody } from '@/lib/validations';
+
+// GET /api/prompts/[name] - All versions of a template, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    await initializeDb();
+    const { name } = await params;
+
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 });
+    }
+
+    const versions = await getPromptTemplateHistory(name);
+    return NextResponse.json({ name, versions });
+  } catch (error) {
+    console.error('Error getting prompt template:', error);
+    return NextResponse.json(
+      { error: 'Failed to get prompt template' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/prompts/[name] - Save a new version, optionally activating it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    await initializeDb();
+    const { name } = await params;
+
+    if (!isPromptTemplateName(name)) {
+      return NextResponse.json({ error: 'Prompt template not found' }, { status: 404 });
+    }
+
+    const validation = await validateBody(request, CreatePromptVersionSchema);
+    if (!validation.success) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { body, description, activate } = validation.data;
+    const unknown = findUnknownVariables(body);
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown template variables: ${unknown.map((variable) => `{{${variable}}}`).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const template = await createPromptVersion(name, body, { description, activate });
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating prompt template version:', error);
+    return NextResponse.json(
+      { error: 'Failed to create prompt template version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+// API route for the editable prompt templates
+import { NextResponse } from 'next/server';
+import { initializeDb } from '@/lib/db/client';
+import { getPromptVariables, listPromptTemplates } from '@/lib/ai/prompt-templates';
+
+// GET /api/prompts - Templates with their active version, and the variables they can use
+export async function GET() {
+  try {
+    await initializeDb();
+
+    const templates = await listPromptTemplates();
+    return NextResponse.json({ templates, variables: getPromptVariables() });
+  } catch (error) {
+    console.error('Error listing prompt templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to list prompt templates' },
+      { status: 500 }
+    );
+  }
+}
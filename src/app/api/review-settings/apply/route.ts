@@ -0,0 +1,52 @@
+// API route for applying optimized FSRS weights
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb, getJob } from '@/lib/db/client';
+import { updateFSRSSettings } from '@/lib/services/review-settings';
+import { ApplyFSRSWeightsSchema, validateBody } from '@/lib/validations';
+import { FSRSOptimizationResult } from '@/types/review';
+
+// POST /api/review-settings/apply - Use the weights fitted by a finished optimize_fsrs job
+export async function POST(request: NextRequest) {
+  try {
+    await initializeDb();
+
+    const validation = await validateBody(request, ApplyFSRSWeightsSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const job = await getJob(validation.data.jobId);
+    if (!job || job.type !== 'optimize_fsrs') {
+      return NextResponse.json(
+        { error: 'Optimization job not found' },
+        { status: 404 }
+      );
+    }
+    if (job.status !== 'succeeded' || !job.result) {
+      return NextResponse.json(
+        { error: `Optimization job has not succeeded (status: ${job.status})` },
+        { status: 409 }
+      );
+    }
+
+    const result = job.result as unknown as FSRSOptimizationResult;
+    if (!result.improved) {
+      return NextResponse.json(
+        { error: 'Optimized weights do not fit the review history better than the current ones' },
+        { status: 409 }
+      );
+    }
+
+    const settings = await updateFSRSSettings({ weights: result.weights });
+    return NextResponse.json({ settings, before: result.before, after: result.after });
+  } catch (error) {
+    console.error('Error applying FSRS weights:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply FSRS weights' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+// API route for fitting FSRS weights to the review history
+import { NextResponse } from 'next/server';
+import { initializeDb, getActiveJob } from '@/lib/db/client';
+import { enqueueJob } from '@/lib/services/job-queue';
+
+// POST /api/review-settings/optimize - Queue an optimize_fsrs job. Poll
+// GET /api/jobs/[id] for log-loss and RMSE before and after, then apply the
+// weights with POST /api/review-settings/apply.
+export async function POST() {
+  try {
+    await initializeDb();
+
+    const job = await getActiveJob('optimize_fsrs', 'review_history')
+      || await enqueueJob('optimize_fsrs', 'review_history', {});
+
+    return NextResponse.json(
+      { jobId: job.id, status: job.status },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error starting FSRS optimization:', error);
+    return NextResponse.json(
+      { error: 'Failed to start FSRS optimization' },
+      { status: 500 }
+    );
+  }
+}
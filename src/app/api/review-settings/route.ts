@@ -0,0 +1,49 @@
+// API routes for flashcard review settings
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeDb } from '@/lib/db/client';
+import { getReviewSettings, updateFSRSSettings } from '@/lib/services/review-settings';
+import { UpdateReviewSettingsSchema, validateBody } from '@/lib/validations';
+
+// GET /api/review-settings - Default scheduler and the FSRS weights and desired retention in use
+export async function GET() {
+  try {
+    await initializeDb();
+    const settings = await getReviewSettings();
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error getting review settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to get review settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/review-settings - Set desired retention, or restore defaults with null.
+// Changes apply to intervals from each card's next review.
+export async function PATCH(request: NextRequest) {
+  try {
+    await initializeDb();
+
+    const validation = await validateBody(request, UpdateReviewSettingsSchema);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+
+    const settings = await updateFSRSSettings({
+      requestRetention: validation.data.desiredRetention,
+      weights: validation.data.weights,
+    });
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error updating review settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update review settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+// API route for serving a source's original uploaded file
+import fs from 'fs';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSource, initializeDb } from '@/lib/db/client';
+import { resolveUploadedFile, getFileExtension, getUploadedFileMimeType } from '@/lib/services/file-storage';
+
+// GET /api/sources/[id]/file - Stream the original file (open PDFs at a page with #page=N)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await initializeDb();
+    const { id } = await params;
+    const source = await getSource(id);
+
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Source not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!source.filePath) {
+      return NextResponse.json(
+        { error: 'No original file stored for this source' },
+        { status: 404 }
+      );
+    }
+
+    const filePath = resolveUploadedFile(source.filePath);
+    if (!fs.existsSync(filePath)) {
+      return NextResponse.json(
+        { error: 'Original file is missing' },
+        { status: 404 }
+      );
+    }
+
+    const buffer = await fs.promises.readFile(filePath);
+    const safeTitle = source.title.replace(/[^\w .-]+/g, '_').slice(0, 100);
+
+    return new NextResponse(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': getUploadedFileMimeType(source.filePath),
+        'Content-Length': String(buffer.length),
+        'Content-Disposition': `inline; filename="${safeTitle}${getFileExtension(source.filePath)}"`,
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving source file:', error);
+    return NextResponse.json(
+      { error: 'Failed to load source file' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 // API routes for individual source operations
 import { NextRequest, NextResponse } from 'next/server';
 import { getSource, deleteSource, initializeDb } from '@/lib/db/client';
+import { deleteUploadedFile } from '@/lib/services/file-storage';
 
 // GET /api/sources/[id] - Get a single source
 export async function GET(
@@ -47,6 +48,11 @@ export async function DELETE(
     }
 
     await deleteSource(id);
+    if (source.filePath) {
+      await deleteUploadedFile(source.filePath).catch((error) => {
+        console.error('Failed to remove uploaded file:', error);
+      });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
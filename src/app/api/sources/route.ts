@@ -1,7 +1,14 @@
 // API routes for managing sources
 import { NextRequest, NextResponse } from 'next/server';
-import { createSource, getAllSources, initializeDb } from '@/lib/db/client';
-import { extractPdfText, cleanExtractedText, extractTitle } from '@/lib/services/pdf-extractor';
+import { createSource, getAllSources, initializeDb, updateSourceStatus } from '@/lib/db/client';
+import { extractTitle } from '@/lib/services/pdf-extractor';
+import { findExtractor, getSupportedFormatLabels } from '@/lib/services/extractor-registry';
+import { importYouTubeTranscript } from '@/lib/services/youtube';
+import { importWebArticle } from '@/lib/services/web-extractor';
+import { saveUploadedFile, getFileExtension } from '@/lib/services/file-storage';
+import { enqueueJob } from '@/lib/services/job-queue';
+import { AudioSourceSchema, UrlSourceSchema, YouTubeSourceSchema } from '@/lib/validations';
+import { FileUploadLimits } from '@/lib/constants';
 
 // Maximum file size: 50MB
 const MAX_FILE_SIZE_BYTES = 50 * 1024 * 1024;
@@ -21,7 +28,12 @@ export async function GET() {
   }
 }
 
-// POST /api/sources - Create a new source (upload PDF or submit text)
+function isAudioUpload(file: File): boolean {
+  return (FileUploadLimits.ALLOWED_AUDIO_EXTENSIONS as readonly string[]).includes(getFileExtension(file.name)) ||
+    (FileUploadLimits.ALLOWED_AUDIO_MIME_TYPES as readonly string[]).includes(file.type);
+}
+
+// POST /api/sources - Create a new source (upload a document or audio, submit text, import a web article or a YouTube transcript)
 export async function POST(request: NextRequest) {
   try {
     await initializeDb();
@@ -40,10 +52,53 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      if (isAudioUpload(file)) {
+        const parsed = AudioSourceSchema.safeParse({
+          type: 'audio',
+          title: title || undefined,
+          language: (formData.get('language') as string | null) || undefined,
+        });
+        if (!parsed.success) {
+          const errors = parsed.error.issues.map(e => `${e.path.join('.')}: ${e.message}`);
+          return NextResponse.json(
+            { error: errors.join(', ') },
+            { status: 400 }
+          );
+        }
+
+        if (file.size > FileUploadLimits.MAX_AUDIO_SIZE_BYTES) {
+          return NextResponse.json(
+            { error: `File too large. Maximum audio size is ${FileUploadLimits.MAX_AUDIO_SIZE_MB}MB` },
+            { status: 400 }
+          );
+        }
+
+        const extension = getFileExtension(file.name) || '.audio';
+        const filePath = await saveUploadedFile(Buffer.from(await file.arrayBuffer()), extension);
+
+        const source = await createSource({
+          type: 'audio',
+          title: parsed.data.title || file.name.replace(/\.[^.]+$/, ''),
+          filePath,
+        });
+
+        // Transcription runs as a background job; clients poll GET /api/jobs/[id].
+        // The source is `extracting` until then so it can't be processed early.
+        await updateSourceStatus(source.id, 'extracting', 0);
+        const job = await enqueueJob('transcribe_audio', source.id, {
+          sourceId: source.id,
+          filePath,
+          language: parsed.data.language,
+        });
+
+        return NextResponse.json({ source, status: 'extracting', jobId: job.id });
+      }
+
       // Check file type
-      if (!file.name.toLowerCase().endsWith('.pdf')) {
+      const extractor = findExtractor({ fileName: file.name, mimeType: file.type });
+      if (!extractor) {
         return NextResponse.json(
-          { error: 'Only PDF files are supported currently' },
+          { error: `Unsupported file type. Supported: ${getSupportedFormatLabels().join(', ')} and audio (MP3, WAV, M4A)` },
           { status: 400 }
         );
       }
@@ -60,22 +115,41 @@ export async function POST(request: NextRequest) {
       const arrayBuffer = await file.arrayBuffer();
       const buffer = Buffer.from(arrayBuffer);
 
-      // Extract text from PDF
-      const extracted = await extractPdfText(buffer);
-      const cleanedText = cleanExtractedText(extracted.text);
-      const detectedTitle = extractTitle(cleanedText, extracted.metadata);
+      // Extract text with the format's extractor
+      const extracted = await extractor.extract(buffer);
+      if (!extracted.text.trim()) {
+        return NextResponse.json(
+          { error: `No text could be extracted from this ${extractor.label} file` },
+          { status: 422 }
+        );
+      }
+      const detectedTitle = extractTitle(extracted.text, extracted.metadata);
+
+      // Keep the original of paged documents so lessons can link to their pages
+      const filePath = extracted.pageMap
+        ? await saveUploadedFile(buffer, getFileExtension(file.name) || '.pdf')
+        : undefined;
 
       // Create source record
       const source = await createSource({
-        type: 'pdf',
+        type: extractor.sourceType,
         title: title || detectedTitle,
-        rawText: cleanedText,
+        filePath,
+        rawText: extracted.text,
+        metadata: {
+          author: extracted.metadata.author,
+          subject: extracted.metadata.subject,
+          pageCount: extracted.pageCount,
+          pageMap: extracted.pageMap,
+          headings: extracted.headings,
+        },
       });
 
       return NextResponse.json({
         source,
         pageCount: extracted.pageCount,
-        wordCount: cleanedText.split(/\s+/).length,
+        headingCount: extracted.headings?.length || 0,
+        wordCount: extracted.text.split(/\s+/).length,
       });
     } else {
       // Handle JSON body (text input)
@@ -98,16 +172,87 @@ export async function POST(request: NextRequest) {
 
         return NextResponse.json({ source });
       } else if (type === 'youtube') {
-        // YouTube processing will be added in Phase 2
-        return NextResponse.json(
-          { error: 'YouTube processing not yet implemented' },
-          { status: 501 }
-        );
+        const parsed = YouTubeSourceSchema.safeParse(body);
+        if (!parsed.success) {
+          const errors = parsed.error.issues.map(e => `${e.path.join('.')}: ${e.message}`);
+          return NextResponse.json(
+            { error: errors.join(', ') },
+            { status: 400 }
+          );
+        }
+
+        let transcript;
+        try {
+          transcript = await importYouTubeTranscript(parsed.data);
+        } catch (importError) {
+          return NextResponse.json(
+            { error: importError instanceof Error ? importError.message : 'Could not import the transcript' },
+            { status: 422 }
+          );
+        }
+        if (!transcript) {
+          return NextResponse.json(
+            { error: 'No captions found for this video. Upload a caption file (SRT, VTT or JSON3) instead.' },
+            { status: 422 }
+          );
+        }
+
+        const source = await createSource({
+          type: 'youtube',
+          title: parsed.data.title || transcript.videoTitle || `YouTube video ${transcript.videoId}`,
+          originalUrl: url,
+          rawText: transcript.text,
+        });
+
+        return NextResponse.json({
+          source,
+          cueCount: transcript.cues.length,
+          wordCount: transcript.cues.reduce((acc, cue) => acc + cue.text.split(/\s+/).length, 0),
+        });
+      } else if (type === 'url') {
+        const parsed = UrlSourceSchema.safeParse(body);
+        if (!parsed.success) {
+          const errors = parsed.error.issues.map(e => `${e.path.join('.')}: ${e.message}`);
+          return NextResponse.json(
+            { error: errors.join(', ') },
+            { status: 400 }
+          );
+        }
+
+        let article;
+        try {
+          article = await importWebArticle(parsed.data);
+        } catch (importError) {
+          return NextResponse.json(
+            { error: importError instanceof Error ? importError.message : 'Could not extract the article' },
+            { status: 422 }
+          );
+        }
+
+        const source = await createSource({
+          type: 'url',
+          title: parsed.data.title || extractTitle(article.text, article.metadata),
+          originalUrl: article.canonicalUrl || parsed.data.url,
+          rawText: article.text,
+          metadata: {
+            author: article.author,
+            subject: article.metadata.subject,
+            headings: article.headings,
+            canonicalUrl: article.canonicalUrl,
+            publishedAt: article.publishedAt,
+            siteName: article.siteName,
+          },
+        });
+
+        return NextResponse.json({
+          source,
+          headingCount: article.headings?.length || 0,
+          wordCount: article.text.split(/\s+/).length,
+        });
       } else if (type === 'audio') {
-        // Audio processing will be added in Phase 2
         return NextResponse.json(
-          { error: 'Audio processing not yet implemented' },
-          { status: 501 }
+          { error: 'Audio sources must be uploaded as multipart/form-data with a file field' },
+          { status: 400 }
         );
       }
 
@@ -4,11 +4,10 @@ import {
   initializeDb,
   getSource,
   getSummariesBySource,
-  createSummaries,
-  createDocumentSegments,
-  deleteDocumentSegments,
+  getActiveJob,
 } from '@/lib/db/client';
-import { generateHierarchicalSummaries } from '@/lib/ai/summarizer';
+import { enqueueJob } from '@/lib/services/job-queue';
+import { getBudgetStatus, formatBudgetExceeded } from '@/lib/services/ai-usage';
 import {
   checkRateLimit,
   getClientIP,
@@ -66,7 +65,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/summaries - Generate summaries for a source
+// POST /api/summaries - Queue a job generating summaries for a source
 export async function POST(request: NextRequest) {
   // Rate limit AI processing
   const clientIP = getClientIP(request);
@@ -96,7 +95,7 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    const { sourceId, forceRegenerate = false } = body;
+    const { sourceId, forceRegenerate = false, bypassCache = false } = body;
 
     if (!sourceId) {
       return NextResponse.json(
@@ -130,40 +129,23 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Delete existing segments if regenerating
-    if (forceRegenerate) {
-      await deleteDocumentSegments(sourceId);
+    // Refuse new AI work once the monthly budget is spent
+    const budget = await getBudgetStatus();
+    if (budget.exceeded) {
+      return NextResponse.json(
+        { error: formatBudgetExceeded(budget), budget },
+        { status: 402 }
+      );
     }
 
-    // Generate hierarchical summaries
-    const result = await generateHierarchicalSummaries({
-      sourceId,
-      sourceTitle: source.title,
-      text: source.rawText,
-    });
-
-    // Store segments in database
-    const segmentsToStore = result.segments.map((seg, i) => ({
-      sourceId: seg.sourceId,
-      segmentIndex: i,
-      startIndex: seg.startIndex,
-      endIndex: seg.endIndex,
-      sectionTitle: seg.sectionTitle,
-      level: seg.level,
-      estimatedTokens: seg.estimatedTokens,
-    }));
-
-    await createDocumentSegments(segmentsToStore);
-
-    // Store summaries in database
-    const savedSummaries = await createSummaries(result.summaries);
-
-    return NextResponse.json({
-      success: true,
-      segmentCount: result.segments.length,
-      summaryCount: savedSummaries.length,
-      summaries: savedSummaries,
-    });
+    // Summarization runs as a background job; poll GET /api/jobs/[id]
+    const job = await getActiveJob('generate_summaries', sourceId)
+      || await enqueueJob('generate_summaries', sourceId, { sourceId, forceRegenerate, bypassCache: bypassCache === true });
+
+    return NextResponse.json(
+      { jobId: job.id, status: job.status },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Error generating summaries:', error);
     return NextResponse.json(
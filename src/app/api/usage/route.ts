@@ -0,0 +1,50 @@
+// API route for AI token usage and estimated cost
+import { NextRequest, NextResponse } from 'next/server';
+import { getAIUsageRollups, initializeDb } from '@/lib/db/client';
+import { getBudgetStatus, getMonthStart } from '@/lib/services/ai-usage';
+import { UsageQuerySchema, validateQuery } from '@/lib/validations';
+import { UsageReport } from '@/types/usage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/usage?from=YYYY-MM-DD&to=YYYY-MM-DD - Usage rolled up per source, day and operation
+export async function GET(request: NextRequest) {
+  try {
+    await initializeDb();
+    const { searchParams } = new URL(request.url);
+
+    const query = validateQuery(searchParams, UsageQuerySchema);
+    if (!query.success) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    const from = query.data.from ? new Date(`${query.data.from}T00:00:00Z`) : getMonthStart();
+    // `to` names the last day included
+    const to = query.data.to
+      ? new Date(new Date(`${query.data.to}T00:00:00Z`).getTime() + DAY_MS)
+      : new Date(Date.now() + DAY_MS);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const [rollups, budget] = await Promise.all([
+      getAIUsageRollups(from, to),
+      getBudgetStatus(),
+    ]);
+
+    const report: UsageReport = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      ...rollups,
+      budget,
+    };
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error fetching AI usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch AI usage' },
+      { status: 500 }
+    );
+  }
+}
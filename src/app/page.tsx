@@ -7,9 +7,16 @@ import { Upload, Library, BookOpen, Brain } from 'lucide-react';
 import { UploadPortal } from '@/components/upload/upload-portal';
 import { LibraryBrowser } from '@/components/library/library-browser';
 import { FlashcardReview } from '@/components/flashcards/flashcard-review';
+import { LeechQueue } from '@/components/flashcards/leech-queue';
+import { DeckPicker } from '@/components/flashcards/deck-picker';
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState('library');
+  // Bumped when a review suspends a leech, so the leech queue refreshes
+  const [leechRefreshKey, setLeechRefreshKey] = useState(0);
+  // Deck being reviewed (null for all), and a key bumped after reviews to refresh its due counts
+  const [deckId, setDeckId] = useState<string | null>(null);
+  const [deckRefreshKey, setDeckRefreshKey] = useState(0);
   const router = useRouter();
 
   return (
@@ -63,8 +70,14 @@ export default function Home() {
             }} />
           </TabsContent>
 
-          <TabsContent value="review">
-            <FlashcardReview />
+          <TabsContent value="review" className="space-y-8">
+            <DeckPicker selectedDeckId={deckId} onSelect={setDeckId} refreshKey={deckRefreshKey} />
+            <FlashcardReview
+              deckId={deckId}
+              onLeech={() => setLeechRefreshKey((prev) => prev + 1)}
+              onReview={() => setDeckRefreshKey((prev) => prev + 1)}
+            />
+            <LeechQueue refreshKey={leechRefreshKey} />
           </TabsContent>
         </Tabs>
       </div>
@@ -21,8 +21,11 @@ import {
   Home,
   ChevronLeft,
   ChevronRight,
+  BookOpen,
 } from 'lucide-react';
 import { Source, MicroLesson, Flashcard } from '@/types';
+import { formatPageRange } from '@/lib/services/page-map';
+import { formatCloze } from '@/lib/services/cloze';
 import ReactMarkdown from 'react-markdown';
 import rehypeSanitize from 'rehype-sanitize';
 
@@ -281,6 +284,24 @@ export default function StudyPage({ params }: StudyPageProps) {
                       ? 'Intermediate'
                       : 'Advanced'}
                   </Badge>
+                  {currentLesson.pageStart !== undefined && (
+                    source.filePath ? (
+                      <a
+                        href={`/api/sources/${sourceId}/file#page=${currentLesson.pageStart}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-muted-foreground hover:text-primary hover:underline flex items-center"
+                      >
+                        <BookOpen className="w-3 h-3 mr-1" />
+                        from {formatPageRange(currentLesson.pageStart, currentLesson.pageEnd)}
+                      </a>
+                    ) : (
+                      <span className="text-xs text-muted-foreground flex items-center">
+                        <BookOpen className="w-3 h-3 mr-1" />
+                        from {formatPageRange(currentLesson.pageStart, currentLesson.pageEnd)}
+                      </span>
+                    )
+                  )}
                 </div>
                 <CardTitle className="text-2xl">{currentLesson.title}</CardTitle>
               </CardHeader>
@@ -330,7 +351,7 @@ export default function StudyPage({ params }: StudyPageProps) {
                     <div className="flex flex-wrap gap-2">
                       {lessonFlashcards.slice(0, 3).map((card) => (
                         <Badge key={card.id} variant="secondary" className="text-xs">
-                          {card.visualCue} {card.front.slice(0, 30)}...
+                          {card.visualCue} {(card.cardType === 'cloze' ? formatCloze(card.front, card.clozeIndex ?? 1) : card.front).slice(0, 30)}...
                         </Badge>
                       ))}
                       {lessonFlashcards.length > 3 && (
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Layers, MoreVertical, Plus, Settings, Trash2, FolderPlus } from 'lucide-react';
+import { Deck, QueueCounts } from '@/types';
+import { flattenDeckTree } from '@/lib/services/decks';
+import { QueueCounters } from './queue-counters';
+import { DeckSettings } from './deck-settings';
+
+interface DeckPickerProps {
+  // null reviews every deck
+  selectedDeckId: string | null;
+  onSelect: (deckId: string | null) => void;
+  // Changes after reviews, so the due counts stay current
+  refreshKey?: number;
+}
+
+/**
+ * Decks with the cards left today in each, to choose what to review
+ */
+export function DeckPicker({ selectedDeckId, onSelect, refreshKey }: DeckPickerProps) {
+  const [decks, setDecks] = useState<Deck[]>([]);
+  // Deck being created, inside parentId when set
+  const [newDeck, setNewDeck] = useState<{ name: string; parentId?: string } | null>(null);
+  const [settingsDeck, setSettingsDeck] = useState<Deck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDecks = async () => {
+    try {
+      const res = await fetch('/api/decks');
+      if (!res.ok) throw new Error('Failed to fetch decks');
+      const data = await res.json();
+      setDecks(data.decks);
+    } catch (err) {
+      console.error('Failed to fetch decks:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchDecks();
+  }, [refreshKey]);
+
+  const handleCreate = async () => {
+    if (!newDeck?.name.trim()) return;
+    setError(null);
+
+    try {
+      const res = await fetch('/api/decks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newDeck.name.trim(), parentId: newDeck.parentId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to create deck');
+      setNewDeck(null);
+      await fetchDecks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create deck');
+    }
+  };
+
+  const handleDelete = async (deck: Deck) => {
+    if (!confirm(`Delete "${deck.name}"? Its cards go back to their source's deck and its subdecks move up.`)) return;
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/decks/${deck.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to delete deck');
+      if (selectedDeckId === deck.id) onSelect(null);
+      await fetchDecks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete deck');
+    }
+  };
+
+  if (decks.length === 0) return null;
+
+  const nodes = flattenDeckTree(decks);
+  // Top-level decks cover every card
+  const total = nodes
+    .filter(({ depth }) => depth === 0)
+    .reduce<QueueCounts>(
+      (sum, { deck }) => ({
+        new: sum.new + (deck.dueCounts?.new ?? 0),
+        learning: sum.learning + (deck.dueCounts?.learning ?? 0),
+        review: sum.review + (deck.dueCounts?.review ?? 0),
+      }),
+      { new: 0, learning: 0, review: 0 }
+    );
+
+  const rowClass = (selected: boolean) =>
+    `flex items-center justify-between gap-2 rounded-md px-2 py-1.5 cursor-pointer hover:bg-muted ${selected ? 'bg-muted' : ''}`;
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-primary" />
+          Decks
+        </CardTitle>
+        <Button variant="ghost" size="sm" onClick={() => setNewDeck({ name: '' })}>
+          <Plus className="w-4 h-4 mr-1" />
+          New deck
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {newDeck && (
+          <form
+            className="flex gap-2 pb-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleCreate();
+            }}
+          >
+            <Input
+              autoFocus
+              placeholder={newDeck.parentId
+                ? `Subdeck of ${decks.find((deck) => deck.id === newDeck.parentId)?.name ?? 'deck'}`
+                : 'Deck name'}
+              value={newDeck.name}
+              onChange={(e) => setNewDeck({ ...newDeck, name: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setNewDeck(null);
+              }}
+            />
+            <Button type="submit" size="sm" disabled={!newDeck.name.trim()}>Add</Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setNewDeck(null)}>Cancel</Button>
+          </form>
+        )}
+
+        <div className={rowClass(selectedDeckId === null)} onClick={() => onSelect(null)}>
+          <span className="font-medium">All decks</span>
+          <QueueCounters counts={total} className="text-sm" />
+        </div>
+
+        {nodes.map(({ deck, depth }) => (
+          <div
+            key={deck.id}
+            className={`group ${rowClass(selectedDeckId === deck.id)}`}
+            style={{ paddingLeft: `${0.5 + depth * 1.25}rem` }}
+            onClick={() => onSelect(deck.id)}
+          >
+            <span className="truncate">{deck.name}</span>
+            <div className="flex items-center gap-1">
+              <QueueCounters counts={deck.dueCounts ?? { new: 0, learning: 0, review: 0 }} className="text-sm" />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                  <Button variant="ghost" size="icon" className="w-7 h-7 opacity-0 group-hover:opacity-100">
+                    <MoreVertical className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                  <DropdownMenuItem onClick={() => setNewDeck({ name: '', parentId: deck.id })}>
+                    <FolderPlus className="w-4 h-4 mr-2" />
+                    Add subdeck
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setSettingsDeck(deck)}>
+                    <Settings className="w-4 h-4 mr-2" />
+                    Settings
+                  </DropdownMenuItem>
+                  {/* A source's default deck goes with the source */}
+                  {!deck.sourceId && (
+                    <DropdownMenuItem className="text-destructive" onClick={() => handleDelete(deck)}>
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+        ))}
+
+        {error && <p className="text-sm text-destructive pt-2">{error}</p>}
+      </CardContent>
+
+      {settingsDeck && (
+        <DeckSettings
+          deck={settingsDeck}
+          decks={decks}
+          onClose={() => setSettingsDeck(null)}
+          onSaved={() => {
+            setSettingsDeck(null);
+            fetchDecks();
+          }}
+        />
+      )}
+    </Card>
+  );
+}
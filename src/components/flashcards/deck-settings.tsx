@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Deck } from '@/types';
+import { flattenDeckTree, getSubdeckIds } from '@/lib/services/decks';
+
+interface DeckSettingsProps {
+  deck: Deck;
+  decks: Deck[];
+  onSaved: (deck: Deck) => void;
+  onClose: () => void;
+}
+
+const SELECT_CLASS = 'border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs';
+
+/**
+ * Rename a deck, move it inside another and set its review settings.
+ * Empty settings use the configured defaults.
+ */
+export function DeckSettings({ deck, decks, onSaved, onClose }: DeckSettingsProps) {
+  const [draft, setDraft] = useState({
+    name: deck.name,
+    parentId: deck.parentId ?? '',
+    scheduler: deck.scheduler ?? '',
+    newCardsPerDay: deck.newCardsPerDay?.toString() ?? '',
+    maxReviewsPerDay: deck.maxReviewsPerDay?.toString() ?? '',
+    reviewOrder: deck.reviewOrder ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A deck can't go inside itself or its subdecks
+  const subdeckIds = getSubdeckIds(decks, deck.id);
+  const parents = flattenDeckTree(decks).filter(({ deck: candidate }) => !subdeckIds.has(candidate.id));
+
+  const setField = (field: keyof typeof draft, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    const toLimit = (value: string) => (value.trim() === '' ? null : Number(value));
+    const update = {
+      name: draft.name.trim(),
+      parentId: draft.parentId || null,
+      scheduler: draft.scheduler || null,
+      newCardsPerDay: toLimit(draft.newCardsPerDay),
+      maxReviewsPerDay: toLimit(draft.maxReviewsPerDay),
+      reviewOrder: draft.reviewOrder || null,
+    };
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/decks/${deck.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save deck');
+      onSaved(data.deck);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save deck');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Deck settings</DialogTitle>
+          <DialogDescription>
+            The scheduler and review order apply to the cards in this deck. Its limits also cap its subdecks together, which each have their own as well.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          id="deck-settings"
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <div>
+            <label htmlFor="deck-name" className="text-sm font-medium mb-2 block">Name</label>
+            <Input id="deck-name" value={draft.name} onChange={(e) => setField('name', e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="deck-parent" className="text-sm font-medium mb-2 block">Inside</label>
+            <select
+              id="deck-parent"
+              className={SELECT_CLASS}
+              value={draft.parentId}
+              onChange={(e) => setField('parentId', e.target.value)}
+            >
+              <option value="">No parent (top level)</option>
+              {parents.map(({ deck: parent, depth }) => (
+                <option key={parent.id} value={parent.id}>
+                  {'\u00a0\u00a0'.repeat(depth)}{parent.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="deck-new" className="text-sm font-medium mb-2 block">New cards per day</label>
+              <Input
+                id="deck-new"
+                type="number"
+                min={0}
+                placeholder="Default"
+                value={draft.newCardsPerDay}
+                onChange={(e) => setField('newCardsPerDay', e.target.value)}
+              />
+            </div>
+            <div>
+              <label htmlFor="deck-reviews" className="text-sm font-medium mb-2 block">Max reviews per day</label>
+              <Input
+                id="deck-reviews"
+                type="number"
+                min={0}
+                placeholder="Default"
+                value={draft.maxReviewsPerDay}
+                onChange={(e) => setField('maxReviewsPerDay', e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="deck-order" className="text-sm font-medium mb-2 block">New cards</label>
+              <select
+                id="deck-order"
+                className={SELECT_CLASS}
+                value={draft.reviewOrder}
+                onChange={(e) => setField('reviewOrder', e.target.value)}
+              >
+                <option value="">Default</option>
+                <option value="mixed">Mixed into reviews</option>
+                <option value="new_first">Before reviews</option>
+                <option value="reviews_first">After reviews</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="deck-scheduler" className="text-sm font-medium mb-2 block">Scheduler</label>
+              <select
+                id="deck-scheduler"
+                className={SELECT_CLASS}
+                value={draft.scheduler}
+                onChange={(e) => setField('scheduler', e.target.value)}
+              >
+                <option value="">Default</option>
+                <option value="sm2">SM-2</option>
+                <option value="fsrs">FSRS</option>
+              </select>
+            </div>
+          </div>
+        </form>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" form="deck-settings" disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Flashcard } from '@/types';
+
+interface FlashcardEditorProps {
+  card: Flashcard;
+  onSaved: (flashcard: Flashcard) => void;
+  onCancel: () => void;
+}
+
+type EditableField = 'front' | 'back' | 'hint' | 'mnemonic' | 'visualCue';
+
+// Optional fields are cleared when left empty
+const OPTIONAL_FIELDS: EditableField[] = ['hint', 'mnemonic', 'visualCue'];
+
+/**
+ * Edit a card's content. The edit is saved to the card's note, so the other
+ * cards of the note get it too.
+ */
+export function FlashcardEditor({ card, onSaved, onCancel }: FlashcardEditorProps) {
+  const [draft, setDraft] = useState<Record<EditableField, string>>({
+    front: card.front,
+    back: card.back,
+    hint: card.hint || '',
+    mnemonic: card.mnemonic || '',
+    visualCue: card.visualCue || '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCloze = card.cardType === 'cloze';
+  // A reverse card's front is made from its note's back, and it has no hint
+  const fields = (['front', 'back', 'hint', 'mnemonic', 'visualCue'] as EditableField[])
+    .filter((field) => !card.isReverse || (field !== 'front' && field !== 'hint'));
+  const labels: Record<EditableField, string> = {
+    front: isCloze ? 'Text ({{c1::...}} marks each blank)' : 'Front',
+    back: isCloze ? 'Extra' : card.isReverse ? 'Term' : 'Back',
+    hint: 'Hint',
+    mnemonic: 'Mnemonic',
+    visualCue: 'Visual cue (emoji)',
+  };
+
+  const handleSave = async () => {
+    // Only send what changed
+    const edit: Partial<Record<EditableField, string | null>> = {};
+    for (const field of fields) {
+      const value = draft[field].trim();
+      if (value === (card[field] || '')) continue;
+      edit[field] = value || (OPTIONAL_FIELDS.includes(field) ? null : value);
+    }
+    if (Object.keys(edit).length === 0) {
+      onCancel();
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/flashcards/${card.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(edit),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save card');
+      onSaved(data.flashcard);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save card');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSave();
+      }}
+    >
+      {fields.map((field) => (
+        <div key={field}>
+          <label htmlFor={`card-${field}`} className="text-sm font-medium mb-2 block">
+            {labels[field]}
+          </label>
+          {field === 'front' || field === 'back' ? (
+            <Textarea
+              id={`card-${field}`}
+              autoFocus={field === fields[0]}
+              value={draft[field]}
+              onChange={(e) => setDraft((prev) => ({ ...prev, [field]: e.target.value }))}
+            />
+          ) : (
+            <Input
+              id={`card-${field}`}
+              value={draft[field]}
+              onChange={(e) => setDraft((prev) => ({ ...prev, [field]: e.target.value }))}
+            />
+          )}
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex gap-2 justify-end">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -1,11 +1,18 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   Brain,
   RotateCcw,
@@ -14,114 +21,392 @@ import {
   PartyPopper,
   ArrowRight,
   AlertCircle,
+  XCircle,
+  Bug,
+  Flag,
+  Pencil,
+  Clock,
+  PauseCircle,
+  Trash2,
+  Undo2,
+  FolderInput,
 } from 'lucide-react';
-import { Flashcard } from '@/types';
-import { getRatingStyle, predictNextIntervals, SimpleRating } from '@/lib/services/sm2';
+import { Deck, Flashcard, FlashcardFlag, QueueCounts } from '@/types';
+import { FSRSParameters } from '@/types/review';
+import { formatInterval, getRatingStyle, SimpleRating } from '@/lib/services/sm2';
+import { getScheduler } from '@/lib/services/scheduler';
+import { renderCloze } from '@/lib/services/cloze';
+import { getMultipleChoiceOptions, isQuizCard, QuizGrade } from '@/lib/services/quiz-grading';
+import { countQueue } from '@/lib/services/review-queue';
+import { flattenDeckTree, getSubdeckIds } from '@/lib/services/decks';
+import { FlashcardEditor } from './flashcard-editor';
+import { QueueCounters } from './queue-counters';
+
+// Flags in shortcut order (Alt+1 to Alt+4)
+const FLAGS: { flag: FlashcardFlag; className: string }[] = [
+  { flag: 'red', className: 'text-red-500' },
+  { flag: 'orange', className: 'text-orange-500' },
+  { flag: 'green', className: 'text-green-500' },
+  { flag: 'blue', className: 'text-blue-500' },
+];
 
-export function FlashcardReview() {
+interface FlashcardReviewProps {
+  // Review only this deck and its subdecks
+  deckId?: string | null;
+  onLeech?: () => void;
+  // After a review or a change that takes cards out of the queue
+  onReview?: () => void;
+}
+
+export function FlashcardReview({ deckId, onLeech, onReview }: FlashcardReviewProps) {
   const [cards, setCards] = useState<Flashcard[]>([]);
+  const [fsrsParameters, setFSRSParameters] = useState<FSRSParameters | undefined>();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [showHint, setShowHint] = useState(false);
   const [loading, setLoading] = useState(true);
   const [reviewedCount, setReviewedCount] = useState(0);
-  const [startTime, setStartTime] = useState<number>(0);
+  // When the current card was shown, for the answer time sent with its review
+  const startTime = useRef(0);
+  // Multiple choice and typed cards: the learner's answer and its grade
+  const [answer, setAnswer] = useState('');
+  const [quizGrade, setQuizGrade] = useState<QuizGrade | null>(null);
+  const [editing, setEditing] = useState(false);
+  // The last review, so it can be undone: the card as it was, where it was in
+  // the session and the siblings its review took out of the session
+  const [lastReview, setLastReview] = useState<{
+    card: Flashcard;
+    index: number;
+    buried: Flashcard[];
+    leech: boolean;
+  } | null>(null);
+
+  // Cards due today that didn't fit in this session, by queue
+  const [beyondSession, setBeyondSession] = useState<QueueCounts>({ new: 0, learning: 0, review: 0 });
+  // Decks for the move menu, loaded when it opens
+  const [decks, setDecks] = useState<Deck[]>([]);
 
-  const fetchDueCards = async () => {
+  const fetchDueCards = useCallback(async () => {
     try {
       setLoading(true);
-      const res = await fetch('/api/flashcards?due=true&limit=20');
+      const res = await fetch(`/api/flashcards?due=true&limit=20${deckId ? `&deckId=${deckId}` : ''}`);
       if (!res.ok) throw new Error('Failed to fetch cards');
       const data = await res.json();
       setCards(data.flashcards);
+      setFSRSParameters(data.fsrsParameters);
+      const inSession = countQueue(data.flashcards);
+      setBeyondSession({
+        new: Math.max(0, (data.counts?.new ?? 0) - inSession.new),
+        learning: Math.max(0, (data.counts?.learning ?? 0) - inSession.learning),
+        review: Math.max(0, (data.counts?.review ?? 0) - inSession.review),
+      });
       setCurrentIndex(0);
       setReviewedCount(0);
+      setLastReview(null);
     } catch (err) {
       console.error('Failed to fetch due cards:', err);
     } finally {
       setLoading(false);
     }
-  };
+  }, [deckId]);
 
   useEffect(() => {
     fetchDueCards();
-  }, []);
+  }, [fetchDueCards]);
+
+  const currentCard = cards[currentIndex];
 
   useEffect(() => {
-    // Reset state when moving to new card
+    // Reset state when moving to new card, or when the card was taken out of the session
     setShowAnswer(false);
     setShowHint(false);
-    setStartTime(Date.now());
-  }, [currentIndex]);
+    setAnswer('');
+    setQuizGrade(null);
+    setEditing(false);
+    startTime.current = Date.now();
+  }, [currentIndex, currentCard?.id]);
 
-  const currentCard = cards[currentIndex];
   const isComplete = currentIndex >= cards.length;
   const progress = cards.length > 0 ? (reviewedCount / cards.length) * 100 : 0;
+  const remaining = countQueue(cards.slice(currentIndex));
 
   const [reviewError, setReviewError] = useState<string | null>(null);
+  // Cards suspended as leeches this session
+  const [leechCount, setLeechCount] = useState(0);
 
-  const handleRating = async (rating: SimpleRating) => {
-    if (!currentCard) return;
+  // Submit a self-rating or a quiz answer; returns the response once saved
+  const submitReview = async (review: { rating: SimpleRating } | { answer: string }) => {
+    if (!currentCard) return null;
 
-    const timeToAnswerMs = Date.now() - startTime;
+    const timeToAnswerMs = Date.now() - startTime.current;
     setReviewError(null);
 
     try {
       const res = await fetch(`/api/flashcards/${currentCard.id}/review`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ rating, timeToAnswerMs }),
+        body: JSON.stringify({ ...review, timeToAnswerMs }),
       });
 
       if (!res.ok) {
         throw new Error('Failed to submit review');
       }
+      const data = await res.json();
 
-      // Only update state after successful API call
+      // Only update state after successful API call. Siblings of the same
+      // note were buried until tomorrow, so they leave the queue, and cards
+      // still in their learning steps go to the back of it.
+      const buried = new Set<string>(data.buriedSiblingIds ?? []);
+      setLastReview({
+        card: currentCard,
+        index: currentIndex,
+        buried: cards.slice(currentIndex + 1).filter((card) => buried.has(card.id)),
+        leech: !!data.leech,
+      });
+      setCards((prev) => [
+        ...prev.slice(0, currentIndex + 1),
+        ...prev.slice(currentIndex + 1).filter((card) => !buried.has(card.id)),
+        ...(data.dueInSession ? [data.flashcard] : []),
+      ]);
       setReviewedCount((prev) => prev + 1);
-      setCurrentIndex((prev) => prev + 1);
+      onReview?.();
+      if (data.leech) {
+        setLeechCount((prev) => prev + 1);
+        onLeech?.();
+      }
+      return data;
     } catch (err) {
       console.error('Failed to submit review:', err);
       setReviewError('Failed to save review. Please try again.');
+      return null;
+    }
+  };
+
+  const handleRating = async (rating: SimpleRating) => {
+    if (await submitReview({ rating })) {
+      setCurrentIndex((prev) => prev + 1);
     }
   };
 
-  const handleKeyDown = useCallback(
-    (e: KeyboardEvent) => {
-      if (!currentCard) return;
-
-      if (!showAnswer) {
-        if (e.code === 'Space' || e.key === 'Enter') {
-          e.preventDefault();
-          setShowAnswer(true);
-        }
-        if (e.key === 'h' || e.key === 'H') {
-          setShowHint(true);
-        }
-      } else {
-        switch (e.key) {
-          case '1':
-            handleRating('again');
-            break;
-          case '2':
-            handleRating('hard');
-            break;
-          case '3':
-            handleRating('good');
-            break;
-          case '4':
-            handleRating('easy');
-            break;
-        }
+  // Quiz cards are graded by the server; the result stays up until the learner continues
+  const handleAnswer = async (value: string) => {
+    if (quizGrade || !value.trim()) return;
+    setAnswer(value);
+    const data = await submitReview({ answer: value });
+    if (data) {
+      setQuizGrade(data.grade);
+      setShowAnswer(true);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!lastReview) return;
+    const { card, index, buried, leech } = lastReview;
+    setReviewError(null);
+
+    try {
+      const res = await fetch(`/api/flashcards/${card.id}/review/undo`, { method: 'POST' });
+      if (!res.ok) throw new Error('Failed to undo review');
+      const data = await res.json();
+
+      // The card goes back to the front of the queue, followed by the siblings
+      // its review buried; a copy queued for its next learning step is dropped
+      setCards((prev) => [
+        ...prev.slice(0, index),
+        data.flashcard,
+        ...buried,
+        ...prev.slice(index + 1).filter((queued) => queued.id !== card.id),
+      ]);
+      setCurrentIndex(index);
+      setReviewedCount((prev) => prev - 1);
+      onReview?.();
+      setShowAnswer(false);
+      setShowHint(false);
+      setAnswer('');
+      setQuizGrade(null);
+      startTime.current = Date.now();
+      setLastReview(null);
+      if (leech) {
+        setLeechCount((prev) => prev - 1);
+        onLeech?.();
       }
-    },
-    [currentCard, showAnswer]
-  );
+    } catch (err) {
+      console.error('Failed to undo review:', err);
+      setReviewError('Failed to undo review. Please try again.');
+    }
+  };
+
+  // Suspended, buried and deleted cards leave the rest of the session
+  const removeFromSession = (ids: string[]) => {
+    const removed = new Set(ids);
+    setCards((prev) => prev.filter((card, index) => index < currentIndex || !removed.has(card.id)));
+    onReview?.();
+  };
+
+  const replaceCard = (flashcard: Flashcard) => {
+    setCards((prev) => prev.map((card) => (card.id === flashcard.id ? { ...card, ...flashcard } : card)));
+  };
+
+  const updateCard = async (changes: { isSuspended?: boolean; buried?: boolean; flag?: FlashcardFlag | null; deckId?: string }) => {
+    if (!currentCard) return null;
+    setReviewError(null);
+
+    try {
+      const res = await fetch(`/api/flashcards/${currentCard.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      if (!res.ok) throw new Error('Failed to update card');
+      const data = await res.json();
+      return data.flashcard as Flashcard;
+    } catch (err) {
+      console.error('Failed to update card:', err);
+      setReviewError('Failed to update card. Please try again.');
+      return null;
+    }
+  };
+
+  const handleSuspend = async () => {
+    if (await updateCard({ isSuspended: true })) removeFromSession([currentCard.id]);
+  };
+
+  const handleBury = async () => {
+    if (await updateCard({ buried: true })) removeFromSession([currentCard.id]);
+  };
+
+  // Setting the card's flag again clears it
+  const handleFlag = async (flag: FlashcardFlag) => {
+    const flashcard = await updateCard({ flag: currentCard.flag === flag ? null : flag });
+    if (flashcard) replaceCard(flashcard);
+  };
+
+  const fetchDecks = async () => {
+    try {
+      const res = await fetch('/api/decks');
+      if (!res.ok) throw new Error('Failed to fetch decks');
+      const data = await res.json();
+      setDecks(data.decks);
+    } catch (err) {
+      console.error('Failed to fetch decks:', err);
+    }
+  };
+
+  // A card moved out of the deck being reviewed leaves the session
+  const handleMove = async (target: Deck) => {
+    const flashcard = await updateCard({ deckId: target.id });
+    if (!flashcard) return;
+    if (deckId && !getSubdeckIds(decks, deckId).has(target.id)) {
+      removeFromSession([flashcard.id]);
+    } else {
+      replaceCard(flashcard);
+      onReview?.();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!currentCard) return;
+    const message = currentCard.isReverse
+      ? 'Delete this reverse card? The rest of its note is kept.'
+      : 'Delete this card and its note, with any other cards of the note and their review history?';
+    if (!confirm(message)) return;
+    setReviewError(null);
+
+    try {
+      const res = await fetch(`/api/flashcards/${currentCard.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete card');
+      const data = await res.json();
+      removeFromSession(data.deletedIds);
+    } catch (err) {
+      console.error('Failed to delete card:', err);
+      setReviewError('Failed to delete card. Please try again.');
+    }
+  };
+
+  // Rebuilt each render so the shortcuts always act on the current state
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (editing || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+    if ((e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'Z')) {
+      e.preventDefault();
+      handleUndo();
+      return;
+    }
+    if (!currentCard) return;
+
+    // Card actions, whether or not the answer is showing
+    if (e.altKey) {
+      const flag = FLAGS[Number(e.code.replace('Digit', '')) - 1]?.flag;
+      if (flag) {
+        e.preventDefault();
+        handleFlag(flag);
+      }
+      return;
+    }
+    if (e.ctrlKey || e.metaKey) return;
+    switch (e.key) {
+      case 'e':
+      case 'E':
+        e.preventDefault();
+        setEditing(true);
+        return;
+      case 'b':
+      case 'B':
+        handleBury();
+        return;
+      case 's':
+      case 'S':
+        handleSuspend();
+        return;
+      case 'Delete':
+        handleDelete();
+        return;
+    }
+
+    if (isQuizCard(currentCard)) {
+      if (quizGrade && (e.code === 'Space' || e.key === 'Enter')) {
+        e.preventDefault();
+        setCurrentIndex((prev) => prev + 1);
+      } else if (!quizGrade && currentCard.cardType === 'multiple_choice') {
+        const option = getMultipleChoiceOptions(currentCard)[Number(e.key) - 1];
+        if (option) handleAnswer(option);
+      }
+      if (e.key === 'h' || e.key === 'H') {
+        setShowHint(true);
+      }
+      return;
+    }
+
+    if (!showAnswer) {
+      if (e.code === 'Space' || e.key === 'Enter') {
+        e.preventDefault();
+        setShowAnswer(true);
+      }
+      if (e.key === 'h' || e.key === 'H') {
+        setShowHint(true);
+      }
+    } else {
+      switch (e.key) {
+        case '1':
+          handleRating('again');
+          break;
+        case '2':
+          handleRating('hard');
+          break;
+        case '3':
+          handleRating('good');
+          break;
+        case '4':
+          handleRating('easy');
+          break;
+      }
+    }
+  };
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleKeyDown]);
+  });
 
   if (loading) {
     return (
@@ -171,6 +456,12 @@ export function FlashcardReview() {
               You reviewed {reviewedCount} cards. Great work!
             </p>
             <div className="flex gap-2 justify-center">
+              {lastReview && (
+                <Button onClick={handleUndo} variant="ghost">
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Undo Last Review
+                </Button>
+              )}
               <Button onClick={fetchDueCards} variant="outline">
                 <RotateCcw className="w-4 h-4 mr-2" />
                 Review More
@@ -182,11 +473,17 @@ export function FlashcardReview() {
     );
   }
 
-  const nextIntervals = predictNextIntervals(
-    currentCard.easeFactor,
-    currentCard.interval,
-    currentCard.repetitions
-  );
+  const isCloze = currentCard.cardType === 'cloze';
+  const currentFlag = FLAGS.find(({ flag }) => flag === currentCard.flag);
+  const isQuiz = isQuizCard(currentCard);
+  const options = currentCard.cardType === 'multiple_choice' ? getMultipleChoiceOptions(currentCard) : [];
+  const predictedDays = getScheduler(currentCard.scheduler, fsrsParameters).predictIntervals(currentCard);
+  const nextIntervals = {
+    again: formatInterval(predictedDays.again),
+    hard: formatInterval(predictedDays.hard),
+    good: formatInterval(predictedDays.good),
+    easy: formatInterval(predictedDays.easy),
+  };
 
   return (
     <div className="max-w-2xl mx-auto space-y-6">
@@ -197,72 +494,172 @@ export function FlashcardReview() {
             <Brain className="w-5 h-5 text-primary" />
             <span className="font-medium">Flashcard Review</span>
           </div>
-          <span className="text-sm text-muted-foreground">
-            {reviewedCount} / {cards.length} reviewed
-          </span>
+          <div className="flex items-center gap-3 text-sm">
+            <QueueCounters
+              counts={{
+                new: remaining.new + beyondSession.new,
+                learning: remaining.learning + beyondSession.learning,
+                review: remaining.review + beyondSession.review,
+              }}
+            />
+            <span className="text-muted-foreground">
+              {reviewedCount} / {cards.length} reviewed
+            </span>
+          </div>
         </div>
         <Progress value={progress} className="h-2" />
       </div>
 
       {/* Flashcard */}
-      <Card
-        className="cursor-pointer min-h-[300px] flex flex-col"
-        onClick={() => !showAnswer && setShowAnswer(true)}
-      >
-        <CardContent className="pt-6 flex-1 flex flex-col">
-          {/* Question */}
-          <div className="flex-1 flex flex-col items-center justify-center text-center">
-            <div className="space-y-4">
-              {currentCard.visualCue && (
-                <span className="text-4xl">{currentCard.visualCue}</span>
-              )}
-              <p className="text-xl font-medium">{currentCard.front}</p>
+      {editing ? (
+        <Card>
+          <CardContent className="pt-6">
+            <FlashcardEditor
+              card={currentCard}
+              onSaved={(flashcard) => {
+                replaceCard(flashcard);
+                setEditing(false);
+              }}
+              onCancel={() => setEditing(false)}
+            />
+          </CardContent>
+        </Card>
+      ) : (
+        <Card
+          className="cursor-pointer min-h-[300px] flex flex-col relative"
+          onClick={() => !showAnswer && !isQuiz && setShowAnswer(true)}
+        >
+          {currentFlag && (
+            <Flag className={`w-4 h-4 absolute top-4 right-4 fill-current ${currentFlag.className}`} />
+          )}
+          <CardContent className="pt-6 flex-1 flex flex-col">
+            {/* Question */}
+            <div className="flex-1 flex flex-col items-center justify-center text-center">
+              <div className="space-y-4">
+                {currentCard.visualCue && (
+                  <span className="text-4xl">{currentCard.visualCue}</span>
+                )}
+                {isCloze ? (
+                  <p className="text-xl font-medium">
+                    {renderCloze(currentCard.front, currentCard.clozeIndex ?? 1, showAnswer).map((segment, i) =>
+                      segment.blank ? (
+                        <span key={i} className="px-1 rounded bg-primary/10 text-primary font-semibold">
+                          {segment.text}
+                        </span>
+                      ) : (
+                        <span key={i}>{segment.text}</span>
+                      )
+                    )}
+                  </p>
+                ) : (
+                  <p className="text-xl font-medium">{currentCard.front}</p>
+                )}
 
-              {/* Hint */}
-              {showHint && currentCard.hint && (
-                <p className="text-sm text-muted-foreground bg-muted p-2 rounded">
-                  💡 {currentCard.hint}
-                </p>
-              )}
+                {/* Hint */}
+                {showHint && currentCard.hint && (
+                  <p className="text-sm text-muted-foreground bg-muted p-2 rounded">
+                    💡 {currentCard.hint}
+                  </p>
+                )}
 
-              {!showAnswer && currentCard.hint && !showHint && (
-                <Button variant="ghost" size="sm" onClick={(e) => {
-                  e.stopPropagation();
-                  setShowHint(true);
-                }}>
-                  <Lightbulb className="w-4 h-4 mr-1" />
-                  Show Hint
-                </Button>
-              )}
+                {!showAnswer && currentCard.hint && !showHint && (
+                  <Button variant="ghost" size="sm" onClick={(e) => {
+                    e.stopPropagation();
+                    setShowHint(true);
+                  }}>
+                    <Lightbulb className="w-4 h-4 mr-1" />
+                    Show Hint
+                  </Button>
+                )}
+              </div>
             </div>
-          </div>
 
-          {/* Answer (when revealed) */}
-          {showAnswer && (
-            <div className="border-t pt-4 mt-4 space-y-4">
-              <div className="text-center">
-                <Badge variant="secondary" className="mb-2">Answer</Badge>
-                <p className="text-lg">{currentCard.back}</p>
+            {/* Answer (when revealed). Cloze cards fill in the blank above and only show their extra notes here. */}
+            {showAnswer && (!isCloze || currentCard.back || currentCard.mnemonic || currentCard.excerpt) && (
+              <div className="border-t pt-4 mt-4 space-y-4">
+                <div className="text-center">
+                  {quizGrade && (
+                    <div className="flex items-center justify-center gap-2 mb-3">
+                      {quizGrade.correct ? (
+                        <CheckCircle2 className="w-5 h-5 text-green-600" />
+                      ) : (
+                        <XCircle className={`w-5 h-5 ${quizGrade.rating === 'hard' ? 'text-orange-600' : 'text-red-600'}`} />
+                      )}
+                      <span className="font-medium">
+                        {quizGrade.correct ? 'Correct' : quizGrade.rating === 'hard' ? 'Almost' : 'Not quite'}
+                      </span>
+                      {currentCard.cardType === 'typed' && (
+                        <span className="text-sm text-muted-foreground">
+                          &ldquo;{answer}&rdquo; ({Math.round(quizGrade.score * 100)}% match)
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {!isCloze && <Badge variant="secondary" className="mb-2">Answer</Badge>}
+                  {currentCard.back && <p className="text-lg">{currentCard.back}</p>}
 
-                {currentCard.mnemonic && (
-                  <p className="text-sm text-muted-foreground mt-2">
-                    🧠 {currentCard.mnemonic}
-                  </p>
-                )}
+                  {currentCard.mnemonic && (
+                    <p className="text-sm text-muted-foreground mt-2">
+                      🧠 {currentCard.mnemonic}
+                    </p>
+                  )}
+
+                  {currentCard.excerpt && (
+                    <blockquote className="text-sm text-left text-muted-foreground border-l-2 pl-3 mt-3 italic">
+                      {currentCard.excerpt}
+                    </blockquote>
+                  )}
+                </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Show answer prompt */}
-          {!showAnswer && (
-            <div className="text-center pt-4 border-t">
-              <p className="text-sm text-muted-foreground">
-                Click or press <kbd className="px-1 py-0.5 bg-muted rounded text-xs">Space</kbd> to reveal answer
-              </p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+            {/* Multiple choice options */}
+            {!showAnswer && currentCard.cardType === 'multiple_choice' && (
+              <div className="grid gap-2 pt-4 border-t">
+                {options.map((option, index) => (
+                  <Button
+                    key={option}
+                    variant="outline"
+                    className="h-auto py-3 justify-start text-left whitespace-normal"
+                    onClick={() => handleAnswer(option)}
+                  >
+                    <span className="text-xs opacity-50 mr-2">{index + 1}</span>
+                    {option}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {/* Typed answer */}
+            {!showAnswer && currentCard.cardType === 'typed' && (
+              <form
+                className="flex gap-2 pt-4 border-t"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleAnswer(answer);
+                }}
+              >
+                <Input
+                  autoFocus
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  placeholder="Type your answer"
+                />
+                <Button type="submit" disabled={!answer.trim()}>Check</Button>
+              </form>
+            )}
+
+            {/* Show answer prompt */}
+            {!showAnswer && !isQuiz && (
+              <div className="text-center pt-4 border-t">
+                <p className="text-sm text-muted-foreground">
+                  Click or press <kbd className="px-1 py-0.5 bg-muted rounded text-xs">Space</kbd> to reveal answer
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
 
       {/* Error display */}
       {reviewError && (
@@ -272,8 +669,35 @@ export function FlashcardReview() {
         </div>
       )}
 
+      {/* Leeches leave the queue until they are rewritten */}
+      {leechCount > 0 && (
+        <div className="p-3 bg-orange-500/10 border border-orange-500/20 rounded-lg flex items-center gap-2 text-orange-700 dark:text-orange-400">
+          <Bug className="w-4 h-4 flex-shrink-0" />
+          <span className="text-sm">
+            {leechCount === 1
+              ? 'A card you keep forgetting was suspended as a leech. Rewrite it in the leech queue below.'
+              : `${leechCount} cards you keep forgetting were suspended as leeches. Rewrite them in the leech queue below.`}
+          </span>
+        </div>
+      )}
+
+      {/* Quiz cards were rated from the answer */}
+      {quizGrade && (
+        <div className="space-y-2 text-center">
+          <p className="text-sm text-muted-foreground">
+            Rated {getRatingStyle(quizGrade.rating).label} &middot; next review in {nextIntervals[quizGrade.rating]}
+          </p>
+          <Button onClick={() => setCurrentIndex((prev) => prev + 1)}>
+            Continue <ArrowRight className="w-4 h-4 ml-1" />
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Press <kbd className="px-1 py-0.5 bg-muted rounded">Enter</kbd> to continue
+          </p>
+        </div>
+      )}
+
       {/* Rating buttons */}
-      {showAnswer && (
+      {showAnswer && !isQuiz && (
         <div className="space-y-4">
           <p className="text-center text-sm text-muted-foreground">
             How well did you remember?
@@ -301,8 +725,55 @@ export function FlashcardReview() {
         </div>
       )}
 
-      {/* Skip button */}
-      <div className="flex justify-end">
+      {/* Card actions and skip button */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          {FLAGS.map(({ flag, className }, index) => (
+            <Button
+              key={flag}
+              variant="ghost"
+              size="sm"
+              title={`${currentCard.flag === flag ? 'Remove' : 'Set'} ${flag} flag (Alt+${index + 1})`}
+              onClick={() => handleFlag(flag)}
+            >
+              <Flag className={`w-4 h-4 ${className} ${currentCard.flag === flag ? 'fill-current' : ''}`} />
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" title="Undo last review (Ctrl+Z)" disabled={!lastReview} onClick={handleUndo}>
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" title="Edit (E)" onClick={() => setEditing(true)}>
+            <Pencil className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" title="Bury until tomorrow (B)" onClick={handleBury}>
+            <Clock className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" title="Suspend (S)" onClick={handleSuspend}>
+            <PauseCircle className="w-4 h-4" />
+          </Button>
+          <DropdownMenu onOpenChange={(open) => open && fetchDecks()}>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" title="Move to deck">
+                <FolderInput className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              {flattenDeckTree(decks).map(({ deck, depth }) => (
+                <DropdownMenuItem
+                  key={deck.id}
+                  disabled={deck.id === currentCard.deckId}
+                  style={{ paddingLeft: `${0.5 + depth}rem` }}
+                  onClick={() => handleMove(deck)}
+                >
+                  {deck.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="ghost" size="sm" title="Delete (Del)" onClick={handleDelete}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
         <Button
           variant="ghost"
           size="sm"
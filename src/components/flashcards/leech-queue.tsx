@@ -0,0 +1,217 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Bug, Scissors, Lightbulb, Quote, Loader2, Check, X } from 'lucide-react';
+import { Flashcard, LeechRewriteMode, LeechRewriteSuggestion } from '@/types';
+import { formatCloze } from '@/lib/services/cloze';
+import { waitForJob } from '@/lib/job-client';
+
+interface LeechQueueProps {
+  // Changes when the review suspends a card, so the queue picks it up
+  refreshKey?: number;
+}
+
+interface PendingRewrite {
+  mode: LeechRewriteMode;
+  jobId?: string;
+  suggestion?: LeechRewriteSuggestion;
+}
+
+const REWRITE_MODES: { mode: LeechRewriteMode; label: string; icon: typeof Bug }[] = [
+  { mode: 'split', label: 'Split', icon: Scissors },
+  { mode: 'memory_aid', label: 'Better hint', icon: Lightbulb },
+  { mode: 'excerpt', label: 'Add excerpt', icon: Quote },
+];
+
+// Only basic cards get a new front and back, so only they can be split. Same
+// as canRewriteText in services/leeches.ts, which can't be imported here.
+function canRewriteText(card: Flashcard): boolean {
+  return (card.cardType || 'basic') === 'basic' && !card.isReverse;
+}
+
+export function LeechQueue({ refreshKey }: LeechQueueProps) {
+  const [leeches, setLeeches] = useState<Flashcard[]>([]);
+  const [threshold, setThreshold] = useState(0);
+  // Rewrites being generated or waiting to be applied, by card id
+  const [rewrites, setRewrites] = useState<Record<string, PendingRewrite>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const fetchLeeches = async () => {
+    try {
+      const res = await fetch('/api/flashcards/leeches');
+      if (!res.ok) throw new Error('Failed to fetch leeches');
+      const data = await res.json();
+      setLeeches(data.flashcards);
+      setThreshold(data.threshold);
+    } catch (err) {
+      console.error('Failed to fetch leeches:', err);
+    }
+  };
+
+  useEffect(() => {
+    fetchLeeches();
+  }, [refreshKey]);
+
+  const setRewrite = (cardId: string, rewrite: PendingRewrite | null) => {
+    setRewrites((prev) => {
+      const next = { ...prev };
+      if (rewrite) next[cardId] = rewrite;
+      else delete next[cardId];
+      return next;
+    });
+  };
+
+  const setError = (cardId: string, error: string | null) => {
+    setErrors((prev) => {
+      const next = { ...prev };
+      if (error) next[cardId] = error;
+      else delete next[cardId];
+      return next;
+    });
+  };
+
+  const handleSuggest = async (card: Flashcard, mode: LeechRewriteMode) => {
+    setError(card.id, null);
+    setRewrite(card.id, { mode });
+
+    try {
+      const res = await fetch(`/api/flashcards/${card.id}/rewrite`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to suggest a rewrite');
+
+      const event = await waitForJob(data.jobId);
+      const { suggestion } = event.result as { suggestion: LeechRewriteSuggestion };
+      setRewrite(card.id, { mode, jobId: data.jobId, suggestion });
+    } catch (err) {
+      setRewrite(card.id, null);
+      setError(card.id, err instanceof Error ? err.message : 'Failed to suggest a rewrite');
+    }
+  };
+
+  const handleApply = async (card: Flashcard, jobId: string) => {
+    setError(card.id, null);
+
+    try {
+      const res = await fetch(`/api/flashcards/${card.id}/rewrite/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to apply the rewrite');
+
+      // The card is back in reviews
+      setRewrite(card.id, null);
+      setLeeches((prev) => prev.filter((leech) => leech.id !== card.id));
+    } catch (err) {
+      setError(card.id, err instanceof Error ? err.message : 'Failed to apply the rewrite');
+    }
+  };
+
+  if (leeches.length === 0) return null;
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bug className="w-5 h-5 text-orange-600" />
+          Leeches
+          <Badge variant="secondary">{leeches.length}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Cards forgotten {threshold} times are suspended. Rewrite them to bring them back into your reviews.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {leeches.map((card) => {
+          const isCloze = card.cardType === 'cloze';
+          const rewrite = rewrites[card.id];
+
+          return (
+            <div key={card.id} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {isCloze ? formatCloze(card.front, card.clozeIndex ?? 1) : card.front}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {isCloze ? formatCloze(card.front, card.clozeIndex ?? 1, true) : card.back}
+                  </p>
+                </div>
+                <Badge variant="outline" className="flex-shrink-0">
+                  {card.lapses ?? 0} lapses
+                </Badge>
+              </div>
+
+              {/* Suggestion to review before applying */}
+              {rewrite?.suggestion && rewrite.jobId ? (
+                <div className="bg-muted rounded-lg p-3 space-y-3">
+                  {rewrite.suggestion.cards.map((suggested, index) => (
+                    <div key={index} className="text-sm space-y-1">
+                      {rewrite.suggestion!.cards.length > 1 && (
+                        <Badge variant="secondary">{index === 0 ? 'Rewritten card' : 'New card'}</Badge>
+                      )}
+                      {canRewriteText(card) && (
+                        <>
+                          <p className="font-medium">{suggested.front}</p>
+                          <p>{suggested.back}</p>
+                        </>
+                      )}
+                      {suggested.hint && <p className="text-muted-foreground">💡 {suggested.hint}</p>}
+                      {suggested.mnemonic && <p className="text-muted-foreground">🧠 {suggested.mnemonic}</p>}
+                    </div>
+                  ))}
+                  {rewrite.suggestion.excerpt && (
+                    <blockquote className="text-sm text-muted-foreground border-l-2 pl-3 italic">
+                      {rewrite.suggestion.excerpt}
+                    </blockquote>
+                  )}
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleApply(card, rewrite.jobId!)}>
+                      <Check className="w-4 h-4 mr-1" />
+                      Apply
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setRewrite(card.id, null)}>
+                      <X className="w-4 h-4 mr-1" />
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {REWRITE_MODES.filter(({ mode }) => mode !== 'split' || canRewriteText(card)).map(({ mode, label, icon: Icon }) => (
+                    <Button
+                      key={mode}
+                      size="sm"
+                      variant="outline"
+                      disabled={!!rewrite}
+                      onClick={() => handleSuggest(card, mode)}
+                    >
+                      {rewrite?.mode === mode ? (
+                        <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                      ) : (
+                        <Icon className="w-4 h-4 mr-1" />
+                      )}
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              {errors[card.id] && (
+                <p className="text-sm text-destructive">{errors[card.id]}</p>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,25 @@
+import { QueueCounts, QueueKind } from '@/types';
+
+interface QueueCountersProps {
+  counts: QueueCounts;
+  className?: string;
+}
+
+// Cards left today: new, in their learning steps, and due for review
+const QUEUE_COUNTERS: { kind: QueueKind; label: string; className: string }[] = [
+  { kind: 'new', label: 'New', className: 'text-blue-600' },
+  { kind: 'learning', label: 'Learning', className: 'text-orange-600' },
+  { kind: 'review', label: 'To review', className: 'text-green-600' },
+];
+
+export function QueueCounters({ counts, className = '' }: QueueCountersProps) {
+  return (
+    <span className={`flex items-center gap-3 ${className}`}>
+      {QUEUE_COUNTERS.map(({ kind, label, className: color }) => (
+        <span key={kind} className={`font-medium tabular-nums ${color}`} title={label}>
+          {counts[kind]}
+        </span>
+      ))}
+    </span>
+  );
+}
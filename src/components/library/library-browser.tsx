@@ -24,6 +24,8 @@ import {
   Loader2,
 } from 'lucide-react';
 import { Source } from '@/types';
+import { waitForJob, formatJobPhase } from '@/lib/job-client';
+import { JobProgressEvent } from '@/types/jobs';
 import { formatDistanceToNow } from 'date-fns';
 
 interface LibraryBrowserProps {
@@ -35,6 +37,8 @@ export function LibraryBrowser({ onStudy }: LibraryBrowserProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
+  // Latest job progress for sources being reprocessed
+  const [jobProgress, setJobProgress] = useState<Record<string, JobProgressEvent>>({});
 
   const fetchSources = async () => {
     try {
@@ -76,42 +80,31 @@ export function LibraryBrowser({ onStudy }: LibraryBrowserProps) {
       const res = await fetch(`/api/process/${sourceId}`, { method: 'POST' });
       if (!res.ok) throw new Error('Failed to reprocess');
 
-      // Poll for completion
-      const pollStatus = async () => {
-        try {
-          const statusRes = await fetch(`/api/process/${sourceId}`);
-          const statusData = await statusRes.json();
-
-          if (statusData.status === 'complete' || statusData.status === 'error') {
-            setProcessingIds((prev) => {
-              const next = new Set(prev);
-              next.delete(sourceId);
-              return next;
-            });
-            // Refresh the list to get updated counts
-            fetchSources();
-          } else {
-            // Continue polling
-            setTimeout(pollStatus, 2000);
-          }
-        } catch {
-          setProcessingIds((prev) => {
-            const next = new Set(prev);
-            next.delete(sourceId);
-            return next;
-          });
-        }
-      };
+      // Follow the processing job; already-processed sources come back without one
+      const data = await res.json();
+      if (data.jobId) {
+        await waitForJob(data.jobId, {
+          onUpdate: (event) => setJobProgress((prev) => ({ ...prev, [sourceId]: event })),
+        }).catch(() => {
+          // Failures show up as the source's error status after the refresh
+        });
+      }
 
-      // Start polling after a short delay
-      setTimeout(pollStatus, 1000);
+      // Refresh the list to get updated counts
+      fetchSources();
     } catch (err) {
+      alert('Failed to reprocess content');
+    } finally {
       setProcessingIds((prev) => {
         const next = new Set(prev);
         next.delete(sourceId);
         return next;
       });
-      alert('Failed to reprocess content');
+      setJobProgress((prev) => {
+        const next = { ...prev };
+        delete next[sourceId];
+        return next;
+      });
     }
   };
 
@@ -262,13 +255,25 @@ export function LibraryBrowser({ onStudy }: LibraryBrowserProps) {
             <CardContent>
               <div className="space-y-4">
                 {/* Progress */}
-                <div>
-                  <div className="flex justify-between text-sm mb-1">
-                    <span className="text-muted-foreground">Progress</span>
-                    <span>{source.progress || 0}%</span>
+                {jobProgress[source.id] ? (
+                  <div>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-muted-foreground truncate">
+                        {formatJobPhase(jobProgress[source.id])}
+                      </span>
+                      <span>{jobProgress[source.id].percent}%</span>
+                    </div>
+                    <Progress value={jobProgress[source.id].percent} className="h-2" />
                   </div>
-                  <Progress value={source.progress || 0} className="h-2" />
-                </div>
+                ) : (
+                  <div>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-muted-foreground">Progress</span>
+                      <span>{source.progress || 0}%</span>
+                    </div>
+                    <Progress value={source.progress || 0} className="h-2" />
+                  </div>
+                )}
 
                 {/* Stats */}
                 <div className="flex items-center justify-between text-sm text-muted-foreground">
@@ -7,21 +7,57 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { FileUp, FileText, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { FileUp, FileText, FileAudio, Globe, Loader2, CheckCircle2, AlertCircle, Youtube } from 'lucide-react';
+import { waitForJob, formatJobPhase } from '@/lib/job-client';
 
 interface UploadPortalProps {
   onUploadComplete: (sourceId: string) => void;
 }
 
-type UploadStatus = 'idle' | 'uploading' | 'processing' | 'complete' | 'error';
+type UploadStatus = 'idle' | 'uploading' | 'transcribing' | 'processing' | 'complete' | 'error';
 
-// Maximum file size: 50MB
+// Maximum file size: 50MB (200MB for audio)
 const MAX_FILE_SIZE_MB = 50;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
+const MAX_AUDIO_SIZE_MB = 200;
+const MAX_AUDIO_SIZE_BYTES = MAX_AUDIO_SIZE_MB * 1024 * 1024;
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a'];
+// Must match the server's extractor registry
+const DOCUMENT_EXTENSIONS = ['.pdf', '.epub', '.docx', '.html', '.htm', '.xhtml', '.md', '.markdown'];
+
+function isAudioFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return file.type.startsWith('audio/') || AUDIO_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+function isDocumentFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return file.type === 'application/pdf' || DOCUMENT_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+/**
+ * Check an upload against the supported types and size limits,
+ * returning an error message when it is rejected
+ */
+function validateFile(file: File): string | null {
+  if (isAudioFile(file)) {
+    return file.size > MAX_AUDIO_SIZE_BYTES
+      ? `File too large. Maximum audio size is ${MAX_AUDIO_SIZE_MB}MB`
+      : null;
+  }
+  if (isDocumentFile(file)) {
+    return file.size > MAX_FILE_SIZE_BYTES
+      ? `File too large. Maximum size is ${MAX_FILE_SIZE_MB}MB`
+      : null;
+  }
+  return 'Supported files: PDF, EPUB, Word (DOCX), HTML, Markdown and audio (MP3, WAV, M4A)';
+}
 
 export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
   const [status, setStatus] = useState<UploadStatus>('idle');
   const [progress, setProgress] = useState(0);
+  // Live phase label of the running job, e.g. "Generating lessons for segment 2/5"
+  const [phase, setPhase] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [sourceId, setSourceId] = useState<string | null>(null);
 
@@ -29,20 +65,28 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
   const [textTitle, setTextTitle] = useState('');
   const [textContent, setTextContent] = useState('');
 
+  // YouTube input state
+  const [youtubeUrl, setYoutubeUrl] = useState('');
+  const [youtubeTitle, setYoutubeTitle] = useState('');
+  const [captionFile, setCaptionFile] = useState<File | null>(null);
+
+  // Web article input state
+  const [articleUrl, setArticleUrl] = useState('');
+  const [articleTitle, setArticleTitle] = useState('');
+  const [articleHtml, setArticleHtml] = useState('');
+
   // File input state
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
 
-  // Ref to track polling interval for cleanup
-  const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Aborts job polling on unmount
+  const pollAbortRef = useRef<AbortController | null>(null);
 
-  // Cleanup polling interval on unmount
+  // Stop polling on unmount
   useEffect(() => {
     return () => {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current);
-        pollIntervalRef.current = null;
-      }
+      pollAbortRef.current?.abort();
+      pollAbortRef.current = null;
     };
   }, []);
 
@@ -63,39 +107,45 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
 
     if (e.dataTransfer.files && e.dataTransfer.files[0]) {
       const file = e.dataTransfer.files[0];
-      if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
-        if (file.size > MAX_FILE_SIZE_BYTES) {
-          setError(`File too large. Maximum size is ${MAX_FILE_SIZE_MB}MB`);
-          return;
-        }
-        setSelectedFile(file);
-        setError(null);
-      } else {
-        setError('Only PDF files are supported currently');
+      const validationError = validateFile(file);
+      if (validationError) {
+        setError(validationError);
+        return;
       }
+      setSelectedFile(file);
+      setError(null);
     }
   }, []);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
-      if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
-        if (file.size > MAX_FILE_SIZE_BYTES) {
-          setError(`File too large. Maximum size is ${MAX_FILE_SIZE_MB}MB`);
-          return;
-        }
-        setSelectedFile(file);
-        setError(null);
-      } else {
-        setError('Only PDF files are supported currently');
+      const validationError = validateFile(file);
+      if (validationError) {
+        setError(validationError);
+        return;
       }
+      setSelectedFile(file);
+      setError(null);
     }
   };
 
-  const clearPolling = () => {
-    if (pollIntervalRef.current) {
-      clearInterval(pollIntervalRef.current);
-      pollIntervalRef.current = null;
+  // Follow a background job's live progress, aborting any job we were already following
+  const followJob = async (jobId: string, onProgress: (percent: number) => void) => {
+    pollAbortRef.current?.abort();
+    const controller = new AbortController();
+    pollAbortRef.current = controller;
+
+    try {
+      return await waitForJob(jobId, {
+        signal: controller.signal,
+        onUpdate: (event) => {
+          onProgress(event.percent);
+          setPhase(formatJobPhase(event));
+        },
+      });
+    } finally {
+      setPhase(null);
     }
   };
 
@@ -103,49 +153,34 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
     setStatus('processing');
     setProgress(20);
 
-    // Clear any existing polling
-    clearPolling();
-
-    // Poll for processing status
-    pollIntervalRef.current = setInterval(async () => {
-      try {
-        const statusRes = await fetch(`/api/process/${id}`);
-        const statusData = await statusRes.json();
-
-        if (statusData.status === 'complete') {
-          clearPolling();
-          setProgress(100);
-          setStatus('complete');
-          setTimeout(() => onUploadComplete(id), 1500);
-        } else if (statusData.status === 'error') {
-          clearPolling();
-          setError(statusData.error || 'Processing failed');
-          setStatus('error');
-        } else {
-          setProgress(statusData.progress || 50);
-        }
-      } catch (err) {
-        clearPolling();
-        setError('Failed to check processing status');
-        setStatus('error');
-      }
-    }, 1000);
-
-    // Trigger processing
     try {
       const processRes = await fetch(`/api/process/${id}`, { method: 'POST' });
+      const data = await processRes.json();
       if (!processRes.ok) {
-        clearPolling();
-        const data = await processRes.json();
         throw new Error(data.error || 'Processing failed');
       }
+
+      // Already-processed sources come back without a job
+      if (data.jobId) {
+        await followJob(data.jobId, (percent) => setProgress(Math.max(percent, 20)));
+      }
+
+      setProgress(100);
+      setStatus('complete');
+      setTimeout(() => onUploadComplete(id), 1500);
     } catch (err) {
-      clearPolling();
       setError(err instanceof Error ? err.message : 'Processing failed');
       setStatus('error');
     }
   };
 
+  // Wait for an audio source to finish transcribing, reporting its progress
+  const waitForTranscription = async (jobId: string) => {
+    setStatus('transcribing');
+    setProgress(0);
+    await followJob(jobId, setProgress);
+  };
+
   const handleFileUpload = async () => {
     if (!selectedFile) return;
 
@@ -169,6 +204,9 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
 
       const data = await res.json();
       setSourceId(data.source.id);
+      if (data.jobId) {
+        await waitForTranscription(data.jobId);
+      }
       await processSource(data.source.id);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Upload failed');
@@ -211,6 +249,78 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
     }
   };
 
+  const handleYouTubeSubmit = async () => {
+    if (!youtubeUrl.trim()) {
+      setError('Please provide a YouTube URL');
+      return;
+    }
+
+    setStatus('uploading');
+    setProgress(10);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/sources', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'youtube',
+          url: youtubeUrl.trim(),
+          title: youtubeTitle.trim() || undefined,
+          captions: captionFile ? await captionFile.text() : undefined,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Import failed');
+      }
+
+      const data = await res.json();
+      setSourceId(data.source.id);
+      await processSource(data.source.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+      setStatus('error');
+    }
+  };
+
+  const handleArticleSubmit = async () => {
+    if (!articleUrl.trim() && !articleHtml.trim()) {
+      setError('Please provide a URL or paste the page HTML');
+      return;
+    }
+
+    setStatus('uploading');
+    setProgress(10);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/sources', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'url',
+          url: articleUrl.trim() || undefined,
+          title: articleTitle.trim() || undefined,
+          html: articleHtml.trim() || undefined,
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Import failed');
+      }
+
+      const data = await res.json();
+      setSourceId(data.source.id);
+      await processSource(data.source.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+      setStatus('error');
+    }
+  };
+
   const resetForm = () => {
     setStatus('idle');
     setProgress(0);
@@ -219,6 +329,12 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
     setSelectedFile(null);
     setTextTitle('');
     setTextContent('');
+    setYoutubeUrl('');
+    setYoutubeTitle('');
+    setCaptionFile(null);
+    setArticleUrl('');
+    setArticleTitle('');
+    setArticleHtml('');
   };
 
   if (status === 'complete') {
@@ -242,22 +358,30 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
     );
   }
 
-  if (status === 'uploading' || status === 'processing') {
+  if (status === 'uploading' || status === 'transcribing' || status === 'processing') {
     return (
       <Card className="max-w-2xl mx-auto">
         <CardContent className="pt-6">
           <div className="flex flex-col items-center text-center space-y-4">
             <Loader2 className="w-12 h-12 animate-spin text-primary" />
             <h3 className="text-xl font-semibold">
-              {status === 'uploading' ? 'Uploading...' : 'Creating Micro-Lessons...'}
+              {status === 'uploading'
+                ? 'Uploading...'
+                : status === 'transcribing'
+                  ? 'Transcribing Audio...'
+                  : 'Creating Micro-Lessons...'}
             </h3>
             <p className="text-muted-foreground">
               {status === 'uploading'
-                ? 'Extracting text from your document'
-                : 'AI is breaking down your content into ADHD-friendly chunks'}
+                ? 'Extracting text from your content'
+                : status === 'transcribing'
+                  ? 'Turning your recording into a timestamped transcript'
+                  : 'AI is breaking down your content into ADHD-friendly chunks'}
             </p>
             <Progress value={progress} className="w-full max-w-xs" />
-            <p className="text-sm text-muted-foreground">{Math.round(progress)}%</p>
+            <p className="text-sm text-muted-foreground">
+              {phase ? `${phase} · ` : ''}{Math.round(progress)}%
+            </p>
           </div>
         </CardContent>
       </Card>
@@ -269,7 +393,7 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
       <CardHeader>
         <CardTitle>Add New Content</CardTitle>
         <CardDescription>
-          Upload a PDF or paste text to transform it into ADHD-friendly micro-lessons
+          Upload a document or recording, paste text or import a web article or YouTube video to transform it into ADHD-friendly micro-lessons
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -284,15 +408,23 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
         )}
 
         <Tabs defaultValue="file">
-          <TabsList className="grid w-full grid-cols-2 mb-6">
+          <TabsList className="grid w-full grid-cols-4 mb-6">
             <TabsTrigger value="file" className="flex items-center gap-2">
               <FileUp className="w-4 h-4" />
-              Upload PDF
+              Upload File
             </TabsTrigger>
             <TabsTrigger value="text" className="flex items-center gap-2">
               <FileText className="w-4 h-4" />
               Paste Text
             </TabsTrigger>
+            <TabsTrigger value="url" className="flex items-center gap-2">
+              <Globe className="w-4 h-4" />
+              Web Article
+            </TabsTrigger>
+            <TabsTrigger value="youtube" className="flex items-center gap-2">
+              <Youtube className="w-4 h-4" />
+              YouTube
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="file">
@@ -310,7 +442,11 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
               {selectedFile ? (
                 <div className="space-y-4">
                   <div className="w-12 h-12 mx-auto rounded-lg bg-primary/10 flex items-center justify-center">
-                    <FileUp className="w-6 h-6 text-primary" />
+                    {isAudioFile(selectedFile) ? (
+                      <FileAudio className="w-6 h-6 text-primary" />
+                    ) : (
+                      <FileUp className="w-6 h-6 text-primary" />
+                    )}
                   </div>
                   <div>
                     <p className="font-medium">{selectedFile.name}</p>
@@ -323,7 +459,7 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
                       Remove
                     </Button>
                     <Button onClick={handleFileUpload}>
-                      Process PDF
+                      {isAudioFile(selectedFile) ? 'Transcribe Audio' : 'Process File'}
                     </Button>
                   </div>
                 </div>
@@ -333,12 +469,14 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
                     <FileUp className="w-6 h-6 text-muted-foreground" />
                   </div>
                   <div>
-                    <p className="font-medium">Drop your PDF here</p>
-                    <p className="text-sm text-muted-foreground">or click to browse</p>
+                    <p className="font-medium">Drop your document or audio file here</p>
+                    <p className="text-sm text-muted-foreground">
+                      PDF, EPUB, DOCX, HTML or Markdown. MP3, WAV or M4A recordings are transcribed locally
+                    </p>
                   </div>
                   <Input
                     type="file"
-                    accept=".pdf"
+                    accept={[...DOCUMENT_EXTENSIONS, ...AUDIO_EXTENSIONS].join(',')}
                     className="hidden"
                     id="file-upload"
                     onChange={handleFileSelect}
@@ -387,6 +525,103 @@ export function UploadPortal({ onUploadComplete }: UploadPortalProps) {
               </Button>
             </div>
           </TabsContent>
+
+          <TabsContent value="url">
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="article-url" className="text-sm font-medium mb-2 block">
+                  Page URL
+                </label>
+                <Input
+                  id="article-url"
+                  placeholder="https://example.com/article"
+                  value={articleUrl}
+                  onChange={(e) => setArticleUrl(e.target.value)}
+                />
+              </div>
+              <div>
+                <label htmlFor="article-title" className="text-sm font-medium mb-2 block">
+                  Title <span className="text-muted-foreground font-normal">(optional)</span>
+                </label>
+                <Input
+                  id="article-title"
+                  placeholder="Defaults to the article title"
+                  value={articleTitle}
+                  onChange={(e) => setArticleTitle(e.target.value)}
+                />
+              </div>
+              <div>
+                <label htmlFor="article-html" className="text-sm font-medium mb-2 block">
+                  Page HTML <span className="text-muted-foreground font-normal">(optional)</span>
+                </label>
+                <Textarea
+                  id="article-html"
+                  placeholder="Paste the page source to import without downloading it"
+                  className="min-h-[120px] font-mono text-xs"
+                  value={articleHtml}
+                  onChange={(e) => setArticleHtml(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Navigation, ads and other page clutter are removed automatically.
+                </p>
+              </div>
+              <Button
+                onClick={handleArticleSubmit}
+                disabled={!articleUrl.trim() && !articleHtml.trim()}
+                className="w-full"
+              >
+                Import Article
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="youtube">
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="youtube-url" className="text-sm font-medium mb-2 block">
+                  Video URL
+                </label>
+                <Input
+                  id="youtube-url"
+                  placeholder="https://www.youtube.com/watch?v=..."
+                  value={youtubeUrl}
+                  onChange={(e) => setYoutubeUrl(e.target.value)}
+                />
+              </div>
+              <div>
+                <label htmlFor="youtube-title" className="text-sm font-medium mb-2 block">
+                  Title <span className="text-muted-foreground font-normal">(optional)</span>
+                </label>
+                <Input
+                  id="youtube-title"
+                  placeholder="Defaults to the video title"
+                  value={youtubeTitle}
+                  onChange={(e) => setYoutubeTitle(e.target.value)}
+                />
+              </div>
+              <div>
+                <label htmlFor="caption-file" className="text-sm font-medium mb-2 block">
+                  Caption file <span className="text-muted-foreground font-normal">(optional)</span>
+                </label>
+                <Input
+                  id="caption-file"
+                  type="file"
+                  accept=".srt,.vtt,.json,.json3"
+                  onChange={(e) => setCaptionFile(e.target.files?.[0] || null)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  SRT, VTT or JSON3. Captions are fetched from YouTube when no file is given.
+                </p>
+              </div>
+              <Button
+                onClick={handleYouTubeSubmit}
+                disabled={!youtubeUrl.trim()}
+                className="w-full"
+              >
+                Import Transcript
+              </Button>
+            </div>
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
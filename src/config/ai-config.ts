@@ -1,18 +1,33 @@
 // Centralized AI configuration for ADHD Learning Bot
 // Controls model selection, token limits, and content generation parameters
 
+// Audio transcription backends (see services/transcriber.ts)
+const TRANSCRIBER_BACKENDS = ['whisper-cpp', 'fake'] as const;
+
 export const AI_CONFIG = {
-  // Model configuration
+  // Model configuration (Anthropic backend)
   model: process.env.CLAUDE_MODEL || 'claude-sonnet-4-20250514',
 
+  // Text generation backend
+  llm: {
+    provider: (process.env.LLM_PROVIDER || 'anthropic') as 'anthropic' | 'openai-compatible' | 'fixture',
+    openAIBaseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1', // Ollama
+    openAIModel: process.env.LLM_MODEL || 'llama3.1',
+    openAIApiKey: process.env.LLM_API_KEY,
+    fixturesDir: process.env.LLM_FIXTURES_DIR || 'test/fixtures/llm',
+    // Backend used to record missing fixtures; unset replays only
+    recordWith: process.env.LLM_RECORD_WITH as 'anthropic' | 'openai-compatible' | undefined,
+  },
+
   // Input limits
-  maxInputChars: 100000, // ~25k tokens
+  lessonSegmentTokens: 6000, // Source text per lesson-generation request; longer sources are segmented
 
   // Token limits for different operations
   tokenLimits: {
     chunkContent: 8000,
     generateFlashcards: 2000,
     simplifyText: 2000,
+    rewriteLeech: 1500,
   },
 
   // Content generation guidelines
@@ -34,6 +49,15 @@ export const AI_CONFIG = {
 
     // Flashcard generation
     flashcardsPerLesson: 3,
+    clozeNotesPerLesson: 2, // Fill-in-the-blank notes, each with 1-3 deletions
+    distractorsPerQuestion: 3, // Wrong options on multiple choice cards
+    maxTypedAnswerWords: 4, // Typed answer cards need short answers to grade
+    reverseDefinitionCards: process.env.REVERSE_CARDS !== 'off', // Definitional cards also ask for the term from its meaning
+    maxSplitCards: 4, // Cards a leech may be split into
+    maxExcerptWords: 80, // Lesson passage attached to a leech
+
+    // Reading speed used to check the model's estimatedMinutes
+    readingWordsPerMinute: 150,
 
     // ADHD-specific formatting
     subheadingFrequency: '50-100 words',
@@ -58,6 +82,35 @@ export const AI_CONFIG = {
     reEngagementPrompts: true,  // Prompts for stuck learners
   },
 
+  // Cost tracking (see services/ai-usage.ts)
+  usage: {
+    // USD per million tokens, matched by the longest model name prefix.
+    // Models not listed (e.g. local ones) are recorded at no cost.
+    // AI_PRICES takes JSON in the same shape to add or override entries.
+    prices: {
+      'claude-opus-4': { input: 15, output: 75 },
+      'claude-sonnet-4': { input: 3, output: 15 },
+      'claude-3-7-sonnet': { input: 3, output: 15 },
+      'claude-3-5-sonnet': { input: 3, output: 15 },
+      'claude-3-5-haiku': { input: 0.8, output: 4 },
+      ...(process.env.AI_PRICES ? JSON.parse(process.env.AI_PRICES) : {}),
+    } as Record<string, { input: number; output: number }>,
+    // AI routes refuse new work once this month's estimated spend reaches it
+    monthlyBudgetUsd: process.env.AI_MONTHLY_BUDGET_USD ? Number(process.env.AI_MONTHLY_BUDGET_USD) : undefined,
+  },
+
+  // Response cache for identical prompts (see services/llm-cache.ts)
+  cache: {
+    enabled: process.env.LLM_CACHE !== 'off',
+    ttlDays: Number(process.env.LLM_CACHE_TTL_DAYS) || 30,
+    maxBytes: (Number(process.env.LLM_CACHE_MAX_MB) || 100) * 1024 * 1024,
+  },
+
+  // JSON responses are re-requested with the validation errors up to this many times
+  structuredOutput: {
+    maxAttempts: 3,
+  },
+
   // Summarization configuration
   summarization: {
     maxSegmentTokens: 15000,       // Input per segment
@@ -66,6 +119,16 @@ export const AI_CONFIG = {
     executiveOutputTokens: 800,
     detailedOutputTokens: 3000,
   },
+
+  // Speech-to-text for audio sources
+  transcription: {
+    // Unknown values use whisper-cpp
+    backend: TRANSCRIBER_BACKENDS.find((backend) => backend === process.env.TRANSCRIBER) ?? 'whisper-cpp',
+    whisperCppBinary: process.env.WHISPER_CPP_BIN || 'whisper-cli',
+    whisperCppModel: process.env.WHISPER_CPP_MODEL || 'models/ggml-base.en.bin',
+    ffmpegBinary: process.env.FFMPEG_BIN || 'ffmpeg',
+    threads: 4,
+  },
 } as const;
 
 export type AIConfig = typeof AI_CONFIG;
@@ -0,0 +1,81 @@
+// Flashcard review configuration
+// Controls which spaced repetition scheduler is used and how it is tuned
+
+import { ReviewOrder, SchedulerName } from '@/types';
+
+// Comma-separated minutes, e.g. "1,10". An empty string turns the steps off.
+function parseSteps(value: string | undefined, defaults: number[]): number[] {
+  if (value === undefined) return defaults;
+  return value.split(',').map((step) => Number(step.trim())).filter((step) => step > 0);
+}
+
+// A whole number of cards; 0 is allowed
+function parseLimit(value: string | undefined, defaultLimit: number): number {
+  const limit = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(limit) && limit >= 0 ? limit : defaultLimit;
+}
+
+const REVIEW_ORDERS: ReviewOrder[] = ['mixed', 'new_first', 'reviews_first'];
+
+export const REVIEW_CONFIG = {
+  // Scheduler for sources that haven't chosen one (see services/scheduler.ts)
+  defaultScheduler: (process.env.REVIEW_SCHEDULER === 'fsrs' ? 'fsrs' : 'sm2') as SchedulerName,
+
+  // Minutes until a new card is shown again after each step, before it
+  // graduates to day-long intervals
+  learningSteps: parseSteps(process.env.LEARNING_STEPS, [1, 10]),
+  // The same for a card rated "again" after it graduated
+  relearningSteps: parseSteps(process.env.RELEARNING_STEPS, [10]),
+  // Cards due within this many minutes are included in a review session
+  learnAheadMinutes: 20,
+
+  // Daily limits for sources that haven't set their own (see services/review-queue.ts).
+  // Cards in their learning or relearning steps are never held back.
+  dailyLimits: {
+    newCardsPerDay: parseLimit(process.env.NEW_CARDS_PER_DAY, 20),
+    maxReviewsPerDay: parseLimit(process.env.MAX_REVIEWS_PER_DAY, 200),
+    reviewOrder: REVIEW_ORDERS.find((order) => order === process.env.REVIEW_ORDER) ?? 'mixed',
+  },
+
+  // Cards rated "again" this many times are leeches and get suspended until
+  // rewritten (see services/leeches.ts). A rewritten card becomes a leech again
+  // every `repeatEvery` lapses after that.
+  leech: {
+    threshold: Number(process.env.LEECH_THRESHOLD) || 8,
+    repeatEvery: 4,
+  },
+
+  // Multiple choice and typed cards are rated from the answer (see services/quiz-grading.ts)
+  autoGrading: {
+    // Typed answers this similar to an accepted answer (0-1) count as correct.
+    // Those above partialCreditSimilarity get partial credit and rate "hard".
+    correctSimilarity: 0.85,
+    partialCreditSimilarity: 0.6,
+    // Correct answers faster than easyMs rate "easy", slower than hardMs "hard"
+    multipleChoice: { easyMs: 5000, hardMs: 20000 },
+    typed: { easyMs: 10000, hardMs: 30000 },
+  },
+
+  // FSRS (Free Spaced Repetition Scheduler) v5
+  fsrs: {
+    // Probability of recall to schedule reviews at; higher means shorter intervals
+    requestRetention: Number(process.env.FSRS_REQUEST_RETENTION) || 0.9,
+    // Range the learner may set desired retention to
+    minRequestRetention: 0.7,
+    maxRequestRetention: 0.99,
+    maximumIntervalDays: 36500,
+    // Default model weights w0-w18
+    weights: [
+      0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192,
+      1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621,
+    ],
+
+    // Fitting weights to the learner's review history (see services/fsrs-optimizer.ts)
+    optimizer: {
+      // Scored reviews needed before weights can be fitted
+      minReviews: 100,
+      iterations: 200,
+      learningRate: 0.02,
+    },
+  },
+};
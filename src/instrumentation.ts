@@ -0,0 +1,9 @@
+// Next.js instrumentation hook - runs once when the server starts
+
+export async function register() {
+  // Resume queued and interrupted background jobs (Node.js server only)
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startJobWorker } = await import('@/lib/services/job-queue');
+    startJobWorker();
+  }
+}
@@ -1,8 +1,6 @@
 // Cross-Source Summary Aggregation Service
 // Combines summaries from multiple sources into unified insights
 
-import Anthropic from '@anthropic-ai/sdk';
-import { AI_CONFIG } from '@/config/ai-config';
 import {
   Summary,
   SummaryType,
@@ -12,27 +10,21 @@ import {
   CreateSummaryInput,
 } from '@/types/summaries';
 import { getWordCount } from './hierarchical-chunker';
-
-const anthropic = new Anthropic();
+import { getLLMProvider } from './llm-provider';
+import { getRenderedPrompt } from './prompt-templates';
+import { generateStructured, StructuredResult } from './structured-output';
+import {
+  ThemesOutputSchema,
+  ThemeOutput,
+  createInsightsOutputSchema,
+  ComparisonOutputSchema,
+  ComparisonOutput,
+} from './output-schemas';
 
 // ============================================================================
 // Prompts
 // ============================================================================
 
-const AGGREGATE_SUMMARIES_PROMPT = `You are an expert at synthesizing information from multiple sources. Create a unified summary that:
-
-1. Identifies common themes and patterns across sources
-2. Highlights unique insights from each source
-3. Resolves any contradictions or differences in perspective
-4. Organizes information logically by theme, not by source
-5. Removes redundancy while preserving important nuances
-
-Guidelines:
-- Focus on what matters most across all sources
-- Note when sources agree or disagree on key points
-- Preserve attribution when insights are source-specific
-- Create a coherent narrative, not just a compilation`;
-
 const FIND_THEMES_PROMPT = `You are an expert at identifying patterns across documents. Analyze the provided summaries and:
 
 1. Identify 5-10 major themes that appear across multiple sources
@@ -72,11 +64,19 @@ Return ONLY valid JSON.`;
 // Core Aggregation Functions
 // ============================================================================
 
+function logRepairs(step: string, result: StructuredResult<unknown>): void {
+  if (result.repairs.length > 0) {
+    console.warn(`Repaired AI ${step} output:`, result.repairs);
+  }
+}
+
 interface AggregationInput {
   summaries: Summary[];
   collectionName: string;
   collectionId: string;
   options?: Partial<AggregationOptions>;
+  // Call the model even when cached theme analysis exists
+  bypassCache?: boolean;
 }
 
 /**
@@ -132,17 +132,15 @@ Create a unified summary that synthesizes these ${summaries.length} sources.
 Target ${options.maxKeyPoints} key points.
 ${options.includeSourceAttribution ? 'Include source attribution where relevant.' : ''}`;
 
-  const response = await anthropic.messages.create({
-    model: AI_CONFIG.model,
-    max_tokens: 3000,
-    system: AGGREGATE_SUMMARIES_PROMPT,
+  const systemPrompt = await getRenderedPrompt('aggregation');
+  const response = await getLLMProvider().complete({
+    maxTokens: 3000,
+    system: systemPrompt.text,
     messages: [{ role: 'user', content: userPrompt }],
+    operation: 'aggregation',
   });
 
-  const content = response.content
-    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-    .map((block) => block.text)
-    .join('');
+  const content = response.text;
 
   return {
     sourceId: input.collectionId, // Use collection ID as source
@@ -150,10 +148,11 @@ ${options.includeSourceAttribution ? 'Include source attribution where relevant.
     title: `Aggregated: ${collectionName}`,
     content,
     wordCount: getWordCount(content),
-    generationModel: AI_CONFIG.model,
+    generationModel: response.model,
+    promptTemplateId: systemPrompt.templateId,
     generationDurationMs: Date.now() - startTime,
-    inputTokenCount: response.usage.input_tokens,
-    outputTokenCount: response.usage.output_tokens,
+    inputTokenCount: response.usage.inputTokens,
+    outputTokenCount: response.usage.outputTokens,
   };
 }
 
@@ -161,8 +160,9 @@ ${options.includeSourceAttribution ? 'Include source attribution where relevant.
  * Find common themes across multiple summaries
  */
 export async function findCommonThemes(
-  summaries: Summary[]
-): Promise<{ theme: string; description: string; sourceCount: number; importance: 'high' | 'medium' | 'low' }[]> {
+  summaries: Summary[],
+  options: { bypassCache?: boolean } = {}
+): Promise<ThemeOutput[]> {
   const summaryTexts = summaries.map((s, i) =>
     `### Source ${i + 1}: ${s.title}\n${s.content}`
   ).join('\n\n---\n\n');
@@ -175,26 +175,16 @@ ${summaryTexts}
 
 Identify 5-10 major themes that appear across multiple sources.`;
 
-  const response = await anthropic.messages.create({
-    model: AI_CONFIG.model,
-    max_tokens: 1500,
+  const result = await generateStructured(ThemesOutputSchema, {
+    maxTokens: 1500,
     system: FIND_THEMES_PROMPT,
     messages: [{ role: 'user', content: userPrompt }],
+    operation: 'theme_extraction',
+    cache: !options.bypassCache,
   });
 
-  const responseText = response.content
-    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-    .map((block) => block.text)
-    .join('');
-
-  try {
-    const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) return [];
-    return JSON.parse(jsonMatch[0]);
-  } catch {
-    console.error('Failed to parse themes response');
-    return [];
-  }
+  logRepairs('themes', result);
+  return result.data;
 }
 
 /**
@@ -215,49 +205,21 @@ ${summaryTexts}
 
 Identify insights that appear in only one source.`;
 
-  const response = await anthropic.messages.create({
-    model: AI_CONFIG.model,
-    max_tokens: 1500,
+  const result = await generateStructured(createInsightsOutputSchema(summaries.length), {
+    maxTokens: 1500,
     system: EXTRACT_INSIGHTS_PROMPT,
     messages: [{ role: 'user', content: userPrompt }],
+    operation: 'insight_extraction',
   });
 
-  const responseText = response.content
-    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-    .map((block) => block.text)
-    .join('');
-
-  try {
-    const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) return [];
-
-    const parsed = JSON.parse(jsonMatch[0]) as Array<{
-      sourceIndex: number;
-      insight: string;
-      significance: string;
-    }>;
-
-    // Map source indices to source IDs with bounds validation
-    return parsed
-      .filter(item => {
-        // Validate sourceIndex is within bounds
-        const validIndex = typeof item.sourceIndex === 'number' &&
-                          item.sourceIndex >= 0 &&
-                          item.sourceIndex < summaries.length;
-        if (!validIndex) {
-          console.warn(`Invalid sourceIndex ${item.sourceIndex} in insights response (max: ${summaries.length - 1})`);
-        }
-        return validIndex;
-      })
-      .map(item => ({
-        sourceId: summaries[item.sourceIndex].sourceId,
-        insight: item.insight,
-        significance: item.significance,
-      }));
-  } catch {
-    console.error('Failed to parse insights response');
-    return [];
-  }
+  logRepairs('insights', result);
+
+  // Map source indices to source IDs
+  return result.data.map((item) => ({
+    sourceId: summaries[item.sourceIndex].sourceId,
+    insight: item.insight,
+    significance: item.significance,
+  }));
 }
 
 // ============================================================================
@@ -275,7 +237,7 @@ export async function generateAggregatedSummary(
   // Run aggregation, themes, and insights in parallel
   const [aggregatedSummary, themes, insights] = await Promise.all([
     aggregateSummaries(input),
-    findCommonThemes(summaries),
+    findCommonThemes(summaries, { bypassCache: input.bypassCache }),
     extractUniqueInsights(summaries),
   ]);
 
@@ -357,12 +319,7 @@ export function findDuplicateConcepts(
 export async function compareSummaries(
   summary1: Summary,
   summary2: Summary
-): Promise<{
-  agreements: string[];
-  disagreements: string[];
-  unique1: string[];
-  unique2: string[];
-}> {
+): Promise<ComparisonOutput> {
   const prompt = `Compare these two summaries and identify:
 1. Points of agreement
 2. Points of disagreement or contradiction
@@ -385,25 +342,12 @@ Return a JSON object:
 
 Return ONLY valid JSON.`;
 
-  const response = await anthropic.messages.create({
-    model: AI_CONFIG.model,
-    max_tokens: 2000,
+  const result = await generateStructured(ComparisonOutputSchema, {
+    maxTokens: 2000,
     messages: [{ role: 'user', content: prompt }],
+    operation: 'summary_comparison',
   });
 
-  const responseText = response.content
-    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-    .map((block) => block.text)
-    .join('');
-
-  try {
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return { agreements: [], disagreements: [], unique1: [], unique2: [] };
-    }
-    return JSON.parse(jsonMatch[0]);
-  } catch {
-    console.error('Failed to parse comparison response');
-    return { agreements: [], disagreements: [], unique1: [], unique2: [] };
-  }
+  logRepairs('comparison', result);
+  return result.data;
 }
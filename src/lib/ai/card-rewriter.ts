@@ -0,0 +1,78 @@
+// Leech Rewriting
+// Suggests a rewrite for a card the learner keeps forgetting. Nothing is saved
+// here; the learner reviews the suggestion and applies it (see services/leeches.ts).
+
+import { AI_CONFIG } from '@/config/ai-config';
+import { Flashcard, LeechRewriteMode, LeechRewriteSuggestion, MicroLesson } from '@/types';
+import { formatCloze } from '@/lib/services/cloze';
+import { generateStructured } from './structured-output';
+import { createLeechRewriteOutputSchema } from './output-schemas';
+
+const MODE_INSTRUCTIONS: Record<LeechRewriteMode, string> = {
+  split: `The card asks for too much at once. Split it into 2-${AI_CONFIG.contentGuidelines.maxSplitCards} smaller cards that each ask for one fact, together covering the original answer. The first card replaces the original.`,
+  memory_aid: 'Keep the question and answer (reword them only if they are ambiguous) and write a better hint and mnemonic. The hint must use a semantic clue connecting to something familiar, never letters of the answer. The mnemonic should be vivid and easy to picture.',
+  excerpt: `Keep the card as it is and pick the passage of the lesson that best explains the answer, at most ${AI_CONFIG.contentGuidelines.maxExcerptWords} words, quoted word for word. It is shown with the answer.`,
+};
+
+/**
+ * Suggest a rewrite of a leech in the given mode, using the lesson it came
+ * from for context
+ */
+export async function suggestLeechRewrite(
+  card: Flashcard,
+  lesson: MicroLesson,
+  mode: LeechRewriteMode
+): Promise<LeechRewriteSuggestion> {
+  // Cloze cards as the learner sees them
+  const isCloze = card.cardType === 'cloze';
+  const front = isCloze ? formatCloze(card.front, card.clozeIndex ?? 1) : card.front;
+  const back = isCloze ? formatCloze(card.front, card.clozeIndex ?? 1, true) : card.back;
+
+  const { data, repairs } = await generateStructured(createLeechRewriteOutputSchema(mode, lesson.content), {
+    maxTokens: AI_CONFIG.tokenLimits.rewriteLeech,
+    messages: [
+      {
+        role: 'user',
+        content: `A learner with ADHD has forgotten this flashcard ${card.lapses ?? 0} times:
+
+Front: ${front}
+Back: ${back}${card.hint ? `
+Hint: ${card.hint}` : ''}${card.mnemonic ? `
+Mnemonic: ${card.mnemonic}` : ''}
+
+It comes from this lesson:
+Title: ${lesson.title}
+Content: ${lesson.content}
+
+${MODE_INSTRUCTIONS[mode]}
+
+Return a JSON object:
+{
+  "cards": [
+    {
+      "front": "Question",
+      "back": "Answer",
+      "hint": "Semantic hint",
+      "mnemonic": "Memory aid"
+    }
+  ]${mode === 'excerpt' ? `,
+  "excerpt": "Passage quoted from the lesson"` : ''}
+}
+
+Return ONLY valid JSON.`,
+      },
+    ],
+    operation: 'leech_rewrite',
+    sourceId: lesson.sourceId,
+  });
+
+  if (repairs.length > 0) {
+    console.warn(`Repaired AI leech rewrite for card ${card.id}:`, repairs);
+  }
+
+  return {
+    mode,
+    cards: data.cards,
+    excerpt: mode === 'excerpt' ? data.excerpt : undefined,
+  };
+}
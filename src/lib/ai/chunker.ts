@@ -1,114 +1,203 @@
 // AI-Powered Content Chunking Service
-// Breaks content into ADHD-friendly micro-lessons using Claude
+// Breaks content into ADHD-friendly micro-lessons using the configured LLM provider
 
-import Anthropic from '@anthropic-ai/sdk';
-import { MicroLesson, Flashcard } from '@/types';
+import { MicroLesson, Note, PageRange, DocumentHeading, CardType } from '@/types';
 import { AI_CONFIG } from '@/config/ai-config';
-
-const anthropic = new Anthropic();
+import { insertPageMarkers, slicePageMap } from '@/lib/services/page-map';
+import { CheckpointStore, getStepKey, runCheckpointed } from '@/lib/services/checkpoints';
+import { segmentDocument, getWordCount } from './hierarchical-chunker';
+import { getLLMProvider } from './llm-provider';
+import { generateStructured } from './structured-output';
+import { getRenderedPrompt } from './prompt-templates';
+import {
+  ClozeNoteOutput,
+  FlashcardListOutputSchema,
+  FlashcardOutput,
+  LessonChunkOutput,
+  LessonChunkOutputSchema,
+  LessonOutput,
+} from './output-schemas';
+
+// A flashcard note as generated, before it is saved with its cards
+export type GeneratedNote = Omit<Note, 'id' | 'createdAt' | 'updatedAt' | 'lessonId'>;
 
 interface ChunkingResult {
   lessons: Omit<MicroLesson, 'id' | 'createdAt' | 'audioPath'>[];
-  flashcards: Omit<Flashcard, 'id' | 'createdAt' | 'lessonId'>[];
+  // Each note names the sequence of the lesson it was generated with
+  notes: (GeneratedNote & { lessonSequence: number })[];
+  // Fields the model was re-asked about or that were corrected or defaulted
+  repairs: string[];
+}
+
+interface SegmentLessons extends LessonChunkOutput {
+  // Version of the lesson_generation template used; missing in checkpoints from before templates
+  promptTemplateId?: string;
+  repairs: string[];
+}
+
+export interface ChunkContentOptions {
+  // Page map of the source; when given, lessons record the pages they cover
+  pageMap?: PageRange[];
+  // Headings from the source's own structure, used to segment long sources
+  headings?: DocumentHeading[];
+  // Called before each segment is turned into lessons and once all are done
+  onProgress?: (completedSegments: number, totalSegments: number) => void | Promise<void>;
+  // Completed segments from an earlier attempt are reused instead of regenerated
+  checkpoints?: CheckpointStore;
+  // Call the model even when a cached response for a segment exists
+  bypassCache?: boolean;
+}
+
+interface LessonSegment {
+  sourceId: string;
+  text: string;
+  index: number;
+  total: number;
+  sectionTitle?: string;
+  pageMap?: PageRange[];
+  // Titles of the lessons generated from earlier segments
+  previousTitles: string[];
 }
 
 /**
- * Attempt to repair common JSON issues from AI responses
+ * Clamp a page number reported by the model to the document's pages
  */
-function repairJson(jsonStr: string): string {
-  let repaired = jsonStr.trim();
+function toPageNumber(value: unknown, pageMap: PageRange[]): number | undefined {
+  const page = Math.round(Number(value));
+  if (!Number.isFinite(page) || page < 1) return undefined;
+  return Math.min(Math.max(page, pageMap[0].page), pageMap[pageMap.length - 1].page);
+}
 
-  // Remove any leading/trailing text that isn't JSON
-  const startIdx = repaired.indexOf('{');
-  if (startIdx > 0) {
-    repaired = repaired.slice(startIdx);
+/**
+ * Reading time of a lesson from its length
+ */
+function estimateReadingMinutes(content: string): number {
+  return Math.max(1, Math.round(getWordCount(content) / AI_CONFIG.contentGuidelines.readingWordsPerMinute));
+}
+
+/**
+ * Build a lesson from validated model output. Values the model left out or
+ * got wrong are replaced, and each replacement is added to `repairs`.
+ */
+function toLesson(
+  lesson: LessonOutput,
+  sourceId: string,
+  sequence: number,
+  pages: PageRange[] | undefined,
+  repairs: string[]
+): ChunkingResult['lessons'][number] {
+  const label = `lesson ${sequence}`;
+
+  // The model's estimate is kept only when it is within a minute of the reading time
+  const readingMinutes = estimateReadingMinutes(lesson.content);
+  let estimatedMinutes = lesson.estimatedMinutes ?? readingMinutes;
+  if (lesson.estimatedMinutes == null) {
+    repairs.push(`${label} estimatedMinutes: defaulted to ${readingMinutes} (from word count)`);
+  } else if (Math.abs(lesson.estimatedMinutes - readingMinutes) > 1) {
+    repairs.push(`${label} estimatedMinutes: ${lesson.estimatedMinutes} replaced with ${readingMinutes} (from word count)`);
+    estimatedMinutes = readingMinutes;
   }
 
-  // Try to fix truncated arrays by closing them
-  const openBrackets = (repaired.match(/\[/g) || []).length;
-  const closeBrackets = (repaired.match(/\]/g) || []).length;
-  if (openBrackets > closeBrackets) {
-    repaired += ']'.repeat(openBrackets - closeBrackets);
+  const difficulty = lesson.difficulty ?? 1;
+  if (lesson.difficulty == null) {
+    repairs.push(`${label} difficulty: defaulted to 1`);
   }
 
-  // Try to fix truncated objects by closing them
-  const openBraces = (repaired.match(/\{/g) || []).length;
-  const closeBraces = (repaired.match(/\}/g) || []).length;
-  if (openBraces > closeBraces) {
-    repaired += '}'.repeat(openBraces - closeBraces);
+  let pageStart: number | undefined;
+  let pageEnd: number | undefined;
+  if (pages) {
+    pageStart = toPageNumber(lesson.pageStart, pages);
+    pageEnd = toPageNumber(lesson.pageEnd, pages) ?? pageStart;
+    if (pageStart === undefined) {
+      repairs.push(`${label} pageStart: missing`);
+    } else if (pageStart !== lesson.pageStart || (lesson.pageEnd != null && pageEnd !== lesson.pageEnd)) {
+      repairs.push(`${label} pages: ${lesson.pageStart}-${lesson.pageEnd} clamped to ${pageStart}-${pageEnd}`);
+    }
   }
 
-  // Remove trailing commas before closing brackets/braces
-  repaired = repaired.replace(/,\s*([\]}])/g, '$1');
+  return {
+    sourceId,
+    sequence,
+    title: lesson.title,
+    hook: lesson.hook,
+    content: lesson.content,
+    keyTakeaway: lesson.keyTakeaway,
+    estimatedMinutes: Math.round(estimatedMinutes),
+    difficulty,
+    pageStart: pageStart !== undefined && pageEnd !== undefined ? Math.min(pageStart, pageEnd) : pageStart,
+    pageEnd: pageStart !== undefined && pageEnd !== undefined ? Math.max(pageStart, pageEnd) : pageEnd,
+  };
+}
+
+// Answer formats flashcard generation can be asked for
+export type FlashcardFormat = Exclude<CardType, 'cloze'>;
+
+const QUESTION_TYPE_LABELS: Record<keyof typeof AI_CONFIG.flashcardTypes, string> = {
+  definitional: 'Definitional: "What is [term]?"',
+  conceptual: 'Conceptual: "Why does [concept] work?"',
+  application: 'Application: "How would you apply...?"',
+  procedural: 'Procedural: "What are the steps to...?"',
+};
 
-  return repaired;
+// Definitional notes with a term also get a card showing the back and asking for the term
+const REVERSE_CARD_GUIDELINE = 'For definitional cards ("What is X?") set "term" to X, and make the back identify X on its own so it can be asked in reverse';
+
+/**
+ * Build a flashcard note from validated model output
+ */
+function toNote(card: FlashcardOutput): GeneratedNote {
+  const { format, distractors, acceptedAnswers, term, ...fields } = card;
+  return {
+    ...fields,
+    noteType: format || 'basic',
+    term: AI_CONFIG.contentGuidelines.reverseDefinitionCards ? term : undefined,
+    distractors: format === 'multiple_choice' ? distractors ?? undefined : undefined,
+    acceptedAnswers: format === 'typed' ? acceptedAnswers ?? undefined : undefined,
+  };
 }
 
 /**
- * Process content into ADHD-friendly micro-lessons and flashcards
+ * A cloze note gets one card per deletion when saved
  */
-export async function chunkContent(
-  text: string,
-  sourceId: string,
-  title: string
-): Promise<ChunkingResult> {
-  // Truncate very long content to fit context window
-  const truncatedText = text.length > AI_CONFIG.maxInputChars
-    ? text.slice(0, AI_CONFIG.maxInputChars) + '\n\n[Content truncated...]'
-    : text;
-
-  const systemPrompt = `You are an expert educational content designer specializing in ADHD-friendly learning materials. Your task is to transform raw text into engaging micro-lessons optimized for ADHD learners.
-
-## Core Principles for ADHD-Friendly Content
-
-### 1. CHUNKING (Critical)
-- Break content into ${AI_CONFIG.contentGuidelines.minChunkWords}-${AI_CONFIG.contentGuidelines.maxChunkWords} word segments
-- Target ${AI_CONFIG.contentGuidelines.targetChunkWords} words per chunk (2-5 minute reads)
-- Adjust by difficulty:
-  * Difficulty 1 (beginner): 300-400 words, simpler concepts
-  * Difficulty 2 (intermediate): 400-500 words
-  * Difficulty 3 (advanced): 450-550 words, more depth allowed
-
-### 2. COGNITIVE LOAD MANAGEMENT (ADHD-Specific)
-- Add subheadings every ${AI_CONFIG.contentGuidelines.subheadingFrequency} to create visual breaks
-- Include ${AI_CONFIG.contentGuidelines.examplesPerConcept} concrete, real-world examples per concept
-- Use explicit transition sentences between paragraphs ("Now that we understand X, let's explore Y...")
-- Maintain LINEAR progression - NO nested explanations or tangents
-- Include a brief reflection question mid-content to re-engage wandering attention
-
-### 3. ENGAGEMENT
-- Start each chunk with a compelling "why should I care?" HOOK
-- Use active voice throughout
-- Incorporate relatable analogies that connect to everyday experience
-- End with a clear, memorable KEY TAKEAWAY (one sentence)
-
-### 4. CLARITY
-- ONE main concept per chunk - never overload
-- Define technical terms inline when first used
-- Each chunk should build naturally on the previous one
-
-## Flashcard Generation Guidelines
-
-### Question Type Distribution (Balance These)
-- ~30% Definitional: "What is [term]?" - testing recall of definitions
-- ~30% Conceptual: "Why does [concept] work this way?" - testing understanding
-- ~25% Application: "How would you apply [concept] to [scenario]?" - testing transfer
-- ~15% Procedural: "What are the steps to [process]?" - testing sequences
-
-### Hint Quality Guidelines
-- Use SEMANTIC clues, not letter-based hints (not "starts with C...")
-- Connect to real-world contexts the learner already knows
-- For stuck learners, hints should help re-engage, not just give partial answers
-- Example good hint: "Think about how this relates to the water cycle analogy we used"
-- Example bad hint: "It starts with 'e' and ends with 'ion'"`;
+function toClozeNote(note: ClozeNoteOutput): GeneratedNote {
+  return {
+    noteType: 'cloze',
+    front: note.text,
+    back: note.extra || '',
+  };
+}
+
+/**
+ * Ask the model for the micro-lessons and flashcards of one segment
+ */
+async function generateSegmentLessons(
+  segment: LessonSegment,
+  title: string,
+  bypassCache: boolean = false
+): Promise<SegmentLessons> {
+  const { pageMap } = segment;
+  const content = pageMap ? insertPageMarkers(segment.text, pageMap) : segment.text;
+  // Short sources still get a handful of lessons; each part of a long one may need only one
+  const minLessons = segment.total === 1 ? AI_CONFIG.contentGuidelines.minLessons : 1;
+
+  let partInfo = '';
+  if (segment.total > 1) {
+    partInfo = `\nPart ${segment.index + 1} of ${segment.total}${segment.sectionTitle ? ` (${segment.sectionTitle})` : ''}`;
+    if (segment.previousTitles.length > 0) {
+      partInfo += `\nEarlier lessons covered: ${segment.previousTitles.slice(-5).join('; ')}. Continue from there without repeating them.`;
+    }
+  }
+
+  const systemPrompt = await getRenderedPrompt('lesson_generation');
 
+  const reverseCards = AI_CONFIG.contentGuidelines.reverseDefinitionCards;
   const userPrompt = `Transform the following content into micro-lessons and flashcards.
 
-Title: "${title}"
+Title: "${title}"${partInfo}
 
 Content:
 ---
-${truncatedText}
+${content}
 ---
 
 Return a JSON object with this exact structure:
@@ -121,7 +210,15 @@ Return a JSON object with this exact structure:
       "content": "The main content, ${AI_CONFIG.contentGuidelines.minChunkWords}-${AI_CONFIG.contentGuidelines.maxChunkWords} words. Use markdown formatting with ## subheadings every 50-100 words. Include 1-2 concrete examples. Add explicit transition sentences. Include a brief reflection question mid-content.",
       "keyTakeaway": "One clear sentence summarizing the main point",
       "estimatedMinutes": 3,
-      "difficulty": 1
+      "difficulty": 1${pageMap ? `,
+      "pageStart": 1,
+      "pageEnd": 2` : ''},
+      "clozeNotes": [
+        {
+          "text": "A sentence from the key takeaway or a definition with {{c1::a key term}} and {{c2::another::optional hint}} hidden",
+          "extra": "Optional context shown with the answer"
+        }
+      ]
     }
   ],
   "flashcards": [
@@ -130,122 +227,153 @@ Return a JSON object with this exact structure:
       "back": "Concise answer",
       "hint": "Semantic hint connecting to familiar concepts (not letter-based)",
       "mnemonic": "Optional memory aid or association",
-      "visualCue": "Optional emoji that represents this concept"
+      "visualCue": "Optional emoji that represents this concept"${reverseCards ? `,
+      "term": "Definitional cards only: the term the question asks about"` : ''}
     }
   ]
 }
 
 Critical Guidelines:
-- Create ${AI_CONFIG.contentGuidelines.minLessons}-${AI_CONFIG.contentGuidelines.maxLessons} micro-lessons depending on content length
+- Create ${minLessons}-${AI_CONFIG.contentGuidelines.maxLessons} micro-lessons depending on content length
 - Create ${AI_CONFIG.contentGuidelines.flashcardsPerLesson}-4 flashcards per lesson for key concepts
-- Balance flashcard types: 30% definitional, 30% conceptual, 25% application, 15% procedural
+- Balance flashcard types: 30% definitional, 30% conceptual, 25% application, 15% procedural${reverseCards ? `
+- ${REVERSE_CARD_GUIDELINE}` : ''}
+- Give each lesson ${AI_CONFIG.contentGuidelines.clozeNotesPerLesson} cloze notes built from its keyTakeaway and the definitions in its content. Hide 1-3 key terms per note with {{c1::term}}, {{c2::term}}, numbered from 1, and keep enough context to recall each one
 - Set difficulty: 1 (beginner), 2 (intermediate), 3 (advanced)
 - estimatedMinutes should be 2-5 based on content length
 - Make hooks genuinely engaging, not clickbait
 - Key takeaways should be memorable and actionable
-- Hints must use semantic clues, never letter-based hints
+- Hints must use semantic clues, never letter-based hints${pageMap ? `
+- The content is marked with [Page N] at the start of each page. Set pageStart and pageEnd to the first and last page each lesson draws from` : ''}
 
 Return ONLY valid JSON, no other text.`;
 
-  const response = await anthropic.messages.create({
-    model: AI_CONFIG.model,
-    max_tokens: AI_CONFIG.tokenLimits.chunkContent,
+  const { data, repairs } = await generateStructured(LessonChunkOutputSchema, {
+    maxTokens: AI_CONFIG.tokenLimits.chunkContent,
     messages: [
       {
         role: 'user',
         content: userPrompt,
       },
     ],
-    system: systemPrompt,
+    system: systemPrompt.text,
+    operation: 'lesson_generation',
+    sourceId: segment.sourceId,
+    cache: !bypassCache,
   });
 
-  // Extract text from response
-  const responseText = response.content
-    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-    .map((block) => block.text)
-    .join('');
-
-  // Parse JSON response with error recovery
-  let parsed: { lessons: unknown[]; flashcards: unknown[] };
-  try {
-    // Try to extract JSON from the response (in case there's extra text)
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
-    }
-
-    try {
-      parsed = JSON.parse(jsonMatch[0]);
-    } catch {
-      // Try to repair common JSON issues
-      const repaired = repairJson(jsonMatch[0]);
-      parsed = JSON.parse(repaired);
-      console.log('JSON repaired successfully');
-    }
-  } catch (error) {
-    console.error('Failed to parse AI response:', responseText.substring(0, 500));
-
-    // Return partial results if we can extract any lessons/flashcards
-    const partialLessons = responseText.match(/"lessons"\s*:\s*\[([\s\S]*?)\]/);
-    const partialFlashcards = responseText.match(/"flashcards"\s*:\s*\[([\s\S]*?)\]/);
-
-    if (partialLessons || partialFlashcards) {
-      console.log('Attempting partial recovery...');
-      parsed = {
-        lessons: partialLessons ? JSON.parse(`[${partialLessons[1]}]`) : [],
-        flashcards: partialFlashcards ? JSON.parse(`[${partialFlashcards[1]}]`) : [],
-      };
-    } else {
-      throw new Error('Failed to parse AI chunking response');
-    }
-  }
+  return {
+    ...data,
+    promptTemplateId: systemPrompt.templateId,
+    repairs: repairs.map((repair) => `segment ${segment.index + 1}, ${repair}`),
+  };
+}
 
-  // Validate and transform lessons
-  const lessons = (parsed.lessons || []).map((lessonData: unknown, index: number) => {
-    const lesson = lessonData as Record<string, unknown>;
-    return {
-      sourceId,
-      sequence: (lesson.sequence as number) || index + 1,
-      title: String(lesson.title || `Lesson ${index + 1}`),
-      hook: String(lesson.hook || ''),
-      content: String(lesson.content || ''),
-      keyTakeaway: String(lesson.keyTakeaway || lesson.key_takeaway || ''),
-      estimatedMinutes: Number(lesson.estimatedMinutes || lesson.estimated_minutes) || 3,
-      difficulty: (lesson.difficulty as 1 | 2 | 3) || 1,
-    };
+/**
+ * Process content into ADHD-friendly micro-lessons and flashcards.
+ * Long sources are split with segmentDocument and each segment gets its own
+ * lessons; sequence numbers run on across segments.
+ */
+export async function chunkContent(
+  text: string,
+  sourceId: string,
+  title: string,
+  options: ChunkContentOptions = {}
+): Promise<ChunkingResult> {
+  const pageMap = options.pageMap && options.pageMap.length > 0 ? options.pageMap : undefined;
+  const segments = segmentDocument(text, sourceId, {
+    maxTokensPerSegment: AI_CONFIG.lessonSegmentTokens,
+    headings: options.headings,
   });
 
-  // Validate and transform flashcards
-  const flashcards = (parsed.flashcards || []).map((cardData: unknown) => {
-    const card = cardData as Record<string, unknown>;
-    return {
-      front: String(card.front || ''),
-      back: String(card.back || ''),
-      hint: card.hint ? String(card.hint) : undefined,
-      mnemonic: card.mnemonic ? String(card.mnemonic) : undefined,
-      visualCue: card.visualCue || card.visual_cue ? String(card.visualCue || card.visual_cue) : undefined,
-      easeFactor: 2.5,
-      interval: 0,
-      repetitions: 0,
-    };
-  });
+  const result: ChunkingResult = { lessons: [], notes: [], repairs: [] };
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const start = segment.startIndex ?? 0;
+    const end = segment.endIndex ?? text.length;
+    const segmentPages = pageMap ? slicePageMap(pageMap, start, end) : [];
+    await options.onProgress?.(i, segments.length);
+    const pages = segmentPages.length > 0 ? segmentPages : undefined;
+
+    const segmentText = segment.text ?? text.slice(start, end);
+
+    const parsed = await runCheckpointed(options.checkpoints, getStepKey(`segment:${i}`, segmentText), () =>
+      generateSegmentLessons(
+        {
+          sourceId,
+          text: segmentText,
+          index: i,
+          total: segments.length,
+          sectionTitle: segment.sectionTitle,
+          pageMap: pages,
+          previousTitles: result.lessons.map((lesson) => lesson.title),
+        },
+        title,
+        options.bypassCache
+      )
+    );
+
+    result.repairs.push(...parsed.repairs);
+    const firstSequence = result.lessons.length + 1;
+    const lessons = parsed.lessons.map((lesson, index) => ({
+      ...toLesson(lesson, sourceId, firstSequence + index, pages, result.repairs),
+      promptTemplateId: parsed.promptTemplateId,
+    }));
 
-  return { lessons, flashcards };
+    // Spread the flashcards over this segment's lessons
+    const cardsPerLesson = Math.ceil(parsed.flashcards.length / Math.max(lessons.length, 1));
+    const notes = parsed.flashcards.map((card, index) => ({
+      ...toNote(card),
+      lessonSequence: firstSequence + Math.floor(index / cardsPerLesson),
+    }));
+
+    const clozeNotes = parsed.lessons.flatMap((lesson, index) =>
+      (lesson.clozeNotes ?? []).map((note) => ({
+        ...toClozeNote(note),
+        lessonSequence: firstSequence + index,
+      }))
+    );
+
+    result.lessons.push(...lessons);
+    result.notes.push(...notes, ...clozeNotes);
+  }
+
+  if (result.repairs.length > 0) {
+    console.warn(`Repaired AI lesson output for source ${sourceId}:`, result.repairs);
+  }
+
+  await options.onProgress?.(segments.length, segments.length);
+  return result;
 }
 
 /**
- * Generate additional flashcards for a specific lesson
+ * Generate additional flashcards for a specific lesson. `formats` are the
+ * answer formats to use; multiple choice and typed cards are graded
+ * automatically when reviewed.
  */
 export async function generateFlashcardsForLesson(
   lessonContent: string,
   lessonTitle: string,
-  existingCards: number = 0
-): Promise<Omit<Flashcard, 'id' | 'createdAt' | 'lessonId'>[]> {
+  existingCards: number = 0,
+  sourceId?: string,
+  formats: FlashcardFormat[] = ['basic']
+): Promise<GeneratedNote[]> {
   const targetCards = Math.max(2, 5 - existingCards); // Generate up to 5 total cards
+  const { distractorsPerQuestion, maxTypedAnswerWords, reverseDefinitionCards: reverseCards } = AI_CONFIG.contentGuidelines;
+
+  const distribution = Object.entries(AI_CONFIG.flashcardTypes)
+    .map(([type, share]) => `- ~${Math.round(share * 100)}% ${QUESTION_TYPE_LABELS[type as keyof typeof QUESTION_TYPE_LABELS]}`)
+    .join('\n');
+
+  const formatGuidelines = [
+    formats.includes('basic') && '- "basic": the learner recalls the answer and rates themselves',
+    formats.includes('multiple_choice') && `- "multiple_choice": add ${distractorsPerQuestion} "distractors", plausible wrong answers of the same kind and length as the answer (common misconceptions, related terms). None may be partly correct.`,
+    formats.includes('typed') && `- "typed": the learner types the answer, so it must be at most ${maxTypedAnswerWords} words. Add "acceptedAnswers" with synonyms or abbreviations that also count as correct. Best for definitional questions.`,
+  ].filter(Boolean).join('\n');
 
-  const response = await anthropic.messages.create({
-    model: AI_CONFIG.model,
-    max_tokens: AI_CONFIG.tokenLimits.generateFlashcards,
+  const { data, repairs } = await generateStructured(FlashcardListOutputSchema, {
+    maxTokens: AI_CONFIG.tokenLimits.generateFlashcards,
     messages: [
       {
         role: 'user',
@@ -255,61 +383,38 @@ Title: ${lessonTitle}
 Content: ${lessonContent}
 
 Question Type Distribution:
-- ~30% Definitional: "What is [term]?"
-- ~30% Conceptual: "Why does [concept] work?"
-- ~25% Application: "How would you apply...?"
-- ~15% Procedural: "What are the steps to...?"
+${distribution}
+
+Answer Formats (set "format" on each card, using only these):
+${formatGuidelines}
 
 Return a JSON array of flashcard objects:
 [
   {
+    "format": "${formats[0]}",
     "front": "Question",
     "back": "Answer",
     "hint": "Semantic hint (connect to familiar concepts, NOT letter-based)",
     "mnemonic": "Optional memory aid",
-    "visualCue": "Optional emoji"
+    "visualCue": "Optional emoji"${reverseCards ? `,
+    "term": "Definitional cards only: the term the question asks about"` : ''}${formats.includes('multiple_choice') ? `,
+    "distractors": ["Only for multiple_choice"]` : ''}${formats.includes('typed') ? `,
+    "acceptedAnswers": ["Only for typed"]` : ''}
   }
 ]
 
-Make cards that test understanding, not just memorization. Return ONLY valid JSON.`,
+Make cards that test understanding, not just memorization.${reverseCards ? ` ${REVERSE_CARD_GUIDELINE}.` : ''} Return ONLY valid JSON.`,
       },
     ],
+    operation: 'flashcard_generation',
+    sourceId,
   });
 
-  const responseText = response.content
-    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-    .map((block) => block.text)
-    .join('');
-
-  try {
-    const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      return [];
-    }
-
-    let cards: Record<string, unknown>[];
-    try {
-      cards = JSON.parse(jsonMatch[0]);
-    } catch {
-      // Try to repair the JSON
-      const repaired = repairJson(jsonMatch[0]);
-      cards = JSON.parse(repaired);
-    }
-
-    return cards.map((card) => ({
-      front: String(card.front || ''),
-      back: String(card.back || ''),
-      hint: card.hint ? String(card.hint) : undefined,
-      mnemonic: card.mnemonic ? String(card.mnemonic) : undefined,
-      visualCue: card.visualCue || card.visual_cue ? String(card.visualCue || card.visual_cue) : undefined,
-      easeFactor: 2.5,
-      interval: 0,
-      repetitions: 0,
-    }));
-  } catch {
-    console.error('Failed to parse flashcard response');
-    return [];
+  if (repairs.length > 0) {
+    console.warn(`Repaired AI flashcard output for lesson "${lessonTitle}":`, repairs);
   }
+
+  return data.map(toNote);
 }
 
 /**
@@ -325,9 +430,8 @@ export async function simplifyText(
     standard: 'Keep technical accuracy but improve clarity. Define terms when first used.',
   };
 
-  const response = await anthropic.messages.create({
-    model: AI_CONFIG.model,
-    max_tokens: AI_CONFIG.tokenLimits.simplifyText,
+  const response = await getLLMProvider().complete({
+    maxTokens: AI_CONFIG.tokenLimits.simplifyText,
     messages: [
       {
         role: 'user',
@@ -341,10 +445,8 @@ ${text}
 Return only the simplified text, no other commentary.`,
       },
     ],
+    operation: 'simplify_text',
   });
 
-  return response.content
-    .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-    .map((block) => block.text)
-    .join('');
+  return response.text;
 }
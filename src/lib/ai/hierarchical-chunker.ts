@@ -2,6 +2,7 @@
 // Segments long documents respecting natural boundaries for multi-pass summarization
 
 import { DocumentSegment, DEFAULT_SUMMARIZATION_CONFIG } from '@/types/summaries';
+import { DocumentHeading } from '@/types';
 // Note: detectSectionBoundaries from pdf-extractor could be used for PDF-specific boundary detection
 // Currently using our own detectStructure for general text handling
 
@@ -43,13 +44,30 @@ interface DetectedStructure {
 
 /**
  * Detect document structure including section titles and hierarchy levels
- * Extends pdf-extractor's detectSectionBoundaries with title extraction
+ * Extends pdf-extractor's detectSectionBoundaries with title extraction.
+ * When the extractor already knows the document's headings (EPUB, DOCX,
+ * HTML, Markdown) they are used as-is instead of pattern guesses.
  */
-export function detectStructure(text: string): DetectedStructure {
+export function detectStructure(text: string, knownHeadings?: DocumentHeading[]): DetectedStructure {
   const boundaries: number[] = [0];
   const titles = new Map<number, string>();
   const levels = new Map<number, number>();
 
+  if (knownHeadings && knownHeadings.length > 0) {
+    for (const heading of knownHeadings) {
+      if (heading.offset < 0 || heading.offset >= text.length) continue;
+      boundaries.push(heading.offset);
+      titles.set(heading.offset, heading.title);
+      levels.set(heading.offset, heading.level);
+    }
+
+    return {
+      boundaries: [...new Set(boundaries)].sort((a, b) => a - b),
+      titles,
+      levels,
+    };
+  }
+
   // Patterns with capture groups for titles and level detection
   const patterns: Array<{ pattern: RegExp; level: number }> = [
     { pattern: /^(chapter\s+\d+[:\s]*(.*))/im, level: 1 },
@@ -102,12 +120,14 @@ export interface SegmentOptions {
   maxTokensPerSegment?: number;
   respectSectionBoundaries?: boolean;
   overlapTokens?: number;
+  headings?: DocumentHeading[]; // Headings from the source's own structure
 }
 
 const DEFAULT_OPTIONS: Required<SegmentOptions> = {
   maxTokensPerSegment: DEFAULT_SUMMARIZATION_CONFIG.maxSegmentTokens,
   respectSectionBoundaries: true,
   overlapTokens: 100, // Small overlap for context continuity
+  headings: [],
 };
 
 /**
@@ -128,7 +148,7 @@ export function segmentDocument(
   const segments: Omit<DocumentSegment, 'id' | 'createdAt'>[] = [];
 
   // Detect document structure
-  const structure = detectStructure(text);
+  const structure = detectStructure(text, opts.headings);
 
   // If document is small enough, return as single segment
   const totalTokens = estimateTokens(text);
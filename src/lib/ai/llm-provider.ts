@@ -0,0 +1,236 @@
+// LLM Provider
+// Text completion behind a pluggable backend: Anthropic, any OpenAI-compatible
+// server (Ollama, llama.cpp, vLLM, ...) or a record/replay fixture store
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import Anthropic from '@anthropic-ai/sdk';
+import { AI_CONFIG } from '@/config/ai-config';
+import { AIOperation, CacheStatus } from '@/types/usage';
+import { withUsageTracking } from '@/lib/services/ai-usage';
+import { withResponseCache } from '@/lib/services/llm-cache';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  // What the call is for, recorded in the ai_usage ledger
+  operation: AIOperation;
+  sourceId?: string;
+  // Serve and store the response in the LLM cache (see llm-cache.ts). 'read'
+  // only serves it, for callers that store the response once they've checked it
+  cache?: boolean | 'read';
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string; // Model that produced the response, as reported by the backend
+  usage: LLMUsage;
+  cacheStatus?: CacheStatus; // Set for requests that went through the cache
+}
+
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+// ============================================================================
+// Anthropic Backend
+// ============================================================================
+
+export interface AnthropicProviderOptions {
+  model: string;
+  apiKey?: string; // Defaults to ANTHROPIC_API_KEY
+}
+
+export function createAnthropicProvider(options: AnthropicProviderOptions): LLMProvider {
+  const client = new Anthropic(options.apiKey ? { apiKey: options.apiKey } : undefined);
+
+  return {
+    name: 'anthropic',
+    model: options.model,
+    async complete({ system, messages, maxTokens }) {
+      const response = await client.messages.create({
+        model: options.model,
+        max_tokens: maxTokens,
+        ...(system ? { system } : {}),
+        messages,
+      });
+
+      return {
+        text: response.content
+          .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+          .map((block) => block.text)
+          .join(''),
+        model: response.model,
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+        },
+      };
+    },
+  };
+}
+
+// ============================================================================
+// OpenAI-Compatible Backend
+// ============================================================================
+
+export interface OpenAICompatibleProviderOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  model: string;
+  apiKey?: string;
+  fetchImpl?: typeof fetch;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: { message?: string };
+}
+
+/**
+ * Local or self-hosted models through the /chat/completions endpoint
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleProviderOptions): LLMProvider {
+  const fetchImpl = options.fetchImpl || fetch;
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai-compatible',
+    model: options.model,
+    async complete({ system, messages, maxTokens }) {
+      const res = await fetchImpl(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          max_tokens: maxTokens,
+          messages: system ? [{ role: 'system', content: system }, ...messages] : messages,
+        }),
+      });
+
+      const data = (await res.json().catch(() => ({}))) as ChatCompletionResponse;
+      if (!res.ok) {
+        throw new Error(`LLM request to ${endpoint} failed (${res.status}): ${data.error?.message || res.statusText}`);
+      }
+
+      return {
+        text: data.choices?.[0]?.message?.content || '',
+        model: data.model || options.model,
+        usage: {
+          inputTokens: data.usage?.prompt_tokens || 0,
+          outputTokens: data.usage?.completion_tokens || 0,
+        },
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Fixture Backend
+// ============================================================================
+
+interface LLMFixture {
+  request: LLMRequest;
+  response: LLMResponse;
+}
+
+/**
+ * Turn a request into the fixture file name used by createFixtureProvider.
+ * The model is not part of the key, so fixtures replay under any backend.
+ */
+export function getFixtureKey(request: LLMRequest): string {
+  const digest = crypto
+    .createHash('sha256')
+    .update(JSON.stringify([request.system || '', request.messages, request.maxTokens]))
+    .digest('hex');
+  return `${digest.slice(0, 24)}.json`;
+}
+
+/**
+ * Serve saved responses from a local directory, for tests and offline
+ * development. Given a recording provider, requests without a fixture are
+ * sent to it and the response is saved; otherwise they fail.
+ */
+export function createFixtureProvider(directory: string, recordWith?: LLMProvider): LLMProvider {
+  return {
+    name: recordWith ? `fixture+${recordWith.name}` : 'fixture',
+    model: recordWith?.model || 'fixture',
+    async complete(request) {
+      const filePath = path.join(directory, getFixtureKey(request));
+
+      if (fs.existsSync(filePath)) {
+        const fixture = JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as LLMFixture;
+        return fixture.response;
+      }
+
+      if (!recordWith) {
+        throw new Error(`No LLM fixture ${path.basename(filePath)} in ${directory} (set LLM_RECORD_WITH to record it)`);
+      }
+
+      const response = await recordWith.complete(request);
+      const fixture: LLMFixture = { request, response };
+      await fs.promises.mkdir(directory, { recursive: true });
+      await fs.promises.writeFile(filePath, JSON.stringify(fixture, null, 2));
+      return response;
+    },
+  };
+}
+
+// ============================================================================
+// Backend Selection
+// ============================================================================
+
+function createLiveProvider(backend: 'anthropic' | 'openai-compatible'): LLMProvider {
+  const config = AI_CONFIG.llm;
+  return backend === 'openai-compatible'
+    ? createOpenAICompatibleProvider({
+        baseUrl: config.openAIBaseUrl,
+        model: config.openAIModel,
+        apiKey: config.openAIApiKey,
+      })
+    : createAnthropicProvider({ model: AI_CONFIG.model });
+}
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Get the provider selected by AI_CONFIG.llm.provider. Calls made through it
+ * go through the response cache and are recorded in the ai_usage ledger.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    const config = AI_CONFIG.llm;
+    activeProvider = withUsageTracking(withResponseCache(config.provider === 'fixture'
+      ? createFixtureProvider(
+          config.fixturesDir,
+          config.recordWith ? createLiveProvider(config.recordWith) : undefined
+        )
+      : createLiveProvider(config.provider)));
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the provider (pass null to restore the configured backend)
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider ? withUsageTracking(withResponseCache(provider)) : null;
+}
@@ -0,0 +1,141 @@
+// Zod schemas for JSON returned by the model
+// Responses that don't match are sent back to the model with the errors
+// (see generateStructured)
+
+import { z } from 'zod';
+import { AI_CONFIG } from '@/config/ai-config';
+import { LeechRewriteMode } from '@/types';
+import { hasClozeDeletions } from '@/lib/services/cloze';
+import { normalizeAnswer } from '@/lib/services/quiz-grading';
+
+const requiredText = z.string().trim().min(1, 'Must not be empty');
+
+// Optional text: null and blank strings become undefined
+const optionalText = z.string().nullish().transform((value) => value?.trim() || undefined);
+
+// ============================================================================
+// Lessons and Flashcards
+// ============================================================================
+
+export const ClozeNoteOutputSchema = z.object({
+  text: requiredText.refine(hasClozeDeletions, 'Must contain at least one {{c1::...}} deletion'),
+  extra: optionalText,
+});
+
+export const LessonOutputSchema = z.object({
+  title: requiredText.max(200, 'Title too long'),
+  hook: requiredText,
+  content: requiredText,
+  keyTakeaway: requiredText,
+  // Checked against the content length before use
+  estimatedMinutes: z.number().positive().max(60).nullish(),
+  difficulty: z.union([z.literal(1), z.literal(2), z.literal(3)], { message: 'Must be 1, 2 or 3' }).nullish(),
+  pageStart: z.number().int().positive().nullish(),
+  pageEnd: z.number().int().positive().nullish(),
+  // Missing in checkpoints from before cloze cards
+  clozeNotes: z.array(ClozeNoteOutputSchema).nullish(),
+});
+
+export const FlashcardOutputSchema = z.object({
+  front: requiredText,
+  back: requiredText,
+  hint: optionalText,
+  mnemonic: optionalText,
+  visualCue: optionalText,
+  term: optionalText, // Definitional cards: gives the note a reverse card
+  // Quiz cards are graded from the learner's answer (see services/quiz-grading.ts)
+  format: z.enum(['basic', 'multiple_choice', 'typed']).nullish(),
+  distractors: z.array(requiredText).nullish(),
+  acceptedAnswers: z.array(requiredText).nullish(),
+}).superRefine((card, ctx) => {
+  if (card.format === 'multiple_choice') {
+    const options = [card.back, ...(card.distractors ?? [])].map(normalizeAnswer);
+    if (options.length < 3) {
+      ctx.addIssue({ code: 'custom', path: ['distractors'], message: 'Multiple choice cards need at least 2 distractors' });
+    } else if (new Set(options).size !== options.length) {
+      ctx.addIssue({ code: 'custom', path: ['distractors'], message: 'Distractors must differ from the answer and each other' });
+    }
+  }
+
+  const { maxTypedAnswerWords } = AI_CONFIG.contentGuidelines;
+  if (card.format === 'typed' && card.back.split(/\s+/).length > maxTypedAnswerWords) {
+    ctx.addIssue({ code: 'custom', path: ['back'], message: `Typed answers must be at most ${maxTypedAnswerWords} words` });
+  }
+});
+
+export const LessonChunkOutputSchema = z.object({
+  lessons: z.array(LessonOutputSchema)
+    .min(1, 'At least one lesson is required')
+    .max(AI_CONFIG.contentGuidelines.maxLessons, `At most ${AI_CONFIG.contentGuidelines.maxLessons} lessons`),
+  flashcards: z.array(FlashcardOutputSchema),
+});
+
+export const FlashcardListOutputSchema = z.array(FlashcardOutputSchema).min(1, 'At least one flashcard is required');
+
+export type LessonOutput = z.output<typeof LessonOutputSchema>;
+export type FlashcardOutput = z.output<typeof FlashcardOutputSchema>;
+export type ClozeNoteOutput = z.output<typeof ClozeNoteOutputSchema>;
+export type LessonChunkOutput = z.output<typeof LessonChunkOutputSchema>;
+
+// ============================================================================
+// Leech rewrites
+// ============================================================================
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Rewrites of a leech in `mode`. Splits need 2 or more cards, memory aids a
+ * hint and a mnemonic, and excerpts a passage quoted from the lesson.
+ */
+export function createLeechRewriteOutputSchema(mode: LeechRewriteMode, lessonContent: string) {
+  const { maxSplitCards, maxExcerptWords } = AI_CONFIG.contentGuidelines;
+  const memoryAidText = mode === 'memory_aid' ? requiredText : optionalText;
+
+  return z.object({
+    cards: z.array(z.object({
+      front: requiredText,
+      back: requiredText,
+      hint: memoryAidText,
+      mnemonic: memoryAidText,
+    }))
+      .min(mode === 'split' ? 2 : 1, mode === 'split' ? 'Split the card into at least 2 cards' : 'Return the rewritten card')
+      .max(mode === 'split' ? maxSplitCards : 1, mode === 'split' ? `At most ${maxSplitCards} cards` : 'Return exactly one card'),
+    excerpt: mode === 'excerpt'
+      ? requiredText
+        .refine((text) => text.split(/\s+/).length <= maxExcerptWords, `At most ${maxExcerptWords} words`)
+        .refine((text) => collapseWhitespace(lessonContent).includes(collapseWhitespace(text)), 'Must be quoted word for word from the lesson')
+      : optionalText,
+  });
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+export const ThemesOutputSchema = z.array(z.object({
+  theme: requiredText,
+  description: requiredText,
+  sourceCount: z.number().int().min(0),
+  importance: z.enum(['high', 'medium', 'low']),
+}));
+
+/**
+ * Insights name the source they come from by its position in the prompt
+ */
+export function createInsightsOutputSchema(sourceCount: number) {
+  return z.array(z.object({
+    sourceIndex: z.number().int().min(0).max(sourceCount - 1, `Must be a source index from 0 to ${sourceCount - 1}`),
+    insight: requiredText,
+    significance: requiredText,
+  }));
+}
+
+export const ComparisonOutputSchema = z.object({
+  agreements: z.array(requiredText),
+  disagreements: z.array(requiredText),
+  unique1: z.array(requiredText),
+  unique2: z.array(requiredText),
+});
+
+export type ThemeOutput = z.output<typeof ThemesOutputSchema>[number];
+export type ComparisonOutput = z.output<typeof ComparisonOutputSchema>;
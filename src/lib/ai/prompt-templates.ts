@@ -0,0 +1,317 @@
+// Prompt Templates
+// The system prompts behind lesson and summary generation are stored as
+// versioned templates, so they can be tuned without a deploy. Templates name
+// {{variables}} that are filled from AI_CONFIG.contentGuidelines.
+
+import { AI_CONFIG } from '@/config/ai-config';
+import {
+  getPromptTemplateVersions,
+  getPromptTemplateVersion,
+  getActivePromptTemplate,
+  insertDefaultPromptTemplate,
+  createPromptTemplateVersion,
+  activatePromptTemplateVersion,
+} from '@/lib/db/client';
+import {
+  PROMPT_TEMPLATE_NAMES,
+  PromptTemplate,
+  PromptTemplateName,
+  PromptTemplateSummary,
+  PromptDiffLine,
+  RenderedPrompt,
+} from '@/types/prompts';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+// ============================================================================
+// Built-in Templates
+// ============================================================================
+
+// Stored as version 1 of each template the first time it is used
+const DEFAULT_TEMPLATES: Record<PromptTemplateName, { description: string; body: string }> = {
+  lesson_generation: {
+    description: 'System prompt for turning a source segment into micro-lessons and flashcards',
+    body: `You are an expert educational content designer specializing in ADHD-friendly learning materials. Your task is to transform raw text into engaging micro-lessons optimized for ADHD learners.
+
+## Core Principles for ADHD-Friendly Content
+
+### 1. CHUNKING (Critical)
+- Break content into {{minChunkWords}}-{{maxChunkWords}} word segments
+- Target {{targetChunkWords}} words per chunk (2-5 minute reads)
+- Adjust by difficulty:
+  * Difficulty 1 (beginner): {{wordCountByDifficulty.1.min}}-{{wordCountByDifficulty.1.max}} words, simpler concepts
+  * Difficulty 2 (intermediate): {{wordCountByDifficulty.2.min}}-{{wordCountByDifficulty.2.max}} words
+  * Difficulty 3 (advanced): {{wordCountByDifficulty.3.min}}-{{wordCountByDifficulty.3.max}} words, more depth allowed
+
+### 2. COGNITIVE LOAD MANAGEMENT (ADHD-Specific)
+- Add subheadings every {{subheadingFrequency}} to create visual breaks
+- Include {{examplesPerConcept}} concrete, real-world examples per concept
+- Use explicit transition sentences between paragraphs ("Now that we understand X, let's explore Y...")
+- Maintain LINEAR progression - NO nested explanations or tangents
+- Include a brief reflection question mid-content to re-engage wandering attention
+
+### 3. ENGAGEMENT
+- Start each chunk with a compelling "why should I care?" HOOK
+- Use active voice throughout
+- Incorporate relatable analogies that connect to everyday experience
+- End with a clear, memorable KEY TAKEAWAY (one sentence)
+
+### 4. CLARITY
+- ONE main concept per chunk - never overload
+- Define technical terms inline when first used
+- Each chunk should build naturally on the previous one
+
+## Flashcard Generation Guidelines
+
+### Question Type Distribution (Balance These)
+- ~30% Definitional: "What is [term]?" - testing recall of definitions
+- ~30% Conceptual: "Why does [concept] work this way?" - testing understanding
+- ~25% Application: "How would you apply [concept] to [scenario]?" - testing transfer
+- ~15% Procedural: "What are the steps to [process]?" - testing sequences
+
+### Hint Quality Guidelines
+- Use SEMANTIC clues, not letter-based hints (not "starts with C...")
+- Connect to real-world contexts the learner already knows
+- For stuck learners, hints should help re-engage, not just give partial answers
+- Example good hint: "Think about how this relates to the water cycle analogy we used"
+- Example bad hint: "It starts with 'e' and ends with 'ion'"`,
+  },
+  segment_summary: {
+    description: 'System prompt for summarizing one document segment',
+    body: `You are an expert summarizer. Create a detailed summary of this document segment.
+
+Focus on:
+- Main concepts and ideas
+- Key facts, statistics, and examples
+- Important definitions
+- Relationships between concepts
+- Any conclusions or recommendations
+
+Guidelines:
+- Be comprehensive but concise
+- Preserve important details that might be lost in higher-level summaries
+- Use clear, structured formatting with bullet points or numbered lists
+- Maintain the original meaning and nuance
+- Include any domain-specific terminology with brief explanations`,
+  },
+  key_points_summary: {
+    description: 'System prompt for synthesizing segment summaries into key points',
+    body: `You are an expert at synthesizing information. Create a key points summary from the provided section summaries.
+
+Your task:
+- Extract 10-15 key points from all the summaries
+- Identify the most important concepts, insights, and takeaways
+- Remove redundancy while preserving unique insights
+- Organize points logically (thematic grouping preferred)
+- Each point should be self-contained and understandable without context
+
+Format each key point as:
+- **[Brief Label]**: [1-2 sentence explanation]
+
+Focus on what matters most - what would someone NEED to know?`,
+  },
+  executive_summary: {
+    description: 'System prompt for the executive summary written from the key points',
+    body: `You are an executive communication expert. Create a concise executive summary from the provided key points.
+
+Requirements:
+- 2-3 paragraphs maximum (150-250 words)
+- Start with the most important insight or conclusion
+- Highlight critical information that drives decisions
+- Use clear, professional language
+- End with implications or next steps if relevant
+
+This summary should answer: "What's the essential takeaway in under 2 minutes?"`,
+  },
+  detailed_summary: {
+    description: 'System prompt for the detailed summary written from the segment summaries',
+    body: `You are an expert technical writer. Create a comprehensive detailed summary that preserves the depth of the original content.
+
+Structure:
+1. **Overview** (2-3 sentences)
+2. **Main Sections** (preserve document structure, summarize each major section)
+3. **Key Concepts** (define and explain important terms/ideas)
+4. **Supporting Details** (important examples, data, evidence)
+5. **Conclusions** (findings, recommendations, implications)
+
+Guidelines:
+- Target 500-1000 words depending on source length
+- Maintain logical flow and structure
+- Include specific details that matter
+- Use formatting (headers, bullets, bold) for readability`,
+  },
+  aggregation: {
+    description: 'System prompt for the unified summary of a collection',
+    body: `You are an expert at synthesizing information from multiple sources. Create a unified summary that:
+
+1. Identifies common themes and patterns across sources
+2. Highlights unique insights from each source
+3. Resolves any contradictions or differences in perspective
+4. Organizes information logically by theme, not by source
+5. Removes redundancy while preserving important nuances
+
+Guidelines:
+- Focus on what matters most across all sources
+- Note when sources agree or disagree on key points
+- Preserve attribution when insights are source-specific
+- Create a coherent narrative, not just a compilation`,
+  },};
+
+// ============================================================================
+// Variables
+// ============================================================================
+
+/**
+ * Values available to templates: every setting in AI_CONFIG.contentGuidelines,
+ * with nested settings named by path (e.g. wordCountByDifficulty.1.min)
+ */
+export function getPromptVariables(): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  const collect = (value: unknown, path: string) => {
+    if (value !== null && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        collect(child, path ? `${path}.${key}` : key);
+      }
+    } else {
+      variables[path] = String(value);
+    }
+  };
+  collect(AI_CONFIG.contentGuidelines, '');
+
+  return variables;
+}
+
+/**
+ * Variables a template body uses that don't exist
+ */
+export function findUnknownVariables(body: string): string[] {
+  const variables = getPromptVariables();
+  const unknown = new Set<string>();
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    if (!(match[1] in variables)) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+export function renderPromptTemplate(body: string, variables: Record<string, string> = getPromptVariables()): string {
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Unknown prompt variable ${placeholder}`);
+    }
+    return variables[name];
+  });
+}
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+export function isPromptTemplateName(name: string): name is PromptTemplateName {
+  return (PROMPT_TEMPLATE_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * All versions of a template, oldest first. The built-in text is stored as
+ * version 1 if the template has never been used.
+ */
+export async function getPromptTemplateHistory(name: PromptTemplateName): Promise<PromptTemplate[]> {
+  const versions = await getPromptTemplateVersions(name);
+  if (versions.length > 0) return versions;
+
+  const { description, body } = DEFAULT_TEMPLATES[name];
+  await insertDefaultPromptTemplate(name, body, description);
+  return getPromptTemplateVersions(name);
+}
+
+/**
+ * The active version of a template, filled in with the current variables
+ */
+export async function getRenderedPrompt(name: PromptTemplateName): Promise<RenderedPrompt> {
+  const template = await getActivePromptTemplate(name)
+    || (await getPromptTemplateHistory(name)).find((version) => version.isActive);
+  if (!template) {
+    throw new Error(`Prompt template ${name} has no active version`);
+  }
+
+  return { templateId: template.id, version: template.version, text: renderPromptTemplate(template.body) };
+}
+
+export async function listPromptTemplates(): Promise<PromptTemplateSummary[]> {
+  return Promise.all(PROMPT_TEMPLATE_NAMES.map(async (name) => {
+    const versions = await getPromptTemplateHistory(name);
+    const active = versions.find((version) => version.isActive);
+    return {
+      name,
+      activeVersion: active?.version ?? 0,
+      latestVersion: versions[versions.length - 1].version,
+      description: active?.description,
+    };
+  }));
+}
+
+/**
+ * Save a new version of a template. Callers check the body with
+ * findUnknownVariables first.
+ */
+export async function createPromptVersion(
+  name: PromptTemplateName,
+  body: string,
+  options: { description?: string; activate?: boolean } = {}
+): Promise<PromptTemplate> {
+  // Make sure the built-in text is version 1 before adding to it
+  await getPromptTemplateHistory(name);
+  return createPromptTemplateVersion(name, body, options.description, options.activate ?? false);
+}
+
+/**
+ * Make a version the one used for new generations. Returns null if the
+ * version doesn't exist.
+ */
+export async function activatePromptVersion(name: PromptTemplateName, version: number): Promise<PromptTemplate | null> {
+  await getPromptTemplateHistory(name);
+  const template = await getPromptTemplateVersion(name, version);
+  if (!template) return null;
+
+  await activatePromptTemplateVersion(name, version);
+  return { ...template, isActive: true };
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * Line diff between two template bodies (longest common subsequence)
+ */
+export function diffPromptBodies(from: string, to: string): PromptDiffLine[] {
+  const a = from.split('\n');
+  const b = to.split('\n');
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: PromptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
@@ -0,0 +1,90 @@
+// Structured Output
+// Asks the model for JSON, validates it against a zod schema and re-asks with
+// the validation errors until it matches or the attempts run out. Only answers
+// that pass validation are cached, so a retried job asks the model afresh
+// instead of replaying the answers that failed.
+
+import { z } from 'zod';
+import { AI_CONFIG } from '@/config/ai-config';
+import { cacheLLMResponse } from '@/lib/services/llm-cache';
+import { getLLMProvider, LLMRequest, LLMUsage } from './llm-provider';
+
+export interface StructuredResult<T> {
+  data: T;
+  model: string;
+  usage: LLMUsage; // Summed over all attempts
+  attempts: number;
+  // Fields the model had to be re-asked about or the caller had to default,
+  // e.g. "attempt 1: lessons.2.difficulty: Invalid input"
+  repairs: string[];
+}
+
+/**
+ * Pull the JSON value out of a response that may wrap it in prose or
+ * code fences
+ */
+function extractJson(text: string): unknown {
+  const starts = [text.indexOf('{'), text.indexOf('[')].filter((index) => index >= 0);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (starts.length === 0 || end < 0) {
+    throw new Error('No JSON found in the response');
+  }
+  return JSON.parse(text.slice(Math.min(...starts), end + 1));
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Generate a response that matches `schema`. Throws once
+ * AI_CONFIG.structuredOutput.maxAttempts responses have been rejected.
+ */
+export async function generateStructured<S extends z.ZodType>(
+  schema: S,
+  request: LLMRequest,
+  maxAttempts: number = AI_CONFIG.structuredOutput.maxAttempts
+): Promise<StructuredResult<z.output<S>>> {
+  const provider = getLLMProvider();
+  const messages = [...request.messages];
+  const usage: LLMUsage = { inputTokens: 0, outputTokens: 0 };
+  const repairs: string[] = [];
+  let problems: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    // Re-asks carry the rejected answer, so only the first request is looked up
+    const response = await provider.complete({
+      ...request,
+      messages,
+      cache: attempt === 1 && request.cache ? 'read' : false,
+    });
+    usage.inputTokens += response.usage.inputTokens;
+    usage.outputTokens += response.usage.outputTokens;
+
+    try {
+      const parsed = schema.safeParse(extractJson(response.text));
+      if (parsed.success) {
+        // Stored under the original request, so a later call gets the valid answer
+        if (request.cache && response.cacheStatus !== 'hit') {
+          await cacheLLMResponse(provider.model, request, response);
+        }
+        return { data: parsed.data, model: response.model, usage, attempts: attempt, repairs };
+      }
+      problems = formatIssues(parsed.error);
+    } catch (error) {
+      // Usually a response cut off at the token limit
+      problems = [`Invalid JSON (${(error as Error).message}). Keep the response shorter so it is not cut off.`];
+    }
+
+    repairs.push(...problems.map((problem) => `attempt ${attempt}: ${problem}`));
+    messages.push(
+      { role: 'assistant', content: response.text },
+      {
+        role: 'user',
+        content: `Your response could not be used:\n${problems.map((problem) => `- ${problem}`).join('\n')}\n\nReply with the complete corrected JSON only.`,
+      }
+    );
+  }
+
+  throw new Error(`AI response failed validation after ${maxAttempts} attempts: ${problems.join('; ')}`);
+}
@@ -1,7 +1,6 @@
 // Multi-Level Summarization Service
 // Generates hierarchical summaries: executive, key_points, detailed, segment
 
-import Anthropic from '@anthropic-ai/sdk';
 import { AI_CONFIG } from '@/config/ai-config';
 import {
   Summary,
@@ -12,9 +11,12 @@ import {
   SummarizationConfig,
   CreateSummaryInput,
 } from '@/types/summaries';
+import { DocumentHeading, PageRange } from '@/types';
 import { segmentDocument, estimateTokens, getWordCount } from './hierarchical-chunker';
-
-const anthropic = new Anthropic();
+import { getPageRangeForSpan } from '@/lib/services/page-map';
+import { CheckpointStore, getStepKey, runCheckpointed } from '@/lib/services/checkpoints';
+import { getLLMProvider } from './llm-provider';
+import { getRenderedPrompt } from './prompt-templates';
 
 // ============================================================================
 // Configuration
@@ -22,83 +24,27 @@ const anthropic = new Anthropic();
 
 const SUMMARIZATION_CONFIG: SummarizationConfig = DEFAULT_SUMMARIZATION_CONFIG;
 
-// ============================================================================
-// Prompts
-// ============================================================================
-
-const SEGMENT_SUMMARY_PROMPT = `You are an expert summarizer. Create a detailed summary of this document segment.
-
-Focus on:
-- Main concepts and ideas
-- Key facts, statistics, and examples
-- Important definitions
-- Relationships between concepts
-- Any conclusions or recommendations
-
-Guidelines:
-- Be comprehensive but concise
-- Preserve important details that might be lost in higher-level summaries
-- Use clear, structured formatting with bullet points or numbered lists
-- Maintain the original meaning and nuance
-- Include any domain-specific terminology with brief explanations`;
-
-const KEY_POINTS_PROMPT = `You are an expert at synthesizing information. Create a key points summary from the provided section summaries.
-
-Your task:
-- Extract 10-15 key points from all the summaries
-- Identify the most important concepts, insights, and takeaways
-- Remove redundancy while preserving unique insights
-- Organize points logically (thematic grouping preferred)
-- Each point should be self-contained and understandable without context
-
-Format each key point as:
-- **[Brief Label]**: [1-2 sentence explanation]
-
-Focus on what matters most - what would someone NEED to know?`;
-
-const EXECUTIVE_SUMMARY_PROMPT = `You are an executive communication expert. Create a concise executive summary from the provided key points.
-
-Requirements:
-- 2-3 paragraphs maximum (150-250 words)
-- Start with the most important insight or conclusion
-- Highlight critical information that drives decisions
-- Use clear, professional language
-- End with implications or next steps if relevant
-
-This summary should answer: "What's the essential takeaway in under 2 minutes?"`;
-
-const DETAILED_SUMMARY_PROMPT = `You are an expert technical writer. Create a comprehensive detailed summary that preserves the depth of the original content.
-
-Structure:
-1. **Overview** (2-3 sentences)
-2. **Main Sections** (preserve document structure, summarize each major section)
-3. **Key Concepts** (define and explain important terms/ideas)
-4. **Supporting Details** (important examples, data, evidence)
-5. **Conclusions** (findings, recommendations, implications)
-
-Guidelines:
-- Target 500-1000 words depending on source length
-- Maintain logical flow and structure
-- Include specific details that matter
-- Use formatting (headers, bullets, bold) for readability`;
-
 // ============================================================================
 // Summary Generation Functions
 // ============================================================================
 
 interface SummaryGenerationResult {
   content: string;
+  model: string;
+  promptTemplateId: string;
   inputTokens: number;
   outputTokens: number;
   durationMs: number;
 }
 
 /**
- * Generate a summary for a single document segment
+ * Generate a summary for a single document segment. Responses are cached
+ * unless `bypassCache` is set.
  */
 export async function generateSegmentSummary(
   segment: Omit<DocumentSegment, 'id' | 'createdAt'>,
-  sourceTitle: string
+  sourceTitle: string,
+  options: { bypassCache?: boolean } = {}
 ): Promise<SummaryGenerationResult> {
   // Input validation
   if (!sourceTitle || typeof sourceTitle !== 'string') {
@@ -121,22 +67,24 @@ ${segment.text}
 Create a detailed summary of this segment.`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: AI_CONFIG.model,
-      max_tokens: SUMMARIZATION_CONFIG.segmentSummaryTokens,
-      system: SEGMENT_SUMMARY_PROMPT,
+    const systemPrompt = await getRenderedPrompt('segment_summary');
+    const response = await getLLMProvider().complete({
+      maxTokens: SUMMARIZATION_CONFIG.segmentSummaryTokens,
+      system: systemPrompt.text,
       messages: [{ role: 'user', content: userPrompt }],
+      operation: 'segment_summary',
+      sourceId: segment.sourceId,
+      cache: !options.bypassCache,
     });
 
-    const content = response.content
-      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-      .map((block) => block.text)
-      .join('');
+    const content = response.text;
 
     return {
       content,
-      inputTokens: response.usage.input_tokens,
-      outputTokens: response.usage.output_tokens,
+      model: response.model,
+      promptTemplateId: systemPrompt.templateId,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
       durationMs: Date.now() - startTime,
     };
   } catch (error) {
@@ -150,7 +98,8 @@ Create a detailed summary of this segment.`;
  */
 export async function generateKeyPointsSummary(
   segmentSummaries: string[],
-  sourceTitle: string
+  sourceTitle: string,
+  sourceId?: string
 ): Promise<SummaryGenerationResult> {
   // Input validation
   if (!sourceTitle || typeof sourceTitle !== 'string') {
@@ -176,22 +125,23 @@ ${combinedSummaries}
 Extract and synthesize 10-15 key points from these section summaries.`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: AI_CONFIG.model,
-      max_tokens: SUMMARIZATION_CONFIG.keyPointsOutputTokens,
-      system: KEY_POINTS_PROMPT,
+    const systemPrompt = await getRenderedPrompt('key_points_summary');
+    const response = await getLLMProvider().complete({
+      maxTokens: SUMMARIZATION_CONFIG.keyPointsOutputTokens,
+      system: systemPrompt.text,
       messages: [{ role: 'user', content: userPrompt }],
+      operation: 'key_points_summary',
+      sourceId: sourceId,
     });
 
-    const content = response.content
-      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-      .map((block) => block.text)
-      .join('');
+    const content = response.text;
 
     return {
       content,
-      inputTokens: response.usage.input_tokens,
-      outputTokens: response.usage.output_tokens,
+      model: response.model,
+      promptTemplateId: systemPrompt.templateId,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
       durationMs: Date.now() - startTime,
     };
   } catch (error) {
@@ -205,7 +155,8 @@ Extract and synthesize 10-15 key points from these section summaries.`;
  */
 export async function generateExecutiveSummary(
   keyPointsSummary: string,
-  sourceTitle: string
+  sourceTitle: string,
+  sourceId?: string
 ): Promise<SummaryGenerationResult> {
   // Input validation
   if (!sourceTitle || typeof sourceTitle !== 'string') {
@@ -227,22 +178,23 @@ ${keyPointsSummary}
 Create a concise executive summary (2-3 paragraphs, 150-250 words).`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: AI_CONFIG.model,
-      max_tokens: SUMMARIZATION_CONFIG.executiveOutputTokens,
-      system: EXECUTIVE_SUMMARY_PROMPT,
+    const systemPrompt = await getRenderedPrompt('executive_summary');
+    const response = await getLLMProvider().complete({
+      maxTokens: SUMMARIZATION_CONFIG.executiveOutputTokens,
+      system: systemPrompt.text,
       messages: [{ role: 'user', content: userPrompt }],
+      operation: 'executive_summary',
+      sourceId: sourceId,
     });
 
-    const content = response.content
-      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-      .map((block) => block.text)
-      .join('');
+    const content = response.text;
 
     return {
       content,
-      inputTokens: response.usage.input_tokens,
-      outputTokens: response.usage.output_tokens,
+      model: response.model,
+      promptTemplateId: systemPrompt.templateId,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
       durationMs: Date.now() - startTime,
     };
   } catch (error) {
@@ -256,7 +208,8 @@ Create a concise executive summary (2-3 paragraphs, 150-250 words).`;
  */
 export async function generateDetailedSummary(
   segmentSummaries: string[],
-  sourceTitle: string
+  sourceTitle: string,
+  sourceId?: string
 ): Promise<SummaryGenerationResult> {
   // Input validation
   if (!sourceTitle || typeof sourceTitle !== 'string') {
@@ -282,22 +235,23 @@ ${combinedSummaries}
 Create a comprehensive detailed summary that preserves the depth of the original content.`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: AI_CONFIG.model,
-      max_tokens: AI_CONFIG.summarization.detailedOutputTokens,
-      system: DETAILED_SUMMARY_PROMPT,
+    const systemPrompt = await getRenderedPrompt('detailed_summary');
+    const response = await getLLMProvider().complete({
+      maxTokens: AI_CONFIG.summarization.detailedOutputTokens,
+      system: systemPrompt.text,
       messages: [{ role: 'user', content: userPrompt }],
+      operation: 'detailed_summary',
+      sourceId: sourceId,
     });
 
-    const content = response.content
-      .filter((block): block is Anthropic.TextBlock => block.type === 'text')
-      .map((block) => block.text)
-      .join('');
+    const content = response.text;
 
     return {
       content,
-      inputTokens: response.usage.input_tokens,
-      outputTokens: response.usage.output_tokens,
+      model: response.model,
+      promptTemplateId: systemPrompt.templateId,
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
       durationMs: Date.now() - startTime,
     };
   } catch (error) {
@@ -314,12 +268,19 @@ export interface GenerateHierarchicalSummariesOptions {
   sourceId: string;
   sourceTitle: string;
   text: string;
+  headings?: DocumentHeading[];
+  // Page offsets of the original document, used to record page ranges
+  pageMap?: PageRange[];
   onProgress?: (progress: {
     phase: string;
     current: number;
     total: number;
     percent: number;
   }) => void;
+  // Summaries finished by an earlier attempt are reused instead of regenerated
+  checkpoints?: CheckpointStore;
+  // Call the model even when a cached segment summary exists
+  bypassCache?: boolean;
 }
 
 /**
@@ -332,12 +293,17 @@ export async function generateHierarchicalSummaries(
   segments: Omit<DocumentSegment, 'id' | 'createdAt'>[];
   summaries: CreateSummaryInput[];
 }> {
-  const { sourceId, sourceTitle, text, onProgress } = options;
+  const { sourceId, sourceTitle, text, headings, pageMap, onProgress, checkpoints, bypassCache } = options;
 
   // Phase 1: Segment the document
   onProgress?.({ phase: 'Segmenting document', current: 0, total: 4, percent: 5 });
 
-  const segments = segmentDocument(text, sourceId);
+  const segments = segmentDocument(text, sourceId, { headings }).map((segment) => ({
+    ...segment,
+    ...getPageRangeForSpan(pageMap, segment.startIndex, segment.endIndex),
+  }));
+  // Document-level summaries cover every page
+  const documentPages = getPageRangeForSpan(pageMap, 0, text.length);
   const totalSteps = segments.length + 3; // segments + key_points + executive + detailed
 
   // Phase 2: Generate segment summaries
@@ -352,7 +318,9 @@ export async function generateHierarchicalSummaries(
       percent: Math.round(((i + 1) / totalSteps) * 80),
     });
 
-    const result = await generateSegmentSummary(segments[i], sourceTitle);
+    const result = await runCheckpointed(checkpoints, getStepKey(`segment:${i}`, segments[i].text || ''), () =>
+      generateSegmentSummary(segments[i], sourceTitle, { bypassCache })
+    );
     segmentTexts.push(result.content);
 
     segmentSummaries.push({
@@ -361,10 +329,13 @@ export async function generateHierarchicalSummaries(
       title: segments[i].sectionTitle || `Segment ${i + 1}`,
       content: result.content,
       wordCount: getWordCount(result.content),
-      generationModel: AI_CONFIG.model,
+      generationModel: result.model,
+      promptTemplateId: result.promptTemplateId,
       generationDurationMs: result.durationMs,
       inputTokenCount: result.inputTokens,
       outputTokenCount: result.outputTokens,
+      pageStart: segments[i].pageStart,
+      pageEnd: segments[i].pageEnd,
     });
   }
 
@@ -376,17 +347,21 @@ export async function generateHierarchicalSummaries(
     percent: 85,
   });
 
-  const keyPointsResult = await generateKeyPointsSummary(segmentTexts, sourceTitle);
+  const keyPointsResult = await runCheckpointed(checkpoints, getStepKey('key_points', segmentTexts.join('\n')), () =>
+    generateKeyPointsSummary(segmentTexts, sourceTitle, sourceId)
+  );
   const keyPointsSummary: CreateSummaryInput = {
     sourceId,
     summaryType: 'key_points' as SummaryType,
     title: `Key Points: ${sourceTitle}`,
     content: keyPointsResult.content,
     wordCount: getWordCount(keyPointsResult.content),
-    generationModel: AI_CONFIG.model,
+    generationModel: keyPointsResult.model,
+    promptTemplateId: keyPointsResult.promptTemplateId,
     generationDurationMs: keyPointsResult.durationMs,
     inputTokenCount: keyPointsResult.inputTokens,
     outputTokenCount: keyPointsResult.outputTokens,
+    ...documentPages,
   };
 
   // Phase 4: Generate executive summary
@@ -397,17 +372,21 @@ export async function generateHierarchicalSummaries(
     percent: 92,
   });
 
-  const executiveResult = await generateExecutiveSummary(keyPointsResult.content, sourceTitle);
+  const executiveResult = await runCheckpointed(checkpoints, getStepKey('executive', keyPointsResult.content), () =>
+    generateExecutiveSummary(keyPointsResult.content, sourceTitle, sourceId)
+  );
   const executiveSummary: CreateSummaryInput = {
     sourceId,
     summaryType: 'executive' as SummaryType,
     title: `Executive Summary: ${sourceTitle}`,
     content: executiveResult.content,
     wordCount: getWordCount(executiveResult.content),
-    generationModel: AI_CONFIG.model,
+    generationModel: executiveResult.model,
+    promptTemplateId: executiveResult.promptTemplateId,
     generationDurationMs: executiveResult.durationMs,
     inputTokenCount: executiveResult.inputTokens,
     outputTokenCount: executiveResult.outputTokens,
+    ...documentPages,
   };
 
   // Phase 5: Generate detailed summary
@@ -418,17 +397,21 @@ export async function generateHierarchicalSummaries(
     percent: 97,
   });
 
-  const detailedResult = await generateDetailedSummary(segmentTexts, sourceTitle);
+  const detailedResult = await runCheckpointed(checkpoints, getStepKey('detailed', segmentTexts.join('\n')), () =>
+    generateDetailedSummary(segmentTexts, sourceTitle, sourceId)
+  );
   const detailedSummary: CreateSummaryInput = {
     sourceId,
     summaryType: 'detailed' as SummaryType,
     title: `Detailed Summary: ${sourceTitle}`,
     content: detailedResult.content,
     wordCount: getWordCount(detailedResult.content),
-    generationModel: AI_CONFIG.model,
+    generationModel: detailedResult.model,
+    promptTemplateId: detailedResult.promptTemplateId,
     generationDurationMs: detailedResult.durationMs,
     inputTokenCount: detailedResult.inputTokens,
     outputTokenCount: detailedResult.outputTokens,
+    ...documentPages,
   };
 
   onProgress?.({ phase: 'Complete', current: totalSteps, total: totalSteps, percent: 100 });
@@ -451,17 +434,21 @@ export async function generateSingleSummary(
   sourceId: string,
   sourceTitle: string,
   text: string,
-  summaryType: SummaryType
+  summaryType: SummaryType,
+  headings?: DocumentHeading[],
+  pageMap?: PageRange[]
 ): Promise<CreateSummaryInput> {
   const startTime = Date.now();
 
   let content: string;
+  let model: string;
+  let promptTemplateId: string;
   let inputTokens: number;
   let outputTokens: number;
 
   // For executive/key_points/detailed, we need to segment first
   if (summaryType !== 'segment') {
-    const segments = segmentDocument(text, sourceId);
+    const segments = segmentDocument(text, sourceId, { headings });
     const segmentTexts: string[] = [];
 
     // Generate segment summaries
@@ -472,23 +459,29 @@ export async function generateSingleSummary(
 
     switch (summaryType) {
       case 'executive': {
-        const keyPointsResult = await generateKeyPointsSummary(segmentTexts, sourceTitle);
-        const execResult = await generateExecutiveSummary(keyPointsResult.content, sourceTitle);
+        const keyPointsResult = await generateKeyPointsSummary(segmentTexts, sourceTitle, sourceId);
+        const execResult = await generateExecutiveSummary(keyPointsResult.content, sourceTitle, sourceId);
         content = execResult.content;
+        model = execResult.model;
+        promptTemplateId = execResult.promptTemplateId;
         inputTokens = execResult.inputTokens;
         outputTokens = execResult.outputTokens;
         break;
       }
       case 'key_points': {
-        const result = await generateKeyPointsSummary(segmentTexts, sourceTitle);
+        const result = await generateKeyPointsSummary(segmentTexts, sourceTitle, sourceId);
         content = result.content;
+        model = result.model;
+        promptTemplateId = result.promptTemplateId;
         inputTokens = result.inputTokens;
         outputTokens = result.outputTokens;
         break;
       }
       case 'detailed': {
-        const result = await generateDetailedSummary(segmentTexts, sourceTitle);
+        const result = await generateDetailedSummary(segmentTexts, sourceTitle, sourceId);
         content = result.content;
+        model = result.model;
+        promptTemplateId = result.promptTemplateId;
         inputTokens = result.inputTokens;
         outputTokens = result.outputTokens;
         break;
@@ -511,6 +504,8 @@ export async function generateSingleSummary(
       sourceTitle
     );
     content = result.content;
+    model = result.model;
+    promptTemplateId = result.promptTemplateId;
     inputTokens = result.inputTokens;
     outputTokens = result.outputTokens;
   }
@@ -521,9 +516,11 @@ export async function generateSingleSummary(
     title: `${summaryType.charAt(0).toUpperCase() + summaryType.slice(1).replace('_', ' ')}: ${sourceTitle}`,
     content,
     wordCount: getWordCount(content),
-    generationModel: AI_CONFIG.model,
+    generationModel: model,
+    promptTemplateId,
     generationDurationMs: Date.now() - startTime,
     inputTokenCount: inputTokens,
     outputTokenCount: outputTokens,
+    ...getPageRangeForSpan(pageMap, 0, text.length),
   };
 }
@@ -18,7 +18,13 @@ export const FileUploadLimits = {
   MAX_FILE_SIZE_MB: 50,
   MAX_FILE_SIZE_BYTES: 50 * 1024 * 1024,
   MAX_TEXT_LENGTH: 100000,
+  MAX_CAPTION_LENGTH: 2000000,
+  MAX_HTML_LENGTH: 5000000,
   ALLOWED_PDF_MIME_TYPES: ['application/pdf'],
+  MAX_AUDIO_SIZE_MB: 200,
+  MAX_AUDIO_SIZE_BYTES: 200 * 1024 * 1024,
+  ALLOWED_AUDIO_MIME_TYPES: ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/mp4', 'audio/x-m4a', 'audio/m4a'],
+  ALLOWED_AUDIO_EXTENSIONS: ['.mp3', '.wav', '.m4a'],
 } as const;
 
 // Polling intervals (in milliseconds)
@@ -40,7 +46,7 @@ export const SM2Defaults = {
 export const AILimits = {
   MAX_INPUT_CHARACTERS: 100000,
   MIN_LESSONS: 3,
-  MAX_LESSONS: 10,
+  MAX_LESSONS: 10, // Per lesson-generation request; long sources get more
   CARDS_PER_LESSON: { MIN: 3, MAX: 4 },
 } as const;
 
@@ -1,7 +1,8 @@
 // Database client - supports both SQLite (local) and PostgreSQL (production)
 // Uses SQLite when DATABASE_URL is not set, PostgreSQL when it is
 
-import { Source, MicroLesson, Flashcard, Progress, SourceType } from '@/types';
+import { Source, SourceMetadata, MicroLesson, Flashcard, FlashcardRating, Progress, SourceType, SchedulerName, CardSchedule, CardState, CardType, CardContent, Note, FlashcardFlag, ReviewOrder, Deck } from '@/types';
+import { REVIEW_CONFIG } from '@/config/review-config';
 import {
   Summary,
   SummaryType,
@@ -20,10 +21,15 @@ import {
   CreateExportInput,
   UpdateSummaryInput,
 } from '@/types/summaries';
+import { Job, JobStatus, JobType, JobProgress, CreateJobInput, CheckpointPipeline } from '@/types/jobs';
+import { AIOperation, CreateAIUsageInput, UsageRollups, UsageTotals } from '@/types/usage';
+import { PromptTemplate, PromptTemplateName } from '@/types/prompts';
+import { ReviewLogEntry, ReviewUndoState } from '@/types/review';
 import { nanoid } from 'nanoid';
 import fs from 'fs';
 import path from 'path';
 import { POSTGRES_SCHEMA } from './schema-embedded';
+import { MIGRATIONS, MigrationContext, parseTimestamp } from './migrations';
 
 // Detect which database to use
 const usePostgres = !!process.env.DATABASE_URL;
@@ -116,9 +122,63 @@ export async function initializeDb(): Promise<void> {
     saveSqliteDb();
   }
 
+  await runMigrations();
   schemaInitialized = true;
 }
 
+// Migrations write `?` placeholders; Postgres numbers them
+function toPostgresParams(statement: string, params: unknown[]): string {
+  let index = 0;
+  return params.length > 0 ? statement.replace(/\?/g, () => `$${++index}`) : statement;
+}
+
+/**
+ * Apply any migrations not yet recorded in schema_migrations
+ */
+async function runMigrations(): Promise<void> {
+  const ctx: MigrationContext = usePostgres
+    ? {
+        dialect: 'postgres',
+        exec: async (statement, params = []) => {
+          await sql!.unsafe(toPostgresParams(statement, params), params as postgres.ParameterOrJSON<never>[]);
+        },
+        query: async (statement, params = []) =>
+          sql!.unsafe<Record<string, unknown>[]>(toPostgresParams(statement, params), params as postgres.ParameterOrJSON<never>[]),
+        columnExists: async (table, column) => {
+          const rows = await sql!`
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = ${table} AND column_name = ${column}
+          `;
+          return rows.length > 0;
+        },
+      }
+    : {
+        dialect: 'sqlite',
+        exec: async (statement, params = []) => {
+          sqliteDb!.run(statement, params as BindParams);
+        },
+        query: async (statement, params = []) => sqliteGetAll(statement, params),
+        columnExists: async (table, column) =>
+          sqliteGetAll(`PRAGMA table_info(${table})`).some((col) => col.name === column),
+      };
+
+  const appliedRows = usePostgres
+    ? await sql!`SELECT id FROM schema_migrations`
+    : sqliteGetAll(`SELECT id FROM schema_migrations`);
+  const applied = new Set(appliedRows.map((row) => row.id as string));
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.id)) continue;
+
+    await migration.up(ctx);
+    if (usePostgres) {
+      await sql!`INSERT INTO schema_migrations (id) VALUES (${migration.id})`;
+    } else {
+      sqliteRun(`INSERT INTO schema_migrations (id) VALUES (?)`, [migration.id]);
+    }
+  }
+}
+
 export async function getDbAsync(): Promise<unknown> {
   await initializeDb();
   return usePostgres ? sql : sqliteDb;
@@ -176,22 +236,25 @@ export async function createSource(data: {
   originalUrl?: string;
   filePath?: string;
   rawText?: string;
+  metadata?: SourceMetadata;
 }): Promise<Source> {
   await initializeDb();
   const id = nanoid();
   const now = new Date().toISOString();
+  const metadata = data.metadata ? JSON.stringify(data.metadata) : null;
 
   if (usePostgres) {
     await sql!`
-      INSERT INTO sources (id, type, title, original_url, file_path, raw_text, created_at)
-      VALUES (${id}, ${data.type}, ${data.title}, ${data.originalUrl || null}, ${data.filePath || null}, ${data.rawText || null}, ${now})
+      INSERT INTO sources (id, type, title, original_url, file_path, raw_text, metadata, created_at)
+      VALUES (${id}, ${data.type}, ${data.title}, ${data.originalUrl || null}, ${data.filePath || null}, ${data.rawText || null}, ${metadata}, ${now})
     `;
   } else {
     sqliteRun(
-      `INSERT INTO sources (id, type, title, original_url, file_path, raw_text, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [id, data.type, data.title, data.originalUrl || null, data.filePath || null, data.rawText || null, now]
+      `INSERT INTO sources (id, type, title, original_url, file_path, raw_text, metadata, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, data.type, data.title, data.originalUrl || null, data.filePath || null, data.rawText || null, metadata, now]
     );
   }
+  await createDeck({ name: data.title, sourceId: id });
 
   return {
     id,
@@ -200,6 +263,7 @@ export async function createSource(data: {
     originalUrl: data.originalUrl,
     filePath: data.filePath,
     rawText: data.rawText,
+    metadata: data.metadata,
     createdAt: new Date(now),
   };
 }
@@ -323,12 +387,34 @@ export async function updateSourceRawText(id: string, rawText: string): Promise<
   }
 }
 
+/**
+ * Delete a source with its default deck. Cards of other sources that were
+ * moved into the deck go back to their own, and its subdecks move up to its parent.
+ */
 export async function deleteSource(id: string): Promise<void> {
   await initializeDb();
+  const statements: [string, unknown[]][] = [
+    [`${RETURN_TO_SOURCE_DECK} WHERE deck_id IN (SELECT id FROM decks WHERE source_id = ?)`, [id]],
+    [
+      `UPDATE decks SET parent_id = (SELECT parent_id FROM decks WHERE source_id = ?)
+       WHERE parent_id IN (SELECT id FROM decks WHERE source_id = ?)`,
+      [id, id],
+    ],
+    [`DELETE FROM decks WHERE source_id = ?`, [id]],
+    [`DELETE FROM sources WHERE id = ?`, [id]],
+  ];
+
   if (usePostgres) {
-    await sql!`DELETE FROM sources WHERE id = ${id}`;
+    await sql!.begin(async (tx: postgres.TransactionSql) => {
+      for (const [statement, params] of statements) {
+        await tx.unsafe(toPostgresParams(statement, params), params as postgres.ParameterOrJSON<never>[]);
+      }
+    });
   } else {
-    sqliteRun(`DELETE FROM sources WHERE id = ?`, [id]);
+    for (const [statement, params] of statements) {
+      sqliteDb!.run(statement, params as BindParams);
+    }
+    saveSqliteDb();
   }
 }
 
@@ -343,14 +429,14 @@ export async function createMicroLesson(data: Omit<MicroLesson, 'id' | 'createdA
 
   if (usePostgres) {
     await sql!`
-      INSERT INTO micro_lessons (id, source_id, sequence, title, hook, content, key_takeaway, estimated_minutes, difficulty, audio_path, created_at)
-      VALUES (${id}, ${data.sourceId}, ${data.sequence}, ${data.title}, ${data.hook}, ${data.content}, ${data.keyTakeaway}, ${data.estimatedMinutes}, ${data.difficulty}, ${data.audioPath || null}, ${now})
+      INSERT INTO micro_lessons (id, source_id, sequence, title, hook, content, key_takeaway, estimated_minutes, difficulty, audio_path, page_start, page_end, prompt_template_id, created_at)
+      VALUES (${id}, ${data.sourceId}, ${data.sequence}, ${data.title}, ${data.hook}, ${data.content}, ${data.keyTakeaway}, ${data.estimatedMinutes}, ${data.difficulty}, ${data.audioPath || null}, ${data.pageStart ?? null}, ${data.pageEnd ?? null}, ${data.promptTemplateId || null}, ${now})
     `;
   } else {
     sqliteRun(
-      `INSERT INTO micro_lessons (id, source_id, sequence, title, hook, content, key_takeaway, estimated_minutes, difficulty, audio_path, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [id, data.sourceId, data.sequence, data.title, data.hook, data.content, data.keyTakeaway, data.estimatedMinutes, data.difficulty, data.audioPath || null, now]
+      `INSERT INTO micro_lessons (id, source_id, sequence, title, hook, content, key_takeaway, estimated_minutes, difficulty, audio_path, page_start, page_end, prompt_template_id, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, data.sourceId, data.sequence, data.title, data.hook, data.content, data.keyTakeaway, data.estimatedMinutes, data.difficulty, data.audioPath || null, data.pageStart ?? null, data.pageEnd ?? null, data.promptTemplateId || null, now]
     );
   }
 
@@ -369,9 +455,9 @@ export async function createMicroLessons(lessons: Omit<MicroLesson, 'id' | 'crea
       for (const lesson of lessons) {
         const id = nanoid();
         await tx.unsafe(
-          `INSERT INTO micro_lessons (id, source_id, sequence, title, hook, content, key_takeaway, estimated_minutes, difficulty, audio_path, created_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
-          [id, lesson.sourceId, lesson.sequence, lesson.title, lesson.hook, lesson.content, lesson.keyTakeaway, lesson.estimatedMinutes, lesson.difficulty, lesson.audioPath || null, now]
+          `INSERT INTO micro_lessons (id, source_id, sequence, title, hook, content, key_takeaway, estimated_minutes, difficulty, audio_path, page_start, page_end, prompt_template_id, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+          [id, lesson.sourceId, lesson.sequence, lesson.title, lesson.hook, lesson.content, lesson.keyTakeaway, lesson.estimatedMinutes, lesson.difficulty, lesson.audioPath || null, lesson.pageStart ?? null, lesson.pageEnd ?? null, lesson.promptTemplateId || null, now]
         );
         results.push({ id, ...lesson, createdAt: new Date(now) });
       }
@@ -380,9 +466,9 @@ export async function createMicroLessons(lessons: Omit<MicroLesson, 'id' | 'crea
     for (const lesson of lessons) {
       const id = nanoid();
       sqliteDb!.run(
-        `INSERT INTO micro_lessons (id, source_id, sequence, title, hook, content, key_takeaway, estimated_minutes, difficulty, audio_path, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [id, lesson.sourceId, lesson.sequence, lesson.title, lesson.hook, lesson.content, lesson.keyTakeaway, lesson.estimatedMinutes, lesson.difficulty, lesson.audioPath || null, now]
+        `INSERT INTO micro_lessons (id, source_id, sequence, title, hook, content, key_takeaway, estimated_minutes, difficulty, audio_path, page_start, page_end, prompt_template_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, lesson.sourceId, lesson.sequence, lesson.title, lesson.hook, lesson.content, lesson.keyTakeaway, lesson.estimatedMinutes, lesson.difficulty, lesson.audioPath || null, lesson.pageStart ?? null, lesson.pageEnd ?? null, lesson.promptTemplateId || null, now]
       );
       results.push({ id, ...lesson, createdAt: new Date(now) });
     }
@@ -448,113 +534,119 @@ export async function getMicroLesson(id: string): Promise<MicroLesson | null> {
 // Flashcard operations
 // ============================================================================
 
-export async function createFlashcard(data: Omit<Flashcard, 'id' | 'createdAt'>): Promise<Flashcard> {
-  await initializeDb();
-  const id = nanoid();
-  const now = new Date().toISOString();
-
-  if (usePostgres) {
-    await sql!`
-      INSERT INTO flashcards (id, lesson_id, front, back, hint, mnemonic, visual_cue, ease_factor, interval, repetitions, next_review, created_at)
-      VALUES (${id}, ${data.lessonId}, ${data.front}, ${data.back}, ${data.hint || null}, ${data.mnemonic || null}, ${data.visualCue || null}, ${data.easeFactor}, ${data.interval}, ${data.repetitions}, ${data.nextReview?.toISOString() || now}, ${now})
-    `;
-  } else {
-    sqliteRun(
-      `INSERT INTO flashcards (id, lesson_id, front, back, hint, mnemonic, visual_cue, ease_factor, interval, repetitions, next_review, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [id, data.lessonId, data.front, data.back, data.hint || null, data.mnemonic || null, data.visualCue || null, data.easeFactor, data.interval, data.repetitions, data.nextReview?.toISOString() || now, now]
-    );
-  }
-
-  return { id, ...data, createdAt: new Date(now) };
+// Quiz card options are stored as JSON; empty lists as NULL
+function toJsonArray(values: string[] | undefined): string | null {
+  return values && values.length > 0 ? JSON.stringify(values) : null;
 }
 
-export async function createFlashcards(cards: Omit<Flashcard, 'id' | 'createdAt'>[]): Promise<Flashcard[]> {
+export async function getFlashcardsByLesson(lessonId: string): Promise<Flashcard[]> {
   await initializeDb();
-  if (cards.length === 0) return [];
-
-  const now = new Date().toISOString();
-  const results: Flashcard[] = [];
 
   if (usePostgres) {
-    await sql!.begin(async (tx: postgres.TransactionSql) => {
-      for (const card of cards) {
-        const id = nanoid();
-        await tx.unsafe(
-          `INSERT INTO flashcards (id, lesson_id, front, back, hint, mnemonic, visual_cue, ease_factor, interval, repetitions, next_review, created_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
-          [id, card.lessonId, card.front, card.back, card.hint || null, card.mnemonic || null, card.visualCue || null, card.easeFactor, card.interval, card.repetitions, card.nextReview?.toISOString() || now, now]
-        );
-        results.push({ id, ...card, createdAt: new Date(now) });
-      }
-    });
+    const rows = await sql!`
+      SELECT f.*, d.scheduler FROM flashcards f
+      JOIN micro_lessons ml ON f.lesson_id = ml.id
+      LEFT JOIN decks d ON f.deck_id = d.id
+      WHERE f.lesson_id = ${lessonId}
+      ORDER BY f.created_at ASC
+    `;
+    return rows.map((row) => rowToFlashcard(row as Record<string, unknown>));
   } else {
-    for (const card of cards) {
-      const id = nanoid();
-      sqliteDb!.run(
-        `INSERT INTO flashcards (id, lesson_id, front, back, hint, mnemonic, visual_cue, ease_factor, interval, repetitions, next_review, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [id, card.lessonId, card.front, card.back, card.hint || null, card.mnemonic || null, card.visualCue || null, card.easeFactor, card.interval, card.repetitions, card.nextReview?.toISOString() || now, now]
-      );
-      results.push({ id, ...card, createdAt: new Date(now) });
-    }
-    saveSqliteDb();
+    const rows = sqliteGetAll(
+      `SELECT f.*, d.scheduler FROM flashcards f
+       JOIN micro_lessons ml ON f.lesson_id = ml.id
+       LEFT JOIN decks d ON f.deck_id = d.id
+       WHERE f.lesson_id = ?
+       ORDER BY f.created_at ASC`,
+      [lessonId]
+    );
+    return rows.map(rowToFlashcard);
   }
-
-  return results;
 }
 
-export async function getFlashcardsByLesson(lessonId: string): Promise<Flashcard[]> {
+export async function getFlashcardsBySource(sourceId: string): Promise<Flashcard[]> {
   await initializeDb();
 
   if (usePostgres) {
-    const rows = await sql!`SELECT * FROM flashcards WHERE lesson_id = ${lessonId} ORDER BY created_at ASC`;
+    const rows = await sql!`
+      SELECT f.*, d.scheduler FROM flashcards f
+      JOIN micro_lessons ml ON f.lesson_id = ml.id
+      LEFT JOIN decks d ON f.deck_id = d.id
+      WHERE ml.source_id = ${sourceId}
+      ORDER BY f.created_at ASC
+    `;
     return rows.map((row) => rowToFlashcard(row as Record<string, unknown>));
   } else {
-    const rows = sqliteGetAll(`SELECT * FROM flashcards WHERE lesson_id = ? ORDER BY created_at ASC`, [lessonId]);
+    const rows = sqliteGetAll(
+      `SELECT f.*, d.scheduler FROM flashcards f
+       JOIN micro_lessons ml ON f.lesson_id = ml.id
+       LEFT JOIN decks d ON f.deck_id = d.id
+       WHERE ml.source_id = ?
+       ORDER BY f.created_at ASC`,
+      [sourceId]
+    );
     return rows.map(rowToFlashcard);
   }
 }
 
-export async function getFlashcardsBySource(sourceId: string): Promise<Flashcard[]> {
+export async function getFlashcardsByDecks(deckIds: string[]): Promise<Flashcard[]> {
   await initializeDb();
+  if (deckIds.length === 0) return [];
 
   if (usePostgres) {
     const rows = await sql!`
-      SELECT f.* FROM flashcards f
+      SELECT f.*, d.scheduler FROM flashcards f
       JOIN micro_lessons ml ON f.lesson_id = ml.id
-      WHERE ml.source_id = ${sourceId}
+      LEFT JOIN decks d ON f.deck_id = d.id
+      WHERE f.deck_id IN ${sql!(deckIds)}
       ORDER BY f.created_at ASC
     `;
     return rows.map((row) => rowToFlashcard(row as Record<string, unknown>));
   } else {
     const rows = sqliteGetAll(
-      `SELECT f.* FROM flashcards f
+      `SELECT f.*, d.scheduler FROM flashcards f
        JOIN micro_lessons ml ON f.lesson_id = ml.id
-       WHERE ml.source_id = ?
+       LEFT JOIN decks d ON f.deck_id = d.id
+       WHERE f.deck_id IN (${deckIds.map(() => '?').join(', ')})
        ORDER BY f.created_at ASC`,
-      [sourceId]
+      deckIds
     );
     return rows.map(rowToFlashcard);
   }
 }
 
-export async function getDueFlashcards(limit: number = 20): Promise<Flashcard[]> {
+/**
+ * Cards due now or within the learn-ahead window, so learning steps a few
+ * minutes away are part of the current session, soonest first. Buried and
+ * suspended cards are left out. Daily limits are applied by services/review-queue.ts.
+ */
+export async function getDueFlashcards(): Promise<Flashcard[]> {
   await initializeDb();
-  const now = new Date().toISOString();
+  const now = new Date();
+  const dueBy = new Date(now.getTime() + REVIEW_CONFIG.learnAheadMinutes * 60 * 1000).toISOString();
+  const nowIso = now.toISOString();
 
   if (usePostgres) {
     const rows = await sql!`
-      SELECT * FROM flashcards
-      WHERE next_review <= ${now}
-      ORDER BY next_review ASC
-      LIMIT ${limit}
+      SELECT f.*, d.scheduler FROM flashcards f
+      JOIN micro_lessons ml ON f.lesson_id = ml.id
+      LEFT JOIN decks d ON f.deck_id = d.id
+      WHERE f.next_review <= ${dueBy}
+        AND NOT f.is_suspended
+        AND (f.buried_until IS NULL OR f.buried_until <= ${nowIso})
+      ORDER BY f.next_review ASC
     `;
     return rows.map((row) => rowToFlashcard(row as Record<string, unknown>));
   } else {
     const rows = sqliteGetAll(
-      `SELECT * FROM flashcards WHERE next_review <= ? ORDER BY next_review ASC LIMIT ?`,
-      [now, limit]
+      `SELECT f.*, d.scheduler FROM flashcards f
+       JOIN micro_lessons ml ON f.lesson_id = ml.id
+       LEFT JOIN decks d ON f.deck_id = d.id
+       WHERE f.next_review <= ?
+         AND NOT f.is_suspended
+         AND (f.buried_until IS NULL OR f.buried_until <= ?)
+       ORDER BY f.next_review ASC`,
+      [dueBy, nowIso]
     );
     return rows.map(rowToFlashcard);
   }
@@ -564,387 +656,1397 @@ export async function getFlashcard(id: string): Promise<Flashcard | null> {
   await initializeDb();
 
   if (usePostgres) {
-    const rows = await sql!`SELECT * FROM flashcards WHERE id = ${id}`;
+    const rows = await sql!`
+      SELECT f.*, d.scheduler FROM flashcards f
+      JOIN micro_lessons ml ON f.lesson_id = ml.id
+      LEFT JOIN decks d ON f.deck_id = d.id
+      WHERE f.id = ${id}
+    `;
     if (rows.length === 0) return null;
     return rowToFlashcard(rows[0] as Record<string, unknown>);
   } else {
-    const rows = sqliteGetAll(`SELECT * FROM flashcards WHERE id = ?`, [id]);
+    const rows = sqliteGetAll(
+      `SELECT f.*, d.scheduler FROM flashcards f
+       JOIN micro_lessons ml ON f.lesson_id = ml.id
+       LEFT JOIN decks d ON f.deck_id = d.id
+       WHERE f.id = ?`,
+      [id]
+    );
     if (rows.length === 0) return null;
     return rowToFlashcard(rows[0]);
   }
 }
 
-export async function updateFlashcardAfterReview(
-  id: string,
-  easeFactor: number,
-  interval: number,
-  repetitions: number,
-  nextReview: Date
-): Promise<void> {
+export async function updateFlashcardAfterReview(id: string, schedule: CardSchedule): Promise<void> {
   await initializeDb();
+  const nextReview = schedule.nextReview.toISOString();
+  const lastReviewedAt = schedule.lastReviewedAt.toISOString();
 
   if (usePostgres) {
     await sql!`
       UPDATE flashcards
-      SET ease_factor = ${easeFactor},
-          interval = ${interval},
-          repetitions = ${repetitions},
-          next_review = ${nextReview.toISOString()}
+      SET ease_factor = ${schedule.easeFactor},
+          interval = ${schedule.interval},
+          repetitions = ${schedule.repetitions},
+          next_review = ${nextReview},
+          stability = ${schedule.stability},
+          difficulty = ${schedule.difficulty},
+          last_reviewed_at = ${lastReviewedAt},
+          card_state = ${schedule.cardState},
+          learning_step = ${schedule.learningStep}
       WHERE id = ${id}
     `;
   } else {
     sqliteRun(
-      `UPDATE flashcards SET ease_factor = ?, interval = ?, repetitions = ?, next_review = ? WHERE id = ?`,
-      [easeFactor, interval, repetitions, nextReview.toISOString(), id]
+      `UPDATE flashcards
+       SET ease_factor = ?, interval = ?, repetitions = ?, next_review = ?, stability = ?, difficulty = ?, last_reviewed_at = ?,
+           card_state = ?, learning_step = ?
+       WHERE id = ?`,
+      [
+        schedule.easeFactor, schedule.interval, schedule.repetitions, nextReview, schedule.stability, schedule.difficulty, lastReviewedAt,
+        schedule.cardState, schedule.learningStep, id,
+      ]
     );
   }
 }
 
-// ============================================================================
-// Progress operations
-// ============================================================================
-
-export async function markLessonComplete(
-  lessonId: string,
-  timeSpentSeconds: number,
-  comprehensionRating: 1 | 2 | 3 | 4 | 5
-): Promise<Progress> {
+/**
+ * Hide the other cards of a card's note until `until`. Returns their IDs.
+ */
+export async function buryFlashcardSiblings(flashcardId: string, noteId: string, until: Date): Promise<string[]> {
   await initializeDb();
-  const id = nanoid();
-  const now = new Date().toISOString();
+  const buriedUntil = until.toISOString();
 
   if (usePostgres) {
-    await sql!`
-      INSERT INTO progress (id, lesson_id, completed_at, time_spent_seconds, comprehension_rating)
-      VALUES (${id}, ${lessonId}, ${now}, ${timeSpentSeconds}, ${comprehensionRating})
+    const rows = await sql!`
+      UPDATE flashcards SET buried_until = ${buriedUntil}
+      WHERE note_id = ${noteId} AND id != ${flashcardId}
+      RETURNING id
     `;
+    return rows.map((row) => row.id as string);
   } else {
-    sqliteRun(
-      `INSERT INTO progress (id, lesson_id, completed_at, time_spent_seconds, comprehension_rating) VALUES (?, ?, ?, ?, ?)`,
-      [id, lessonId, now, timeSpentSeconds, comprehensionRating]
-    );
+    const rows = sqliteGetAll(`SELECT id FROM flashcards WHERE note_id = ? AND id != ?`, [noteId, flashcardId]);
+    if (rows.length > 0) {
+      sqliteRun(`UPDATE flashcards SET buried_until = ? WHERE note_id = ? AND id != ?`, [buriedUntil, noteId, flashcardId]);
+    }
+    return rows.map((row) => row.id as string);
   }
+}
 
-  return { id, lessonId, completedAt: new Date(now), timeSpentSeconds, comprehensionRating };
+/**
+ * Count a review rated "again" against the card. Returns its lapses so far.
+ */
+export async function recordFlashcardLapse(id: string): Promise<number> {
+  await initializeDb();
+
+  if (usePostgres) {
+    const rows = await sql!`UPDATE flashcards SET lapses = COALESCE(lapses, 0) + 1 WHERE id = ${id} RETURNING lapses`;
+    return rows.length > 0 ? Number(rows[0].lapses) : 0;
+  } else {
+    sqliteRun(`UPDATE flashcards SET lapses = COALESCE(lapses, 0) + 1 WHERE id = ?`, [id]);
+    const rows = sqliteGetAll(`SELECT lapses FROM flashcards WHERE id = ?`, [id]);
+    return rows.length > 0 ? Number(rows[0].lapses) : 0;
+  }
 }
 
-export async function recordFlashcardReview(flashcardId: string, rating: number, timeToAnswerMs: number): Promise<void> {
+/**
+ * Mark a card a leech, which suspends it, or clear the mark and resume it
+ */
+export async function setFlashcardLeech(id: string, isLeech: boolean): Promise<void> {
   await initializeDb();
-  const id = nanoid();
 
   if (usePostgres) {
-    await sql!`
-      INSERT INTO flashcard_reviews (id, flashcard_id, rating, time_to_answer_ms)
-      VALUES (${id}, ${flashcardId}, ${rating}, ${timeToAnswerMs})
+    await sql!`UPDATE flashcards SET is_leech = ${isLeech}, is_suspended = ${isLeech} WHERE id = ${id}`;
+  } else {
+    sqliteRun(`UPDATE flashcards SET is_leech = ?, is_suspended = ? WHERE id = ?`, [isLeech ? 1 : 0, isLeech ? 1 : 0, id]);
+  }
+}
+
+/**
+ * Leeches waiting to be rewritten, most lapsed first
+ */
+export async function getLeechFlashcards(): Promise<Flashcard[]> {
+  await initializeDb();
+
+  if (usePostgres) {
+    const rows = await sql!`
+      SELECT f.*, d.scheduler FROM flashcards f
+      JOIN micro_lessons ml ON f.lesson_id = ml.id
+      LEFT JOIN decks d ON f.deck_id = d.id
+      WHERE f.is_leech
+      ORDER BY f.lapses DESC, f.created_at ASC
     `;
+    return rows.map((row) => rowToFlashcard(row as Record<string, unknown>));
   } else {
-    sqliteRun(
-      `INSERT INTO flashcard_reviews (id, flashcard_id, rating, time_to_answer_ms) VALUES (?, ?, ?, ?)`,
-      [id, flashcardId, rating, timeToAnswerMs]
+    const rows = sqliteGetAll(
+      `SELECT f.*, d.scheduler FROM flashcards f
+       JOIN micro_lessons ml ON f.lesson_id = ml.id
+       LEFT JOIN decks d ON f.deck_id = d.id
+       WHERE f.is_leech
+       ORDER BY f.lapses DESC, f.created_at ASC`
     );
+    return rows.map(rowToFlashcard);
   }
 }
 
-// ============================================================================
-// Stats
-// ============================================================================
-
-export async function getStats(): Promise<{
-  totalSources: number;
-  totalLessons: number;
-  completedLessons: number;
-  totalCards: number;
-  cardsReviewedToday: number;
-  currentStreak: number;
-  longestStreak: number;
-}> {
+/**
+ * Suspend a card, leaving it out of reviews, or resume it
+ */
+export async function setFlashcardSuspended(id: string, isSuspended: boolean): Promise<void> {
   await initializeDb();
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const todayStart = today.toISOString();
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  const todayEnd = tomorrow.toISOString();
+  if (usePostgres) {
+    await sql!`UPDATE flashcards SET is_suspended = ${isSuspended} WHERE id = ${id}`;
+  } else {
+    sqliteRun(`UPDATE flashcards SET is_suspended = ? WHERE id = ?`, [isSuspended ? 1 : 0, id]);
+  }
+}
+
+/**
+ * Hide a card from reviews until `until`, or unbury it with null
+ */
+export async function buryFlashcard(id: string, until: Date | null): Promise<void> {
+  await initializeDb();
+  const buriedUntil = until ? until.toISOString() : null;
 
   if (usePostgres) {
-    const rows = await sql!`
-      SELECT
-        (SELECT COUNT(*) FROM sources) as total_sources,
-        (SELECT COUNT(*) FROM micro_lessons) as total_lessons,
-        (SELECT COUNT(DISTINCT lesson_id) FROM progress) as completed_lessons,
-        (SELECT COUNT(*) FROM flashcards) as total_cards,
-        (SELECT COUNT(*) FROM flashcard_reviews WHERE reviewed_at >= ${todayStart} AND reviewed_at < ${todayEnd}) as cards_reviewed_today
-    `;
-    const stats = rows[0] || {};
-    return {
-      totalSources: Number(stats.total_sources) || 0,
-      totalLessons: Number(stats.total_lessons) || 0,
-      completedLessons: Number(stats.completed_lessons) || 0,
-      totalCards: Number(stats.total_cards) || 0,
-      cardsReviewedToday: Number(stats.cards_reviewed_today) || 0,
-      currentStreak: 0,
-      longestStreak: 0,
-    };
+    await sql!`UPDATE flashcards SET buried_until = ${buriedUntil} WHERE id = ${id}`;
   } else {
-    const todayDate = today.toISOString().split('T')[0];
-    const rows = sqliteGetAll(`
-      SELECT
-        (SELECT COUNT(*) FROM sources) as total_sources,
-        (SELECT COUNT(*) FROM micro_lessons) as total_lessons,
-        (SELECT COUNT(DISTINCT lesson_id) FROM progress) as completed_lessons,
-        (SELECT COUNT(*) FROM flashcards) as total_cards,
-        (SELECT COUNT(*) FROM flashcard_reviews WHERE date(reviewed_at) = ?) as cards_reviewed_today
-    `, [todayDate]);
-    const stats = rows[0] || {};
-    return {
-      totalSources: Number(stats.total_sources) || 0,
-      totalLessons: Number(stats.total_lessons) || 0,
-      completedLessons: Number(stats.completed_lessons) || 0,
-      totalCards: Number(stats.total_cards) || 0,
-      cardsReviewedToday: Number(stats.cards_reviewed_today) || 0,
-      currentStreak: 0,
-      longestStreak: 0,
-    };
+    sqliteRun(`UPDATE flashcards SET buried_until = ? WHERE id = ?`, [buriedUntil, id]);
   }
 }
 
-// ============================================================================
-// Summary operations
-// ============================================================================
+export async function setFlashcardFlag(id: string, flag: FlashcardFlag | null): Promise<void> {
+  await initializeDb();
 
-export async function createSummary(data: CreateSummaryInput): Promise<Summary> {
+  if (usePostgres) {
+    await sql!`UPDATE flashcards SET flag = ${flag} WHERE id = ${id}`;
+  } else {
+    sqliteRun(`UPDATE flashcards SET flag = ? WHERE id = ?`, [flag, id]);
+  }
+}
+
+/**
+ * Flagged cards, optionally with one flag only, oldest first
+ */
+export async function getFlaggedFlashcards(flag?: FlashcardFlag): Promise<Flashcard[]> {
   await initializeDb();
-  const id = nanoid();
-  const now = new Date().toISOString();
 
-  // Calculate next version number
-  let nextVersion = 1;
   if (usePostgres) {
-    const versionResult = await sql!`
-      SELECT COALESCE(MAX(version), 0) + 1 as next_version
-      FROM summaries
-      WHERE source_id = ${data.sourceId} AND summary_type = ${data.summaryType}
+    const rows = await sql!`
+      SELECT f.*, d.scheduler FROM flashcards f
+      JOIN micro_lessons ml ON f.lesson_id = ml.id
+      LEFT JOIN decks d ON f.deck_id = d.id
+      WHERE f.flag IS NOT NULL AND (${flag ?? null}::text IS NULL OR f.flag = ${flag ?? null})
+      ORDER BY f.created_at ASC
     `;
-    nextVersion = versionResult[0]?.next_version || 1;
+    return rows.map((row) => rowToFlashcard(row as Record<string, unknown>));
+  } else {
+    const rows = sqliteGetAll(
+      `SELECT f.*, d.scheduler FROM flashcards f
+       JOIN micro_lessons ml ON f.lesson_id = ml.id
+       LEFT JOIN decks d ON f.deck_id = d.id
+       WHERE f.flag IS NOT NULL AND (? IS NULL OR f.flag = ?)
+       ORDER BY f.created_at ASC`,
+      [flag ?? null, flag ?? null]
+    );
+    return rows.map(rowToFlashcard);
+  }
+}
 
-    // Mark previous versions as not current (fix race condition)
-    await sql!`
-      UPDATE summaries
-      SET is_current = false, updated_at = ${now}
-      WHERE source_id = ${data.sourceId}
-        AND summary_type = ${data.summaryType}
-        AND is_current = true
-    `;
+/**
+ * Cards of a note, in the order they were created
+ */
+export async function getFlashcardsByNote(noteId: string): Promise<Flashcard[]> {
+  await initializeDb();
 
-    await sql!`
-      INSERT INTO summaries (
-        id, source_id, summary_type, title, content, word_count,
-        version, is_current, parent_version_id,
-        generation_model, generation_duration_ms, input_token_count, output_token_count,
-        quality_score, user_rating, created_at, updated_at
-      ) VALUES (
-        ${id}, ${data.sourceId}, ${data.summaryType}, ${data.title}, ${data.content}, ${data.wordCount},
-        ${nextVersion}, true, ${data.parentVersionId || null},
-        ${data.generationModel}, ${data.generationDurationMs || null}, ${data.inputTokenCount || null}, ${data.outputTokenCount || null},
-        ${data.qualityScore || null}, ${data.userRating || null}, ${now}, ${now}
-      )
+  if (usePostgres) {
+    const rows = await sql!`
+      SELECT f.*, d.scheduler FROM flashcards f
+      JOIN micro_lessons ml ON f.lesson_id = ml.id
+      LEFT JOIN decks d ON f.deck_id = d.id
+      WHERE f.note_id = ${noteId}
+      ORDER BY f.created_at ASC, f.cloze_index ASC
     `;
+    return rows.map((row) => rowToFlashcard(row as Record<string, unknown>));
   } else {
-    const versionRow = sqliteGetAll(
-      `SELECT COALESCE(MAX(version), 0) + 1 as next_version
-       FROM summaries
-       WHERE source_id = ? AND summary_type = ?`,
-      [data.sourceId, data.summaryType]
+    const rows = sqliteGetAll(
+      `SELECT f.*, d.scheduler FROM flashcards f
+       JOIN micro_lessons ml ON f.lesson_id = ml.id
+       LEFT JOIN decks d ON f.deck_id = d.id
+       WHERE f.note_id = ?
+       ORDER BY f.created_at ASC, f.cloze_index ASC`,
+      [noteId]
     );
-    nextVersion = (versionRow[0] as Record<string, unknown>)?.next_version as number || 1;
+    return rows.map(rowToFlashcard);
+  }
+}
 
-    // Mark previous versions as not current (fix race condition)
+// ============================================================================
+// Note operations
+// ============================================================================
+
+// A note to create, with what each of its cards shows
+export type NewNote = Omit<Note, 'id' | 'createdAt' | 'updatedAt'> & { cards: CardContent[] };
+
+// Card changes that bring a note's cards in line with an edit
+export interface NoteCardChanges {
+  update: (CardContent & { id: string })[];
+  create: CardContent[];
+  deleteIds: string[];
+}
+
+const INSERT_NOTE = `INSERT INTO notes (id, lesson_id, note_type, front, back, hint, mnemonic, visual_cue, term, distractors, accepted_answers, excerpt, created_at, updated_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+const INSERT_FLASHCARD = `INSERT INTO flashcards (id, lesson_id, note_id, deck_id, card_type, cloze_index, is_reverse, distractors, accepted_answers, front, back, hint, mnemonic, visual_cue, excerpt, ease_factor, interval, repetitions, next_review, created_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+const UPDATE_FLASHCARD_CONTENT = `UPDATE flashcards
+  SET card_type = ?, cloze_index = ?, is_reverse = ?, distractors = ?, accepted_answers = ?, front = ?, back = ?, hint = ?, mnemonic = ?, visual_cue = ?, excerpt = ?
+  WHERE id = ? AND note_id = ?`;
+
+function noteParams(note: Note): unknown[] {
+  return [
+    note.id, note.lessonId, note.noteType, note.front, note.back, note.hint || null, note.mnemonic || null, note.visualCue || null,
+    note.term || null, toJsonArray(note.distractors), toJsonArray(note.acceptedAnswers), note.excerpt || null,
+    note.createdAt.toISOString(), note.updatedAt.toISOString(),
+  ];
+}
+
+function cardContentParams(card: CardContent): unknown[] {
+  return [
+    card.cardType || 'basic', card.clozeIndex ?? null, usePostgres ? !!card.isReverse : card.isReverse ? 1 : 0,
+    toJsonArray(card.distractors), toJsonArray(card.acceptedAnswers),
+    card.front, card.back, card.hint || null, card.mnemonic || null, card.visualCue || null, card.excerpt || null,
+  ];
+}
+
+/**
+ * A card of the note that has never been reviewed, due now
+ */
+function newFlashcard(note: Note, content: CardContent, now: Date, deckId?: string): Flashcard {
+  return {
+    id: nanoid(),
+    lessonId: note.lessonId,
+    noteId: note.id,
+    deckId,
+    ...content,
+    easeFactor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    nextReview: now,
+    cardState: 'new',
+    learningStep: 0,
+    createdAt: now,
+  };
+}
+
+function flashcardParams(card: Flashcard): unknown[] {
+  const [cardType, clozeIndex, isReverse, distractors, acceptedAnswers, front, back, hint, mnemonic, visualCue, excerpt] = cardContentParams(card);
+  return [
+    card.id, card.lessonId, card.noteId, card.deckId ?? null, cardType, clozeIndex, isReverse, distractors, acceptedAnswers, front, back, hint, mnemonic, visualCue, excerpt,
+    card.easeFactor, card.interval, card.repetitions, card.nextReview!.toISOString(), card.createdAt.toISOString(),
+  ];
+}
+
+/**
+ * The default deck of the lesson's source, where new cards start
+ */
+async function getSourceDeckId(lessonId: string): Promise<string | undefined> {
+  const rows = usePostgres
+    ? await sql!`SELECT d.id FROM decks d JOIN micro_lessons ml ON d.source_id = ml.source_id WHERE ml.id = ${lessonId}`
+    : sqliteGetAll(`SELECT d.id FROM decks d JOIN micro_lessons ml ON d.source_id = ml.source_id WHERE ml.id = ?`, [lessonId]);
+  return rows.length > 0 ? String(rows[0].id) : undefined;
+}
+
+/**
+ * Where cards added to an existing note go: the deck its cards are in
+ */
+async function getNoteDeckId(note: Note): Promise<string | undefined> {
+  const rows = usePostgres
+    ? await sql!`SELECT deck_id FROM flashcards WHERE note_id = ${note.id} AND deck_id IS NOT NULL LIMIT 1`
+    : sqliteGetAll(`SELECT deck_id FROM flashcards WHERE note_id = ? AND deck_id IS NOT NULL LIMIT 1`, [note.id]);
+  return rows.length > 0 ? String(rows[0].deck_id) : getSourceDeckId(note.lessonId);
+}
+
+/**
+ * Create notes and their cards in one transaction
+ */
+export async function createNotes(notes: NewNote[]): Promise<{ notes: Note[]; flashcards: Flashcard[] }> {
+  await initializeDb();
+  const now = new Date();
+  const created: Note[] = [];
+  const flashcards: Flashcard[] = [];
+  const deckIds = new Map<string, string | undefined>();
+
+  for (const { cards, ...data } of notes) {
+    const note: Note = { id: nanoid(), ...data, createdAt: now, updatedAt: now };
+    if (!deckIds.has(note.lessonId)) deckIds.set(note.lessonId, await getSourceDeckId(note.lessonId));
+    created.push(note);
+    flashcards.push(...cards.map((card) => newFlashcard(note, card, now, deckIds.get(note.lessonId))));
+  }
+  if (created.length === 0) return { notes: [], flashcards: [] };
+
+  if (usePostgres) {
+    await sql!.begin(async (tx: postgres.TransactionSql) => {
+      for (const note of created) {
+        await tx.unsafe(toPostgresParams(INSERT_NOTE, noteParams(note)), noteParams(note) as postgres.ParameterOrJSON<never>[]);
+      }
+      for (const card of flashcards) {
+        await tx.unsafe(toPostgresParams(INSERT_FLASHCARD, flashcardParams(card)), flashcardParams(card) as postgres.ParameterOrJSON<never>[]);
+      }
+    });
+  } else {
+    for (const note of created) {
+      sqliteDb!.run(INSERT_NOTE, noteParams(note) as BindParams);
+    }
+    for (const card of flashcards) {
+      sqliteDb!.run(INSERT_FLASHCARD, flashcardParams(card) as BindParams);
+    }
+    saveSqliteDb();
+  }
+
+  return { notes: created, flashcards };
+}
+
+export async function getNote(id: string): Promise<Note | null> {
+  await initializeDb();
+
+  const rows = usePostgres
+    ? await sql!`SELECT * FROM notes WHERE id = ${id}`
+    : sqliteGetAll(`SELECT * FROM notes WHERE id = ?`, [id]);
+  return rows.length > 0 ? rowToNote(rows[0] as Record<string, unknown>) : null;
+}
+
+/**
+ * Save an edited note (as of its updatedAt) and apply the changes to its
+ * cards in one transaction. Scheduling of the cards that are kept is left as it was.
+ */
+export async function updateNote(note: Note, changes: NoteCardChanges): Promise<void> {
+  await initializeDb();
+  const deckId = changes.create.length > 0 ? await getNoteDeckId(note) : undefined;
+  const created = changes.create.map((content) => newFlashcard(note, content, note.updatedAt, deckId));
+
+  const statements: [string, unknown[]][] = [
+    [
+      `UPDATE notes SET front = ?, back = ?, hint = ?, mnemonic = ?, visual_cue = ?, term = ?, distractors = ?, accepted_answers = ?, excerpt = ?, updated_at = ? WHERE id = ?`,
+      [
+        note.front, note.back, note.hint || null, note.mnemonic || null, note.visualCue || null, note.term || null,
+        toJsonArray(note.distractors), toJsonArray(note.acceptedAnswers), note.excerpt || null, note.updatedAt.toISOString(), note.id,
+      ],
+    ],
+    ...changes.update.map((card): [string, unknown[]] => [UPDATE_FLASHCARD_CONTENT, [...cardContentParams(card), card.id, note.id]]),
+    ...created.map((card): [string, unknown[]] => [INSERT_FLASHCARD, flashcardParams(card)]),
+    ...changes.deleteIds.map((id): [string, unknown[]] => [`DELETE FROM flashcards WHERE id = ? AND note_id = ?`, [id, note.id]]),
+  ];
+
+  if (usePostgres) {
+    await sql!.begin(async (tx: postgres.TransactionSql) => {
+      for (const [statement, params] of statements) {
+        await tx.unsafe(toPostgresParams(statement, params), params as postgres.ParameterOrJSON<never>[]);
+      }
+    });
+  } else {
+    for (const [statement, params] of statements) {
+      sqliteDb!.run(statement, params as BindParams);
+    }
+    saveSqliteDb();
+  }
+}
+
+/**
+ * Delete a note with its cards and their review history
+ */
+export async function deleteNote(id: string): Promise<void> {
+  await initializeDb();
+  const statements: [string, unknown[]][] = [
+    [`DELETE FROM flashcard_reviews WHERE flashcard_id IN (SELECT id FROM flashcards WHERE note_id = ?)`, [id]],
+    [`DELETE FROM flashcards WHERE note_id = ?`, [id]],
+    [`DELETE FROM notes WHERE id = ?`, [id]],
+  ];
+
+  if (usePostgres) {
+    await sql!.begin(async (tx: postgres.TransactionSql) => {
+      for (const [statement, params] of statements) {
+        await tx.unsafe(toPostgresParams(statement, params), params as postgres.ParameterOrJSON<never>[]);
+      }
+    });
+  } else {
+    for (const [statement, params] of statements) {
+      sqliteDb!.run(statement, params as BindParams);
+    }
+    saveSqliteDb();
+  }
+}
+
+// ============================================================================
+// Deck operations
+// ============================================================================
+
+// Puts cards back in the default deck of their lesson's source
+const RETURN_TO_SOURCE_DECK = `UPDATE flashcards SET deck_id = (
+  SELECT d.id FROM decks d JOIN micro_lessons ml ON d.source_id = ml.source_id WHERE ml.id = flashcards.lesson_id
+)`;
+
+export async function createDeck(data: { name: string; parentId?: string; sourceId?: string }): Promise<Deck> {
+  await initializeDb();
+  const id = nanoid();
+  const now = new Date().toISOString();
+
+  if (usePostgres) {
+    await sql!`
+      INSERT INTO decks (id, name, parent_id, source_id, created_at)
+      VALUES (${id}, ${data.name}, ${data.parentId || null}, ${data.sourceId || null}, ${now})
+    `;
+  } else {
     sqliteRun(
-      `UPDATE summaries
-       SET is_current = 0, updated_at = ?
-       WHERE source_id = ? AND summary_type = ? AND is_current = 1`,
-      [now, data.sourceId, data.summaryType]
+      `INSERT INTO decks (id, name, parent_id, source_id, created_at) VALUES (?, ?, ?, ?, ?)`,
+      [id, data.name, data.parentId || null, data.sourceId || null, now]
+    );
+  }
+
+  return { id, name: data.name, parentId: data.parentId, sourceId: data.sourceId, createdAt: new Date(now) };
+}
+
+/**
+ * All decks with the number of cards in each (not counting subdecks)
+ */
+export async function getDecks(): Promise<Deck[]> {
+  await initializeDb();
+
+  const rows = usePostgres
+    ? await sql!`
+        SELECT d.*, COUNT(f.id) as card_count FROM decks d
+        LEFT JOIN flashcards f ON f.deck_id = d.id
+        GROUP BY d.id
+        ORDER BY d.name ASC
+      `
+    : sqliteGetAll(
+        `SELECT d.*, COUNT(f.id) as card_count FROM decks d
+         LEFT JOIN flashcards f ON f.deck_id = d.id
+         GROUP BY d.id
+         ORDER BY d.name ASC`
+      );
+  return rows.map((row) => rowToDeck(row as Record<string, unknown>));
+}
+
+export async function getDeck(id: string): Promise<Deck | null> {
+  await initializeDb();
+
+  const rows = usePostgres
+    ? await sql!`SELECT * FROM decks WHERE id = ${id}`
+    : sqliteGetAll(`SELECT * FROM decks WHERE id = ?`, [id]);
+  return rows.length > 0 ? rowToDeck(rows[0] as Record<string, unknown>) : null;
+}
+
+/**
+ * Save a deck's name, parent and review settings
+ */
+export async function updateDeck(deck: Deck): Promise<void> {
+  await initializeDb();
+
+  if (usePostgres) {
+    await sql!`
+      UPDATE decks
+      SET name = ${deck.name},
+          parent_id = ${deck.parentId ?? null},
+          scheduler = ${deck.scheduler ?? null},
+          new_cards_per_day = ${deck.newCardsPerDay ?? null},
+          max_reviews_per_day = ${deck.maxReviewsPerDay ?? null},
+          review_order = ${deck.reviewOrder ?? null}
+      WHERE id = ${deck.id}
+    `;
+  } else {
+    sqliteRun(
+      `UPDATE decks SET name = ?, parent_id = ?, scheduler = ?, new_cards_per_day = ?, max_reviews_per_day = ?, review_order = ? WHERE id = ?`,
+      [
+        deck.name, deck.parentId ?? null, deck.scheduler ?? null, deck.newCardsPerDay ?? null,
+        deck.maxReviewsPerDay ?? null, deck.reviewOrder ?? null, deck.id,
+      ]
+    );
+  }
+}
+
+/**
+ * Delete a deck. Its cards go back to their source's default deck and its
+ * subdecks move up to its parent.
+ */
+export async function deleteDeck(deck: Deck): Promise<void> {
+  await initializeDb();
+  const statements: [string, unknown[]][] = [
+    [`${RETURN_TO_SOURCE_DECK} WHERE deck_id = ?`, [deck.id]],
+    [`UPDATE decks SET parent_id = ? WHERE parent_id = ?`, [deck.parentId ?? null, deck.id]],
+    [`DELETE FROM decks WHERE id = ?`, [deck.id]],
+  ];
+
+  if (usePostgres) {
+    await sql!.begin(async (tx: postgres.TransactionSql) => {
+      for (const [statement, params] of statements) {
+        await tx.unsafe(toPostgresParams(statement, params), params as postgres.ParameterOrJSON<never>[]);
+      }
+    });
+  } else {
+    for (const [statement, params] of statements) {
+      sqliteDb!.run(statement, params as BindParams);
+    }
+    saveSqliteDb();
+  }
+}
+
+export async function moveFlashcardToDeck(id: string, deckId: string): Promise<void> {
+  await initializeDb();
+  if (usePostgres) {
+    await sql!`UPDATE flashcards SET deck_id = ${deckId} WHERE id = ${id}`;
+  } else {
+    sqliteRun(`UPDATE flashcards SET deck_id = ? WHERE id = ?`, [deckId, id]);
+  }
+}
+
+// ============================================================================
+// Progress operations
+// ============================================================================
+
+export async function markLessonComplete(
+  lessonId: string,
+  timeSpentSeconds: number,
+  comprehensionRating: 1 | 2 | 3 | 4 | 5
+): Promise<Progress> {
+  await initializeDb();
+  const id = nanoid();
+  const now = new Date().toISOString();
+
+  if (usePostgres) {
+    await sql!`
+      INSERT INTO progress (id, lesson_id, completed_at, time_spent_seconds, comprehension_rating)
+      VALUES (${id}, ${lessonId}, ${now}, ${timeSpentSeconds}, ${comprehensionRating})
+    `;
+  } else {
+    sqliteRun(
+      `INSERT INTO progress (id, lesson_id, completed_at, time_spent_seconds, comprehension_rating) VALUES (?, ?, ?, ?, ?)`,
+      [id, lessonId, now, timeSpentSeconds, comprehensionRating]
+    );
+  }
+
+  return { id, lessonId, completedAt: new Date(now), timeSpentSeconds, comprehensionRating };
+}
+
+export async function recordFlashcardReview(
+  flashcardId: string,
+  rating: number,
+  timeToAnswerMs: number,
+  previousState?: ReviewUndoState
+): Promise<void> {
+  await initializeDb();
+  const id = nanoid();
+  // With milliseconds, so the latest of a card's reviews is the one undone
+  const reviewedAt = new Date().toISOString();
+  const previousStateJson = previousState ? JSON.stringify(previousState) : null;
+  const cardState = previousState ? previousState.cardState ?? 'new' : null;
+
+  if (usePostgres) {
+    await sql!`
+      INSERT INTO flashcard_reviews (id, flashcard_id, rating, reviewed_at, time_to_answer_ms, previous_state, card_state)
+      VALUES (${id}, ${flashcardId}, ${rating}, ${reviewedAt}, ${timeToAnswerMs}, ${previousStateJson}, ${cardState})
+    `;
+  } else {
+    sqliteRun(
+      `INSERT INTO flashcard_reviews (id, flashcard_id, rating, reviewed_at, time_to_answer_ms, previous_state, card_state)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, flashcardId, rating, reviewedAt, timeToAnswerMs, previousStateJson, cardState]
     );
+  }
+}
+
+/**
+ * New cards started and review cards reviewed since a time, by deck
+ */
+export async function getReviewCountsSince(since: Date): Promise<Record<string, { new: number; review: number }>> {
+  await initializeDb();
+  const sinceIso = since.toISOString();
+  const rows = usePostgres
+    ? await sql!`
+        SELECT f.deck_id, r.card_state, COUNT(*) as count FROM flashcard_reviews r
+        JOIN flashcards f ON r.flashcard_id = f.id
+        WHERE r.reviewed_at >= ${sinceIso} AND r.card_state IN ('new', 'review')
+        GROUP BY f.deck_id, r.card_state
+      `
+    : sqliteGetAll(
+        `SELECT f.deck_id, r.card_state, COUNT(*) as count FROM flashcard_reviews r
+         JOIN flashcards f ON r.flashcard_id = f.id
+         WHERE r.reviewed_at >= ? AND r.card_state IN ('new', 'review')
+         GROUP BY f.deck_id, r.card_state`,
+        [sinceIso]
+      );
+
+  const counts: Record<string, { new: number; review: number }> = {};
+  for (const row of rows) {
+    const deckCounts = counts[row.deck_id ? String(row.deck_id) : ''] ??= { new: 0, review: 0 };
+    deckCounts[row.card_state as 'new' | 'review'] = Number(row.count);
+  }
+  return counts;
+}
+
+/**
+ * The card's most recent review, with its state before the review when it
+ * was recorded (reviews from older versions don't have it)
+ */
+export async function getLatestFlashcardReview(
+  flashcardId: string
+): Promise<{ id: string; previousState?: ReviewUndoState } | null> {
+  await initializeDb();
+  const rows = usePostgres
+    ? await sql!`SELECT id, previous_state FROM flashcard_reviews WHERE flashcard_id = ${flashcardId} ORDER BY reviewed_at DESC LIMIT 1`
+    : sqliteGetAll(`SELECT id, previous_state FROM flashcard_reviews WHERE flashcard_id = ? ORDER BY reviewed_at DESC LIMIT 1`, [flashcardId]);
+  if (rows.length === 0) return null;
+
+  return {
+    id: rows[0].id as string,
+    previousState: rows[0].previous_state ? parseReviewUndoState(rows[0].previous_state as string) : undefined,
+  };
+}
+
+/**
+ * Put a card and its siblings back the way they were before a review, and
+ * delete the review, in one transaction
+ */
+export async function undoFlashcardReview(flashcardId: string, reviewId: string, state: ReviewUndoState): Promise<void> {
+  await initializeDb();
+  const statements: [string, unknown[]][] = [
+    [
+      `UPDATE flashcards
+       SET ease_factor = ?, interval = ?, repetitions = ?, next_review = ?, stability = ?, difficulty = ?, last_reviewed_at = ?,
+           card_state = ?, learning_step = ?, lapses = ?, is_leech = ?, is_suspended = ?
+       WHERE id = ?`,
+      [
+        state.easeFactor, state.interval, state.repetitions, state.nextReview?.toISOString() ?? null,
+        state.stability ?? null, state.difficulty ?? null, state.lastReviewedAt?.toISOString() ?? null,
+        state.cardState ?? 'new', state.learningStep ?? 0, state.lapses,
+        usePostgres ? state.isLeech : state.isLeech ? 1 : 0, usePostgres ? state.isSuspended : state.isSuspended ? 1 : 0, flashcardId,
+      ],
+    ],
+    ...state.siblings.map((sibling): [string, unknown[]] => [
+      `UPDATE flashcards SET buried_until = ? WHERE id = ?`,
+      [sibling.buriedUntil?.toISOString() ?? null, sibling.id],
+    ]),
+    [`DELETE FROM flashcard_reviews WHERE id = ?`, [reviewId]],
+  ];
+
+  if (usePostgres) {
+    await sql!.begin(async (tx: postgres.TransactionSql) => {
+      for (const [statement, params] of statements) {
+        await tx.unsafe(toPostgresParams(statement, params), params as postgres.ParameterOrJSON<never>[]);
+      }
+    });
+  } else {
+    for (const [statement, params] of statements) {
+      sqliteDb!.run(statement, params as BindParams);
+    }
+    saveSqliteDb();
+  }
+}
+
+/**
+ * Every recorded review, grouped by card and oldest first
+ */
+export async function getFlashcardReviewLog(): Promise<ReviewLogEntry[]> {
+  await initializeDb();
+  const rows = usePostgres
+    ? await sql!`SELECT flashcard_id, rating, reviewed_at FROM flashcard_reviews ORDER BY flashcard_id, reviewed_at`
+    : sqliteGetAll(`SELECT flashcard_id, rating, reviewed_at FROM flashcard_reviews ORDER BY flashcard_id, reviewed_at`);
+
+  return rows.map((row) => ({
+    flashcardId: row.flashcard_id as string,
+    rating: Number(row.rating) as FlashcardRating,
+    reviewedAt: parseTimestamp(row.reviewed_at),
+  }));
+}
+
+// ============================================================================
+// Stats
+// ============================================================================
+
+export async function getStats(): Promise<{
+  totalSources: number;
+  totalLessons: number;
+  completedLessons: number;
+  totalCards: number;
+  cardsReviewedToday: number;
+  currentStreak: number;
+  longestStreak: number;
+}> {
+  await initializeDb();
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const todayStart = today.toISOString();
+  const tomorrow = new Date(today);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const todayEnd = tomorrow.toISOString();
+
+  if (usePostgres) {
+    const rows = await sql!`
+      SELECT
+        (SELECT COUNT(*) FROM sources) as total_sources,
+        (SELECT COUNT(*) FROM micro_lessons) as total_lessons,
+        (SELECT COUNT(DISTINCT lesson_id) FROM progress) as completed_lessons,
+        (SELECT COUNT(*) FROM flashcards) as total_cards,
+        (SELECT COUNT(*) FROM flashcard_reviews WHERE reviewed_at >= ${todayStart} AND reviewed_at < ${todayEnd}) as cards_reviewed_today
+    `;
+    const stats = rows[0] || {};
+    return {
+      totalSources: Number(stats.total_sources) || 0,
+      totalLessons: Number(stats.total_lessons) || 0,
+      completedLessons: Number(stats.completed_lessons) || 0,
+      totalCards: Number(stats.total_cards) || 0,
+      cardsReviewedToday: Number(stats.cards_reviewed_today) || 0,
+      currentStreak: 0,
+      longestStreak: 0,
+    };
+  } else {
+    const todayDate = today.toISOString().split('T')[0];
+    const rows = sqliteGetAll(`
+      SELECT
+        (SELECT COUNT(*) FROM sources) as total_sources,
+        (SELECT COUNT(*) FROM micro_lessons) as total_lessons,
+        (SELECT COUNT(DISTINCT lesson_id) FROM progress) as completed_lessons,
+        (SELECT COUNT(*) FROM flashcards) as total_cards,
+        (SELECT COUNT(*) FROM flashcard_reviews WHERE date(reviewed_at) = ?) as cards_reviewed_today
+    `, [todayDate]);
+    const stats = rows[0] || {};
+    return {
+      totalSources: Number(stats.total_sources) || 0,
+      totalLessons: Number(stats.total_lessons) || 0,
+      completedLessons: Number(stats.completed_lessons) || 0,
+      totalCards: Number(stats.total_cards) || 0,
+      cardsReviewedToday: Number(stats.cards_reviewed_today) || 0,
+      currentStreak: 0,
+      longestStreak: 0,
+    };
+  }
+}
+
+// ============================================================================
+// Summary operations
+// ============================================================================
+
+export async function createSummary(data: CreateSummaryInput): Promise<Summary> {
+  await initializeDb();
+  const id = nanoid();
+  const now = new Date().toISOString();
+
+  // Calculate next version number
+  let nextVersion = 1;
+  if (usePostgres) {
+    const versionResult = await sql!`
+      SELECT COALESCE(MAX(version), 0) + 1 as next_version
+      FROM summaries
+      WHERE source_id = ${data.sourceId} AND summary_type = ${data.summaryType}
+    `;
+    nextVersion = versionResult[0]?.next_version || 1;
+
+    // Mark previous versions as not current (fix race condition)
+    await sql!`
+      UPDATE summaries
+      SET is_current = false, updated_at = ${now}
+      WHERE source_id = ${data.sourceId}
+        AND summary_type = ${data.summaryType}
+        AND is_current = true
+    `;
+
+    await sql!`
+      INSERT INTO summaries (
+        id, source_id, summary_type, title, content, word_count,
+        version, is_current, parent_version_id,
+        generation_model, generation_duration_ms, input_token_count, output_token_count,
+        quality_score, user_rating, page_start, page_end, prompt_template_id, created_at, updated_at
+      ) VALUES (
+        ${id}, ${data.sourceId}, ${data.summaryType}, ${data.title}, ${data.content}, ${data.wordCount},
+        ${nextVersion}, true, ${data.parentVersionId || null},
+        ${data.generationModel}, ${data.generationDurationMs || null}, ${data.inputTokenCount || null}, ${data.outputTokenCount || null},
+        ${data.qualityScore || null}, ${data.userRating || null}, ${data.pageStart ?? null}, ${data.pageEnd ?? null}, ${data.promptTemplateId || null}, ${now}, ${now}
+      )
+    `;
+  } else {
+    const versionRow = sqliteGetAll(
+      `SELECT COALESCE(MAX(version), 0) + 1 as next_version
+       FROM summaries
+       WHERE source_id = ? AND summary_type = ?`,
+      [data.sourceId, data.summaryType]
+    );
+    nextVersion = (versionRow[0] as Record<string, unknown>)?.next_version as number || 1;
+
+    // Mark previous versions as not current (fix race condition)
+    sqliteRun(
+      `UPDATE summaries
+       SET is_current = 0, updated_at = ?
+       WHERE source_id = ? AND summary_type = ? AND is_current = 1`,
+      [now, data.sourceId, data.summaryType]
+    );
+
+    sqliteRun(
+      `INSERT INTO summaries (
+        id, source_id, summary_type, title, content, word_count,
+        version, is_current, parent_version_id,
+        generation_model, generation_duration_ms, input_token_count, output_token_count,
+        quality_score, user_rating, page_start, page_end, prompt_template_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        id, data.sourceId, data.summaryType, data.title, data.content, data.wordCount,
+        nextVersion, data.parentVersionId || null,
+        data.generationModel, data.generationDurationMs || null, data.inputTokenCount || null, data.outputTokenCount || null,
+        data.qualityScore || null, data.userRating || null, data.pageStart ?? null, data.pageEnd ?? null, data.promptTemplateId || null, now, now
+      ]
+    );
+  }
+
+  return {
+    id,
+    sourceId: data.sourceId,
+    summaryType: data.summaryType,
+    title: data.title,
+    content: data.content,
+    wordCount: data.wordCount,
+    version: nextVersion,
+    isCurrent: true,
+    parentVersionId: data.parentVersionId,
+    generationModel: data.generationModel,
+    generationDurationMs: data.generationDurationMs,
+    inputTokenCount: data.inputTokenCount,
+    outputTokenCount: data.outputTokenCount,
+    qualityScore: data.qualityScore,
+    userRating: data.userRating,
+    pageStart: data.pageStart,
+    pageEnd: data.pageEnd,
+    promptTemplateId: data.promptTemplateId,
+    createdAt: new Date(now),
+    updatedAt: new Date(now),
+  };
+}
+
+export async function createSummaries(summaries: CreateSummaryInput[]): Promise<Summary[]> {
+  await initializeDb();
+  if (summaries.length === 0) return [];
+
+  const now = new Date().toISOString();
+  const results: Summary[] = [];
+
+  // Collect unique sourceId/summaryType pairs to calculate versions
+  const versionMap = new Map<string, number>();
+
+  if (usePostgres) {
+    await sql!.begin(async (tx: postgres.TransactionSql) => {
+      for (const data of summaries) {
+        const versionKey = `${data.sourceId}:${data.summaryType}`;
+        let nextVersion: number;
+
+        // Check if we already calculated version for this pair in this batch
+        if (versionMap.has(versionKey)) {
+          nextVersion = versionMap.get(versionKey)!;
+        } else {
+          // Calculate next version number
+          const versionResult = await tx.unsafe(
+            `SELECT COALESCE(MAX(version), 0) + 1 as next_version
+             FROM summaries
+             WHERE source_id = $1 AND summary_type = $2`,
+            [data.sourceId, data.summaryType]
+          );
+          nextVersion = Number(versionResult[0]?.next_version) || 1;
+
+          // Mark previous versions as not current
+          await tx.unsafe(
+            `UPDATE summaries
+             SET is_current = false, updated_at = $1
+             WHERE source_id = $2 AND summary_type = $3 AND is_current = true`,
+            [now, data.sourceId, data.summaryType]
+          );
+
+          versionMap.set(versionKey, nextVersion);
+        }
+
+        const id = nanoid();
+        await tx.unsafe(
+          `INSERT INTO summaries (
+            id, source_id, summary_type, title, content, word_count,
+            version, is_current, parent_version_id,
+            generation_model, generation_duration_ms, input_token_count, output_token_count,
+            quality_score, user_rating, page_start, page_end, prompt_template_id, created_at, updated_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, true, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19)`,
+          [
+            id, data.sourceId, data.summaryType, data.title, data.content, data.wordCount,
+            nextVersion,
+            data.parentVersionId || null,
+            data.generationModel, data.generationDurationMs || null, data.inputTokenCount || null, data.outputTokenCount || null,
+            data.qualityScore || null, data.userRating || null, data.pageStart ?? null, data.pageEnd ?? null, data.promptTemplateId || null, now, now
+          ]
+        );
+        results.push({
+          id,
+          sourceId: data.sourceId,
+          summaryType: data.summaryType,
+          title: data.title,
+          content: data.content,
+          wordCount: data.wordCount,
+          version: nextVersion,
+          isCurrent: true,
+          parentVersionId: data.parentVersionId,
+          generationModel: data.generationModel,
+          generationDurationMs: data.generationDurationMs,
+          inputTokenCount: data.inputTokenCount,
+          outputTokenCount: data.outputTokenCount,
+          qualityScore: data.qualityScore,
+          userRating: data.userRating,
+          pageStart: data.pageStart,
+          pageEnd: data.pageEnd,
+          promptTemplateId: data.promptTemplateId,
+          createdAt: new Date(now),
+          updatedAt: new Date(now),
+        });
+      }
+    });
+  } else {
+    for (const data of summaries) {
+      const versionKey = `${data.sourceId}:${data.summaryType}`;
+      let nextVersion: number;
+
+      // Check if we already calculated version for this pair in this batch
+      if (versionMap.has(versionKey)) {
+        nextVersion = versionMap.get(versionKey)!;
+      } else {
+        // Calculate next version number
+        const versionRows = sqliteGetAll(
+          `SELECT COALESCE(MAX(version), 0) + 1 as next_version
+           FROM summaries
+           WHERE source_id = ? AND summary_type = ?`,
+          [data.sourceId, data.summaryType]
+        );
+        nextVersion = Number(versionRows[0]?.next_version) || 1;
+
+        // Mark previous versions as not current
+        sqliteDb!.run(
+          `UPDATE summaries
+           SET is_current = 0, updated_at = ?
+           WHERE source_id = ? AND summary_type = ? AND is_current = 1`,
+          [now, data.sourceId, data.summaryType]
+        );
+
+        versionMap.set(versionKey, nextVersion);
+      }
+
+      const id = nanoid();
+      sqliteDb!.run(
+        `INSERT INTO summaries (
+          id, source_id, summary_type, title, content, word_count,
+          version, is_current, parent_version_id,
+          generation_model, generation_duration_ms, input_token_count, output_token_count,
+          quality_score, user_rating, page_start, page_end, prompt_template_id, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, data.sourceId, data.summaryType, data.title, data.content, data.wordCount,
+          nextVersion,
+          data.parentVersionId || null,
+          data.generationModel, data.generationDurationMs || null, data.inputTokenCount || null, data.outputTokenCount || null,
+          data.qualityScore || null, data.userRating || null, data.pageStart ?? null, data.pageEnd ?? null, data.promptTemplateId || null, now, now
+        ]
+      );
+      results.push({
+        id,
+        sourceId: data.sourceId,
+        summaryType: data.summaryType,
+        title: data.title,
+        content: data.content,
+        wordCount: data.wordCount,
+        version: nextVersion,
+        isCurrent: true,
+        parentVersionId: data.parentVersionId,
+        generationModel: data.generationModel,
+        generationDurationMs: data.generationDurationMs,
+        inputTokenCount: data.inputTokenCount,
+        outputTokenCount: data.outputTokenCount,
+        qualityScore: data.qualityScore,
+        userRating: data.userRating,
+        pageStart: data.pageStart,
+        pageEnd: data.pageEnd,
+        promptTemplateId: data.promptTemplateId,
+        createdAt: new Date(now),
+        updatedAt: new Date(now),
+      });
+    }
+    saveSqliteDb();
+  }
+
+  return results;
+}
+
+export async function getSummary(id: string): Promise<Summary | null> {
+  await initializeDb();
+
+  if (usePostgres) {
+    const rows = await sql!`SELECT * FROM summaries WHERE id = ${id}`;
+    if (rows.length === 0) return null;
+    return rowToSummary(rows[0] as Record<string, unknown>);
+  } else {
+    const rows = sqliteGetAll(`SELECT * FROM summaries WHERE id = ?`, [id]);
+    if (rows.length === 0) return null;
+    return rowToSummary(rows[0]);
+  }
+}
+
+export async function getSummariesBySource(
+  sourceId: string,
+  summaryType?: SummaryType,
+  currentOnly: boolean = true
+): Promise<Summary[]> {
+  await initializeDb();
+
+  if (usePostgres) {
+    if (summaryType) {
+      const rows = await sql!`
+        SELECT * FROM summaries
+        WHERE source_id = ${sourceId}
+          AND summary_type = ${summaryType}
+          ${currentOnly ? sql!`AND is_current = true` : sql!``}
+        ORDER BY created_at DESC
+      `;
+      return rows.map((row) => rowToSummary(row as Record<string, unknown>));
+    } else {
+      const rows = await sql!`
+        SELECT * FROM summaries
+        WHERE source_id = ${sourceId}
+          ${currentOnly ? sql!`AND is_current = true` : sql!``}
+        ORDER BY
+          CASE summary_type
+            WHEN 'executive' THEN 1
+            WHEN 'key_points' THEN 2
+            WHEN 'detailed' THEN 3
+            WHEN 'segment' THEN 4
+          END,
+          created_at DESC
+      `;
+      return rows.map((row) => rowToSummary(row as Record<string, unknown>));
+    }
+  } else {
+    let query = `SELECT * FROM summaries WHERE source_id = ?`;
+    const params: unknown[] = [sourceId];
+
+    if (summaryType) {
+      query += ` AND summary_type = ?`;
+      params.push(summaryType);
+    }
+    if (currentOnly) {
+      query += ` AND is_current = 1`;
+    }
+    query += ` ORDER BY
+      CASE summary_type
+        WHEN 'executive' THEN 1
+        WHEN 'key_points' THEN 2
+        WHEN 'detailed' THEN 3
+        WHEN 'segment' THEN 4
+      END,
+      created_at DESC`;
+
+    const rows = sqliteGetAll(query, params);
+    return rows.map(rowToSummary);
+  }
+}
+
+export async function updateSummary(id: string, updates: UpdateSummaryInput): Promise<void> {
+  await initializeDb();
+  const now = new Date().toISOString();
+
+  if (usePostgres) {
+    await sql!`
+      UPDATE summaries
+      SET title = COALESCE(${updates.title || null}, title),
+          content = COALESCE(${updates.content || null}, content),
+          quality_score = COALESCE(${updates.qualityScore || null}, quality_score),
+          user_rating = COALESCE(${updates.userRating || null}, user_rating),
+          updated_at = ${now}
+      WHERE id = ${id}
+    `;
+  } else {
+    const setClauses: string[] = ['updated_at = ?'];
+    const params: unknown[] = [now];
+
+    if (updates.title !== undefined) {
+      setClauses.push('title = ?');
+      params.push(updates.title);
+    }
+    if (updates.content !== undefined) {
+      setClauses.push('content = ?');
+      params.push(updates.content);
+    }
+    if (updates.qualityScore !== undefined) {
+      setClauses.push('quality_score = ?');
+      params.push(updates.qualityScore);
+    }
+    if (updates.userRating !== undefined) {
+      setClauses.push('user_rating = ?');
+      params.push(updates.userRating);
+    }
+
+    params.push(id);
+    sqliteRun(`UPDATE summaries SET ${setClauses.join(', ')} WHERE id = ?`, params);
+  }
+}
+
+export async function deleteSummary(id: string): Promise<void> {
+  await initializeDb();
+  if (usePostgres) {
+    await sql!`DELETE FROM summaries WHERE id = ${id}`;
+  } else {
+    sqliteRun(`DELETE FROM summaries WHERE id = ?`, [id]);
+  }
+}
+
+export async function getSummaryVersions(sourceId: string, summaryType: SummaryType): Promise<Summary[]> {
+  await initializeDb();
+
+  if (usePostgres) {
+    const rows = await sql!`
+      SELECT * FROM summaries
+      WHERE source_id = ${sourceId} AND summary_type = ${summaryType}
+      ORDER BY version DESC
+    `;
+    return rows.map((row) => rowToSummary(row as Record<string, unknown>));
+  } else {
+    const rows = sqliteGetAll(
+      `SELECT * FROM summaries WHERE source_id = ? AND summary_type = ? ORDER BY version DESC`,
+      [sourceId, summaryType]
+    );
+    return rows.map(rowToSummary);
+  }
+}
+
+// ============================================================================
+// Document Segment operations
+// ============================================================================
+
+export async function createDocumentSegments(
+  segments: CreateDocumentSegmentInput[]
+): Promise<DocumentSegment[]> {
+  await initializeDb();
+  if (segments.length === 0) return [];
+
+  const now = new Date().toISOString();
+  const results: DocumentSegment[] = [];
+
+  if (usePostgres) {
+    await sql!.begin(async (tx: postgres.TransactionSql) => {
+      for (const seg of segments) {
+        const id = nanoid();
+        await tx.unsafe(
+          `INSERT INTO document_segments (
+            id, source_id, segment_index, start_index, end_index,
+            section_title, level, estimated_tokens, page_start, page_end, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+          [
+            id, seg.sourceId, seg.segmentIndex, seg.startIndex || null, seg.endIndex || null,
+            seg.sectionTitle || null, seg.level, seg.estimatedTokens || null,
+            seg.pageStart ?? null, seg.pageEnd ?? null, now
+          ]
+        );
+        results.push({ id, ...seg, createdAt: new Date(now) });
+      }
+    });
+  } else {
+    for (const seg of segments) {
+      const id = nanoid();
+      sqliteDb!.run(
+        `INSERT INTO document_segments (
+          id, source_id, segment_index, start_index, end_index,
+          section_title, level, estimated_tokens, page_start, page_end, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, seg.sourceId, seg.segmentIndex, seg.startIndex || null, seg.endIndex || null,
+          seg.sectionTitle || null, seg.level, seg.estimatedTokens || null,
+          seg.pageStart ?? null, seg.pageEnd ?? null, now
+        ]
+      );
+      results.push({ id, ...seg, createdAt: new Date(now) });
+    }
+    saveSqliteDb();
+  }
+
+  return results;
+}
+
+export async function getDocumentSegments(sourceId: string): Promise<DocumentSegment[]> {
+  await initializeDb();
+
+  if (usePostgres) {
+    const rows = await sql!`
+      SELECT * FROM document_segments WHERE source_id = ${sourceId} ORDER BY segment_index ASC
+    `;
+    return rows.map((row) => rowToDocumentSegment(row as Record<string, unknown>));
+  } else {
+    const rows = sqliteGetAll(
+      `SELECT * FROM document_segments WHERE source_id = ? ORDER BY segment_index ASC`,
+      [sourceId]
+    );
+    return rows.map(rowToDocumentSegment);
+  }
+}
+
+export async function deleteDocumentSegments(sourceId: string): Promise<void> {
+  await initializeDb();
+
+  if (usePostgres) {
+    await sql!`DELETE FROM document_segments WHERE source_id = ${sourceId}`;
+  } else {
+    sqliteRun(`DELETE FROM document_segments WHERE source_id = ?`, [sourceId]);
+  }
+}
+
+// ============================================================================
+// Collection operations
+// ============================================================================
+
+export async function createCollection(data: CreateCollectionInput): Promise<SummaryCollection> {
+  await initializeDb();
+  const id = nanoid();
+  const now = new Date().toISOString();
 
+  if (usePostgres) {
+    await sql!`
+      INSERT INTO summary_collections (id, name, description, collection_type, created_at)
+      VALUES (${id}, ${data.name}, ${data.description || null}, ${data.collectionType}, ${now})
+    `;
+  } else {
     sqliteRun(
-      `INSERT INTO summaries (
-        id, source_id, summary_type, title, content, word_count,
-        version, is_current, parent_version_id,
-        generation_model, generation_duration_ms, input_token_count, output_token_count,
-        quality_score, user_rating, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        id, data.sourceId, data.summaryType, data.title, data.content, data.wordCount,
-        nextVersion, data.parentVersionId || null,
-        data.generationModel, data.generationDurationMs || null, data.inputTokenCount || null, data.outputTokenCount || null,
-        data.qualityScore || null, data.userRating || null, now, now
-      ]
+      `INSERT INTO summary_collections (id, name, description, collection_type, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [id, data.name, data.description || null, data.collectionType, now]
     );
   }
 
   return {
     id,
-    sourceId: data.sourceId,
-    summaryType: data.summaryType,
-    title: data.title,
-    content: data.content,
-    wordCount: data.wordCount,
-    version: nextVersion,
-    isCurrent: true,
-    parentVersionId: data.parentVersionId,
-    generationModel: data.generationModel,
-    generationDurationMs: data.generationDurationMs,
-    inputTokenCount: data.inputTokenCount,
-    outputTokenCount: data.outputTokenCount,
-    qualityScore: data.qualityScore,
-    userRating: data.userRating,
+    name: data.name,
+    description: data.description,
+    collectionType: data.collectionType,
     createdAt: new Date(now),
-    updatedAt: new Date(now),
   };
 }
 
-export async function createSummaries(summaries: CreateSummaryInput[]): Promise<Summary[]> {
+export async function getCollections(): Promise<SummaryCollection[]> {
   await initializeDb();
-  if (summaries.length === 0) return [];
 
-  const now = new Date().toISOString();
-  const results: Summary[] = [];
+  if (usePostgres) {
+    const rows = await sql!`
+      SELECT sc.*, COUNT(cs.id) as source_count
+      FROM summary_collections sc
+      LEFT JOIN collection_sources cs ON cs.collection_id = sc.id
+      GROUP BY sc.id
+      ORDER BY sc.created_at DESC
+    `;
+    return rows.map((row) => rowToCollection(row as Record<string, unknown>));
+  } else {
+    const rows = sqliteGetAll(`
+      SELECT sc.*, COUNT(cs.id) as source_count
+      FROM summary_collections sc
+      LEFT JOIN collection_sources cs ON cs.collection_id = sc.id
+      GROUP BY sc.id
+      ORDER BY sc.created_at DESC
+    `);
+    return rows.map(rowToCollection);
+  }
+}
 
-  // Collect unique sourceId/summaryType pairs to calculate versions
-  const versionMap = new Map<string, number>();
+export async function getCollection(id: string): Promise<SummaryCollection | null> {
+  await initializeDb();
 
   if (usePostgres) {
-    await sql!.begin(async (tx: postgres.TransactionSql) => {
-      for (const data of summaries) {
-        const versionKey = `${data.sourceId}:${data.summaryType}`;
-        let nextVersion: number;
+    const rows = await sql!`
+      SELECT sc.*, COUNT(cs.id) as source_count
+      FROM summary_collections sc
+      LEFT JOIN collection_sources cs ON cs.collection_id = sc.id
+      WHERE sc.id = ${id}
+      GROUP BY sc.id
+    `;
+    if (rows.length === 0) return null;
+    return rowToCollection(rows[0] as Record<string, unknown>);
+  } else {
+    const rows = sqliteGetAll(`
+      SELECT sc.*, COUNT(cs.id) as source_count
+      FROM summary_collections sc
+      LEFT JOIN collection_sources cs ON cs.collection_id = sc.id
+      WHERE sc.id = ?
+      GROUP BY sc.id
+    `, [id]);
+    if (rows.length === 0) return null;
+    return rowToCollection(rows[0]);
+  }
+}
 
-        // Check if we already calculated version for this pair in this batch
-        if (versionMap.has(versionKey)) {
-          nextVersion = versionMap.get(versionKey)!;
-        } else {
-          // Calculate next version number
-          const versionResult = await tx.unsafe(
-            `SELECT COALESCE(MAX(version), 0) + 1 as next_version
-             FROM summaries
-             WHERE source_id = $1 AND summary_type = $2`,
-            [data.sourceId, data.summaryType]
-          );
-          nextVersion = Number(versionResult[0]?.next_version) || 1;
+export async function addSourceToCollection(data: CreateCollectionSourceInput): Promise<CollectionSource> {
+  await initializeDb();
+  const id = nanoid();
 
-          // Mark previous versions as not current
-          await tx.unsafe(
-            `UPDATE summaries
-             SET is_current = false, updated_at = $1
-             WHERE source_id = $2 AND summary_type = $3 AND is_current = true`,
-            [now, data.sourceId, data.summaryType]
-          );
+  if (usePostgres) {
+    await sql!`
+      INSERT INTO collection_sources (id, collection_id, source_id, sequence, weight)
+      VALUES (${id}, ${data.collectionId}, ${data.sourceId}, ${data.sequence || null}, ${data.weight})
+    `;
+  } else {
+    sqliteRun(
+      `INSERT INTO collection_sources (id, collection_id, source_id, sequence, weight)
+       VALUES (?, ?, ?, ?, ?)`,
+      [id, data.collectionId, data.sourceId, data.sequence || null, data.weight]
+    );
+  }
 
-          versionMap.set(versionKey, nextVersion);
-        }
+  return { id, ...data };
+}
 
-        const id = nanoid();
-        await tx.unsafe(
-          `INSERT INTO summaries (
-            id, source_id, summary_type, title, content, word_count,
-            version, is_current, parent_version_id,
-            generation_model, generation_duration_ms, input_token_count, output_token_count,
-            quality_score, user_rating, created_at, updated_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, true, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
-          [
-            id, data.sourceId, data.summaryType, data.title, data.content, data.wordCount,
-            nextVersion,
-            data.parentVersionId || null,
-            data.generationModel, data.generationDurationMs || null, data.inputTokenCount || null, data.outputTokenCount || null,
-            data.qualityScore || null, data.userRating || null, now, now
-          ]
-        );
-        results.push({
-          id,
-          sourceId: data.sourceId,
-          summaryType: data.summaryType,
-          title: data.title,
-          content: data.content,
-          wordCount: data.wordCount,
-          version: nextVersion,
-          isCurrent: true,
-          parentVersionId: data.parentVersionId,
-          generationModel: data.generationModel,
-          generationDurationMs: data.generationDurationMs,
-          inputTokenCount: data.inputTokenCount,
-          outputTokenCount: data.outputTokenCount,
-          qualityScore: data.qualityScore,
-          userRating: data.userRating,
-          createdAt: new Date(now),
-          updatedAt: new Date(now),
-        });
-      }
-    });
+export async function getCollectionSources(collectionId: string): Promise<CollectionSource[]> {
+  await initializeDb();
+
+  if (usePostgres) {
+    const rows = await sql!`
+      SELECT * FROM collection_sources WHERE collection_id = ${collectionId} ORDER BY sequence ASC
+    `;
+    return rows.map((row) => rowToCollectionSource(row as Record<string, unknown>));
   } else {
-    for (const data of summaries) {
-      const versionKey = `${data.sourceId}:${data.summaryType}`;
-      let nextVersion: number;
+    const rows = sqliteGetAll(
+      `SELECT * FROM collection_sources WHERE collection_id = ? ORDER BY sequence ASC`,
+      [collectionId]
+    );
+    return rows.map(rowToCollectionSource);
+  }
+}
 
-      // Check if we already calculated version for this pair in this batch
-      if (versionMap.has(versionKey)) {
-        nextVersion = versionMap.get(versionKey)!;
-      } else {
-        // Calculate next version number
-        const versionRows = sqliteGetAll(
-          `SELECT COALESCE(MAX(version), 0) + 1 as next_version
-           FROM summaries
-           WHERE source_id = ? AND summary_type = ?`,
-          [data.sourceId, data.summaryType]
-        );
-        nextVersion = Number(versionRows[0]?.next_version) || 1;
+// ============================================================================
+// Concept operations
+// ============================================================================
 
-        // Mark previous versions as not current
-        sqliteDb!.run(
-          `UPDATE summaries
-           SET is_current = 0, updated_at = ?
-           WHERE source_id = ? AND summary_type = ? AND is_current = 1`,
-          [now, data.sourceId, data.summaryType]
-        );
+export async function createConcepts(concepts: CreateConceptInput[]): Promise<SummaryConcept[]> {
+  await initializeDb();
+  if (concepts.length === 0) return [];
 
-        versionMap.set(versionKey, nextVersion);
-      }
+  const results: SummaryConcept[] = [];
 
-      const id = nanoid();
-      sqliteDb!.run(
-        `INSERT INTO summaries (
-          id, source_id, summary_type, title, content, word_count,
-          version, is_current, parent_version_id,
-          generation_model, generation_duration_ms, input_token_count, output_token_count,
-          quality_score, user_rating, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          id, data.sourceId, data.summaryType, data.title, data.content, data.wordCount,
-          nextVersion,
-          data.parentVersionId || null,
-          data.generationModel, data.generationDurationMs || null, data.inputTokenCount || null, data.outputTokenCount || null,
-          data.qualityScore || null, data.userRating || null, now, now
-        ]
-      );
-      results.push({
-        id,
-        sourceId: data.sourceId,
-        summaryType: data.summaryType,
-        title: data.title,
-        content: data.content,
-        wordCount: data.wordCount,
-        version: nextVersion,
-        isCurrent: true,
-        parentVersionId: data.parentVersionId,
-        generationModel: data.generationModel,
-        generationDurationMs: data.generationDurationMs,
-        inputTokenCount: data.inputTokenCount,
-        outputTokenCount: data.outputTokenCount,
-        qualityScore: data.qualityScore,
-        userRating: data.userRating,
-        createdAt: new Date(now),
-        updatedAt: new Date(now),
-      });
+  if (usePostgres) {
+    await sql!.begin(async (tx: postgres.TransactionSql) => {
+      for (const concept of concepts) {
+        const id = nanoid();
+        await tx.unsafe(
+          `INSERT INTO summary_concepts (id, summary_id, concept, concept_normalized, definition, importance_score)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [id, concept.summaryId, concept.concept, concept.conceptNormalized, concept.definition || null, concept.importanceScore]
+        );
+        results.push({ id, ...concept });
+      }
+    });
+  } else {
+    for (const concept of concepts) {
+      const id = nanoid();
+      sqliteDb!.run(
+        `INSERT INTO summary_concepts (id, summary_id, concept, concept_normalized, definition, importance_score)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [id, concept.summaryId, concept.concept, concept.conceptNormalized, concept.definition || null, concept.importanceScore]
+      );
+      results.push({ id, ...concept });
     }
     saveSqliteDb();
   }
@@ -952,436 +2054,741 @@ export async function createSummaries(summaries: CreateSummaryInput[]): Promise<
   return results;
 }
 
-export async function getSummary(id: string): Promise<Summary | null> {
+export async function getConceptsBySummary(summaryId: string): Promise<SummaryConcept[]> {
   await initializeDb();
 
   if (usePostgres) {
-    const rows = await sql!`SELECT * FROM summaries WHERE id = ${id}`;
-    if (rows.length === 0) return null;
-    return rowToSummary(rows[0] as Record<string, unknown>);
+    const rows = await sql!`
+      SELECT * FROM summary_concepts WHERE summary_id = ${summaryId} ORDER BY importance_score DESC
+    `;
+    return rows.map((row) => rowToConcept(row as Record<string, unknown>));
   } else {
-    const rows = sqliteGetAll(`SELECT * FROM summaries WHERE id = ?`, [id]);
-    if (rows.length === 0) return null;
-    return rowToSummary(rows[0]);
+    const rows = sqliteGetAll(
+      `SELECT * FROM summary_concepts WHERE summary_id = ? ORDER BY importance_score DESC`,
+      [summaryId]
+    );
+    return rows.map(rowToConcept);
   }
 }
 
-export async function getSummariesBySource(
-  sourceId: string,
-  summaryType?: SummaryType,
-  currentOnly: boolean = true
-): Promise<Summary[]> {
+// ============================================================================
+// Export operations
+// ============================================================================
+
+export async function createExport(data: CreateExportInput): Promise<SummaryExport> {
   await initializeDb();
+  const id = nanoid();
+  const now = new Date().toISOString();
 
   if (usePostgres) {
-    if (summaryType) {
-      const rows = await sql!`
-        SELECT * FROM summaries
-        WHERE source_id = ${sourceId}
-          AND summary_type = ${summaryType}
-          ${currentOnly ? sql!`AND is_current = true` : sql!``}
-        ORDER BY created_at DESC
-      `;
-      return rows.map((row) => rowToSummary(row as Record<string, unknown>));
-    } else {
-      const rows = await sql!`
-        SELECT * FROM summaries
-        WHERE source_id = ${sourceId}
-          ${currentOnly ? sql!`AND is_current = true` : sql!``}
-        ORDER BY
-          CASE summary_type
-            WHEN 'executive' THEN 1
-            WHEN 'key_points' THEN 2
-            WHEN 'detailed' THEN 3
-            WHEN 'segment' THEN 4
-          END,
-          created_at DESC
-      `;
-      return rows.map((row) => rowToSummary(row as Record<string, unknown>));
-    }
+    await sql!`
+      INSERT INTO summary_exports (id, summary_id, export_format, file_path, created_at)
+      VALUES (${id}, ${data.summaryId}, ${data.exportFormat}, ${data.filePath || null}, ${now})
+    `;
   } else {
-    let query = `SELECT * FROM summaries WHERE source_id = ?`;
-    const params: unknown[] = [sourceId];
+    sqliteRun(
+      `INSERT INTO summary_exports (id, summary_id, export_format, file_path, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [id, data.summaryId, data.exportFormat, data.filePath || null, now]
+    );
+  }
 
-    if (summaryType) {
-      query += ` AND summary_type = ?`;
-      params.push(summaryType);
-    }
-    if (currentOnly) {
-      query += ` AND is_current = 1`;
-    }
-    query += ` ORDER BY
-      CASE summary_type
-        WHEN 'executive' THEN 1
-        WHEN 'key_points' THEN 2
-        WHEN 'detailed' THEN 3
-        WHEN 'segment' THEN 4
-      END,
-      created_at DESC`;
+  return {
+    id,
+    summaryId: data.summaryId,
+    exportFormat: data.exportFormat,
+    filePath: data.filePath,
+    downloadCount: 0,
+    createdAt: new Date(now),
+  };
+}
 
-    const rows = sqliteGetAll(query, params);
-    return rows.map(rowToSummary);
+export async function incrementExportDownloadCount(id: string): Promise<void> {
+  await initializeDb();
+
+  if (usePostgres) {
+    await sql!`UPDATE summary_exports SET download_count = download_count + 1 WHERE id = ${id}`;
+  } else {
+    sqliteRun(`UPDATE summary_exports SET download_count = download_count + 1 WHERE id = ?`, [id]);
   }
 }
 
-export async function updateSummary(id: string, updates: UpdateSummaryInput): Promise<void> {
+// ============================================================================
+// Job operations
+// ============================================================================
+
+export async function createJob(data: CreateJobInput): Promise<Job> {
   await initializeDb();
+  const id = nanoid();
   const now = new Date().toISOString();
+  const payload = JSON.stringify(data.payload);
+  const maxAttempts = data.maxAttempts ?? 3;
 
   if (usePostgres) {
     await sql!`
-      UPDATE summaries
-      SET title = COALESCE(${updates.title || null}, title),
-          content = COALESCE(${updates.content || null}, content),
-          quality_score = COALESCE(${updates.qualityScore || null}, quality_score),
-          user_rating = COALESCE(${updates.userRating || null}, user_rating),
-          updated_at = ${now}
-      WHERE id = ${id}
+      INSERT INTO jobs (id, type, status, subject_id, payload, max_attempts, run_at, created_at, updated_at)
+      VALUES (${id}, ${data.type}, 'queued', ${data.subjectId}, ${payload}, ${maxAttempts}, ${now}, ${now}, ${now})
     `;
   } else {
-    const setClauses: string[] = ['updated_at = ?'];
-    const params: unknown[] = [now];
+    sqliteRun(
+      `INSERT INTO jobs (id, type, status, subject_id, payload, max_attempts, run_at, created_at, updated_at)
+       VALUES (?, ?, 'queued', ?, ?, ?, ?, ?, ?)`,
+      [id, data.type, data.subjectId, payload, maxAttempts, now, now, now]
+    );
+  }
 
-    if (updates.title !== undefined) {
-      setClauses.push('title = ?');
-      params.push(updates.title);
-    }
-    if (updates.content !== undefined) {
-      setClauses.push('content = ?');
-      params.push(updates.content);
-    }
-    if (updates.qualityScore !== undefined) {
-      setClauses.push('quality_score = ?');
-      params.push(updates.qualityScore);
-    }
-    if (updates.userRating !== undefined) {
-      setClauses.push('user_rating = ?');
-      params.push(updates.userRating);
-    }
+  return {
+    id,
+    type: data.type,
+    status: 'queued',
+    subjectId: data.subjectId,
+    payload: data.payload,
+    progress: 0,
+    attempts: 0,
+    maxAttempts,
+    runAt: new Date(now),
+    createdAt: new Date(now),
+    updatedAt: new Date(now),
+  };
+}
 
-    params.push(id);
-    sqliteRun(`UPDATE summaries SET ${setClauses.join(', ')} WHERE id = ?`, params);
+export async function getJob(id: string): Promise<Job | null> {
+  await initializeDb();
+
+  if (usePostgres) {
+    const rows = await sql!`SELECT * FROM jobs WHERE id = ${id}`;
+    if (rows.length === 0) return null;
+    return rowToJob(rows[0] as Record<string, unknown>);
+  } else {
+    const rows = sqliteGetAll(`SELECT * FROM jobs WHERE id = ?`, [id]);
+    if (rows.length === 0) return null;
+    return rowToJob(rows[0]);
   }
 }
 
-export async function deleteSummary(id: string): Promise<void> {
+/**
+ * Get the queued or running job of a type for a source/collection, if any
+ */
+export async function getActiveJob(type: JobType, subjectId: string): Promise<Job | null> {
   await initializeDb();
+
   if (usePostgres) {
-    await sql!`DELETE FROM summaries WHERE id = ${id}`;
+    const rows = await sql!`
+      SELECT * FROM jobs
+      WHERE type = ${type} AND subject_id = ${subjectId} AND status IN ('queued', 'running')
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+    if (rows.length === 0) return null;
+    return rowToJob(rows[0] as Record<string, unknown>);
   } else {
-    sqliteRun(`DELETE FROM summaries WHERE id = ?`, [id]);
+    const rows = sqliteGetAll(
+      `SELECT * FROM jobs
+       WHERE type = ? AND subject_id = ? AND status IN ('queued', 'running')
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [type, subjectId]
+    );
+    if (rows.length === 0) return null;
+    return rowToJob(rows[0]);
   }
 }
 
-export async function getSummaryVersions(sourceId: string, summaryType: SummaryType): Promise<Summary[]> {
+/**
+ * Take the next due job off the queue, marking it running and counting the
+ * attempt. Returns null when nothing is due.
+ */
+export async function claimNextJob(): Promise<Job | null> {
   await initializeDb();
+  const now = new Date().toISOString();
 
   if (usePostgres) {
     const rows = await sql!`
-      SELECT * FROM summaries
-      WHERE source_id = ${sourceId} AND summary_type = ${summaryType}
-      ORDER BY version DESC
+      UPDATE jobs
+      SET status = 'running', attempts = attempts + 1, started_at = ${now}, updated_at = ${now}
+      WHERE id = (
+        SELECT id FROM jobs
+        WHERE status = 'queued' AND run_at <= ${now}
+        ORDER BY run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
     `;
-    return rows.map((row) => rowToSummary(row as Record<string, unknown>));
+    if (rows.length === 0) return null;
+    return rowToJob(rows[0] as Record<string, unknown>);
   } else {
     const rows = sqliteGetAll(
-      `SELECT * FROM summaries WHERE source_id = ? AND summary_type = ? ORDER BY version DESC`,
-      [sourceId, summaryType]
+      `SELECT id FROM jobs WHERE status = 'queued' AND run_at <= ? ORDER BY run_at LIMIT 1`,
+      [now]
     );
-    return rows.map(rowToSummary);
+    if (rows.length === 0) return null;
+
+    const id = rows[0].id as string;
+    sqliteRun(
+      `UPDATE jobs SET status = 'running', attempts = attempts + 1, started_at = ?, updated_at = ? WHERE id = ?`,
+      [now, now, id]
+    );
+    return getJob(id);
   }
 }
 
-// ============================================================================
-// Document Segment operations
-// ============================================================================
+export async function updateJobProgress(id: string, progress: JobProgress): Promise<void> {
+  await initializeDb();
+  const now = new Date().toISOString();
+  const phase = progress.phase ?? null;
+  const current = progress.current ?? null;
+  const total = progress.total ?? null;
 
-export async function createDocumentSegments(
-  segments: CreateDocumentSegmentInput[]
-): Promise<DocumentSegment[]> {
+  if (usePostgres) {
+    await sql!`
+      UPDATE jobs
+      SET progress = ${progress.percent}, phase = ${phase}, progress_current = ${current},
+          progress_total = ${total}, updated_at = ${now}
+      WHERE id = ${id}
+    `;
+  } else {
+    sqliteRun(
+      `UPDATE jobs SET progress = ?, phase = ?, progress_current = ?, progress_total = ?, updated_at = ? WHERE id = ?`,
+      [progress.percent, phase, current, total, now, id]
+    );
+  }
+}
+
+export async function completeJob(id: string, result?: Record<string, unknown>): Promise<void> {
   await initializeDb();
-  if (segments.length === 0) return [];
+  const now = new Date().toISOString();
+  const resultJson = result ? JSON.stringify(result) : null;
+
+  if (usePostgres) {
+    await sql!`
+      UPDATE jobs
+      SET status = 'succeeded', progress = 100, result = ${resultJson}, error = NULL,
+          finished_at = ${now}, updated_at = ${now}
+      WHERE id = ${id}
+    `;
+  } else {
+    sqliteRun(
+      `UPDATE jobs SET status = 'succeeded', progress = 100, result = ?, error = NULL, finished_at = ?, updated_at = ? WHERE id = ?`,
+      [resultJson, now, now, id]
+    );
+  }
+}
 
+/**
+ * Record a failed attempt. With `retryAt` the job goes back on the queue,
+ * otherwise it is marked failed for good.
+ */
+export async function failJob(id: string, errorMessage: string, retryAt?: Date): Promise<void> {
+  await initializeDb();
   const now = new Date().toISOString();
-  const results: DocumentSegment[] = [];
+  const status: JobStatus = retryAt ? 'queued' : 'failed';
+  const runAt = retryAt ? retryAt.toISOString() : null;
+  const finishedAt = retryAt ? null : now;
 
   if (usePostgres) {
-    await sql!.begin(async (tx: postgres.TransactionSql) => {
-      for (const seg of segments) {
-        const id = nanoid();
-        await tx.unsafe(
-          `INSERT INTO document_segments (
-            id, source_id, segment_index, start_index, end_index,
-            section_title, level, estimated_tokens, created_at
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-          [
-            id, seg.sourceId, seg.segmentIndex, seg.startIndex || null, seg.endIndex || null,
-            seg.sectionTitle || null, seg.level, seg.estimatedTokens || null, now
-          ]
-        );
-        results.push({ id, ...seg, createdAt: new Date(now) });
-      }
-    });
+    await sql!`
+      UPDATE jobs
+      SET status = ${status}, error = ${errorMessage}, run_at = COALESCE(${runAt}, run_at),
+          finished_at = ${finishedAt}, updated_at = ${now}
+      WHERE id = ${id}
+    `;
   } else {
-    for (const seg of segments) {
-      const id = nanoid();
-      sqliteDb!.run(
-        `INSERT INTO document_segments (
-          id, source_id, segment_index, start_index, end_index,
-          section_title, level, estimated_tokens, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          id, seg.sourceId, seg.segmentIndex, seg.startIndex || null, seg.endIndex || null,
-          seg.sectionTitle || null, seg.level, seg.estimatedTokens || null, now
-        ]
-      );
-      results.push({ id, ...seg, createdAt: new Date(now) });
+    sqliteRun(
+      `UPDATE jobs SET status = ?, error = ?, run_at = COALESCE(?, run_at), finished_at = ?, updated_at = ? WHERE id = ?`,
+      [status, errorMessage, runAt, finishedAt, now, id]
+    );
+  }
+}
+
+const INTERRUPTED_JOB_ERROR = 'Interrupted before it finished';
+
+/**
+ * Put running jobs that have not reported since `staleBefore` back on the
+ * queue. Their worker is assumed to have died (e.g. a server restart). The
+ * interrupted run counts as an attempt, so jobs that have used up their
+ * attempts are marked failed instead; those are returned.
+ */
+export async function requeueStaleJobs(staleBefore: Date): Promise<Job[]> {
+  await initializeDb();
+  const now = new Date().toISOString();
+  const cutoff = staleBefore.toISOString();
+
+  if (usePostgres) {
+    const failed = await sql!`
+      UPDATE jobs
+      SET status = 'failed', error = ${INTERRUPTED_JOB_ERROR}, finished_at = ${now}, updated_at = ${now}
+      WHERE status = 'running' AND updated_at < ${cutoff} AND attempts >= max_attempts
+      RETURNING *
+    `;
+    await sql!`
+      UPDATE jobs
+      SET status = 'queued', error = ${INTERRUPTED_JOB_ERROR}, run_at = ${now}, updated_at = ${now}
+      WHERE status = 'running' AND updated_at < ${cutoff}
+    `;
+    return failed.map((row) => rowToJob(row as Record<string, unknown>));
+  } else {
+    const failed = sqliteGetAll(
+      `SELECT id FROM jobs WHERE status = 'running' AND updated_at < ? AND attempts >= max_attempts`,
+      [cutoff]
+    );
+    const statements: [string, unknown[]][] = [
+      [
+        `UPDATE jobs SET status = 'failed', error = ?, finished_at = ?, updated_at = ?
+         WHERE status = 'running' AND updated_at < ? AND attempts >= max_attempts`,
+        [INTERRUPTED_JOB_ERROR, now, now, cutoff],
+      ],
+      [
+        `UPDATE jobs SET status = 'queued', error = ?, run_at = ?, updated_at = ? WHERE status = 'running' AND updated_at < ?`,
+        [INTERRUPTED_JOB_ERROR, now, now, cutoff],
+      ],
+    ];
+    for (const [statement, params] of statements) {
+      sqliteDb!.run(statement, params as BindParams);
     }
     saveSqliteDb();
+    const jobs = await Promise.all(failed.map((row) => getJob(row.id as string)));
+    return jobs.filter((job): job is Job => job !== null);
   }
+}
 
-  return results;
+// ============================================================================
+// Pipeline checkpoint operations
+// ============================================================================
+
+export async function getCheckpoints(
+  sourceId: string,
+  pipeline: CheckpointPipeline
+): Promise<Map<string, unknown>> {
+  await initializeDb();
+
+  const rows = usePostgres
+    ? await sql!`
+        SELECT step_key, data FROM pipeline_checkpoints
+        WHERE source_id = ${sourceId} AND pipeline = ${pipeline}
+      `
+    : sqliteGetAll(
+        `SELECT step_key, data FROM pipeline_checkpoints WHERE source_id = ? AND pipeline = ?`,
+        [sourceId, pipeline]
+      );
+
+  return new Map(rows.map((row) => [row.step_key as string, JSON.parse(row.data as string)]));
 }
 
-export async function getDocumentSegments(sourceId: string): Promise<DocumentSegment[]> {
+export async function saveCheckpoint(
+  sourceId: string,
+  pipeline: CheckpointPipeline,
+  stepKey: string,
+  data: unknown
+): Promise<void> {
   await initializeDb();
+  const id = nanoid();
+  const now = new Date().toISOString();
+  const json = JSON.stringify(data);
 
   if (usePostgres) {
-    const rows = await sql!`
-      SELECT * FROM document_segments WHERE source_id = ${sourceId} ORDER BY segment_index ASC
+    await sql!`
+      INSERT INTO pipeline_checkpoints (id, source_id, pipeline, step_key, data, created_at)
+      VALUES (${id}, ${sourceId}, ${pipeline}, ${stepKey}, ${json}, ${now})
+      ON CONFLICT (source_id, pipeline, step_key) DO UPDATE SET data = EXCLUDED.data
     `;
-    return rows.map((row) => rowToDocumentSegment(row as Record<string, unknown>));
   } else {
-    const rows = sqliteGetAll(
-      `SELECT * FROM document_segments WHERE source_id = ? ORDER BY segment_index ASC`,
-      [sourceId]
+    sqliteRun(
+      `INSERT INTO pipeline_checkpoints (id, source_id, pipeline, step_key, data, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (source_id, pipeline, step_key) DO UPDATE SET data = excluded.data`,
+      [id, sourceId, pipeline, stepKey, json, now]
     );
-    return rows.map(rowToDocumentSegment);
   }
 }
 
-export async function deleteDocumentSegments(sourceId: string): Promise<void> {
+export async function deleteCheckpoints(sourceId: string, pipeline: CheckpointPipeline): Promise<void> {
   await initializeDb();
-
   if (usePostgres) {
-    await sql!`DELETE FROM document_segments WHERE source_id = ${sourceId}`;
+    await sql!`DELETE FROM pipeline_checkpoints WHERE source_id = ${sourceId} AND pipeline = ${pipeline}`;
   } else {
-    sqliteRun(`DELETE FROM document_segments WHERE source_id = ?`, [sourceId]);
+    sqliteRun(`DELETE FROM pipeline_checkpoints WHERE source_id = ? AND pipeline = ?`, [sourceId, pipeline]);
   }
 }
 
 // ============================================================================
-// Collection operations
+// AI usage operations
 // ============================================================================
 
-export async function createCollection(data: CreateCollectionInput): Promise<SummaryCollection> {
+export async function recordAIUsage(data: CreateAIUsageInput): Promise<void> {
   await initializeDb();
   const id = nanoid();
   const now = new Date().toISOString();
 
   if (usePostgres) {
     await sql!`
-      INSERT INTO summary_collections (id, name, description, collection_type, created_at)
-      VALUES (${id}, ${data.name}, ${data.description || null}, ${data.collectionType}, ${now})
+      INSERT INTO ai_usage (id, operation, source_id, provider, model, input_tokens, output_tokens, latency_ms, cost_usd, cache_status, created_at)
+      VALUES (${id}, ${data.operation}, ${data.sourceId || null}, ${data.provider}, ${data.model},
+        ${data.inputTokens}, ${data.outputTokens}, ${data.latencyMs}, ${data.costUsd}, ${data.cacheStatus || null}, ${now})
     `;
   } else {
     sqliteRun(
-      `INSERT INTO summary_collections (id, name, description, collection_type, created_at)
-       VALUES (?, ?, ?, ?, ?)`,
-      [id, data.name, data.description || null, data.collectionType, now]
+      `INSERT INTO ai_usage (id, operation, source_id, provider, model, input_tokens, output_tokens, latency_ms, cost_usd, cache_status, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [id, data.operation, data.sourceId || null, data.provider, data.model,
+        data.inputTokens, data.outputTokens, data.latencyMs, data.costUsd, data.cacheStatus || null, now]
     );
   }
+}
 
-  return {
-    id,
-    name: data.name,
-    description: data.description,
-    collectionType: data.collectionType,
-    createdAt: new Date(now),
-  };
+/**
+ * Total estimated cost of the calls made since a point in time
+ */
+export async function getAISpendSince(since: Date): Promise<number> {
+  await initializeDb();
+  const from = since.toISOString();
+
+  const rows = usePostgres
+    ? await sql!`SELECT COALESCE(SUM(cost_usd), 0) as cost_usd FROM ai_usage WHERE created_at >= ${from}`
+    : sqliteGetAll(`SELECT COALESCE(SUM(cost_usd), 0) as cost_usd FROM ai_usage WHERE created_at >= ?`, [from]);
+
+  return Number(rows[0]?.cost_usd) || 0;
 }
 
-export async function getCollections(): Promise<SummaryCollection[]> {
+/**
+ * Usage between two points in time, in total and grouped by source, UTC day
+ * and operation
+ */
+export async function getAIUsageRollups(from: Date, to: Date): Promise<UsageRollups> {
   await initializeDb();
+  const fromIso = from.toISOString();
+  const toIso = to.toISOString();
 
   if (usePostgres) {
-    const rows = await sql!`
-      SELECT sc.*, COUNT(cs.id) as source_count
-      FROM summary_collections sc
-      LEFT JOIN collection_sources cs ON cs.collection_id = sc.id
-      GROUP BY sc.id
-      ORDER BY sc.created_at DESC
-    `;
-    return rows.map((row) => rowToCollection(row as Record<string, unknown>));
+    const [totals, bySource, byDay, byOperation] = await Promise.all([
+      sql!`
+        SELECT COUNT(*) as calls, SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens, SUM(cost_usd) as cost_usd,
+          SUM(CASE WHEN cache_status = 'hit' THEN 1 ELSE 0 END) as cache_hits, SUM(CASE WHEN cache_status = 'miss' THEN 1 ELSE 0 END) as cache_misses
+        FROM ai_usage WHERE created_at >= ${fromIso} AND created_at < ${toIso}
+      `,
+      sql!`
+        SELECT u.source_id, s.title as source_title, COUNT(*) as calls, SUM(u.input_tokens) as input_tokens,
+          SUM(u.output_tokens) as output_tokens, SUM(u.cost_usd) as cost_usd,
+          SUM(CASE WHEN u.cache_status = 'hit' THEN 1 ELSE 0 END) as cache_hits, SUM(CASE WHEN u.cache_status = 'miss' THEN 1 ELSE 0 END) as cache_misses
+        FROM ai_usage u LEFT JOIN sources s ON s.id = u.source_id
+        WHERE u.created_at >= ${fromIso} AND u.created_at < ${toIso}
+        GROUP BY u.source_id, s.title
+        ORDER BY cost_usd DESC
+      `,
+      sql!`
+        SELECT to_char(created_at, 'YYYY-MM-DD') as day, COUNT(*) as calls, SUM(input_tokens) as input_tokens,
+          SUM(output_tokens) as output_tokens, SUM(cost_usd) as cost_usd,
+          SUM(CASE WHEN cache_status = 'hit' THEN 1 ELSE 0 END) as cache_hits, SUM(CASE WHEN cache_status = 'miss' THEN 1 ELSE 0 END) as cache_misses
+        FROM ai_usage WHERE created_at >= ${fromIso} AND created_at < ${toIso}
+        GROUP BY day
+        ORDER BY day
+      `,
+      sql!`
+        SELECT operation, COUNT(*) as calls, SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens, SUM(cost_usd) as cost_usd,
+          SUM(CASE WHEN cache_status = 'hit' THEN 1 ELSE 0 END) as cache_hits, SUM(CASE WHEN cache_status = 'miss' THEN 1 ELSE 0 END) as cache_misses
+        FROM ai_usage WHERE created_at >= ${fromIso} AND created_at < ${toIso}
+        GROUP BY operation
+        ORDER BY cost_usd DESC
+      `,
+    ]);
+
+    return rowsToUsageRollups(
+      totals[0] as Record<string, unknown>,
+      bySource as Record<string, unknown>[],
+      byDay as Record<string, unknown>[],
+      byOperation as Record<string, unknown>[]
+    );
   } else {
-    const rows = sqliteGetAll(`
-      SELECT sc.*, COUNT(cs.id) as source_count
-      FROM summary_collections sc
-      LEFT JOIN collection_sources cs ON cs.collection_id = sc.id
-      GROUP BY sc.id
-      ORDER BY sc.created_at DESC
-    `);
-    return rows.map(rowToCollection);
+    const totals = sqliteGetAll(
+      `SELECT COUNT(*) as calls, SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens, SUM(cost_usd) as cost_usd,
+         SUM(CASE WHEN cache_status = 'hit' THEN 1 ELSE 0 END) as cache_hits, SUM(CASE WHEN cache_status = 'miss' THEN 1 ELSE 0 END) as cache_misses
+       FROM ai_usage WHERE created_at >= ? AND created_at < ?`,
+      [fromIso, toIso]
+    );
+    const bySource = sqliteGetAll(
+      `SELECT u.source_id, s.title as source_title, COUNT(*) as calls, SUM(u.input_tokens) as input_tokens,
+         SUM(u.output_tokens) as output_tokens, SUM(u.cost_usd) as cost_usd,
+         SUM(CASE WHEN u.cache_status = 'hit' THEN 1 ELSE 0 END) as cache_hits, SUM(CASE WHEN u.cache_status = 'miss' THEN 1 ELSE 0 END) as cache_misses
+       FROM ai_usage u LEFT JOIN sources s ON s.id = u.source_id
+       WHERE u.created_at >= ? AND u.created_at < ?
+       GROUP BY u.source_id, s.title
+       ORDER BY cost_usd DESC`,
+      [fromIso, toIso]
+    );
+    // Timestamps are stored as ISO strings, so the first 10 characters are the UTC day
+    const byDay = sqliteGetAll(
+      `SELECT substr(created_at, 1, 10) as day, COUNT(*) as calls, SUM(input_tokens) as input_tokens,
+         SUM(output_tokens) as output_tokens, SUM(cost_usd) as cost_usd,
+         SUM(CASE WHEN cache_status = 'hit' THEN 1 ELSE 0 END) as cache_hits, SUM(CASE WHEN cache_status = 'miss' THEN 1 ELSE 0 END) as cache_misses
+       FROM ai_usage WHERE created_at >= ? AND created_at < ?
+       GROUP BY day
+       ORDER BY day`,
+      [fromIso, toIso]
+    );
+    const byOperation = sqliteGetAll(
+      `SELECT operation, COUNT(*) as calls, SUM(input_tokens) as input_tokens, SUM(output_tokens) as output_tokens, SUM(cost_usd) as cost_usd,
+         SUM(CASE WHEN cache_status = 'hit' THEN 1 ELSE 0 END) as cache_hits, SUM(CASE WHEN cache_status = 'miss' THEN 1 ELSE 0 END) as cache_misses
+       FROM ai_usage WHERE created_at >= ? AND created_at < ?
+       GROUP BY operation
+       ORDER BY cost_usd DESC`,
+      [fromIso, toIso]
+    );
+
+    return rowsToUsageRollups(totals[0], bySource, byDay, byOperation);
   }
 }
 
-export async function getCollection(id: string): Promise<SummaryCollection | null> {
+// ============================================================================
+// LLM cache operations
+// ============================================================================
+
+/**
+ * Get an unexpired cached response (as JSON), counting the hit
+ */
+export async function getCachedLLMResponse(cacheKey: string): Promise<string | null> {
   await initializeDb();
+  const now = new Date().toISOString();
+
+  const rows = usePostgres
+    ? await sql!`SELECT response FROM llm_cache WHERE cache_key = ${cacheKey} AND expires_at > ${now}`
+    : sqliteGetAll(`SELECT response FROM llm_cache WHERE cache_key = ? AND expires_at > ?`, [cacheKey, now]);
+  if (rows.length === 0) return null;
 
   if (usePostgres) {
-    const rows = await sql!`
-      SELECT sc.*, COUNT(cs.id) as source_count
-      FROM summary_collections sc
-      LEFT JOIN collection_sources cs ON cs.collection_id = sc.id
-      WHERE sc.id = ${id}
-      GROUP BY sc.id
-    `;
-    if (rows.length === 0) return null;
-    return rowToCollection(rows[0] as Record<string, unknown>);
+    await sql!`UPDATE llm_cache SET hit_count = hit_count + 1, last_used_at = ${now} WHERE cache_key = ${cacheKey}`;
   } else {
-    const rows = sqliteGetAll(`
-      SELECT sc.*, COUNT(cs.id) as source_count
-      FROM summary_collections sc
-      LEFT JOIN collection_sources cs ON cs.collection_id = sc.id
-      WHERE sc.id = ?
-      GROUP BY sc.id
-    `, [id]);
-    if (rows.length === 0) return null;
-    return rowToCollection(rows[0]);
+    sqliteRun(`UPDATE llm_cache SET hit_count = hit_count + 1, last_used_at = ? WHERE cache_key = ?`, [now, cacheKey]);
   }
+
+  return rows[0].response as string;
 }
 
-export async function addSourceToCollection(data: CreateCollectionSourceInput): Promise<CollectionSource> {
+export async function saveCachedLLMResponse(
+  cacheKey: string,
+  model: string,
+  response: string,
+  expiresAt: Date
+): Promise<void> {
   await initializeDb();
-  const id = nanoid();
+  const now = new Date().toISOString();
+  const expires = expiresAt.toISOString();
+  const sizeBytes = Buffer.byteLength(response);
 
   if (usePostgres) {
     await sql!`
-      INSERT INTO collection_sources (id, collection_id, source_id, sequence, weight)
-      VALUES (${id}, ${data.collectionId}, ${data.sourceId}, ${data.sequence || null}, ${data.weight})
+      INSERT INTO llm_cache (cache_key, model, response, size_bytes, created_at, last_used_at, expires_at)
+      VALUES (${cacheKey}, ${model}, ${response}, ${sizeBytes}, ${now}, ${now}, ${expires})
+      ON CONFLICT (cache_key) DO UPDATE SET
+        response = EXCLUDED.response, size_bytes = EXCLUDED.size_bytes,
+        last_used_at = EXCLUDED.last_used_at, expires_at = EXCLUDED.expires_at
     `;
   } else {
     sqliteRun(
-      `INSERT INTO collection_sources (id, collection_id, source_id, sequence, weight)
-       VALUES (?, ?, ?, ?, ?)`,
-      [id, data.collectionId, data.sourceId, data.sequence || null, data.weight]
+      `INSERT INTO llm_cache (cache_key, model, response, size_bytes, created_at, last_used_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (cache_key) DO UPDATE SET
+         response = excluded.response, size_bytes = excluded.size_bytes,
+         last_used_at = excluded.last_used_at, expires_at = excluded.expires_at`,
+      [cacheKey, model, response, sizeBytes, now, now, expires]
     );
   }
-
-  return { id, ...data };
 }
 
-export async function getCollectionSources(collectionId: string): Promise<CollectionSource[]> {
+/**
+ * Delete expired entries, then the least recently used ones until the cache
+ * fits in maxBytes. Returns the number of entries deleted.
+ */
+export async function pruneLLMCache(maxBytes: number): Promise<number> {
   await initializeDb();
+  const now = new Date().toISOString();
 
+  let expiredCount: number;
   if (usePostgres) {
-    const rows = await sql!`
-      SELECT * FROM collection_sources WHERE collection_id = ${collectionId} ORDER BY sequence ASC
-    `;
-    return rows.map((row) => rowToCollectionSource(row as Record<string, unknown>));
+    const expired = await sql!`DELETE FROM llm_cache WHERE expires_at <= ${now} RETURNING cache_key`;
+    expiredCount = expired.length;
   } else {
-    const rows = sqliteGetAll(
-      `SELECT * FROM collection_sources WHERE collection_id = ? ORDER BY sequence ASC`,
-      [collectionId]
-    );
-    return rows.map(rowToCollectionSource);
+    expiredCount = Number(sqliteGetAll(`SELECT COUNT(*) as count FROM llm_cache WHERE expires_at <= ?`, [now])[0]?.count) || 0;
+    if (expiredCount > 0) {
+      sqliteRun(`DELETE FROM llm_cache WHERE expires_at <= ?`, [now]);
+    }
+  }
+
+  const entries = usePostgres
+    ? await sql!`SELECT cache_key, size_bytes FROM llm_cache ORDER BY last_used_at DESC`
+    : sqliteGetAll(`SELECT cache_key, size_bytes FROM llm_cache ORDER BY last_used_at DESC`);
+
+  // Keep the most recently used entries that fit
+  let keptBytes = 0;
+  const evicted: string[] = [];
+  for (const entry of entries) {
+    keptBytes += Number(entry.size_bytes) || 0;
+    if (keptBytes > maxBytes) evicted.push(entry.cache_key as string);
+  }
+
+  if (evicted.length > 0) {
+    if (usePostgres) {
+      await sql!`DELETE FROM llm_cache WHERE cache_key IN ${sql!(evicted)}`;
+    } else {
+      sqliteRun(`DELETE FROM llm_cache WHERE cache_key IN (${evicted.map(() => '?').join(', ')})`, evicted);
+    }
   }
+
+  return expiredCount + evicted.length;
 }
 
 // ============================================================================
-// Concept operations
+// Prompt template operations
 // ============================================================================
 
-export async function createConcepts(concepts: CreateConceptInput[]): Promise<SummaryConcept[]> {
+export async function getPromptTemplateVersions(name: PromptTemplateName): Promise<PromptTemplate[]> {
   await initializeDb();
-  if (concepts.length === 0) return [];
+  const rows = usePostgres
+    ? await sql!`SELECT * FROM prompt_templates WHERE name = ${name} ORDER BY version`
+    : sqliteGetAll(`SELECT * FROM prompt_templates WHERE name = ? ORDER BY version`, [name]);
+  return rows.map(rowToPromptTemplate);
+}
 
-  const results: SummaryConcept[] = [];
+export async function getPromptTemplateVersion(name: PromptTemplateName, version: number): Promise<PromptTemplate | null> {
+  await initializeDb();
+  const rows = usePostgres
+    ? await sql!`SELECT * FROM prompt_templates WHERE name = ${name} AND version = ${version}`
+    : sqliteGetAll(`SELECT * FROM prompt_templates WHERE name = ? AND version = ?`, [name, version]);
+  return rows[0] ? rowToPromptTemplate(rows[0]) : null;
+}
+
+export async function getActivePromptTemplate(name: PromptTemplateName): Promise<PromptTemplate | null> {
+  await initializeDb();
+  const rows = usePostgres
+    ? await sql!`SELECT * FROM prompt_templates WHERE name = ${name} AND is_active = true`
+    : sqliteGetAll(`SELECT * FROM prompt_templates WHERE name = ? AND is_active = 1`, [name]);
+  return rows[0] ? rowToPromptTemplate(rows[0]) : null;
+}
+
+/**
+ * Store the built-in text of a template as its active version 1. Does
+ * nothing if the template already has a version 1.
+ */
+export async function insertDefaultPromptTemplate(name: PromptTemplateName, body: string, description: string): Promise<void> {
+  await initializeDb();
+  const id = nanoid();
+  const now = new Date().toISOString();
+
+  if (usePostgres) {
+    await sql!`
+      INSERT INTO prompt_templates (id, name, version, body, description, is_active, created_at)
+      VALUES (${id}, ${name}, 1, ${body}, ${description}, true, ${now})
+      ON CONFLICT (name, version) DO NOTHING
+    `;
+  } else {
+    sqliteRun(
+      `INSERT INTO prompt_templates (id, name, version, body, description, is_active, created_at)
+       VALUES (?, ?, 1, ?, ?, 1, ?)
+       ON CONFLICT (name, version) DO NOTHING`,
+      [id, name, body, description, now]
+    );
+  }
+}
+
+/**
+ * Add the next version of a template, optionally making it the active one
+ */
+export async function createPromptTemplateVersion(
+  name: PromptTemplateName,
+  body: string,
+  description: string | undefined,
+  activate: boolean
+): Promise<PromptTemplate> {
+  await initializeDb();
+  const id = nanoid();
+  const now = new Date().toISOString();
+  let version = 1;
 
   if (usePostgres) {
     await sql!.begin(async (tx: postgres.TransactionSql) => {
-      for (const concept of concepts) {
-        const id = nanoid();
-        await tx.unsafe(
-          `INSERT INTO summary_concepts (id, summary_id, concept, concept_normalized, definition, importance_score)
-           VALUES ($1, $2, $3, $4, $5, $6)`,
-          [id, concept.summaryId, concept.concept, concept.conceptNormalized, concept.definition || null, concept.importanceScore]
-        );
-        results.push({ id, ...concept });
+      const versionResult = await tx.unsafe(
+        `SELECT COALESCE(MAX(version), 0) + 1 as next_version FROM prompt_templates WHERE name = $1`,
+        [name]
+      );
+      version = Number(versionResult[0]?.next_version) || 1;
+
+      if (activate) {
+        await tx.unsafe(`UPDATE prompt_templates SET is_active = false WHERE name = $1`, [name]);
       }
+      await tx.unsafe(
+        `INSERT INTO prompt_templates (id, name, version, body, description, is_active, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [id, name, version, body, description || null, activate, now]
+      );
     });
   } else {
-    for (const concept of concepts) {
-      const id = nanoid();
-      sqliteDb!.run(
-        `INSERT INTO summary_concepts (id, summary_id, concept, concept_normalized, definition, importance_score)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        [id, concept.summaryId, concept.concept, concept.conceptNormalized, concept.definition || null, concept.importanceScore]
-      );
-      results.push({ id, ...concept });
+    const versionRows = sqliteGetAll(
+      `SELECT COALESCE(MAX(version), 0) + 1 as next_version FROM prompt_templates WHERE name = ?`,
+      [name]
+    );
+    version = Number(versionRows[0]?.next_version) || 1;
+
+    if (activate) {
+      sqliteDb!.run(`UPDATE prompt_templates SET is_active = 0 WHERE name = ?`, [name]);
     }
-    saveSqliteDb();
+    sqliteRun(
+      `INSERT INTO prompt_templates (id, name, version, body, description, is_active, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [id, name, version, body, description || null, activate ? 1 : 0, now]
+    );
   }
 
-  return results;
+  return { id, name, version, body, description, isActive: activate, createdAt: new Date(now) };
 }
 
-export async function getConceptsBySummary(summaryId: string): Promise<SummaryConcept[]> {
+/**
+ * Make one version the active template for its name
+ */
+export async function activatePromptTemplateVersion(name: PromptTemplateName, version: number): Promise<void> {
   await initializeDb();
-
   if (usePostgres) {
-    const rows = await sql!`
-      SELECT * FROM summary_concepts WHERE summary_id = ${summaryId} ORDER BY importance_score DESC
-    `;
-    return rows.map((row) => rowToConcept(row as Record<string, unknown>));
+    await sql!`UPDATE prompt_templates SET is_active = (version = ${version}) WHERE name = ${name}`;
   } else {
-    const rows = sqliteGetAll(
-      `SELECT * FROM summary_concepts WHERE summary_id = ? ORDER BY importance_score DESC`,
-      [summaryId]
-    );
-    return rows.map(rowToConcept);
+    sqliteRun(`UPDATE prompt_templates SET is_active = (version = ?) WHERE name = ?`, [version, name]);
   }
 }
 
 // ============================================================================
-// Export operations
+// App settings operations
 // ============================================================================
 
-export async function createExport(data: CreateExportInput): Promise<SummaryExport> {
+export async function getAppSetting<T>(key: string): Promise<T | null> {
   await initializeDb();
-  const id = nanoid();
+  const rows = usePostgres
+    ? await sql!`SELECT value FROM app_settings WHERE key = ${key}`
+    : sqliteGetAll(`SELECT value FROM app_settings WHERE key = ?`, [key]);
+  return rows[0] ? (JSON.parse(rows[0].value as string) as T) : null;
+}
+
+export async function saveAppSetting(key: string, value: unknown): Promise<void> {
+  await initializeDb();
+  const json = JSON.stringify(value);
   const now = new Date().toISOString();
 
   if (usePostgres) {
     await sql!`
-      INSERT INTO summary_exports (id, summary_id, export_format, file_path, created_at)
-      VALUES (${id}, ${data.summaryId}, ${data.exportFormat}, ${data.filePath || null}, ${now})
+      INSERT INTO app_settings (key, value, updated_at) VALUES (${key}, ${json}, ${now})
+      ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = EXCLUDED.updated_at
     `;
   } else {
     sqliteRun(
-      `INSERT INTO summary_exports (id, summary_id, export_format, file_path, created_at)
-       VALUES (?, ?, ?, ?, ?)`,
-      [id, data.summaryId, data.exportFormat, data.filePath || null, now]
+      `INSERT INTO app_settings (key, value, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`,
+      [key, json, now]
     );
   }
-
-  return {
-    id,
-    summaryId: data.summaryId,
-    exportFormat: data.exportFormat,
-    filePath: data.filePath,
-    downloadCount: 0,
-    createdAt: new Date(now),
-  };
 }
 
-export async function incrementExportDownloadCount(id: string): Promise<void> {
+export async function deleteAppSetting(key: string): Promise<void> {
   await initializeDb();
-
   if (usePostgres) {
-    await sql!`UPDATE summary_exports SET download_count = download_count + 1 WHERE id = ${id}`;
+    await sql!`DELETE FROM app_settings WHERE key = ${key}`;
   } else {
-    sqliteRun(`UPDATE summary_exports SET download_count = download_count + 1 WHERE id = ?`, [id]);
+    sqliteRun(`DELETE FROM app_settings WHERE key = ?`, [key]);
   }
 }
 
@@ -1407,6 +2814,9 @@ function rowToSummary(row: Record<string, unknown>): Summary {
     outputTokenCount: row.output_token_count ? Number(row.output_token_count) : undefined,
     qualityScore: row.quality_score ? Number(row.quality_score) : undefined,
     userRating: row.user_rating ? Number(row.user_rating) as 1 | 2 | 3 | 4 | 5 : undefined,
+    pageStart: row.page_start !== null && row.page_start !== undefined ? Number(row.page_start) : undefined,
+    pageEnd: row.page_end !== null && row.page_end !== undefined ? Number(row.page_end) : undefined,
+    promptTemplateId: row.prompt_template_id ? String(row.prompt_template_id) : undefined,
     createdAt: new Date(row.created_at as string),
     updatedAt: new Date(row.updated_at as string),
   };
@@ -1422,6 +2832,8 @@ function rowToDocumentSegment(row: Record<string, unknown>): DocumentSegment {
     sectionTitle: row.section_title as string | undefined,
     level: Number(row.level) || 0,
     estimatedTokens: row.estimated_tokens ? Number(row.estimated_tokens) : undefined,
+    pageStart: row.page_start !== null && row.page_start !== undefined ? Number(row.page_start) : undefined,
+    pageEnd: row.page_end !== null && row.page_end !== undefined ? Number(row.page_end) : undefined,
     createdAt: new Date(row.created_at as string),
   };
 }
@@ -1473,6 +2885,7 @@ function rowToSource(row: Record<string, unknown>): Source {
       ? Number(row.processing_progress)
       : undefined,
     errorMessage: row.error_message as string | undefined,
+    metadata: row.metadata ? JSON.parse(row.metadata as string) as SourceMetadata : undefined,
     processedAt: row.processed_at ? new Date(row.processed_at as string) : undefined,
     createdAt: new Date(row.created_at as string),
     // Fix: Don't convert 0 to undefined - properly check for null/undefined
@@ -1481,6 +2894,18 @@ function rowToSource(row: Record<string, unknown>): Source {
   };
 }
 
+function rowToPromptTemplate(row: Record<string, unknown>): PromptTemplate {
+  return {
+    id: row.id as string,
+    name: row.name as PromptTemplateName,
+    version: Number(row.version),
+    body: row.body as string,
+    description: row.description ? String(row.description) : undefined,
+    isActive: row.is_active === true || row.is_active === 1 || row.is_active === '1',
+    createdAt: new Date(row.created_at as string),
+  };
+}
+
 function rowToMicroLesson(row: Record<string, unknown>): MicroLesson {
   return {
     id: row.id as string,
@@ -1493,6 +2918,9 @@ function rowToMicroLesson(row: Record<string, unknown>): MicroLesson {
     estimatedMinutes: Number(row.estimated_minutes),
     difficulty: Number(row.difficulty) as 1 | 2 | 3,
     audioPath: row.audio_path as string | undefined,
+    pageStart: row.page_start !== null && row.page_start !== undefined ? Number(row.page_start) : undefined,
+    pageEnd: row.page_end !== null && row.page_end !== undefined ? Number(row.page_end) : undefined,
+    promptTemplateId: row.prompt_template_id ? String(row.prompt_template_id) : undefined,
     createdAt: new Date(row.created_at as string),
     isCompleted: Boolean(row.is_completed),
   };
@@ -1502,6 +2930,7 @@ function rowToFlashcard(row: Record<string, unknown>): Flashcard {
   return {
     id: row.id as string,
     lessonId: row.lesson_id as string,
+    cardType: (row.card_type as CardType | null) || 'basic',
     front: row.front as string,
     back: row.back as string,
     hint: row.hint as string | undefined,
@@ -1511,6 +2940,128 @@ function rowToFlashcard(row: Record<string, unknown>): Flashcard {
     interval: Number(row.interval),
     repetitions: Number(row.repetitions),
     nextReview: row.next_review ? new Date(row.next_review as string) : undefined,
+    stability: row.stability !== null && row.stability !== undefined ? Number(row.stability) : undefined,
+    difficulty: row.difficulty !== null && row.difficulty !== undefined ? Number(row.difficulty) : undefined,
+    lastReviewedAt: row.last_reviewed_at ? new Date(row.last_reviewed_at as string) : undefined,
+    cardState: (row.card_state as CardState | null) || 'new',
+    learningStep: Number(row.learning_step) || 0,
+    noteId: row.note_id ? String(row.note_id) : undefined,
+    clozeIndex: row.cloze_index !== null && row.cloze_index !== undefined ? Number(row.cloze_index) : undefined,
+    isReverse: row.is_reverse === true || row.is_reverse === 1 || row.is_reverse === '1',
+    excerpt: row.excerpt ? String(row.excerpt) : undefined,
+    lapses: Number(row.lapses) || 0,
+    isLeech: row.is_leech === true || row.is_leech === 1 || row.is_leech === '1',
+    isSuspended: row.is_suspended === true || row.is_suspended === 1 || row.is_suspended === '1',
+    distractors: row.distractors ? JSON.parse(row.distractors as string) : undefined,
+    acceptedAnswers: row.accepted_answers ? JSON.parse(row.accepted_answers as string) : undefined,
+    buriedUntil: row.buried_until ? new Date(row.buried_until as string) : undefined,
+    flag: (row.flag as FlashcardFlag | null) || undefined,
+    deckId: row.deck_id ? String(row.deck_id) : undefined,
+    createdAt: new Date(row.created_at as string),
+    scheduler: (row.scheduler as SchedulerName | null) || REVIEW_CONFIG.defaultScheduler,
+  };
+}
+
+function rowToDeck(row: Record<string, unknown>): Deck {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    parentId: row.parent_id ? String(row.parent_id) : undefined,
+    sourceId: row.source_id ? String(row.source_id) : undefined,
+    scheduler: row.scheduler ? row.scheduler as SchedulerName : undefined,
+    newCardsPerDay: row.new_cards_per_day !== null && row.new_cards_per_day !== undefined ? Number(row.new_cards_per_day) : undefined,
+    maxReviewsPerDay: row.max_reviews_per_day !== null && row.max_reviews_per_day !== undefined ? Number(row.max_reviews_per_day) : undefined,
+    reviewOrder: row.review_order ? row.review_order as ReviewOrder : undefined,
+    createdAt: new Date(row.created_at as string),
+    cardCount: row.card_count !== null && row.card_count !== undefined ? Number(row.card_count) : undefined,
+  };
+}
+
+// Dates come back from JSON as strings
+function parseReviewUndoState(json: string): ReviewUndoState {
+  const state = JSON.parse(json);
+  const toDate = (value: string | undefined) => (value ? new Date(value) : undefined);
+  return {
+    ...state,
+    nextReview: toDate(state.nextReview),
+    lastReviewedAt: toDate(state.lastReviewedAt),
+    siblings: state.siblings.map((sibling: { id: string; buriedUntil?: string }) => ({
+      id: sibling.id,
+      buriedUntil: toDate(sibling.buriedUntil),
+    })),
+  };
+}
+
+function rowToNote(row: Record<string, unknown>): Note {
+  return {
+    id: row.id as string,
+    lessonId: row.lesson_id as string,
+    noteType: (row.note_type as CardType | null) || 'basic',
+    front: row.front as string,
+    back: row.back as string,
+    hint: row.hint ? String(row.hint) : undefined,
+    mnemonic: row.mnemonic ? String(row.mnemonic) : undefined,
+    visualCue: row.visual_cue ? String(row.visual_cue) : undefined,
+    term: row.term ? String(row.term) : undefined,
+    distractors: row.distractors ? JSON.parse(row.distractors as string) : undefined,
+    acceptedAnswers: row.accepted_answers ? JSON.parse(row.accepted_answers as string) : undefined,
+    excerpt: row.excerpt ? String(row.excerpt) : undefined,
     createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+function rowToJob(row: Record<string, unknown>): Job {
+  return {
+    id: row.id as string,
+    type: row.type as JobType,
+    status: row.status as JobStatus,
+    subjectId: row.subject_id as string,
+    payload: JSON.parse(row.payload as string) as Record<string, unknown>,
+    result: row.result ? JSON.parse(row.result as string) as Record<string, unknown> : undefined,
+    error: row.error ? String(row.error) : undefined,
+    progress: Number(row.progress) || 0,
+    phase: row.phase ? String(row.phase) : undefined,
+    progressCurrent: row.progress_current !== null && row.progress_current !== undefined ? Number(row.progress_current) : undefined,
+    progressTotal: row.progress_total !== null && row.progress_total !== undefined ? Number(row.progress_total) : undefined,
+    attempts: Number(row.attempts) || 0,
+    maxAttempts: Number(row.max_attempts) || 1,
+    runAt: new Date(row.run_at as string),
+    startedAt: row.started_at ? new Date(row.started_at as string) : undefined,
+    finishedAt: row.finished_at ? new Date(row.finished_at as string) : undefined,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+function rowToUsageTotals(row: Record<string, unknown> | undefined): UsageTotals {
+  const cacheHits = Number(row?.cache_hits) || 0;
+  const cacheMisses = Number(row?.cache_misses) || 0;
+  return {
+    calls: Number(row?.calls) || 0,
+    inputTokens: Number(row?.input_tokens) || 0,
+    outputTokens: Number(row?.output_tokens) || 0,
+    costUsd: Number(row?.cost_usd) || 0,
+    cacheHits,
+    cacheMisses,
+    cacheHitRate: cacheHits + cacheMisses > 0 ? cacheHits / (cacheHits + cacheMisses) : 0,
+  };
+}
+
+function rowsToUsageRollups(
+  totals: Record<string, unknown> | undefined,
+  bySource: Record<string, unknown>[],
+  byDay: Record<string, unknown>[],
+  byOperation: Record<string, unknown>[]
+): UsageRollups {
+  return {
+    totals: rowToUsageTotals(totals),
+    bySource: bySource.map((row) => ({
+      sourceId: row.source_id ? String(row.source_id) : null,
+      sourceTitle: row.source_title ? String(row.source_title) : undefined,
+      ...rowToUsageTotals(row),
+    })),
+    byDay: byDay.map((row) => ({ day: String(row.day), ...rowToUsageTotals(row) })),
+    byOperation: byOperation.map((row) => ({ operation: row.operation as AIOperation, ...rowToUsageTotals(row) })),
   };
 }
@@ -0,0 +1,306 @@
+// Schema migrations for existing databases
+// Fresh databases get the full schema from schema.sql / schema-embedded.ts;
+// these bring databases created by older versions up to date. Every
+// migration must be safe to run against a fresh database as well.
+
+import { nanoid } from 'nanoid';
+import { FlashcardRating } from '@/types';
+import { FSRSReview, replayReviews, sm2RatingToGrade } from '@/lib/services/fsrs';
+import { REVIEW_CONFIG } from '@/config/review-config';
+
+// Statements use `?` placeholders for params
+export interface MigrationContext {
+  dialect: 'sqlite' | 'postgres';
+  exec(statement: string, params?: unknown[]): Promise<void>;
+  query(statement: string, params?: unknown[]): Promise<Record<string, unknown>[]>;
+  columnExists(table: string, column: string): Promise<boolean>;
+}
+
+export interface Migration {
+  id: string;
+  up(ctx: MigrationContext): Promise<void>;
+}
+
+/**
+ * Add a column when it is missing
+ */
+export async function addColumnIfMissing(
+  ctx: MigrationContext,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  if (!(await ctx.columnExists(table, column))) {
+    await ctx.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Replace a column's CHECK constraint. SQLite cannot alter constraints, so
+ * the stored table definition is rewritten in place; Postgres drops and
+ * re-adds the named constraint.
+ */
+export async function replaceCheckConstraint(
+  ctx: MigrationContext,
+  table: string,
+  column: string,
+  oldCheck: string,
+  newCheck: string
+): Promise<void> {
+  if (ctx.dialect === 'postgres') {
+    const constraint = `${table}_${column}_check`;
+    await ctx.exec(`ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${constraint}`);
+    await ctx.exec(`ALTER TABLE ${table} ADD CONSTRAINT ${constraint} CHECK (${newCheck})`);
+  } else {
+    const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+    await ctx.exec('PRAGMA writable_schema = ON');
+    await ctx.exec(
+      `UPDATE sqlite_master SET sql = replace(sql, ${quote(oldCheck)}, ${quote(newCheck)}) WHERE type = 'table' AND name = ${quote(table)}`
+    );
+    await ctx.exec('PRAGMA writable_schema = RESET');
+  }
+}
+
+/**
+ * Parse a stored timestamp. SQLite's CURRENT_TIMESTAMP is UTC without a zone.
+ */
+export function parseTimestamp(value: unknown): Date {
+  if (value instanceof Date) return value;
+  const text = String(value);
+  return new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(text) ? `${text.replace(' ', 'T')}Z` : text);
+}
+
+/**
+ * Give cards reviewed before FSRS existed a memory state by replaying their
+ * review history
+ */
+async function seedFSRSState(ctx: MigrationContext): Promise<void> {
+  const rows = await ctx.query(
+    `SELECT r.flashcard_id, r.rating, r.reviewed_at
+     FROM flashcard_reviews r
+     JOIN flashcards f ON f.id = r.flashcard_id
+     WHERE f.stability IS NULL
+     ORDER BY r.flashcard_id, r.reviewed_at`
+  );
+
+  const histories = new Map<string, FSRSReview[]>();
+  for (const row of rows) {
+    const flashcardId = row.flashcard_id as string;
+    if (!histories.has(flashcardId)) histories.set(flashcardId, []);
+    histories.get(flashcardId)!.push({
+      grade: sm2RatingToGrade(Number(row.rating) as FlashcardRating),
+      reviewedAt: parseTimestamp(row.reviewed_at),
+    });
+  }
+
+  for (const [flashcardId, reviews] of histories) {
+    const state = replayReviews(reviews);
+    if (!state) continue;
+    await ctx.exec(
+      `UPDATE flashcards SET stability = ?, difficulty = ?, last_reviewed_at = ? WHERE id = ?`,
+      [state.stability, state.difficulty, state.lastReviewedAt.toISOString(), flashcardId]
+    );
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // EPUB, DOCX, HTML and Markdown sources with extracted metadata
+    id: '003_document_sources',
+    async up(ctx) {
+      await replaceCheckConstraint(
+        ctx,
+        'sources',
+        'type',
+        "type IN ('pdf', 'youtube', 'audio', 'text')",
+        "type IN ('pdf', 'youtube', 'audio', 'text', 'epub', 'docx', 'html', 'markdown')"
+      );
+      await addColumnIfMissing(ctx, 'sources', 'metadata', 'TEXT');
+    },
+  },
+  {
+    // Web article sources
+    id: '004_url_sources',
+    async up(ctx) {
+      await replaceCheckConstraint(
+        ctx,
+        'sources',
+        'type',
+        "type IN ('pdf', 'youtube', 'audio', 'text', 'epub', 'docx', 'html', 'markdown')",
+        "type IN ('pdf', 'youtube', 'audio', 'text', 'epub', 'docx', 'html', 'markdown', 'url')"
+      );
+    },
+  },
+  {
+    // Page ranges for lessons, segments and summaries of paged documents
+    id: '005_page_ranges',
+    async up(ctx) {
+      for (const table of ['micro_lessons', 'document_segments', 'summaries']) {
+        await addColumnIfMissing(ctx, table, 'page_start', 'INTEGER');
+        await addColumnIfMissing(ctx, table, 'page_end', 'INTEGER');
+      }
+    },
+  },
+  {
+    // Phase labels and step counts for live job progress
+    id: '006_job_phases',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'jobs', 'phase', 'TEXT');
+      await addColumnIfMissing(ctx, 'jobs', 'progress_current', 'INTEGER');
+      await addColumnIfMissing(ctx, 'jobs', 'progress_total', 'INTEGER');
+    },
+  },
+  {
+    // Cache hits and misses in the AI usage ledger
+    id: '007_ai_usage_cache',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'ai_usage', 'cache_status', 'TEXT');
+    },
+  },
+  {
+    id: '008_prompt_template_versions',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'micro_lessons', 'prompt_template_id', 'TEXT');
+      await addColumnIfMissing(ctx, 'summaries', 'prompt_template_id', 'TEXT');
+    },
+  },
+  {
+    // FSRS scheduler. Sources got a scheduler column here, which 018_decks
+    // moves to their default deck, so it is no longer added.
+    id: '009_fsrs_scheduler',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'flashcards', 'stability', 'REAL');
+      await addColumnIfMissing(ctx, 'flashcards', 'difficulty', 'REAL');
+      await addColumnIfMissing(ctx, 'flashcards', 'last_reviewed_at', ctx.dialect === 'postgres' ? 'TIMESTAMP' : 'DATETIME');
+      await seedFSRSState(ctx);
+    },
+  },
+  {
+    // Intraday learning and relearning steps
+    id: '010_learning_steps',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'flashcards', 'card_state', "TEXT DEFAULT 'new'");
+      await addColumnIfMissing(ctx, 'flashcards', 'learning_step', 'INTEGER DEFAULT 0');
+      // Cards reviewed before steps existed have graduated
+      await ctx.exec(`UPDATE flashcards SET card_state = 'review' WHERE last_reviewed_at IS NOT NULL OR repetitions > 0`);
+    },
+  },
+  {
+    // Cloze cards and sibling burying
+    id: '011_cloze_cards',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'flashcards', 'card_type', "TEXT DEFAULT 'basic'");
+      await addColumnIfMissing(ctx, 'flashcards', 'note_id', 'TEXT');
+      await addColumnIfMissing(ctx, 'flashcards', 'cloze_index', 'INTEGER');
+      await addColumnIfMissing(ctx, 'flashcards', 'buried_until', ctx.dialect === 'postgres' ? 'TIMESTAMP' : 'DATETIME');
+      // Not in the schema files, which run before older tables have the column
+      await ctx.exec(`CREATE INDEX IF NOT EXISTS idx_flashcards_note ON flashcards(note_id)`);
+    },
+  },
+  {
+    // Multiple choice and typed answer cards
+    id: '012_quiz_cards',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'flashcards', 'distractors', 'TEXT');
+      await addColumnIfMissing(ctx, 'flashcards', 'accepted_answers', 'TEXT');
+    },
+  },
+  {
+    // Notes, each with one or more independently scheduled cards
+    id: '013_notes',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'flashcards', 'is_reverse', `BOOLEAN DEFAULT ${ctx.dialect === 'postgres' ? 'false' : '0'}`);
+      // One note per group of cloze siblings, then one for every other card
+      await ctx.exec(
+        `INSERT INTO notes (id, lesson_id, note_type, front, back, mnemonic, visual_cue, created_at, updated_at)
+         SELECT note_id, MIN(lesson_id), 'cloze', MIN(front), MIN(back), MIN(mnemonic), MIN(visual_cue), MIN(created_at), MIN(created_at)
+         FROM flashcards
+         WHERE note_id IS NOT NULL AND note_id NOT IN (SELECT id FROM notes)
+         GROUP BY note_id`
+      );
+      await ctx.exec(
+        `INSERT INTO notes (id, lesson_id, note_type, front, back, hint, mnemonic, visual_cue, distractors, accepted_answers, created_at, updated_at)
+         SELECT id, lesson_id, COALESCE(card_type, 'basic'), front, back, hint, mnemonic, visual_cue, distractors, accepted_answers, created_at, created_at
+         FROM flashcards
+         WHERE note_id IS NULL`
+      );
+      await ctx.exec(`UPDATE flashcards SET note_id = id WHERE note_id IS NULL`);
+    },
+  },
+  {
+    // Lapse counts, leeches and lesson excerpts
+    id: '014_leeches',
+    async up(ctx) {
+      const [no, yes] = ctx.dialect === 'postgres' ? ['false', 'true'] : ['0', '1'];
+      await addColumnIfMissing(ctx, 'notes', 'excerpt', 'TEXT');
+      await addColumnIfMissing(ctx, 'flashcards', 'excerpt', 'TEXT');
+      await addColumnIfMissing(ctx, 'flashcards', 'lapses', 'INTEGER DEFAULT 0');
+      await addColumnIfMissing(ctx, 'flashcards', 'is_leech', `BOOLEAN DEFAULT ${no}`);
+      await addColumnIfMissing(ctx, 'flashcards', 'is_suspended', `BOOLEAN DEFAULT ${no}`);
+      // Lapses are the reviews rated below 3 (SM-2 scale) so far
+      await ctx.exec(
+        `UPDATE flashcards SET lapses = (
+           SELECT COUNT(*) FROM flashcard_reviews r WHERE r.flashcard_id = flashcards.id AND r.rating < 3
+         )`
+      );
+      await ctx.exec(
+        `UPDATE flashcards SET is_leech = ${yes}, is_suspended = ${yes} WHERE lapses >= ?`,
+        [REVIEW_CONFIG.leech.threshold]
+      );
+    },
+  },
+  {
+    // Flags set from the review screen
+    id: '015_flashcard_flags',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'flashcards', 'flag', 'TEXT');
+    },
+  },
+  {
+    // Card state before each review, for undo
+    id: '016_review_undo',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'flashcard_reviews', 'previous_state', 'TEXT');
+    },
+  },
+  {
+    // Daily new card and review limits. The per-source limit columns added
+    // here moved to decks in 018_decks, so they are no longer added.
+    id: '017_daily_limits',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'flashcard_reviews', 'card_state', 'TEXT');
+    },
+  },
+  {
+    // Decks: a default deck per source takes over its review settings and cards
+    id: '018_decks',
+    async up(ctx) {
+      await addColumnIfMissing(ctx, 'flashcards', 'deck_id', 'TEXT');
+      await ctx.exec(`CREATE INDEX IF NOT EXISTS idx_flashcards_deck ON flashcards(deck_id)`);
+      // Only databases that had per-source review settings have these columns
+      const settings: string[] = [];
+      for (const column of ['scheduler', 'new_cards_per_day', 'max_reviews_per_day', 'review_order']) {
+        if (await ctx.columnExists('sources', column)) settings.push(column);
+      }
+      const sources = await ctx.query(
+        `SELECT ${['id', 'title', ...settings].join(', ')} FROM sources
+         WHERE id NOT IN (SELECT source_id FROM decks WHERE source_id IS NOT NULL)`
+      );
+      for (const source of sources) {
+        await ctx.exec(
+          `INSERT INTO decks (id, name, source_id, scheduler, new_cards_per_day, max_reviews_per_day, review_order, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            nanoid(), source.title, source.id, source.scheduler ?? null, source.new_cards_per_day ?? null,
+            source.max_reviews_per_day ?? null, source.review_order ?? null, new Date().toISOString(),
+          ]
+        );
+      }
+      await ctx.exec(
+        `UPDATE flashcards SET deck_id = (
+           SELECT d.id FROM decks d JOIN micro_lessons ml ON d.source_id = ml.source_id WHERE ml.id = flashcards.lesson_id
+         ) WHERE deck_id IS NULL`
+      );
+    },
+  },
+];
@@ -4,7 +4,7 @@
 -- Content sources (uploaded files, URLs)
 CREATE TABLE IF NOT EXISTS sources (
   id TEXT PRIMARY KEY,
-  type TEXT NOT NULL CHECK (type IN ('pdf', 'youtube', 'audio', 'text')),
+  type TEXT NOT NULL CHECK (type IN ('pdf', 'youtube', 'audio', 'text', 'epub', 'docx', 'html', 'markdown', 'url')),
   title TEXT NOT NULL,
   original_url TEXT,
   file_path TEXT,
@@ -12,6 +12,7 @@ CREATE TABLE IF NOT EXISTS sources (
   processing_status TEXT DEFAULT 'pending' CHECK (processing_status IN ('pending', 'extracting', 'chunking', 'generating_cards', 'generating_audio', 'complete', 'error')),
   processing_progress INTEGER DEFAULT 0,
   error_message TEXT,
+  metadata TEXT, -- JSON: author, page count, document headings
   processed_at TIMESTAMP,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -28,11 +29,50 @@ CREATE TABLE IF NOT EXISTS micro_lessons (
   estimated_minutes INTEGER DEFAULT 3,
   difficulty INTEGER DEFAULT 1 CHECK (difficulty IN (1, 2, 3)),
   audio_path TEXT,
+  page_start INTEGER, -- Source page range (paged documents)
+  page_end INTEGER,
+  prompt_template_id TEXT, -- Prompt template version that generated it
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(source_id, sequence)
 );
 
--- Flashcards with spaced repetition (SM-2)
+-- Decks group flashcards for review. Each source has a default deck its cards
+-- start in. Reviewing a deck includes its subdecks.
+CREATE TABLE IF NOT EXISTS decks (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  parent_id TEXT,
+  source_id TEXT REFERENCES sources(id) ON DELETE CASCADE, -- Set on a source's default deck
+  scheduler TEXT, -- Flashcard scheduler (sm2 or fsrs), NULL uses the configured default
+  -- Daily limits (new cards, reviews) and how new cards are ordered among reviews, NULL uses the configured default
+  new_cards_per_day INTEGER,
+  max_reviews_per_day INTEGER,
+  review_order TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Notes hold the content of flashcards. Each note has one or more cards
+-- (e.g. a reverse card, one card per cloze deletion) scheduled independently.
+CREATE TABLE IF NOT EXISTS notes (
+  id TEXT PRIMARY KEY,
+  lesson_id TEXT NOT NULL REFERENCES micro_lessons(id) ON DELETE CASCADE,
+  note_type TEXT DEFAULT 'basic',
+  front TEXT NOT NULL,
+  back TEXT NOT NULL,
+  hint TEXT,
+  mnemonic TEXT,
+  visual_cue TEXT,
+  -- Definitional notes: the term asked about, which gives the note a reverse card
+  term TEXT,
+  distractors TEXT,
+  accepted_answers TEXT,
+  -- Passage of the lesson shown with the answer
+  excerpt TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Flashcards with spaced repetition (SM-2 or FSRS)
 CREATE TABLE IF NOT EXISTS flashcards (
   id TEXT PRIMARY KEY,
   lesson_id TEXT NOT NULL REFERENCES micro_lessons(id) ON DELETE CASCADE,
@@ -46,6 +86,32 @@ CREATE TABLE IF NOT EXISTS flashcards (
   interval INTEGER DEFAULT 0,
   repetitions INTEGER DEFAULT 0,
   next_review TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  -- FSRS memory state
+  stability REAL,
+  difficulty REAL,
+  last_reviewed_at TIMESTAMP,
+  -- Learning steps: new, learning, review or relearning, and the step reached
+  card_state TEXT DEFAULT 'new',
+  learning_step INTEGER DEFAULT 0,
+  -- Card type (basic, cloze, multiple_choice or typed) and the note the card shows. Front, back and the
+  -- other content columns are copied from the note, as shown on this card (one per cloze deletion, or the reverse card).
+  card_type TEXT DEFAULT 'basic',
+  note_id TEXT,
+  cloze_index INTEGER,
+  is_reverse BOOLEAN DEFAULT false,
+  excerpt TEXT,
+  -- Quiz cards: wrong options for multiple choice, alternatives to back for typed answers (JSON arrays)
+  distractors TEXT,
+  accepted_answers TEXT,
+  -- Reviews rated "again". Leeches (too many lapses) are suspended, i.e. left out of reviews.
+  lapses INTEGER DEFAULT 0,
+  is_leech BOOLEAN DEFAULT false,
+  is_suspended BOOLEAN DEFAULT false,
+  -- Hidden from review until this time, e.g. after a sibling was reviewed
+  buried_until TIMESTAMP,
+  -- Colored flag set by the learner (red, orange, green or blue)
+  flag TEXT,
+  deck_id TEXT,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -74,7 +140,11 @@ CREATE TABLE IF NOT EXISTS flashcard_reviews (
   flashcard_id TEXT NOT NULL REFERENCES flashcards(id) ON DELETE CASCADE,
   rating INTEGER NOT NULL CHECK (rating BETWEEN 0 AND 5),
   reviewed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  time_to_answer_ms INTEGER
+  time_to_answer_ms INTEGER,
+  -- The card's state before the review (JSON), so the review can be undone
+  previous_state TEXT,
+  -- Card state when reviewed (new, learning, review or relearning), for daily limits
+  card_state TEXT
 );
 
 -- Daily stats tracking
@@ -91,6 +161,8 @@ CREATE INDEX IF NOT EXISTS idx_micro_lessons_source ON micro_lessons(source_id);
 CREATE INDEX IF NOT EXISTS idx_micro_lessons_source_sequence ON micro_lessons(source_id, sequence);
 CREATE INDEX IF NOT EXISTS idx_flashcards_lesson ON flashcards(lesson_id);
 CREATE INDEX IF NOT EXISTS idx_flashcards_next_review ON flashcards(next_review);
+CREATE INDEX IF NOT EXISTS idx_decks_parent ON decks(parent_id);
+CREATE INDEX IF NOT EXISTS idx_decks_source ON decks(source_id);
 CREATE INDEX IF NOT EXISTS idx_progress_lesson ON progress(lesson_id);
 CREATE INDEX IF NOT EXISTS idx_progress_completed_at ON progress(completed_at);
 CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_card ON flashcard_reviews(flashcard_id);
@@ -118,6 +190,9 @@ CREATE TABLE IF NOT EXISTS summaries (
   output_token_count INTEGER,
   quality_score REAL,
   user_rating INTEGER CHECK (user_rating BETWEEN 1 AND 5),
+  page_start INTEGER, -- Source page range (paged documents)
+  page_end INTEGER,
+  prompt_template_id TEXT, -- Prompt template version that generated it
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -132,6 +207,8 @@ CREATE TABLE IF NOT EXISTS document_segments (
   section_title TEXT,
   level INTEGER DEFAULT 0,
   estimated_tokens INTEGER,
+  page_start INTEGER,
+  page_end INTEGER,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(source_id, segment_index)
 );
@@ -189,3 +266,103 @@ CREATE INDEX IF NOT EXISTS idx_collection_sources_source ON collection_sources(s
 CREATE INDEX IF NOT EXISTS idx_summary_concepts_summary ON summary_concepts(summary_id);
 CREATE INDEX IF NOT EXISTS idx_summary_concepts_normalized ON summary_concepts(concept_normalized);
 CREATE INDEX IF NOT EXISTS idx_summary_exports_summary ON summary_exports(summary_id);
+
+-- Background jobs (see services/job-queue.ts)
+CREATE TABLE IF NOT EXISTS jobs (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  subject_id TEXT NOT NULL, -- Source or collection id
+  payload TEXT NOT NULL, -- JSON
+  result TEXT, -- JSON
+  error TEXT,
+  progress INTEGER DEFAULT 0,
+  phase TEXT,
+  progress_current INTEGER,
+  progress_total INTEGER,
+  attempts INTEGER DEFAULT 0,
+  max_attempts INTEGER DEFAULT 3,
+  run_at TIMESTAMP NOT NULL,
+  started_at TIMESTAMP,
+  finished_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_subject ON jobs(subject_id);
+
+-- Outputs of completed pipeline steps, so retries skip finished LLM work
+-- (see services/checkpoints.ts)
+CREATE TABLE IF NOT EXISTS pipeline_checkpoints (
+  id TEXT PRIMARY KEY,
+  source_id TEXT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+  pipeline TEXT NOT NULL CHECK (pipeline IN ('lessons', 'summaries')),
+  step_key TEXT NOT NULL,
+  data TEXT NOT NULL, -- JSON output of the step
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(source_id, pipeline, step_key)
+);
+
+-- One row per LLM call, for cost reporting and the monthly budget
+-- (see services/ai-usage.ts). source_id has no foreign key so spend on
+-- deleted sources still counts.
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id TEXT PRIMARY KEY,
+  operation TEXT NOT NULL,
+  source_id TEXT,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  cache_status TEXT, -- 'hit' or 'miss' for cacheable calls, NULL otherwise
+  cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_source ON ai_usage(source_id);
+
+-- Responses of cacheable LLM calls, keyed by a hash of the request
+-- (see services/llm-cache.ts)
+CREATE TABLE IF NOT EXISTS llm_cache (
+  cache_key TEXT PRIMARY KEY,
+  model TEXT NOT NULL,
+  response TEXT NOT NULL, -- JSON
+  size_bytes INTEGER NOT NULL,
+  hit_count INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP NOT NULL,
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_cache_expires ON llm_cache(expires_at);
+CREATE INDEX IF NOT EXISTS idx_llm_cache_last_used ON llm_cache(last_used_at);
+
+-- Versions of the editable system prompts (see ai/prompt-templates.ts)
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  body TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN DEFAULT false,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(name, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_active ON prompt_templates(name, is_active);
+
+-- Learner-wide settings stored as JSON, e.g. FSRS parameters (see services/review-settings.ts)
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Applied schema migrations (see migrations/index.ts)
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  id TEXT PRIMARY KEY,
+  applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,100 @@
+// Client-side helpers for following background jobs. Progress is streamed from
+// GET /api/jobs/[id]/events, falling back to polling GET /api/jobs/[id].
+
+import { Job, JobProgressEvent } from '@/types/jobs';
+import { PollingIntervals } from '@/lib/constants';
+
+interface WaitForJobOptions {
+  // Called with every progress update
+  onUpdate?: (event: JobProgressEvent) => void;
+  // Stops following the job; the returned promise then rejects
+  signal?: AbortSignal;
+}
+
+function finish(event: JobProgressEvent): JobProgressEvent {
+  if (event.status === 'failed') throw new Error(event.error || 'Job failed');
+  return event;
+}
+
+/**
+ * Format an update for display, e.g. "Summarizing segment 3/9"
+ */
+export function formatJobPhase(event: JobProgressEvent): string {
+  if (event.status === 'queued') return 'Waiting to start';
+  return event.phase || 'Working';
+}
+
+/**
+ * Poll a job until it finishes
+ */
+async function pollJob(jobId: string, options: WaitForJobOptions): Promise<JobProgressEvent> {
+  const { onUpdate, signal } = options;
+
+  while (true) {
+    if (signal?.aborted) throw new Error('Stopped waiting for job');
+
+    const res = await fetch(`/api/jobs/${jobId}`, { signal });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to check job status');
+
+    const job = data.job as Job;
+    const event: JobProgressEvent = {
+      jobId: job.id,
+      status: job.status,
+      phase: job.phase,
+      current: job.progressCurrent,
+      total: job.progressTotal,
+      percent: job.progress,
+      error: job.error,
+      result: job.result,
+    };
+    onUpdate?.(event);
+
+    if (event.status === 'succeeded' || event.status === 'failed') return finish(event);
+
+    await new Promise((resolve) => setTimeout(resolve, PollingIntervals.PROCESSING_STATUS));
+  }
+}
+
+/**
+ * Follow a job until it finishes. Resolves with the final update and rejects
+ * with the job's error when it fails.
+ */
+export function waitForJob(jobId: string, options: WaitForJobOptions = {}): Promise<JobProgressEvent> {
+  const { onUpdate, signal } = options;
+  if (typeof EventSource === 'undefined') return pollJob(jobId, options);
+
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    const stop = () => {
+      source.close();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      stop();
+      reject(new Error('Stopped waiting for job'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as JobProgressEvent;
+      onUpdate?.(event);
+      if (event.status === 'succeeded' || event.status === 'failed') {
+        stop();
+        try {
+          resolve(finish(event));
+        } catch (error) {
+          reject(error);
+        }
+      }
+    };
+
+    // Streaming isn't available (e.g. a proxy buffers it): poll instead
+    source.onerror = () => {
+      if (source.readyState !== EventSource.CLOSED) return;
+      stop();
+      pollJob(jobId, options).then(resolve, reject);
+    };
+  });
+}
@@ -0,0 +1,84 @@
+// AI Usage Ledger
+// Records every LLM call with its tokens, latency and estimated cost, and
+// checks spend against the optional monthly budget
+
+import { recordAIUsage, getAISpendSince } from '@/lib/db/client';
+import { AI_CONFIG } from '@/config/ai-config';
+import { BudgetStatus } from '@/types/usage';
+import type { LLMProvider, LLMUsage } from '@/lib/ai/llm-provider';
+
+/**
+ * Estimated cost in USD of a call, from AI_CONFIG.usage.prices
+ */
+export function estimateCostUsd(model: string, usage: LLMUsage): number {
+  const prefix = Object.keys(AI_CONFIG.usage.prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!prefix) return 0;
+
+  const price = AI_CONFIG.usage.prices[prefix];
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Wrap a provider so each call is written to the ai_usage ledger. A failure
+ * to record is logged and never fails the call itself.
+ */
+export function withUsageTracking(provider: LLMProvider): LLMProvider {
+  return {
+    ...provider,
+    async complete(request) {
+      const startTime = Date.now();
+      const response = await provider.complete(request);
+
+      // Cache hits cost nothing
+      const usage = response.cacheStatus === 'hit' ? { inputTokens: 0, outputTokens: 0 } : response.usage;
+
+      await recordAIUsage({
+        operation: request.operation,
+        sourceId: request.sourceId,
+        provider: provider.name,
+        model: response.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        latencyMs: Date.now() - startTime,
+        costUsd: estimateCostUsd(response.model, usage),
+        cacheStatus: response.cacheStatus,
+      }).catch((error) => {
+        console.error('Failed to record AI usage:', error);
+      });
+
+      return response;
+    },
+  };
+}
+
+/**
+ * Start of the current calendar month (UTC)
+ */
+export function getMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * This month's spend against AI_CONFIG.usage.monthlyBudgetUsd
+ */
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+  const monthlyBudgetUsd = AI_CONFIG.usage.monthlyBudgetUsd;
+  const spentThisMonthUsd = await getAISpendSince(getMonthStart());
+
+  if (monthlyBudgetUsd === undefined || !Number.isFinite(monthlyBudgetUsd)) {
+    return { spentThisMonthUsd, exceeded: false };
+  }
+
+  return {
+    monthlyBudgetUsd,
+    spentThisMonthUsd,
+    remainingUsd: Math.max(monthlyBudgetUsd - spentThisMonthUsd, 0),
+    exceeded: spentThisMonthUsd >= monthlyBudgetUsd,
+  };
+}
+
+export function formatBudgetExceeded(budget: BudgetStatus): string {
+  return `Monthly AI budget of $${budget.monthlyBudgetUsd?.toFixed(2)} reached ($${budget.spentThisMonthUsd.toFixed(2)} spent). New AI work is paused until next month.`;
+}
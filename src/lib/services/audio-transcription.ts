@@ -0,0 +1,64 @@
+// Audio Transcription Pipeline
+// Turns an uploaded audio file into a timestamped transcript on its source
+
+import { updateSourceStatus, updateSourceRawText } from '@/lib/db/client';
+import { formatTranscriptText } from './transcript';
+import { resolveUploadedFile } from './file-storage';
+import { getTranscriber, Transcriber } from './transcriber';
+
+// Only write progress to the database when it moves by at least this much
+const PROGRESS_STEP = 5;
+
+/**
+ * Transcribe an audio source, reporting progress through the source's
+ * `extracting` status. On success the transcript (one `[m:ss]` line per
+ * segment) becomes the source's raw text and the source returns to `pending`
+ * so it can be processed into lessons. On failure the source is marked
+ * `error` and the error is rethrown.
+ */
+export async function transcribeAudioSource(
+  sourceId: string,
+  filePath: string,
+  options: {
+    language?: string;
+    transcriber?: Transcriber;
+    onProgress?: (percent: number) => Promise<void>;
+  } = {}
+): Promise<void> {
+  const transcriber = options.transcriber || getTranscriber();
+  let lastReported = 0;
+
+  try {
+    await updateSourceStatus(sourceId, 'extracting', 0);
+
+    const cues = await transcriber.transcribe(resolveUploadedFile(filePath), {
+      language: options.language,
+      onProgress: (percent) => {
+        if (percent - lastReported < PROGRESS_STEP) return;
+        lastReported = percent;
+        Promise.all([
+          updateSourceStatus(sourceId, 'extracting', Math.min(percent, 99)),
+          options.onProgress?.(percent),
+        ]).catch((error) => {
+          console.error('Failed to record transcription progress:', error);
+        });
+      },
+    });
+
+    if (cues.length === 0) {
+      throw new Error('No speech was detected in the recording');
+    }
+
+    await updateSourceRawText(sourceId, formatTranscriptText(cues));
+    await updateSourceStatus(sourceId, 'pending', 0);
+  } catch (error) {
+    console.error('Audio transcription error:', error);
+    await updateSourceStatus(
+      sourceId,
+      'error',
+      0,
+      error instanceof Error ? error.message : 'Transcription failed'
+    );
+    throw error;
+  }
+}
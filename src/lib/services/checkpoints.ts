@@ -0,0 +1,66 @@
+// Pipeline Checkpoints
+// Records the output of each completed LLM step (segment lessons, segment
+// summaries, ...) so a retried job reuses it instead of paying for it again.
+// Checkpoints are cleared once the whole pipeline has succeeded.
+
+import { createHash } from 'crypto';
+import { getCheckpoints, saveCheckpoint, deleteCheckpoints } from '@/lib/db/client';
+import { CheckpointPipeline } from '@/types/jobs';
+
+export interface CheckpointStore {
+  // Number of steps already completed
+  readonly size: number;
+  get<T>(key: string): T | undefined;
+  set(key: string, value: unknown): Promise<void>;
+}
+
+/**
+ * Load the completed steps of a source's pipeline
+ */
+export async function loadCheckpoints(
+  sourceId: string,
+  pipeline: CheckpointPipeline
+): Promise<CheckpointStore> {
+  const steps = await getCheckpoints(sourceId, pipeline);
+
+  return {
+    get size() {
+      return steps.size;
+    },
+    get<T>(key: string) {
+      return steps.get(key) as T | undefined;
+    },
+    async set(key, value) {
+      await saveCheckpoint(sourceId, pipeline, key, value);
+      steps.set(key, value);
+    },
+  };
+}
+
+export async function clearCheckpoints(sourceId: string, pipeline: CheckpointPipeline): Promise<void> {
+  await deleteCheckpoints(sourceId, pipeline);
+}
+
+/**
+ * Key for a step that includes a hash of its input, so a checkpoint is only
+ * reused when the step would see exactly the same input
+ */
+export function getStepKey(step: string, input: string): string {
+  return `${step}:${createHash('sha256').update(input).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Run a step unless its output is already checkpointed, saving it afterwards
+ */
+export async function runCheckpointed<T>(
+  store: CheckpointStore | undefined,
+  key: string,
+  step: () => Promise<T>
+): Promise<T> {
+  const saved = store?.get<T>(key);
+  if (saved !== undefined) return saved;
+
+  const result = await step();
+  await store?.set(key, result);
+  return result;
+}
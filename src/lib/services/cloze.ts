@@ -0,0 +1,61 @@
+// Cloze Deletions
+// Parses and renders fill-in-the-blank text in Anki's syntax:
+// "The {{c1::mitochondria}} is the {{c2::powerhouse::energy}} of the cell".
+// Each deletion number becomes its own card; an optional third part is a hint
+// shown in the blank.
+
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export interface ClozeSegment {
+  text: string;
+  // Set on the deletion the card asks for
+  blank?: boolean;
+}
+
+/**
+ * Deletion numbers used in the text, ascending
+ */
+export function getClozeIndexes(text: string): number[] {
+  const indexes = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const index = Number(match[1]);
+    if (index > 0 && match[2].trim()) indexes.add(index);
+  }
+  return [...indexes].sort((a, b) => a - b);
+}
+
+export function hasClozeDeletions(text: string): boolean {
+  return getClozeIndexes(text).length > 0;
+}
+
+/**
+ * Split the text for the card asking for deletion `index`. Other deletions
+ * show their answer. The asked-for one shows "[...]" (or its hint) until
+ * revealed, then its answer, flagged so it can be highlighted.
+ */
+export function renderCloze(text: string, index: number, revealed: boolean): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const [whole, number, answer, hint] = match;
+    if (match.index > last) segments.push({ text: text.slice(last, match.index) });
+    last = match.index + whole.length;
+
+    if (Number(number) !== index) {
+      segments.push({ text: answer });
+    } else {
+      segments.push({ text: revealed ? answer : `[${hint?.trim() || '...'}]`, blank: true });
+    }
+  }
+
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+}
+
+/**
+ * The card as plain text, for previews and exports
+ */
+export function formatCloze(text: string, index: number, revealed: boolean = false): string {
+  return renderCloze(text, index, revealed).map((segment) => segment.text).join('');
+}
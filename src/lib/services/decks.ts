@@ -0,0 +1,66 @@
+// Decks
+// Decks nest through their parentId. These helpers work on the flat list of
+// decks, so the review screen can use them as well as the API.
+
+import { Deck } from '@/types';
+
+export interface DeckNode {
+  deck: Deck;
+  depth: number; // 0 for top-level decks
+}
+
+/**
+ * Decks in tree order, each followed by its subdecks, siblings by name.
+ * A deck whose parent is gone is shown at the top level.
+ */
+export function flattenDeckTree(decks: Deck[]): DeckNode[] {
+  const ids = new Set(decks.map((deck) => deck.id));
+  const children = new Map<string, Deck[]>();
+  for (const deck of decks) {
+    const parentId = deck.parentId && ids.has(deck.parentId) ? deck.parentId : '';
+    if (!children.has(parentId)) children.set(parentId, []);
+    children.get(parentId)!.push(deck);
+  }
+
+  const nodes: DeckNode[] = [];
+  const visit = (parentId: string, depth: number) => {
+    const siblings = (children.get(parentId) ?? []).sort((a, b) => a.name.localeCompare(b.name));
+    for (const deck of siblings) {
+      nodes.push({ deck, depth });
+      visit(deck.id, depth + 1);
+    }
+  };
+  visit('', 0);
+  return nodes;
+}
+
+/**
+ * The ids of the deck and all of its subdecks
+ */
+export function getSubdeckIds(decks: Pick<Deck, 'id' | 'parentId'>[], deckId: string): Set<string> {
+  const ids = new Set([deckId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const deck of decks) {
+      if (deck.parentId && ids.has(deck.parentId) && !ids.has(deck.id)) {
+        ids.add(deck.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Why a deck can't be put under a parent, or null if it can
+ */
+export function getDeckParentError(
+  decks: Pick<Deck, 'id' | 'parentId'>[],
+  deckId: string,
+  parentId: string
+): string | null {
+  if (!decks.some((deck) => deck.id === parentId)) return 'Parent deck not found';
+  if (getSubdeckIds(decks, deckId).has(parentId)) return 'A deck cannot be put inside itself or one of its subdecks';
+  return null;
+}
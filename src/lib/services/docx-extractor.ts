@@ -0,0 +1,33 @@
+// DOCX Extraction Service
+// Word "Heading 1-6" paragraph styles become Markdown headings
+
+import mammoth from 'mammoth';
+import JSZip from 'jszip';
+import type { ExtractedContent } from './extractor-registry';
+import { buildMarkdownContent } from './markdown-extractor';
+import { htmlToMarkdown } from './html-extractor';
+
+/**
+ * Read a Dublin Core field from docProps/core.xml
+ */
+function readCoreProperty(coreXml: string, tag: string): string | undefined {
+  const match = coreXml.match(new RegExp(`<${tag}[^>]*>([^<]*)</${tag}>`));
+  const value = match?.[1].trim();
+  return value || undefined;
+}
+
+/**
+ * Extract content from a Word document
+ */
+export async function extractDocxText(buffer: Buffer): Promise<ExtractedContent> {
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+
+  const zip = await JSZip.loadAsync(buffer);
+  const coreXml = (await zip.file('docProps/core.xml')?.async('string')) || '';
+
+  return buildMarkdownContent(htmlToMarkdown(html), {
+    title: readCoreProperty(coreXml, 'dc:title'),
+    author: readCoreProperty(coreXml, 'dc:creator'),
+    subject: readCoreProperty(coreXml, 'dc:subject'),
+  });
+}
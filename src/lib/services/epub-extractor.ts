@@ -0,0 +1,84 @@
+// EPUB Extraction Service
+// Reads chapters in spine (reading) order; each chapter is one entry in `pages`
+
+import JSZip from 'jszip';
+import path from 'path';
+import { DOMParser, parseHTML } from 'linkedom';
+import type { ExtractedContent } from './extractor-registry';
+import { buildMarkdownContent, normalizeMarkdown } from './markdown-extractor';
+import { htmlToMarkdown } from './html-extractor';
+
+const CHAPTER_MEDIA_TYPES = ['application/xhtml+xml', 'text/html'];
+
+/**
+ * Read a file from the archive, failing with a clear message when missing
+ */
+async function readEntry(zip: JSZip, entryPath: string): Promise<string> {
+  const entry = zip.file(entryPath);
+  if (!entry) {
+    throw new Error(`Invalid EPUB: missing ${entryPath}`);
+  }
+  return entry.async('string');
+}
+
+function getFirstText(doc: ReturnType<DOMParser['parseFromString']>, tagName: string): string | undefined {
+  const text = doc.getElementsByTagName(tagName)[0]?.textContent?.trim();
+  return text || undefined;
+}
+
+/**
+ * Extract content from an EPUB book
+ */
+export async function extractEpubText(buffer: Buffer): Promise<ExtractedContent> {
+  const zip = await JSZip.loadAsync(buffer);
+  const parser = new DOMParser();
+
+  // META-INF/container.xml points at the OPF package document
+  const container = parser.parseFromString(await readEntry(zip, 'META-INF/container.xml'), 'text/xml');
+  const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) {
+    throw new Error('Invalid EPUB: no package document');
+  }
+
+  const opf = parser.parseFromString(await readEntry(zip, opfPath), 'text/xml');
+  const opfDir = path.posix.dirname(opfPath);
+
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  for (const item of Array.from(opf.getElementsByTagName('item'))) {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) {
+      manifest.set(id, { href, mediaType: item.getAttribute('media-type') || '' });
+    }
+  }
+
+  const chapters: string[] = [];
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    const item = manifest.get(itemref.getAttribute('idref') || '');
+    if (!item || !CHAPTER_MEDIA_TYPES.includes(item.mediaType)) continue;
+
+    const chapterPath = path.posix.normalize(path.posix.join(opfDir, decodeURIComponent(item.href)));
+    const entry = zip.file(chapterPath);
+    if (!entry) continue;
+
+    const { document } = parseHTML(await entry.async('string'));
+    const markdown = normalizeMarkdown(htmlToMarkdown(document.body ? document.body.innerHTML : ''));
+    if (markdown) {
+      chapters.push(markdown);
+    }
+  }
+
+  if (chapters.length === 0) {
+    throw new Error('No readable chapters found in EPUB');
+  }
+
+  return buildMarkdownContent(
+    chapters.join('\n\n'),
+    {
+      title: getFirstText(opf, 'dc:title'),
+      author: getFirstText(opf, 'dc:creator'),
+      subject: getFirstText(opf, 'dc:subject') || getFirstText(opf, 'dc:description'),
+    },
+    chapters
+  );
+}
@@ -0,0 +1,114 @@
+// Document Extractor Registry
+// Picks the text extractor for an uploaded file by extension or MIME type
+
+import { DocumentHeading, PageRange, SourceType } from '@/types';
+import { extractPdfText, cleanExtractedText } from './pdf-extractor';
+import { extractEpubText } from './epub-extractor';
+import { extractDocxText } from './docx-extractor';
+import { extractHtmlText } from './html-extractor';
+import { extractMarkdownText } from './markdown-extractor';
+import { buildPageMap } from './page-map';
+
+export interface ExtractedContent {
+  text: string;
+  pageCount: number;
+  metadata: {
+    title?: string;
+    author?: string;
+    subject?: string;
+    creator?: string;
+  };
+  // Pages for PDFs, chapters for EPUBs, the whole text otherwise
+  pages: string[];
+  // Headings from the document's own structure, with offsets into `text`
+  headings?: DocumentHeading[];
+  // Where each page of a paged document (PDF) lands in `text`
+  pageMap?: PageRange[];
+}
+
+export interface DocumentExtractor {
+  sourceType: SourceType;
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  extract(buffer: Buffer): Promise<ExtractedContent>;
+}
+
+const extractors: DocumentExtractor[] = [
+  {
+    sourceType: 'pdf',
+    label: 'PDF',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+    async extract(buffer) {
+      const extracted = await extractPdfText(buffer);
+      // Clean page by page so offsets can be mapped back to pages
+      const pages = extracted.pages.map(cleanExtractedText);
+      const { text, pageMap } = buildPageMap(pages);
+      return { ...extracted, text, pages, pageMap };
+    },
+  },
+  {
+    sourceType: 'epub',
+    label: 'EPUB',
+    extensions: ['.epub'],
+    mimeTypes: ['application/epub+zip'],
+    extract: extractEpubText,
+  },
+  {
+    sourceType: 'docx',
+    label: 'Word',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extract: extractDocxText,
+  },
+  {
+    sourceType: 'html',
+    label: 'HTML',
+    extensions: ['.html', '.htm', '.xhtml'],
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extract: extractHtmlText,
+  },
+  {
+    sourceType: 'markdown',
+    label: 'Markdown',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    extract: extractMarkdownText,
+  },
+];
+
+/**
+ * Register an additional extractor. Later registrations take precedence.
+ */
+export function registerExtractor(extractor: DocumentExtractor): void {
+  extractors.unshift(extractor);
+}
+
+/**
+ * Find the extractor for a file. The extension wins over the MIME type
+ * because browsers report many of these formats inconsistently.
+ */
+export function findExtractor(file: { fileName: string; mimeType?: string }): DocumentExtractor | null {
+  const name = file.fileName.toLowerCase();
+  const byExtension = extractors.find((e) => e.extensions.some((ext) => name.endsWith(ext)));
+  if (byExtension) return byExtension;
+
+  const mimeType = file.mimeType?.split(';')[0].trim().toLowerCase();
+  return (mimeType && extractors.find((e) => e.mimeTypes.includes(mimeType))) || null;
+}
+
+/**
+ * All file extensions with a registered extractor (for `accept` attributes
+ * and error messages)
+ */
+export function getSupportedExtensions(): string[] {
+  return extractors.flatMap((e) => e.extensions);
+}
+
+/**
+ * Human-readable names of the supported formats
+ */
+export function getSupportedFormatLabels(): string[] {
+  return extractors.map((e) => e.label);
+}
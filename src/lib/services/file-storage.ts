@@ -0,0 +1,58 @@
+// Uploaded File Storage
+// Keeps original uploads on local disk next to the SQLite database
+
+import fs from 'fs';
+import path from 'path';
+import { nanoid } from 'nanoid';
+
+const UPLOADS_DIR = path.join(process.cwd(), 'data', 'uploads');
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+};
+
+/**
+ * Save an uploaded file and return its path relative to the uploads directory
+ */
+export async function saveUploadedFile(buffer: Buffer, extension: string): Promise<string> {
+  await fs.promises.mkdir(UPLOADS_DIR, { recursive: true });
+  const fileName = `${nanoid()}${extension.startsWith('.') ? extension : `.${extension}`}`;
+  await fs.promises.writeFile(path.join(UPLOADS_DIR, fileName), buffer);
+  return fileName;
+}
+
+/**
+ * Resolve a stored file path to an absolute path, refusing paths that
+ * escape the uploads directory
+ */
+export function resolveUploadedFile(filePath: string): string {
+  const resolved = path.resolve(UPLOADS_DIR, filePath);
+  if (!resolved.startsWith(UPLOADS_DIR + path.sep)) {
+    throw new Error('Invalid upload path');
+  }
+  return resolved;
+}
+
+/**
+ * Get the lowercase extension (with dot) of a file name
+ */
+export function getFileExtension(fileName: string): string {
+  return path.extname(fileName).toLowerCase();
+}
+
+/**
+ * Get the Content-Type to serve a stored file with
+ */
+export function getUploadedFileMimeType(filePath: string): string {
+  return MIME_TYPES[getFileExtension(filePath)] || 'application/octet-stream';
+}
+
+/**
+ * Remove a stored file, ignoring files that are already gone
+ */
+export async function deleteUploadedFile(filePath: string): Promise<void> {
+  await fs.promises.rm(resolveUploadedFile(filePath), { force: true });
+}
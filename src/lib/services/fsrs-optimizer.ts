@@ -0,0 +1,167 @@
+// FSRS Optimizer
+// Fits the FSRS weights to the learner's own review history by minimizing
+// the log-loss of the recall probability predicted before each review.
+// Gradients are estimated numerically, which is plenty fast for one
+// learner's history and keeps the model code in fsrs.ts the only copy.
+
+import { REVIEW_CONFIG } from '@/config/review-config';
+import { FSRSEvaluation, FSRSOptimizationResult, ReviewLogEntry } from '@/types/review';
+import { FSRSReview, MemoryState, getElapsedDays, getNextMemoryState, getRetrievability, sm2RatingToGrade } from './fsrs';
+
+// Range each weight is kept in while fitting (same as the reference FSRS optimizer)
+const WEIGHT_BOUNDS: [number, number][] = [
+  [0.001, 100], [0.001, 100], [0.001, 100], [0.001, 100],
+  [1, 10], [0.001, 4], [0.001, 4], [0.001, 0.75],
+  [0, 4.5], [0, 0.8], [0.001, 3.5], [0.001, 5],
+  [0.001, 0.25], [0.001, 0.9], [0, 4], [0, 1],
+  [1, 6], [0, 2], [0, 2],
+];
+
+const EPSILON = 1e-4; // Keeps predicted probabilities away from 0 and 1
+const GRADIENT_STEP = 1e-4; // In normalized weight space
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+
+export interface OptimizeOptions {
+  iterations?: number;
+  onProgress?: (completed: number, total: number) => Promise<void> | void;
+}
+
+/**
+ * Split the review log into per-card histories, oldest review first
+ */
+export function groupReviewLog(log: ReviewLogEntry[]): FSRSReview[][] {
+  const histories = new Map<string, FSRSReview[]>();
+  for (const entry of log) {
+    if (!histories.has(entry.flashcardId)) histories.set(entry.flashcardId, []);
+    histories.get(entry.flashcardId)!.push({ grade: sm2RatingToGrade(entry.rating), reviewedAt: entry.reviewedAt });
+  }
+
+  return [...histories.values()].map((reviews) =>
+    reviews.sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime())
+  );
+}
+
+/**
+ * Score how well weights predict the history. Only reviews a day or more
+ * after the previous one are scored; same-day reviews update memory state
+ * but the model doesn't predict their outcome. Any grade above "again"
+ * counts as recalled.
+ */
+export function evaluateFSRSWeights(histories: FSRSReview[][], weights: number[]): FSRSEvaluation {
+  let logLossSum = 0;
+  let squaredErrorSum = 0;
+  let reviewCount = 0;
+
+  for (const reviews of histories) {
+    let state: MemoryState | undefined;
+    let lastReviewedAt: Date | undefined;
+
+    for (const review of reviews) {
+      const elapsedDays = getElapsedDays(lastReviewedAt, review.reviewedAt);
+
+      if (state && elapsedDays >= 1) {
+        const predicted = Math.min(Math.max(getRetrievability(elapsedDays, state.stability), EPSILON), 1 - EPSILON);
+        const recalled = review.grade > 1 ? 1 : 0;
+        logLossSum -= recalled * Math.log(predicted) + (1 - recalled) * Math.log(1 - predicted);
+        squaredErrorSum += (predicted - recalled) ** 2;
+        reviewCount++;
+      }
+
+      state = getNextMemoryState(state, review.grade, elapsedDays, weights);
+      lastReviewedAt = review.reviewedAt;
+    }
+  }
+
+  return {
+    logLoss: reviewCount > 0 ? logLossSum / reviewCount : 0,
+    rmse: reviewCount > 0 ? Math.sqrt(squaredErrorSum / reviewCount) : 0,
+    reviewCount,
+  };
+}
+
+function normalize(weights: number[]): number[] {
+  return weights.map((weight, i) => {
+    const [min, max] = WEIGHT_BOUNDS[i];
+    return (Math.min(Math.max(weight, min), max) - min) / (max - min);
+  });
+}
+
+function denormalize(values: number[]): number[] {
+  return values.map((value, i) => {
+    const [min, max] = WEIGHT_BOUNDS[i];
+    return min + Math.min(Math.max(value, 0), 1) * (max - min);
+  });
+}
+
+/**
+ * Fit weights to the history with Adam, starting from `initialWeights`.
+ * Returns the best weights seen, so `after` is never worse than `before`.
+ */
+export async function optimizeFSRSWeights(
+  log: ReviewLogEntry[],
+  initialWeights: number[],
+  options: OptimizeOptions = {}
+): Promise<FSRSOptimizationResult> {
+  const { minReviews, learningRate } = REVIEW_CONFIG.fsrs.optimizer;
+  const iterations = options.iterations ?? REVIEW_CONFIG.fsrs.optimizer.iterations;
+
+  const histories = groupReviewLog(log);
+  const before = evaluateFSRSWeights(histories, initialWeights);
+  if (before.reviewCount < minReviews) {
+    throw new Error(
+      `Need at least ${minReviews} reviews made a day or more after the previous one to optimize (have ${before.reviewCount})`
+    );
+  }
+
+  const lossAt = (values: number[]) => evaluateFSRSWeights(histories, denormalize(values)).logLoss;
+
+  let values = normalize(initialWeights);
+  let bestValues = values;
+  let bestLoss = lossAt(values);
+  const firstMoment = new Array(values.length).fill(0);
+  const secondMoment = new Array(values.length).fill(0);
+
+  for (let iteration = 1; iteration <= iterations; iteration++) {
+    const gradient = values.map((_, i) => {
+      const up = [...values];
+      const down = [...values];
+      up[i] += GRADIENT_STEP;
+      down[i] -= GRADIENT_STEP;
+      return (lossAt(up) - lossAt(down)) / (2 * GRADIENT_STEP);
+    });
+
+    values = values.map((value, i) => {
+      firstMoment[i] = ADAM_BETA1 * firstMoment[i] + (1 - ADAM_BETA1) * gradient[i];
+      secondMoment[i] = ADAM_BETA2 * secondMoment[i] + (1 - ADAM_BETA2) * gradient[i] ** 2;
+      const correctedFirst = firstMoment[i] / (1 - ADAM_BETA1 ** iteration);
+      const correctedSecond = secondMoment[i] / (1 - ADAM_BETA2 ** iteration);
+      const step = (learningRate * correctedFirst) / (Math.sqrt(correctedSecond) + 1e-8);
+      return Math.min(Math.max(value - step, 0), 1);
+    });
+
+    const loss = lossAt(values);
+    if (loss < bestLoss) {
+      bestLoss = loss;
+      bestValues = values;
+    }
+
+    // Let other requests through between iterations
+    await new Promise((resolve) => setImmediate(resolve));
+    if (iteration % 10 === 0 || iteration === iterations) {
+      await options.onProgress?.(iteration, iterations);
+    }
+  }
+
+  const weights = denormalize(bestValues);
+  const after = evaluateFSRSWeights(histories, weights);
+
+  return {
+    weights,
+    before,
+    after,
+    improved: after.logLoss < before.logLoss,
+    cardCount: histories.length,
+    iterations,
+  };
+}
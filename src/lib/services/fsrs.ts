@@ -0,0 +1,162 @@
+// FSRS (Free Spaced Repetition Scheduler) v5
+// Models each card's memory with a stability (days until recall probability
+// drops to 90%) and a difficulty (1-10), and schedules the next review for
+// when recall probability reaches the requested retention.
+// See https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
+
+import { FlashcardRating } from '@/types';
+import { FSRSParameters } from '@/types/review';
+import { REVIEW_CONFIG } from '@/config/review-config';
+import type { SimpleRating } from './sm2';
+
+// 1 = again, 2 = hard, 3 = good, 4 = easy
+export type FSRSGrade = 1 | 2 | 3 | 4;
+
+export interface MemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+export interface FSRSReview {
+  grade: FSRSGrade;
+  reviewedAt: Date;
+}
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Makes R = 90% when elapsed days equal stability
+const MIN_STABILITY = 0.01;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clampDifficulty = (difficulty: number) => Math.min(Math.max(difficulty, 1), 10);
+
+/**
+ * Weights and retention from REVIEW_CONFIG, used until the learner's own are saved
+ */
+export function getDefaultFSRSParameters(): FSRSParameters {
+  return { weights: [...REVIEW_CONFIG.fsrs.weights], requestRetention: REVIEW_CONFIG.fsrs.requestRetention };
+}
+
+export function toFSRSGrade(rating: SimpleRating): FSRSGrade {
+  switch (rating) {
+    case 'again':
+      return 1;
+    case 'hard':
+      return 2;
+    case 'good':
+      return 3;
+    case 'easy':
+      return 4;
+  }
+}
+
+/**
+ * Grade of a review stored on the SM-2 scale ("Again" 0-1, "Hard" 2-3,
+ * "Good" 4, "Easy" 5)
+ */
+export function sm2RatingToGrade(rating: FlashcardRating): FSRSGrade {
+  if (rating <= 1) return 1;
+  if (rating <= 3) return 2;
+  return rating === 4 ? 3 : 4;
+}
+
+/**
+ * Probability of recalling a card `elapsedDays` after its last review
+ */
+export function getRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FACTOR * Math.max(elapsedDays, 0)) / stability, DECAY);
+}
+
+function getInitialDifficulty(grade: FSRSGrade, w: number[]): number {
+  return w[4] - Math.exp(w[5] * (grade - 1)) + 1;
+}
+
+function getNextDifficulty(difficulty: number, grade: FSRSGrade, w: number[]): number {
+  const delta = -w[6] * (grade - 3);
+  const damped = difficulty + (delta * (10 - difficulty)) / 9;
+  // Mean reversion towards the difficulty of a card first rated "easy"
+  return clampDifficulty(w[7] * getInitialDifficulty(4, w) + (1 - w[7]) * damped);
+}
+
+/**
+ * Memory state after a review. `elapsedDays` is the time since the previous
+ * review; reviews on the same day use the short-term stability formula.
+ */
+export function getNextMemoryState(
+  state: MemoryState | undefined,
+  grade: FSRSGrade,
+  elapsedDays: number,
+  w: number[] = REVIEW_CONFIG.fsrs.weights
+): MemoryState {
+  if (!state) {
+    return {
+      stability: Math.max(w[grade - 1], MIN_STABILITY),
+      difficulty: clampDifficulty(getInitialDifficulty(grade, w)),
+    };
+  }
+
+  const { stability, difficulty } = state;
+  const nextDifficulty = getNextDifficulty(difficulty, grade, w);
+
+  if (elapsedDays < 1) {
+    return {
+      stability: Math.max(stability * Math.exp(w[17] * (grade - 3 + w[18])), MIN_STABILITY),
+      difficulty: nextDifficulty,
+    };
+  }
+
+  const retrievability = getRetrievability(elapsedDays, stability);
+  let nextStability: number;
+  if (grade === 1) {
+    const forgetStability = w[11]
+      * Math.pow(difficulty, -w[12])
+      * (Math.pow(stability + 1, w[13]) - 1)
+      * Math.exp((1 - retrievability) * w[14]);
+    nextStability = Math.min(forgetStability, stability);
+  } else {
+    const hardPenalty = grade === 2 ? w[15] : 1;
+    const easyBonus = grade === 4 ? w[16] : 1;
+    nextStability = stability * (1
+      + Math.exp(w[8])
+      * (11 - difficulty)
+      * Math.pow(stability, -w[9])
+      * (Math.exp((1 - retrievability) * w[10]) - 1)
+      * hardPenalty
+      * easyBonus);
+  }
+
+  return { stability: Math.max(nextStability, MIN_STABILITY), difficulty: nextDifficulty };
+}
+
+/**
+ * Whole days until recall probability falls to the requested retention
+ */
+export function getIntervalDays(
+  stability: number,
+  requestRetention: number = REVIEW_CONFIG.fsrs.requestRetention,
+  maximumIntervalDays: number = REVIEW_CONFIG.fsrs.maximumIntervalDays
+): number {
+  const interval = (stability / FACTOR) * (Math.pow(requestRetention, 1 / DECAY) - 1);
+  return Math.min(Math.max(Math.round(interval), 1), maximumIntervalDays);
+}
+
+export function getElapsedDays(from: Date | string | undefined, to: Date): number {
+  return from ? (to.getTime() - new Date(from).getTime()) / DAY_MS : 0;
+}
+
+/**
+ * Memory state after a card's review history, oldest review first
+ */
+export function replayReviews(
+  reviews: FSRSReview[],
+  w: number[] = REVIEW_CONFIG.fsrs.weights
+): (MemoryState & { lastReviewedAt: Date }) | undefined {
+  let state: MemoryState | undefined;
+  let lastReviewedAt: Date | undefined;
+
+  for (const review of reviews) {
+    state = getNextMemoryState(state, review.grade, getElapsedDays(lastReviewedAt, review.reviewedAt), w);
+    lastReviewedAt = review.reviewedAt;
+  }
+
+  return state && lastReviewedAt ? { ...state, lastReviewedAt } : undefined;
+}
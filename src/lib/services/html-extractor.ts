@@ -0,0 +1,70 @@
+// HTML Extraction Service
+// Converts saved web pages (and HTML produced by other extractors) to Markdown
+// so that h1-h6 elements survive as real headings
+
+import TurndownService from 'turndown';
+import { parseHTML } from 'linkedom';
+import type { ExtractedContent } from './extractor-registry';
+import { buildMarkdownContent } from './markdown-extractor';
+
+// Elements that never carry study content
+const NON_CONTENT_TAGS = ['script', 'style', 'noscript', 'iframe', 'svg', 'canvas', 'form', 'button', 'nav', 'footer'];
+
+let turndown: TurndownService | null = null;
+
+function getTurndown(): TurndownService {
+  if (!turndown) {
+    turndown = new TurndownService({
+      headingStyle: 'atx',
+      codeBlockStyle: 'fenced',
+      bulletListMarker: '-',
+      emDelimiter: '*',
+    });
+    turndown.remove(NON_CONTENT_TAGS as TurndownService.Filter);
+    // Images carry no text for lessons; keep their alt text only
+    turndown.addRule('imageAlt', {
+      filter: 'img',
+      replacement: (_content, node) => {
+        const alt = (node as HTMLElement).getAttribute('alt');
+        return alt ? alt : '';
+      },
+    });
+  }
+  return turndown;
+}
+
+/**
+ * Convert an HTML fragment or document to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  return getTurndown().turndown(html);
+}
+
+/**
+ * Read the content of a <meta name|property="..."> tag
+ */
+function getMetaContent(document: Document, names: string[]): string | undefined {
+  for (const name of names) {
+    const element = document.querySelector(`meta[name="${name}"], meta[property="${name}"]`);
+    const content = element?.getAttribute('content')?.trim();
+    if (content) return content;
+  }
+  return undefined;
+}
+
+/**
+ * Extract content from a saved HTML page
+ */
+export async function extractHtmlText(buffer: Buffer): Promise<ExtractedContent> {
+  const { document } = parseHTML(buffer.toString('utf-8'));
+
+  const title = document.querySelector('title')?.textContent?.trim()
+    || getMetaContent(document, ['og:title']);
+  const body = document.querySelector('main') || document.body;
+
+  return buildMarkdownContent(htmlToMarkdown(body ? body.innerHTML : ''), {
+    title: title || undefined,
+    author: getMetaContent(document, ['author', 'article:author']),
+    subject: getMetaContent(document, ['description', 'og:description']),
+  });
+}
@@ -0,0 +1,49 @@
+// Job Progress Events
+// In-process pub/sub between the job worker and GET /api/jobs/[id]/events
+
+import { EventEmitter } from 'events';
+import { Job, JobProgressEvent } from '@/types/jobs';
+
+// Kept on globalThis so route handlers and the worker share one emitter
+// across dev-mode module reloads
+const globalForJobEvents = globalThis as typeof globalThis & { jobEvents?: EventEmitter };
+
+function getEmitter(): EventEmitter {
+  if (!globalForJobEvents.jobEvents) {
+    globalForJobEvents.jobEvents = new EventEmitter();
+    // One listener per open progress stream
+    globalForJobEvents.jobEvents.setMaxListeners(0);
+  }
+  return globalForJobEvents.jobEvents;
+}
+
+/**
+ * Convert a stored job into the event sent to progress streams
+ */
+export function toJobProgressEvent(job: Job): JobProgressEvent {
+  return {
+    jobId: job.id,
+    status: job.status,
+    phase: job.phase,
+    current: job.progressCurrent,
+    total: job.progressTotal,
+    percent: job.progress,
+    error: job.error,
+    result: job.result,
+  };
+}
+
+export function publishJobEvent(event: JobProgressEvent): void {
+  getEmitter().emit(event.jobId, event);
+}
+
+/**
+ * Listen for events of one job. Returns the unsubscribe function.
+ */
+export function subscribeToJob(jobId: string, listener: (event: JobProgressEvent) => void): () => void {
+  const emitter = getEmitter();
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
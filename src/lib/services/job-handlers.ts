@@ -0,0 +1,349 @@
+// Background Job Handlers
+// The pipelines behind each job type. Each handler re-reads what it needs from
+// the database and reuses checkpointed steps, so a retried attempt only redoes
+// the work that failed.
+
+import {
+  getSource,
+  updateSourceStatus,
+  createMicroLessons,
+  createNotes,
+  getMicroLessons,
+  getSummariesBySource,
+  createSummaries,
+  createSummary,
+  createDocumentSegments,
+  deleteDocumentSegments,
+  getCollection,
+  getCollectionSources,
+  getFlashcardReviewLog,
+  getMicroLesson,
+  getFlashcardsByLesson,
+  getFlashcard,
+} from '@/lib/db/client';
+import { chunkContent, generateFlashcardsForLesson, FlashcardFormat } from '@/lib/ai/chunker';
+import { suggestLeechRewrite } from '@/lib/ai/card-rewriter';
+import { withCards } from './notes';
+import { generateHierarchicalSummaries } from '@/lib/ai/summarizer';
+import { aggregateSummaries, generateAggregatedSummary } from '@/lib/ai/aggregator';
+import { JobType } from '@/types/jobs';
+import { LeechRewriteMode } from '@/types';
+import { Summary, AggregatedSummary, CreateSummaryInput } from '@/types/summaries';
+import { transcribeAudioSource } from './audio-transcription';
+import { loadCheckpoints, clearCheckpoints } from './checkpoints';
+import { optimizeFSRSWeights } from './fsrs-optimizer';
+import { getFSRSParameters } from './review-settings';
+import type { JobHandler } from './job-queue';
+
+// ============================================================================
+// Transcription
+// ============================================================================
+
+const transcribeAudio: JobHandler = {
+  // Local transcription failures are not transient
+  maxAttempts: 1,
+  async run(payload, ctx) {
+    await transcribeAudioSource(payload.sourceId as string, payload.filePath as string, {
+      language: payload.language as string | undefined,
+      onProgress: (percent) => ctx.reportProgress({ phase: 'Transcribing audio', percent }),
+    });
+  },
+};
+
+// ============================================================================
+// Lesson generation
+// ============================================================================
+
+const processSource: JobHandler = {
+  maxAttempts: 3,
+  async run(payload, ctx) {
+    const sourceId = payload.sourceId as string;
+    const source = await getSource(sourceId);
+    if (!source?.rawText) {
+      throw new Error('Source has no text content to process');
+    }
+
+    // Steps finished by an earlier attempt; none left means nothing was interrupted
+    const checkpoints = await loadCheckpoints(sourceId, 'lessons');
+    const existingLessons = await getMicroLessons(sourceId);
+    if (existingLessons.length > 0 && checkpoints.size === 0) {
+      await updateSourceStatus(sourceId, 'complete', 100);
+      return { lessonCount: existingLessons.length };
+    }
+
+    await updateSourceStatus(sourceId, 'chunking', 10);
+
+    const result = await chunkContent(source.rawText, sourceId, source.title, {
+      pageMap: source.metadata?.pageMap,
+      headings: source.metadata?.headings,
+      checkpoints,
+      bypassCache: payload.bypassCache === true,
+      onProgress: async (completed, total) => {
+        const percent = 10 + Math.round((completed / total) * 80);
+        await updateSourceStatus(sourceId, 'chunking', percent);
+        await ctx.reportProgress({
+          phase: completed < total ? `Generating lessons for segment ${completed + 1}/${total}` : 'Generating lessons',
+          current: completed,
+          total,
+          percent,
+        });
+      },
+    });
+
+    await updateSourceStatus(sourceId, 'generating_cards', 90);
+    await ctx.reportProgress({ phase: 'Saving lessons and flashcards', percent: 90 });
+
+    // Create the lessons an interrupted attempt didn't get to
+    const savedSequences = new Set(existingLessons.map((lesson) => lesson.sequence));
+    const lessons = [
+      ...existingLessons,
+      ...await createMicroLessons(result.lessons.filter((lesson) => !savedSequences.has(lesson.sequence))),
+    ];
+
+    // Link each note to the lesson it was generated with, one batch per lesson
+    const notes = result.notes.map(withCards);
+    for (const lesson of lessons) {
+      const batchKey = `flashcards:${lesson.sequence}`;
+      if (checkpoints.get(batchKey)) continue;
+
+      const lessonNotes = notes.filter(
+        (note) => note.lessonSequence === lesson.sequence
+      );
+
+      if (lessonNotes.length > 0) {
+        await createNotes(
+          lessonNotes.map((note) => ({
+            ...note,
+            lessonId: lesson.id,
+          }))
+        );
+      }
+      await checkpoints.set(batchKey, true);
+    }
+
+    await updateSourceStatus(sourceId, 'complete', 100);
+    await clearCheckpoints(sourceId, 'lessons');
+
+    return {
+      lessonCount: lessons.length,
+      noteCount: notes.length,
+      flashcardCount: notes.reduce((count, note) => count + note.cards.length, 0),
+      // Fields the model had to be re-asked about or that were corrected
+      repairs: result.repairs,
+    };
+  },
+  async onFailed(payload, error) {
+    await updateSourceStatus(payload.sourceId as string, 'error', 0, error.message || 'AI processing failed');
+  },
+};
+
+// ============================================================================
+// Extra flashcards
+// ============================================================================
+
+const generateFlashcards: JobHandler = {
+  maxAttempts: 3,
+  async run(payload) {
+    const lessonId = payload.lessonId as string;
+    const lesson = await getMicroLesson(lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+
+    const existingCards = await getFlashcardsByLesson(lessonId);
+    const notes = await generateFlashcardsForLesson(
+      lesson.content,
+      lesson.title,
+      existingCards.length,
+      lesson.sourceId,
+      payload.formats as FlashcardFormat[]
+    );
+    const saved = await createNotes(notes.map((note) => withCards({ ...note, lessonId })));
+
+    return {
+      noteCount: saved.notes.length,
+      flashcardCount: saved.flashcards.length,
+      flashcardIds: saved.flashcards.map((card) => card.id),
+    };
+  },
+};
+
+// ============================================================================
+// Leech rewrites
+// ============================================================================
+
+// Only suggests the rewrite; POST /api/flashcards/[id]/rewrite/apply saves it
+const rewriteLeech: JobHandler = {
+  maxAttempts: 3,
+  async run(payload) {
+    const flashcardId = payload.flashcardId as string;
+    const card = await getFlashcard(flashcardId);
+    if (!card) {
+      throw new Error('Flashcard not found');
+    }
+    const lesson = await getMicroLesson(card.lessonId);
+    if (!lesson) {
+      throw new Error('Lesson not found');
+    }
+
+    const suggestion = await suggestLeechRewrite(card, lesson, payload.mode as LeechRewriteMode);
+    return { flashcardId, suggestion };
+  },
+};
+
+// ============================================================================
+// Summarization
+// ============================================================================
+
+const generateSummaries: JobHandler = {
+  maxAttempts: 3,
+  async run(payload, ctx) {
+    const sourceId = payload.sourceId as string;
+    const source = await getSource(sourceId);
+    if (!source?.rawText) {
+      throw new Error('Source has no text content to summarize');
+    }
+
+    const result = await generateHierarchicalSummaries({
+      sourceId,
+      sourceTitle: source.title,
+      text: source.rawText,
+      headings: source.metadata?.headings,
+      pageMap: source.metadata?.pageMap,
+      checkpoints: await loadCheckpoints(sourceId, 'summaries'),
+      bypassCache: payload.bypassCache === true,
+      onProgress: (progress) => {
+        ctx.reportProgress(progress).catch((error) => {
+          console.error('Failed to record summarization progress:', error);
+        });
+      },
+    });
+
+    // Segments are rebuilt on every run, including after a failed attempt
+    await deleteDocumentSegments(sourceId);
+
+    const segmentsToStore = result.segments.map((seg, i) => ({
+      sourceId: seg.sourceId,
+      segmentIndex: i,
+      startIndex: seg.startIndex,
+      endIndex: seg.endIndex,
+      sectionTitle: seg.sectionTitle,
+      level: seg.level,
+      estimatedTokens: seg.estimatedTokens,
+      pageStart: seg.pageStart,
+      pageEnd: seg.pageEnd,
+    }));
+
+    await createDocumentSegments(segmentsToStore);
+
+    const savedSummaries = await createSummaries(result.summaries);
+    await clearCheckpoints(sourceId, 'summaries');
+
+    return {
+      segmentCount: result.segments.length,
+      summaryCount: savedSummaries.length,
+      summaryIds: savedSummaries.map((summary) => summary.id),
+    };
+  },
+};
+
+// ============================================================================
+// Collection aggregation
+// ============================================================================
+
+const aggregateCollection: JobHandler = {
+  maxAttempts: 3,
+  async run(payload, ctx) {
+    const collectionId = payload.collectionId as string;
+    const collection = await getCollection(collectionId);
+    if (!collection) {
+      throw new Error('Collection not found');
+    }
+
+    // Get key_points summaries for each source
+    await ctx.reportProgress({ phase: 'Collecting summaries', percent: 0 });
+    const collectionSources = await getCollectionSources(collectionId);
+    const summariesToAggregate: Summary[] = [];
+
+    for (const cs of collectionSources) {
+      const summaries = await getSummariesBySource(cs.sourceId, 'key_points', true);
+      if (summaries.length > 0) {
+        summariesToAggregate.push(summaries[0]);
+      }
+    }
+
+    if (summariesToAggregate.length < 2) {
+      throw new Error('At least 2 sources must have key_points summaries');
+    }
+
+    await ctx.reportProgress({
+      phase: `Aggregating ${summariesToAggregate.length} summaries`,
+      percent: 10,
+    });
+
+    const input = {
+      summaries: summariesToAggregate,
+      collectionName: collection.name,
+      collectionId,
+      bypassCache: payload.bypassCache === true,
+    };
+
+    let summaryInput: CreateSummaryInput;
+    let commonThemes: AggregatedSummary['commonThemes'] = [];
+    let uniqueInsights: AggregatedSummary['uniqueInsights'] = [];
+
+    if (payload.includeThemes !== false || payload.includeInsights !== false) {
+      const result = await generateAggregatedSummary(input);
+      summaryInput = result.summary;
+      commonThemes = result.commonThemes;
+      uniqueInsights = result.uniqueInsights;
+    } else {
+      summaryInput = await aggregateSummaries(input);
+    }
+
+    // Save the aggregated summary
+    const savedSummary = await createSummary(summaryInput);
+
+    return {
+      summaryId: savedSummary.id,
+      commonThemes,
+      uniqueInsights,
+      sourceCount: summariesToAggregate.length,
+    };
+  },
+};
+
+// ============================================================================
+// FSRS optimization
+// ============================================================================
+
+// Fits weights only; they take effect once applied via /api/review-settings/apply
+const optimizeFSRS: JobHandler = {
+  // Too few reviews won't fix itself on retry
+  maxAttempts: 1,
+  async run(_payload, ctx) {
+    const log = await getFlashcardReviewLog();
+    const { weights } = await getFSRSParameters();
+
+    const result = await optimizeFSRSWeights(log, weights, {
+      onProgress: (completed, total) => ctx.reportProgress({
+        phase: `Fitting weights (iteration ${completed}/${total})`,
+        current: completed,
+        total,
+        percent: Math.round((completed / total) * 100),
+      }),
+    });
+
+    return { ...result };
+  },
+};
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  transcribe_audio: transcribeAudio,
+  process_source: processSource,
+  generate_summaries: generateSummaries,
+  aggregate_collection: aggregateCollection,
+  optimize_fsrs: optimizeFSRS,
+  generate_flashcards: generateFlashcards,
+  rewrite_leech: rewriteLeech,
+};
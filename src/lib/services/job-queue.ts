@@ -0,0 +1,170 @@
+// Background Job Queue
+// Runs long pipelines (transcription, lesson generation, summarization,
+// aggregation) outside HTTP requests. Jobs are persisted in the jobs table and
+// executed one at a time by a worker loop inside the server process.
+
+import {
+  createJob,
+  claimNextJob,
+  updateJobProgress,
+  completeJob,
+  failJob,
+  requeueStaleJobs,
+  getJob,
+} from '@/lib/db/client';
+import { Job, JobProgress, JobType } from '@/types/jobs';
+import { JOB_HANDLERS } from './job-handlers';
+import { publishJobEvent, toJobProgressEvent } from './job-events';
+
+// How often an idle worker checks for due jobs
+const POLL_INTERVAL_MS = 2000;
+// Retry backoff: 5s, 10s, 20s, ... capped at 5 minutes
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+// Running jobs with no progress for this long are assumed abandoned
+const STALE_JOB_MS = 15 * 60 * 1000;
+
+export interface JobContext {
+  job: Job;
+  reportProgress(progress: JobProgress): Promise<void>;
+}
+
+export interface JobHandler {
+  maxAttempts: number;
+  run(payload: Record<string, unknown>, ctx: JobContext): Promise<Record<string, unknown> | void>;
+  // Called once the last attempt has failed
+  onFailed?(payload: Record<string, unknown>, error: Error): Promise<void>;
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+/**
+ * Queue a job and wake the worker
+ */
+export async function enqueueJob(
+  type: JobType,
+  subjectId: string,
+  payload: Record<string, unknown>
+): Promise<Job> {
+  const job = await createJob({
+    type,
+    subjectId,
+    payload,
+    maxAttempts: JOB_HANDLERS[type].maxAttempts,
+  });
+  startJobWorker();
+  return job;
+}
+
+/**
+ * Delay before retrying a job that has failed `attempts` times
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Claim and run the next due job. Returns false when the queue had nothing due.
+ */
+export async function runNextJob(): Promise<boolean> {
+  const job = await claimNextJob();
+  if (!job) return false;
+
+  const handler = JOB_HANDLERS[job.type];
+  let lastReported: JobProgress = { percent: job.progress };
+  publishJobEvent(toJobProgressEvent(job));
+
+  try {
+    const result = await handler.run(job.payload, {
+      job,
+      reportProgress: async (update) => {
+        const progress = { ...update, percent: Math.max(0, Math.min(Math.round(update.percent), 99)) };
+        if (
+          progress.percent === lastReported.percent &&
+          progress.phase === lastReported.phase &&
+          progress.current === lastReported.current
+        ) {
+          return;
+        }
+        lastReported = progress;
+        await updateJobProgress(job.id, progress);
+        publishJobEvent({ ...toJobProgressEvent(job), ...progress });
+      },
+    });
+    await completeJob(job.id, result || undefined);
+  } catch (caught) {
+    const error = caught instanceof Error ? caught : new Error(String(caught));
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+
+    if (job.attempts < job.maxAttempts) {
+      await failJob(job.id, error.message, new Date(Date.now() + getRetryDelayMs(job.attempts)));
+    } else {
+      await failJob(job.id, error.message);
+      await handler.onFailed?.(job.payload, error).catch((hookError) => {
+        console.error(`Job ${job.id} failure handler failed:`, hookError);
+      });
+    }
+  }
+
+  const finished = await getJob(job.id);
+  if (finished) publishJobEvent(toJobProgressEvent(finished));
+
+  return true;
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+interface WorkerState {
+  busy: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Kept on globalThis so dev-mode module reloads don't start a second loop
+const globalForJobs = globalThis as typeof globalThis & { jobWorker?: WorkerState };
+
+async function tick(state: WorkerState): Promise<void> {
+  state.timer = null;
+  state.busy = true;
+
+  try {
+    for (const job of await requeueStaleJobs(new Date(Date.now() - STALE_JOB_MS))) {
+      await JOB_HANDLERS[job.type].onFailed?.(job.payload, new Error(job.error ?? 'Job interrupted')).catch((hookError) => {
+        console.error(`Job ${job.id} failure handler failed:`, hookError);
+      });
+      publishJobEvent(toJobProgressEvent(job));
+    }
+    while (await runNextJob()) {
+      // Drain everything that is due before going back to sleep
+    }
+  } catch (error) {
+    console.error('Job worker error:', error);
+  } finally {
+    state.busy = false;
+    schedule(state, POLL_INTERVAL_MS);
+  }
+}
+
+function schedule(state: WorkerState, delayMs: number): void {
+  if (state.timer) clearTimeout(state.timer);
+  state.timer = setTimeout(() => void tick(state), delayMs);
+  // Don't keep scripts and tests alive just for the worker
+  state.timer.unref?.();
+}
+
+/**
+ * Start the worker loop, or wake it if it is sleeping. Safe to call repeatedly.
+ */
+export function startJobWorker(): void {
+  if (!globalForJobs.jobWorker) {
+    globalForJobs.jobWorker = { busy: false, timer: null };
+  }
+
+  const state = globalForJobs.jobWorker;
+  if (!state.busy) {
+    schedule(state, 0);
+  }
+}
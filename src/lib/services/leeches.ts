@@ -0,0 +1,60 @@
+// Leeches
+// Cards rated "again" over and over are leeches: more reviews rarely help, so
+// they are suspended until the learner rewrites them. Rewrites change the
+// card's note in place, so the card keeps its review history.
+
+import { Flashcard, LeechRewriteSuggestion, Note } from '@/types';
+import { REVIEW_CONFIG } from '@/config/review-config';
+import { getNote, createNotes, setFlashcardLeech } from '@/lib/db/client';
+import { applyNoteUpdate, saveNote, withCards } from './notes';
+
+/**
+ * Whether a card with this many lapses just became a leech: at the
+ * threshold, then again every `repeatEvery` lapses in case a rewrite didn't help
+ */
+export function isLeechLapse(lapses: number): boolean {
+  const { threshold, repeatEvery } = REVIEW_CONFIG.leech;
+  return lapses >= threshold && (lapses - threshold) % repeatEvery === 0;
+}
+
+/**
+ * Only the front and back of basic cards are rewritten; other cards (cloze,
+ * quiz and reverse cards) just get the new hint, mnemonic or excerpt
+ */
+export function canRewriteText(card: Pick<Flashcard, 'cardType' | 'isReverse'>): boolean {
+  return (card.cardType || 'basic') === 'basic' && !card.isReverse;
+}
+
+/**
+ * Apply a rewrite suggestion to a leech and resume it. Cards split off are
+ * added to the same lesson as new notes.
+ */
+export async function applyLeechRewrite(
+  card: Flashcard,
+  suggestion: LeechRewriteSuggestion
+): Promise<{ note: Note; flashcards: Flashcard[] }> {
+  const existing = card.noteId ? await getNote(card.noteId) : null;
+  if (!existing) {
+    throw new Error(`Note of flashcard ${card.id} not found`);
+  }
+
+  const [rewritten, ...splitOff] = suggestion.cards;
+  const note = applyNoteUpdate(existing, {
+    ...(canRewriteText(card) ? { front: rewritten.front, back: rewritten.back } : {}),
+    hint: rewritten.hint,
+    mnemonic: rewritten.mnemonic,
+    excerpt: suggestion.excerpt,
+  });
+  const flashcards = await saveNote(note);
+
+  const created = await createNotes(splitOff.map((split) => withCards({
+    ...split,
+    lessonId: note.lessonId,
+    noteType: 'basic' as const,
+    visualCue: note.visualCue,
+    excerpt: note.excerpt,
+  })));
+
+  await setFlashcardLeech(card.id, false);
+  return { note, flashcards: [...flashcards, ...created.flashcards] };
+}
@@ -0,0 +1,66 @@
+// LLM Response Cache
+// Content-addressed store of responses to cacheable requests, so re-processing
+// a source or regenerating a summary doesn't pay for identical prompts again
+
+import { createHash } from 'crypto';
+import { getCachedLLMResponse, saveCachedLLMResponse, pruneLLMCache } from '@/lib/db/client';
+import { AI_CONFIG } from '@/config/ai-config';
+import type { LLMProvider, LLMRequest, LLMResponse } from '@/lib/ai/llm-provider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hash of everything that determines the response: model, system prompt,
+ * messages and token limit
+ */
+export function getCacheKey(model: string, request: LLMRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([model, request.system || '', request.messages, request.maxTokens]))
+    .digest('hex');
+}
+
+/**
+ * Store a response for the request. Errors are logged, never thrown.
+ */
+export async function cacheLLMResponse(model: string, request: LLMRequest, response: LLMResponse): Promise<void> {
+  if (!AI_CONFIG.cache.enabled) return;
+
+  const stored: LLMResponse = { text: response.text, model: response.model, usage: response.usage };
+  await saveCachedLLMResponse(getCacheKey(model, request), response.model, JSON.stringify(stored), new Date(Date.now() + AI_CONFIG.cache.ttlDays * DAY_MS))
+    .then(() => pruneLLMCache(AI_CONFIG.cache.maxBytes))
+    .catch((error) => {
+      console.error('Failed to cache LLM response:', error);
+    });
+}
+
+/**
+ * Wrap a provider so requests with `cache: true` are answered from the
+ * cache when possible and stored otherwise. `cache: 'read'` leaves storing to
+ * the caller. Cache lookup errors are logged and fall through to the model.
+ */
+export function withResponseCache(provider: LLMProvider): LLMProvider {
+  return {
+    ...provider,
+    async complete(request) {
+      if (!request.cache || !AI_CONFIG.cache.enabled) {
+        return provider.complete(request);
+      }
+
+      const key = getCacheKey(provider.model, request);
+      const cached = await getCachedLLMResponse(key).catch((error) => {
+        console.error('LLM cache lookup failed:', error);
+        return null;
+      });
+      if (cached) {
+        return { ...(JSON.parse(cached) as LLMResponse), cacheStatus: 'hit' };
+      }
+
+      const response = await provider.complete(request);
+      if (request.cache === true) {
+        await cacheLLMResponse(provider.model, request, response);
+      }
+
+      return { ...response, cacheStatus: 'miss' };
+    },
+  };
+}
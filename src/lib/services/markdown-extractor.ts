@@ -0,0 +1,115 @@
+// Markdown Extraction Service
+// Markdown is also the common output format of the EPUB, DOCX and HTML
+// extractors, so heading detection for all of them lives here
+
+import { DocumentHeading } from '@/types';
+import type { ExtractedContent } from './extractor-registry';
+
+/**
+ * Normalize Markdown without disturbing its structure
+ * (indentation and code blocks are left alone)
+ */
+export function normalizeMarkdown(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Find ATX (`## Title`) and setext (`Title` underlined with `===`/`---`)
+ * headings, skipping fenced code blocks. Offsets point at the start of the
+ * heading line.
+ */
+export function findMarkdownHeadings(text: string): DocumentHeading[] {
+  const headings: DocumentHeading[] = [];
+  const lines = text.split('\n');
+  let offset = 0;
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s{0,3}(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const atx = line.match(/^\s{0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+      const next = lines[i + 1];
+
+      if (atx) {
+        headings.push({ offset, title: stripInlineMarkdown(atx[2]), level: atx[1].length });
+      } else if (line.trim() && next !== undefined && /^\s{0,3}(=+|-+)\s*$/.test(next) && !/^\s*[-*+]\s/.test(line)) {
+        headings.push({ offset, title: stripInlineMarkdown(line.trim()), level: next.trim().startsWith('=') ? 1 : 2 });
+      }
+    }
+
+    offset += line.length + 1; // +1 for newline
+  }
+
+  return headings.filter((heading) => heading.title.length > 0);
+}
+
+/**
+ * Remove emphasis, code and link syntax from a heading title
+ */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]+/g, '')
+    .trim();
+}
+
+/**
+ * Build the shared extraction result for Markdown produced by any extractor
+ */
+export function buildMarkdownContent(
+  markdown: string,
+  metadata: ExtractedContent['metadata'],
+  pages?: string[]
+): ExtractedContent {
+  const text = normalizeMarkdown(markdown);
+  const headings = findMarkdownHeadings(text);
+
+  return {
+    text,
+    pageCount: pages ? pages.length : 1,
+    metadata: {
+      ...metadata,
+      title: metadata.title || headings.find((h) => h.level === 1)?.title,
+    },
+    pages: pages || [text],
+    headings,
+  };
+}
+
+/**
+ * Parse simple `key: value` YAML front matter
+ */
+function parseFrontMatter(text: string): { body: string; fields: Record<string, string> } {
+  const match = text.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (!match) return { body: text, fields: {} };
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split('\n')) {
+    const field = line.match(/^(\w+):\s*(.+)$/);
+    if (field) {
+      fields[field[1].toLowerCase()] = field[2].trim().replace(/^["']|["']$/g, '');
+    }
+  }
+  return { body: text.slice(match[0].length), fields };
+}
+
+/**
+ * Extract content from a Markdown file
+ */
+export async function extractMarkdownText(buffer: Buffer): Promise<ExtractedContent> {
+  const { body, fields } = parseFrontMatter(buffer.toString('utf-8').replace(/\r\n?/g, '\n').replace(/^\uFEFF/, ''));
+
+  return buildMarkdownContent(body, {
+    title: fields.title,
+    author: fields.author,
+    subject: fields.description || fields.subject,
+  });
+}
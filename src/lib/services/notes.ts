@@ -0,0 +1,176 @@
+// Notes and Cards
+// A note holds what the learner edits; its cards are generated from it and
+// scheduled independently. Notes with a term also get a reverse card asking
+// for the term, and cloze notes get one card per deletion.
+
+import { CardContent, Flashcard, Note } from '@/types';
+import { getFlashcardsByNote, getNote, updateNote, deleteNote, NewNote, NoteCardChanges } from '@/lib/db/client';
+import { getClozeIndexes } from './cloze';
+
+export type NoteContent = Pick<
+  Note,
+  'noteType' | 'front' | 'back' | 'hint' | 'mnemonic' | 'visualCue' | 'term' | 'distractors' | 'acceptedAnswers' | 'excerpt'
+>;
+
+// Fields of a note that can be edited; null clears an optional one
+export type NoteUpdate = Partial<Pick<Note, 'front' | 'back'>> & {
+  [Field in 'hint' | 'mnemonic' | 'visualCue' | 'term' | 'distractors' | 'acceptedAnswers' | 'excerpt']?: Note[Field] | null;
+};
+
+// Fields of a card that can be edited from the review screen; null clears an optional one
+export type CardEdit = Partial<Pick<Flashcard, 'front' | 'back'>> & {
+  [Field in 'hint' | 'mnemonic' | 'visualCue']?: Flashcard[Field] | null;
+};
+
+/**
+ * What each card of the note shows
+ */
+export function getNoteCards(note: NoteContent): CardContent[] {
+  const { hint, mnemonic, visualCue, excerpt } = note;
+
+  if (note.noteType === 'cloze') {
+    return getClozeIndexes(note.front).map((clozeIndex) => ({
+      cardType: 'cloze',
+      clozeIndex,
+      front: note.front,
+      back: note.back,
+      hint,
+      mnemonic,
+      visualCue,
+      excerpt,
+    }));
+  }
+
+  const cards: CardContent[] = [{
+    cardType: note.noteType,
+    front: note.front,
+    back: note.back,
+    hint,
+    mnemonic,
+    visualCue,
+    excerpt,
+    distractors: note.noteType === 'multiple_choice' ? note.distractors : undefined,
+    acceptedAnswers: note.noteType === 'typed' ? note.acceptedAnswers : undefined,
+  }];
+
+  // The hint is about the back, so the reverse card goes without it
+  if (note.term) {
+    cards.push({
+      cardType: 'basic',
+      isReverse: true,
+      front: `Which term means: ${note.back}`,
+      back: note.term,
+      mnemonic,
+      visualCue,
+      excerpt,
+    });
+  }
+
+  return cards;
+}
+
+/**
+ * A new note with its cards, ready for createNotes
+ */
+export function withCards<T extends NoteContent>(note: T): T & Pick<NewNote, 'cards'> {
+  return { ...note, cards: getNoteCards(note) };
+}
+
+// Which of its note's cards a card is, so an edit keeps each card's scheduling
+function getCardKey(card: Pick<CardContent, 'clozeIndex' | 'isReverse'>): string {
+  if (card.clozeIndex !== undefined) return `cloze:${card.clozeIndex}`;
+  return card.isReverse ? 'reverse' : 'forward';
+}
+
+/**
+ * The note with the update applied; fields left out of it are unchanged
+ */
+export function applyNoteUpdate(note: Note, update: NoteUpdate): Note {
+  const next = { ...note, updatedAt: new Date() };
+  for (const [field, value] of Object.entries(update)) {
+    if (value !== undefined) Object.assign(next, { [field]: value ?? undefined });
+  }
+  return next;
+}
+
+/**
+ * Why the note can't be saved, or null when it can
+ */
+export function getNoteError(note: NoteContent): string | null {
+  if (note.noteType === 'cloze') {
+    if (getClozeIndexes(note.front).length === 0) return 'Cloze notes need at least one {{c1::...}} deletion';
+    if (note.term) return 'Cloze notes cannot have a reverse card';
+  } else if (!note.back) {
+    return 'Back must not be empty';
+  }
+  if (note.noteType === 'multiple_choice' && (note.distractors?.length ?? 0) < 2) {
+    return 'Multiple choice notes need at least 2 distractors';
+  }
+  return null;
+}
+
+/**
+ * Why the edit can't be made to the card, or null when it can. A reverse
+ * card's front is made from its note's back, and it has no hint.
+ */
+export function getCardEditError(card: Pick<Flashcard, 'isReverse'>, edit: CardEdit): string | null {
+  if (!card.isReverse) return null;
+  if (edit.front !== undefined || edit.hint !== undefined) {
+    return 'Reverse cards only have a back, mnemonic and visual cue to edit';
+  }
+  return edit.back === '' ? 'Back must not be empty' : null;
+}
+
+/**
+ * A card edit as an edit of its note; the back of a reverse card is the note's term
+ */
+export function getCardNoteUpdate(card: Pick<Flashcard, 'isReverse'>, edit: CardEdit): NoteUpdate {
+  if (!card.isReverse || edit.back === undefined) return edit;
+  const { back, ...rest } = edit;
+  return { ...rest, term: back };
+}
+
+/**
+ * Save an edited note. Cards it still has get the new content and keep their
+ * scheduling; cards for new cloze deletions or a newly added term start as
+ * new cards, and cards the note no longer has are deleted with their history.
+ */
+export async function saveNote(note: Note): Promise<Flashcard[]> {
+  const existing = new Map((await getFlashcardsByNote(note.id)).map((card) => [getCardKey(card), card]));
+  const changes: NoteCardChanges = { update: [], create: [], deleteIds: [] };
+
+  for (const content of getNoteCards(note)) {
+    const card = existing.get(getCardKey(content));
+    if (card) {
+      changes.update.push({ ...content, id: card.id });
+      existing.delete(getCardKey(content));
+    } else {
+      changes.create.push(content);
+    }
+  }
+  changes.deleteIds = [...existing.values()].map((card) => card.id);
+
+  await updateNote(note, changes);
+  return getFlashcardsByNote(note.id);
+}
+
+/**
+ * Delete a card. Cards are made from their note, so this deletes the note and
+ * all of its cards, except that a reverse card is deleted by clearing the
+ * note's term. Returns the IDs of the deleted cards.
+ */
+export async function deleteCard(card: Flashcard): Promise<string[]> {
+  const note = card.noteId ? await getNote(card.noteId) : null;
+  if (!note) {
+    throw new Error(`Note of flashcard ${card.id} not found`);
+  }
+
+  if (card.isReverse) {
+    await saveNote(applyNoteUpdate(note, { term: null }));
+    return [card.id];
+  }
+
+  const cards = await getFlashcardsByNote(note.id);
+  await deleteNote(note.id);
+  return cards.map((noteCard) => noteCard.id);
+}
@@ -0,0 +1,103 @@
+// Page Map Utilities
+// Maps character offsets in a source's rawText back to pages of the original
+// document. Safe to import from client components.
+
+import { PageRange } from '@/types';
+
+export const PAGE_SEPARATOR = '\n\n';
+
+/**
+ * Join page texts into one document, recording where each page lands
+ */
+export function buildPageMap(pages: string[]): { text: string; pageMap: PageRange[] } {
+  const pageMap: PageRange[] = [];
+  let offset = 0;
+
+  pages.forEach((page, index) => {
+    if (index > 0) offset += PAGE_SEPARATOR.length;
+    pageMap.push({ page: index + 1, start: offset, end: offset + page.length });
+    offset += page.length;
+  });
+
+  return { text: pages.join(PAGE_SEPARATOR), pageMap };
+}
+
+/**
+ * Find the page containing a character offset. Offsets that fall between
+ * pages (in a separator) belong to the following page.
+ */
+export function getPageAtOffset(pageMap: PageRange[], offset: number): number | undefined {
+  if (pageMap.length === 0) return undefined;
+
+  let low = 0;
+  let high = pageMap.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (pageMap[mid].end <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return pageMap[low].page;
+}
+
+/**
+ * Get the pages covered by the character span [start, end)
+ */
+export function getPageRangeForSpan(
+  pageMap: PageRange[] | undefined,
+  start: number | undefined,
+  end: number | undefined
+): { pageStart: number; pageEnd: number } | undefined {
+  if (!pageMap || pageMap.length === 0 || start === undefined || end === undefined) {
+    return undefined;
+  }
+
+  const pageStart = getPageAtOffset(pageMap, start);
+  const pageEnd = getPageAtOffset(pageMap, Math.max(start, end - 1));
+  if (pageStart === undefined || pageEnd === undefined) return undefined;
+
+  return { pageStart, pageEnd };
+}
+
+/**
+ * Cut the page map down to the pages overlapping [start, end), with offsets
+ * made relative to `start`
+ */
+export function slicePageMap(pageMap: PageRange[], start: number, end: number): PageRange[] {
+  return pageMap
+    .filter((range) => range.end > start && range.start < end)
+    .map((range) => ({
+      page: range.page,
+      start: Math.max(range.start - start, 0),
+      end: Math.min(range.end, end) - start,
+    }));
+}
+
+/**
+ * Prefix each page of the text with a `[Page N]` marker so the model can
+ * report which pages a lesson came from. Only pages starting before
+ * `limit` characters are marked.
+ */
+export function insertPageMarkers(text: string, pageMap: PageRange[], limit: number = text.length): string {
+  let result = '';
+  let cursor = 0;
+
+  for (const range of pageMap) {
+    if (range.start >= limit) break;
+    result += text.slice(cursor, range.start) + `[Page ${range.page}]\n`;
+    cursor = range.start;
+  }
+
+  return result + text.slice(cursor, limit);
+}
+
+/**
+ * Format a page range for display: "p. 34" or "pp. 34–37"
+ */
+export function formatPageRange(pageStart: number, pageEnd?: number): string {
+  return pageEnd === undefined || pageEnd === pageStart
+    ? `p. ${pageStart}`
+    : `pp. ${pageStart}–${pageEnd}`;
+}
@@ -2,18 +2,9 @@
 // Using unpdf for Node.js/serverless compatibility
 
 import { extractText, getDocumentProxy, getMeta } from 'unpdf';
+import type { ExtractedContent } from './extractor-registry';
 
-export interface ExtractedContent {
-  text: string;
-  pageCount: number;
-  metadata: {
-    title?: string;
-    author?: string;
-    subject?: string;
-    creator?: string;
-  };
-  pages: string[];
-}
+export type { ExtractedContent };
 
 /**
  * Extract text content from a PDF buffer
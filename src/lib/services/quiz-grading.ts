@@ -0,0 +1,118 @@
+// Quiz Card Grading
+// Multiple choice and typed cards are rated from the learner's answer and how
+// long it took, instead of the learner rating themselves
+
+import { Flashcard } from '@/types';
+import { REVIEW_CONFIG } from '@/config/review-config';
+import type { SimpleRating } from './sm2';
+
+export type QuizCard = Pick<Flashcard, 'id' | 'cardType' | 'back' | 'distractors' | 'acceptedAnswers'>;
+
+export interface QuizGrade {
+  correct: boolean;
+  score: number; // 0-1; typed answers between the thresholds get partial credit
+  rating: SimpleRating;
+  expected: string;
+}
+
+export function isQuizCard(card: Pick<Flashcard, 'cardType'>): boolean {
+  return card.cardType === 'multiple_choice' || card.cardType === 'typed';
+}
+
+/**
+ * Lowercase, without accents, punctuation, extra spaces or a leading article
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/^(a|an|the) /, '');
+}
+
+// Insertions, deletions, substitutions and swapped neighbouring letters each count as one edit
+function getEditDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 1 for the same answer, down to 0 for nothing in common. Tolerates typos.
+ */
+export function getAnswerSimilarity(answer: string, expected: string): number {
+  const a = normalizeAnswer(answer);
+  const b = normalizeAnswer(expected);
+  if (!a || !b) return a === b ? 1 : 0;
+  return 1 - getEditDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Options of a multiple choice card. The order is shuffled but stable for a
+ * card, so it doesn't change between renders.
+ */
+export function getMultipleChoiceOptions(card: Pick<Flashcard, 'id' | 'back' | 'distractors'>): string[] {
+  let seed = [...card.id].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    return seed / 2 ** 32;
+  };
+
+  const options = [card.back, ...(card.distractors ?? [])];
+  for (let i = options.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [options[i], options[j]] = [options[j], options[i]];
+  }
+  return options;
+}
+
+/**
+ * Grade an answer and turn it into a rating. Wrong answers rate "again" and
+ * partly right ones "hard". Correct ones rate by speed: "easy" when quick,
+ * "hard" when slow and "good" otherwise, or when the time is unknown.
+ */
+export function gradeQuizAnswer(card: QuizCard, answer: string, timeToAnswerMs?: number): QuizGrade {
+  const { correctSimilarity, partialCreditSimilarity, multipleChoice, typed } = REVIEW_CONFIG.autoGrading;
+
+  let score: number;
+  if (card.cardType === 'multiple_choice') {
+    score = normalizeAnswer(answer) === normalizeAnswer(card.back) ? 1 : 0;
+  } else {
+    score = Math.max(...[card.back, ...(card.acceptedAnswers ?? [])].map((expected) => getAnswerSimilarity(answer, expected)));
+  }
+
+  const correct = score >= correctSimilarity;
+  const timing = card.cardType === 'multiple_choice' ? multipleChoice : typed;
+
+  let rating: SimpleRating;
+  if (!correct) {
+    rating = score >= partialCreditSimilarity ? 'hard' : 'again';
+  } else if (timeToAnswerMs === undefined) {
+    rating = 'good';
+  } else if (timeToAnswerMs <= timing.easyMs) {
+    rating = 'easy';
+  } else if (timeToAnswerMs > timing.hardMs) {
+    rating = 'hard';
+  } else {
+    rating = 'good';
+  }
+
+  return { correct, score: Math.round(score * 100) / 100, rating, expected: card.back };
+}
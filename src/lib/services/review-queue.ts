@@ -0,0 +1,169 @@
+// Review Queue
+// Orders due cards for a session within the daily limits of each deck and the
+// decks above it, so a big import doesn't flood the next day's reviews. New cards and review cards
+// count against their own limits; cards in their learning or relearning steps
+// are never held back.
+
+import { Deck, Flashcard, QueueCounts, QueueKind, ReviewOrder } from '@/types';
+import { REVIEW_CONFIG } from '@/config/review-config';
+import { getSubdeckIds } from './decks';
+
+export interface DailyLimits {
+  newCardsPerDay: number;
+  maxReviewsPerDay: number;
+  reviewOrder: ReviewOrder;
+}
+
+type DeckLimits = Pick<Deck, 'id' | 'parentId' | 'newCardsPerDay' | 'maxReviewsPerDay' | 'reviewOrder'>;
+
+/**
+ * A deck's limits, with the configured defaults for those it hasn't set
+ */
+export function getDailyLimits(deck?: Pick<Deck, 'newCardsPerDay' | 'maxReviewsPerDay' | 'reviewOrder'>): DailyLimits {
+  const defaults = REVIEW_CONFIG.dailyLimits;
+  return {
+    newCardsPerDay: deck?.newCardsPerDay ?? defaults.newCardsPerDay,
+    maxReviewsPerDay: deck?.maxReviewsPerDay ?? defaults.maxReviewsPerDay,
+    reviewOrder: deck?.reviewOrder ?? defaults.reviewOrder,
+  };
+}
+
+export function getQueueKind(card: Pick<Flashcard, 'cardState'>): QueueKind {
+  if (!card.cardState || card.cardState === 'new') return 'new';
+  return card.cardState === 'review' ? 'review' : 'learning';
+}
+
+export function countQueue(cards: Pick<Flashcard, 'cardState'>[]): QueueCounts {
+  const counts: QueueCounts = { new: 0, learning: 0, review: 0 };
+  for (const card of cards) counts[getQueueKind(card)]++;
+  return counts;
+}
+
+// Merge lists keeping each one's order, spreading each evenly through the result
+function interleave<T>(lists: T[][]): T[] {
+  return lists
+    .flatMap((list) => list.map((item, index) => ({ item, position: (index + 0.5) / list.length })))
+    .sort((a, b) => a.position - b.position)
+    .map(({ item }) => item);
+}
+
+// Something for each of the limited queues
+type ByQueue<T> = Record<'new' | 'review', T>;
+
+/**
+ * Today's queue from the due cards (soonest first): learning cards already
+ * due, then new and review cards up to what is left of the limits, then
+ * learning cards due within the learn-ahead window.
+ *
+ * As in Anki, a card counts against its own deck's limits and those of every
+ * deck above it in `decks`, so a parent's limit caps its subdecks together.
+ * To review a single deck, pass only it and its subdecks: the decks above it
+ * then don't limit it. Each deck's cards follow its review order, and decks
+ * are spread through the queue rather than one after another.
+ *
+ * @param doneToday - New cards started and review cards reviewed today, by deck
+ */
+export function buildReviewQueue(
+  due: Flashcard[],
+  decks: DeckLimits[],
+  doneToday: Record<string, { new: number; review: number }>,
+  now: Date = new Date()
+): Flashcard[] {
+  const decksById = new Map(decks.map((deck) => [deck.id, deck]));
+
+  // What each deck has left today, counting what was done in its subdecks
+  const allowances = new Map<string, ByQueue<number>>();
+  const getAllowance = (deckId: string): ByQueue<number> => {
+    if (!allowances.has(deckId)) {
+      const limits = getDailyLimits(decksById.get(deckId));
+      const done = { new: 0, review: 0 };
+      const subdeckIds = decksById.has(deckId) ? getSubdeckIds(decks, deckId) : new Set([deckId]);
+      for (const id of subdeckIds) {
+        done.new += doneToday[id]?.new ?? 0;
+        done.review += doneToday[id]?.review ?? 0;
+      }
+      allowances.set(deckId, {
+        new: Math.max(0, limits.newCardsPerDay - done.new),
+        review: Math.max(0, limits.maxReviewsPerDay - done.review),
+      });
+    }
+    return allowances.get(deckId)!;
+  };
+
+  // The card's deck and the decks above it
+  const getDeckPath = (deckId: string): string[] => {
+    const path = [deckId];
+    let parentId = decksById.get(deckId)?.parentId;
+    while (parentId && decksById.has(parentId) && !path.includes(parentId)) {
+      path.push(parentId);
+      parentId = decksById.get(parentId)!.parentId;
+    }
+    return path;
+  };
+
+  const learning: Flashcard[] = [];
+  const learningAhead: Flashcard[] = [];
+  const candidates: ByQueue<Map<string, Flashcard[]>> = {
+    new: new Map(),
+    review: new Map(),
+  };
+
+  for (const card of due) {
+    const kind = getQueueKind(card);
+    if (kind === 'learning') {
+      (card.nextReview && card.nextReview > now ? learningAhead : learning).push(card);
+    } else {
+      const deckId = card.deckId ?? '';
+      if (!candidates[kind].has(deckId)) candidates[kind].set(deckId, []);
+      candidates[kind].get(deckId)!.push(card);
+    }
+  }
+
+  // Take cards while their deck and every deck above it have room, drawing
+  // from the decks evenly so one deck doesn't use up a shared parent's limit
+  const byDeck = new Map<string, ByQueue<Flashcard[]>>();
+  for (const kind of ['new', 'review'] as const) {
+    for (const card of interleave([...candidates[kind].values()])) {
+      const path = getDeckPath(card.deckId ?? '').map(getAllowance);
+      if (path.some((allowance) => allowance[kind] <= 0)) continue;
+      for (const allowance of path) allowance[kind]--;
+
+      const deckId = card.deckId ?? '';
+      if (!byDeck.has(deckId)) byDeck.set(deckId, { new: [], review: [] });
+      byDeck.get(deckId)![kind].push(card);
+    }
+  }
+
+  const deckQueues = [...byDeck].map(([deckId, cards]) => {
+    const { reviewOrder } = getDailyLimits(decksById.get(deckId));
+    if (reviewOrder === 'new_first') return [...cards.new, ...cards.review];
+    if (reviewOrder === 'reviews_first') return [...cards.review, ...cards.new];
+    return interleave([cards.review, cards.new]);
+  });
+
+  return [...learning, ...interleave(deckQueues), ...learningAhead];
+}
+
+/**
+ * Cards left today in each deck and its subdecks, by deck id: what reviewing
+ * that deck would show
+ */
+export function getDeckDueCounts(
+  due: Flashcard[],
+  decks: DeckLimits[],
+  doneToday: Record<string, { new: number; review: number }>,
+  now: Date = new Date()
+): Record<string, QueueCounts> {
+  const counts: Record<string, QueueCounts> = {};
+  for (const deck of decks) {
+    const deckIds = getSubdeckIds(decks, deck.id);
+    const queue = buildReviewQueue(
+      due.filter((card) => deckIds.has(card.deckId ?? '')),
+      decks.filter((candidate) => deckIds.has(candidate.id)),
+      doneToday,
+      now
+    );
+    counts[deck.id] = countQueue(queue);
+  }
+  return counts;
+}
@@ -0,0 +1,76 @@
+// Review Settings
+// The learner's FSRS weights and desired retention. LearnFlow has a single
+// learner, so these apply to every FSRS source.
+
+import { getAppSetting, saveAppSetting, deleteAppSetting } from '@/lib/db/client';
+import { REVIEW_CONFIG } from '@/config/review-config';
+import { FSRSParameters, ReviewSettings } from '@/types/review';
+import { getDefaultFSRSParameters } from './fsrs';
+
+const FSRS_SETTINGS_KEY = 'fsrs_parameters';
+
+// What is stored; anything missing falls back to REVIEW_CONFIG
+interface StoredFSRSSettings {
+  weights?: number[];
+  requestRetention?: number;
+  optimizedAt?: string;
+}
+
+export interface FSRSSettingsUpdate {
+  weights?: number[] | null; // null restores the default weights
+  requestRetention?: number | null; // null restores the configured retention
+}
+
+export async function getReviewSettings(): Promise<ReviewSettings> {
+  const stored = await getAppSetting<StoredFSRSSettings>(FSRS_SETTINGS_KEY) || {};
+  const defaults = getDefaultFSRSParameters();
+
+  return {
+    defaultScheduler: REVIEW_CONFIG.defaultScheduler,
+    fsrs: {
+      weights: stored.weights || defaults.weights,
+      requestRetention: stored.requestRetention ?? defaults.requestRetention,
+      weightsSource: stored.weights ? 'optimized' : 'default',
+      optimizedAt: stored.weights ? stored.optimizedAt : undefined,
+    },
+  };
+}
+
+/**
+ * Parameters to schedule FSRS reviews with
+ */
+export async function getFSRSParameters(): Promise<FSRSParameters> {
+  const { fsrs } = await getReviewSettings();
+  return { weights: fsrs.weights, requestRetention: fsrs.requestRetention };
+}
+
+/**
+ * Change the learner's weights or desired retention. New values only affect
+ * intervals from the next review of each card onwards.
+ */
+export async function updateFSRSSettings(update: FSRSSettingsUpdate): Promise<ReviewSettings> {
+  const stored = await getAppSetting<StoredFSRSSettings>(FSRS_SETTINGS_KEY) || {};
+  const next: StoredFSRSSettings = { ...stored };
+
+  if (update.weights === null) {
+    delete next.weights;
+    delete next.optimizedAt;
+  } else if (update.weights) {
+    next.weights = update.weights;
+    next.optimizedAt = new Date().toISOString();
+  }
+
+  if (update.requestRetention === null) {
+    delete next.requestRetention;
+  } else if (update.requestRetention !== undefined) {
+    next.requestRetention = update.requestRetention;
+  }
+
+  if (Object.keys(next).length === 0) {
+    await deleteAppSetting(FSRS_SETTINGS_KEY);
+  } else {
+    await saveAppSetting(FSRS_SETTINGS_KEY, next);
+  }
+
+  return getReviewSettings();
+}
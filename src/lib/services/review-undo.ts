@@ -0,0 +1,31 @@
+// Review Undo
+// Each review records the card as it was before it, so the last review can be
+// undone: the card gets back its scheduling, lapses and leech state, and the
+// siblings the review buried come back.
+
+import { Flashcard } from '@/types';
+import { ReviewUndoState } from '@/types/review';
+
+/**
+ * The card and its note's other cards as they are before a review
+ */
+export function getReviewUndoState(
+  card: Flashcard,
+  siblings: Pick<Flashcard, 'id' | 'buriedUntil'>[]
+): ReviewUndoState {
+  return {
+    easeFactor: card.easeFactor,
+    interval: card.interval,
+    repetitions: card.repetitions,
+    nextReview: card.nextReview,
+    stability: card.stability,
+    difficulty: card.difficulty,
+    lastReviewedAt: card.lastReviewedAt,
+    cardState: card.cardState,
+    learningStep: card.learningStep,
+    lapses: card.lapses ?? 0,
+    isLeech: !!card.isLeech,
+    isSuspended: !!card.isSuspended,
+    siblings: siblings.filter((sibling) => sibling.id !== card.id).map(({ id, buriedUntil }) => ({ id, buriedUntil })),
+  };
+}
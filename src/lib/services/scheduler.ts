@@ -0,0 +1,223 @@
+// Flashcard Schedulers
+// Spaced repetition algorithms behind a common interface, selected per deck
+
+import { addDays, addMinutes } from 'date-fns';
+import { CardSchedule, Flashcard, SchedulerName } from '@/types';
+import { FSRSParameters } from '@/types/review';
+import { REVIEW_CONFIG } from '@/config/review-config';
+import { calculateSM2, simpleToSM2Rating, SimpleRating } from './sm2';
+import { getDefaultFSRSParameters, getElapsedDays, getIntervalDays, getNextMemoryState, toFSRSGrade } from './fsrs';
+
+// The parts of a flashcard a scheduler reads
+export type SchedulingState = Pick<
+  Flashcard,
+  'easeFactor' | 'interval' | 'repetitions' | 'stability' | 'difficulty' | 'lastReviewedAt' | 'cardState' | 'learningStep'
+>;
+
+export interface Scheduler {
+  name: SchedulerName;
+  // New scheduling state of a card after it is rated
+  review(card: SchedulingState, rating: SimpleRating, now?: Date): CardSchedule;
+  // Interval in days each rating would give, for the rating buttons (a
+  // fraction of a day for learning steps)
+  predictIntervals(card: SchedulingState, now?: Date): Record<SimpleRating, number>;
+}
+
+const RATINGS: SimpleRating[] = ['again', 'hard', 'good', 'easy'];
+
+function getMemoryState(card: SchedulingState) {
+  return card.stability !== undefined && card.difficulty !== undefined
+    ? { stability: card.stability, difficulty: card.difficulty }
+    : undefined;
+}
+
+// ============================================================================
+// SM-2
+// ============================================================================
+
+/**
+ * SuperMemo 2. FSRS memory state is still tracked, so a deck can switch
+ * to FSRS at any time.
+ */
+export function createSM2Scheduler(parameters: FSRSParameters = getDefaultFSRSParameters()): Scheduler {
+  return {
+    name: 'sm2',
+
+    review(card, rating, now = new Date()) {
+      const result = calculateSM2({
+        rating: simpleToSM2Rating(rating),
+        previousEaseFactor: card.easeFactor,
+        previousInterval: card.interval,
+        previousRepetitions: card.repetitions,
+      });
+      const memory = getNextMemoryState(
+        getMemoryState(card),
+        toFSRSGrade(rating),
+        getElapsedDays(card.lastReviewedAt, now),
+        parameters.weights
+      );
+
+      return {
+        ...result,
+        ...memory,
+        nextReview: addDays(now, result.interval),
+        lastReviewedAt: now,
+        cardState: 'review',
+        learningStep: 0,
+      };
+    },
+
+    predictIntervals(card) {
+      return Object.fromEntries(RATINGS.map((rating) => [
+        rating,
+        calculateSM2({
+          rating: simpleToSM2Rating(rating),
+          previousEaseFactor: card.easeFactor,
+          previousInterval: card.interval,
+          previousRepetitions: card.repetitions,
+        }).interval,
+      ])) as Record<SimpleRating, number>;
+    },
+  };
+}
+
+// ============================================================================
+// FSRS
+// ============================================================================
+
+function scheduleFSRS(card: SchedulingState, now: Date, parameters: FSRSParameters) {
+  const elapsedDays = getElapsedDays(card.lastReviewedAt, now);
+  const states = Object.fromEntries(RATINGS.map((rating) => [
+    rating,
+    getNextMemoryState(getMemoryState(card), toFSRSGrade(rating), elapsedDays, parameters.weights),
+  ])) as Record<SimpleRating, { stability: number; difficulty: number }>;
+  const toInterval = (stability: number) => getIntervalDays(stability, parameters.requestRetention);
+
+  // Keep the buttons in order: hard < good < easy
+  const again = toInterval(states.again.stability);
+  let hard = toInterval(states.hard.stability);
+  let good = toInterval(states.good.stability);
+  hard = Math.min(hard, good);
+  good = Math.max(good, hard + 1);
+  const easy = Math.max(toInterval(states.easy.stability), good + 1);
+
+  return { states, intervals: { again, hard, good, easy } };
+}
+
+export function createFSRSScheduler(parameters: FSRSParameters = getDefaultFSRSParameters()): Scheduler {
+  return {
+    name: 'fsrs',
+
+    review(card, rating, now = new Date()) {
+      const { states, intervals } = scheduleFSRS(card, now, parameters);
+      const interval = intervals[rating];
+
+      return {
+        ...states[rating],
+        // SM-2 fields stay meaningful in case the deck switches back
+        easeFactor: card.easeFactor,
+        repetitions: rating === 'again' ? 0 : card.repetitions + 1,
+        interval,
+        nextReview: addDays(now, interval),
+        lastReviewedAt: now,
+        cardState: 'review',
+        learningStep: 0,
+      };
+    },
+
+    predictIntervals(card, now = new Date()) {
+      return scheduleFSRS(card, now, parameters).intervals;
+    },
+  };
+}
+
+// ============================================================================
+// Learning steps
+// ============================================================================
+
+type StepOutcome = { state: 'learning' | 'relearning'; step: number; minutes: number } | undefined;
+
+/**
+ * Where a rating moves a card through the learning or relearning steps, or
+ * undefined once it graduates (or is a review card that wasn't lapsed).
+ * "Again" restarts the steps, "hard" repeats the current one, "good" moves
+ * to the next and "easy" graduates straight away.
+ */
+function getStepOutcome(
+  card: SchedulingState,
+  rating: SimpleRating,
+  learningSteps: number[],
+  relearningSteps: number[]
+): StepOutcome {
+  const state = card.cardState || 'new';
+
+  if (state === 'review') {
+    return rating === 'again' && relearningSteps.length > 0
+      ? { state: 'relearning', step: 0, minutes: relearningSteps[0] }
+      : undefined;
+  }
+
+  const steps = state === 'relearning' ? relearningSteps : learningSteps;
+  const current = Math.min(card.learningStep || 0, steps.length - 1);
+  const step = rating === 'again' ? 0 : rating === 'hard' ? current : rating === 'good' ? current + 1 : steps.length;
+  if (steps.length === 0 || step >= steps.length) return undefined;
+
+  return { state: state === 'relearning' ? 'relearning' : 'learning', step, minutes: steps[step] };
+}
+
+/**
+ * Show new and lapsed cards again within minutes until they pass their last
+ * step. The wrapped scheduler only sets the day-long interval a card
+ * graduates with. FSRS memory state is still updated on every step.
+ */
+export function withLearningSteps(
+  scheduler: Scheduler,
+  learningSteps: number[] = REVIEW_CONFIG.learningSteps,
+  relearningSteps: number[] = REVIEW_CONFIG.relearningSteps
+): Scheduler {
+  return {
+    name: scheduler.name,
+
+    review(card, rating, now = new Date()) {
+      const result = scheduler.review(card, rating, now);
+      const outcome = getStepOutcome(card, rating, learningSteps, relearningSteps);
+      if (!outcome) return result;
+
+      // A lapse still counts against the card's SM-2 state. Ratings within
+      // the steps don't, so the card graduates from where it started.
+      const lapsed = card.cardState === 'review';
+      return {
+        ...result,
+        easeFactor: lapsed ? result.easeFactor : card.easeFactor,
+        repetitions: lapsed ? result.repetitions : card.repetitions,
+        interval: 0,
+        nextReview: addMinutes(now, outcome.minutes),
+        cardState: outcome.state,
+        learningStep: outcome.step,
+      };
+    },
+
+    predictIntervals(card, now = new Date()) {
+      const intervals = scheduler.predictIntervals(card, now);
+      return Object.fromEntries(RATINGS.map((rating) => {
+        const outcome = getStepOutcome(card, rating, learningSteps, relearningSteps);
+        return [rating, outcome ? outcome.minutes / (24 * 60) : intervals[rating]];
+      })) as Record<SimpleRating, number>;
+    },
+  };
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Scheduler by name. `parameters` are the learner's FSRS weights and desired
+ * retention (see services/review-settings.ts); defaults apply without them.
+ */
+export function getScheduler(
+  name: SchedulerName = REVIEW_CONFIG.defaultScheduler,
+  parameters?: FSRSParameters
+): Scheduler {
+  return withLearningSteps(name === 'fsrs' ? createFSRSScheduler(parameters) : createSM2Scheduler(parameters));
+}
@@ -142,7 +142,9 @@ export function getRatingStyle(rating: SimpleRating): {
  * Format interval for display
  */
 export function formatInterval(days: number): string {
-  if (days < 1) return 'Today';
+  if (days <= 0) return 'Today';
+  if (days < 1 / 24) return `${Math.max(Math.round(days * 24 * 60), 1)} min`;
+  if (days < 1) return `${Math.round(days * 24)} hr`;
   if (days === 1) return '1 day';
   if (days < 7) return `${days} days`;
   if (days < 30) {
@@ -0,0 +1,189 @@
+// Speech-to-Text Service
+// Transcribes audio files into timed segments behind a pluggable backend
+
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import { TranscriptCue } from '@/types';
+import { AI_CONFIG } from '@/config/ai-config';
+
+export interface TranscribeOptions {
+  language?: string;
+  onProgress?: (percent: number) => void;
+}
+
+export interface Transcriber {
+  name: string;
+  transcribe(filePath: string, options?: TranscribeOptions): Promise<TranscriptCue[]>;
+}
+
+// ============================================================================
+// whisper.cpp Backend
+// ============================================================================
+
+export interface WhisperCppOptions {
+  binaryPath: string;
+  modelPath: string;
+  ffmpegPath: string;
+  threads: number;
+}
+
+interface WhisperCppOutput {
+  transcription?: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+  }>;
+}
+
+/**
+ * Run a command, streaming stderr lines to a callback
+ */
+function runCommand(
+  command: string,
+  args: string[],
+  onStderrLine?: (line: string) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+    let stderrTail = '';
+    let buffered = '';
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      const text = chunk.toString();
+      stderrTail = (stderrTail + text).slice(-2000);
+      buffered += text;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      lines.forEach((line) => onStderrLine?.(line));
+    });
+
+    child.on('error', (error) => {
+      reject(new Error(`Failed to start ${command}: ${error.message}`));
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderrTail.trim()}`));
+      }
+    });
+  });
+}
+
+/**
+ * Local CPU transcription using a whisper.cpp binary. Input audio is
+ * converted to 16 kHz mono WAV with ffmpeg first, which whisper.cpp requires.
+ */
+export function createWhisperCppTranscriber(options: WhisperCppOptions): Transcriber {
+  return {
+    name: 'whisper-cpp',
+    async transcribe(filePath, { language, onProgress } = {}) {
+      const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whisper-'));
+      const wavPath = path.join(workDir, 'input.wav');
+      const outputBase = path.join(workDir, `transcript-${nanoid(6)}`);
+
+      try {
+        await runCommand(options.ffmpegPath, [
+          '-nostdin', '-y', '-i', filePath,
+          '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le',
+          wavPath,
+        ]);
+
+        const args = [
+          '-m', options.modelPath,
+          '-f', wavPath,
+          '-t', String(options.threads),
+          '-oj',
+          '-of', outputBase,
+          '-pp',
+        ];
+        if (language) {
+          args.push('-l', language);
+        }
+
+        await runCommand(options.binaryPath, args, (line) => {
+          const match = line.match(/progress\s*=\s*(\d+)%/);
+          if (match) onProgress?.(Number(match[1]));
+        });
+
+        const output = JSON.parse(
+          await fs.promises.readFile(`${outputBase}.json`, 'utf-8')
+        ) as WhisperCppOutput;
+
+        return (output.transcription || [])
+          .map((segment) => ({
+            startMs: segment.offsets.from,
+            endMs: segment.offsets.to,
+            text: segment.text.trim(),
+          }))
+          .filter((cue) => cue.text.length > 0);
+      } finally {
+        await fs.promises.rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Fake Backend
+// ============================================================================
+
+/**
+ * Deterministic transcriber for tests and offline development. Produces the
+ * same segments for the same file contents without running any model.
+ */
+export function createFakeTranscriber(segmentCount: number = 3): Transcriber {
+  return {
+    name: 'fake',
+    async transcribe(filePath, { onProgress } = {}) {
+      const contents = await fs.promises.readFile(filePath);
+      const digest = crypto.createHash('sha256').update(contents).digest('hex').slice(0, 8);
+
+      const cues: TranscriptCue[] = [];
+      for (let i = 0; i < segmentCount; i++) {
+        cues.push({
+          startMs: i * 5000,
+          endMs: (i + 1) * 5000,
+          text: `Transcript segment ${i + 1} of recording ${digest}.`,
+        });
+        onProgress?.(Math.round(((i + 1) / segmentCount) * 100));
+      }
+      return cues;
+    },
+  };
+}
+
+// ============================================================================
+// Backend Selection
+// ============================================================================
+
+let activeTranscriber: Transcriber | null = null;
+
+/**
+ * Get the transcriber selected by AI_CONFIG.transcription.backend
+ */
+export function getTranscriber(): Transcriber {
+  if (!activeTranscriber) {
+    const config = AI_CONFIG.transcription;
+    activeTranscriber = config.backend === 'fake'
+      ? createFakeTranscriber()
+      : createWhisperCppTranscriber({
+          binaryPath: config.whisperCppBinary,
+          modelPath: config.whisperCppModel,
+          ffmpegPath: config.ffmpegBinary,
+          threads: config.threads,
+        });
+  }
+  return activeTranscriber;
+}
+
+/**
+ * Replace the transcriber (pass null to restore the configured backend)
+ */
+export function setTranscriber(transcriber: Transcriber | null): void {
+  activeTranscriber = transcriber;
+}
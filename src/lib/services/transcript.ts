@@ -0,0 +1,202 @@
+// Transcript Parsing Service
+// Parses caption tracks (SRT, WebVTT, YouTube JSON3) into timed cues and
+// renders them as timestamped text that downstream AI processing can read
+
+import { CaptionFormat, TranscriptCue } from '@/types';
+
+// Start a new paragraph after this much transcript time so that
+// segmentBySize has paragraph boundaries to split on
+const PARAGRAPH_SPAN_MS = 60 * 1000;
+
+// Matches the "[1:23]" or "[1:02:03]" marker that starts each transcript line
+const TIMESTAMP_MARKERS = /^\[(?:(\d+):)?(\d{1,2}):(\d{2})\]/gm;
+
+// ============================================================================
+// Caption Parsing
+// ============================================================================
+
+/**
+ * Guess the caption format from file content
+ */
+export function detectCaptionFormat(content: string): CaptionFormat {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{')) return 'json3';
+  if (trimmed.startsWith('WEBVTT')) return 'vtt';
+  return 'srt';
+}
+
+/**
+ * Parse a caption track into cues, detecting the format when not given
+ */
+export function parseCaptions(content: string, format?: CaptionFormat): TranscriptCue[] {
+  const resolvedFormat = format || detectCaptionFormat(content);
+
+  switch (resolvedFormat) {
+    case 'json3':
+      return parseJson3(content);
+    case 'vtt':
+      return parseCueBlocks(content.replace(/^\uFEFF?WEBVTT[^\n]*\n/, ''));
+    case 'srt':
+      return parseCueBlocks(content);
+    default:
+      throw new Error(`Unsupported caption format: ${resolvedFormat}`);
+  }
+}
+
+/**
+ * Parse a clock value such as "00:01:02,500", "01:02.500" or "1:02"
+ */
+function parseClock(value: string): number {
+  const [clock, fraction = '0'] = value.trim().split(/[.,]/);
+  const parts = clock.split(':').map(Number);
+  while (parts.length < 3) parts.unshift(0);
+  const [hours, minutes, seconds] = parts;
+  const millis = Number(fraction.padEnd(3, '0').slice(0, 3));
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + millis;
+}
+
+/**
+ * Parse SRT and WebVTT bodies - both are blank-line separated blocks with a
+ * "start --> end" timing line followed by the cue text
+ */
+function parseCueBlocks(content: string): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line) => line.trim().length > 0);
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue; // NOTE/STYLE blocks, headers
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->');
+    // VTT timing lines may carry cue settings after the end time
+    const endClock = endRaw.trim().split(/\s+/)[0];
+    const text = cleanCueText(lines.slice(timingIndex + 1).join(' '));
+    if (!text) continue;
+
+    cues.push({
+      startMs: parseClock(startRaw),
+      endMs: parseClock(endClock),
+      text,
+    });
+  }
+
+  return dedupeRollingCues(cues);
+}
+
+/**
+ * Parse YouTube's JSON3 timed text format
+ */
+function parseJson3(content: string): TranscriptCue[] {
+  const data = JSON.parse(content) as {
+    events?: Array<{ tStartMs?: number; dDurationMs?: number; segs?: Array<{ utf8?: string }> }>;
+  };
+
+  const cues: TranscriptCue[] = [];
+  for (const event of data.events || []) {
+    if (!event.segs) continue;
+    const text = cleanCueText(event.segs.map((seg) => seg.utf8 || '').join(''));
+    if (!text) continue;
+
+    const startMs = event.tStartMs || 0;
+    cues.push({
+      startMs,
+      endMs: startMs + (event.dDurationMs || 0),
+      text,
+    });
+  }
+
+  return dedupeRollingCues(cues);
+}
+
+/**
+ * Strip inline markup (VTT voice/karaoke tags, SRT font tags) and entities
+ */
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Auto-generated captions repeat the previous line as a "rolling" prefix.
+ * Drop cues that repeat the previous cue and trim repeated prefixes.
+ */
+function dedupeRollingCues(cues: TranscriptCue[]): TranscriptCue[] {
+  const result: TranscriptCue[] = [];
+
+  for (const cue of cues) {
+    const previous = result[result.length - 1];
+    if (previous && cue.text === previous.text) {
+      previous.endMs = Math.max(previous.endMs, cue.endMs);
+      continue;
+    }
+    if (previous && cue.text.startsWith(previous.text + ' ')) {
+      result.push({ ...cue, text: cue.text.slice(previous.text.length + 1) });
+      continue;
+    }
+    result.push({ ...cue });
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Transcript Text
+// ============================================================================
+
+/**
+ * Format milliseconds as a transcript timestamp ("4:05" or "1:04:05")
+ */
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Render cues as text with one "[m:ss] text" line per cue.
+ * Lines are grouped into paragraphs roughly every minute.
+ */
+export function formatTranscriptText(cues: TranscriptCue[]): string {
+  const paragraphs: string[][] = [];
+  let paragraphStart = -Infinity;
+
+  for (const cue of cues) {
+    if (cue.startMs - paragraphStart >= PARAGRAPH_SPAN_MS) {
+      paragraphs.push([]);
+      paragraphStart = cue.startMs;
+    }
+    paragraphs[paragraphs.length - 1].push(`[${formatTimestamp(cue.startMs)}] ${cue.text}`);
+  }
+
+  return paragraphs.map((lines) => lines.join('\n')).join('\n\n');
+}
+
+/**
+ * Find the timestamp (in ms) of the transcript line containing a character
+ * offset of the rendered transcript text. Returns undefined for text without
+ * timestamp markers.
+ */
+export function getTimestampAtOffset(text: string, offset: number): number | undefined {
+  const lineEnd = text.indexOf('\n', offset);
+  const preceding = lineEnd === -1 ? text : text.slice(0, lineEnd);
+  const markers = [...preceding.matchAll(TIMESTAMP_MARKERS)];
+  const last = markers[markers.length - 1];
+  if (!last) return undefined;
+
+  const [, hours = '0', minutes, seconds] = last;
+  return ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+}
@@ -0,0 +1,216 @@
+// Web Article Extraction Service
+// Fetches a page through a pluggable HTTP client and keeps only the article
+// body (readability), converted to Markdown with headings, lists and code
+
+import fs from 'fs';
+import path from 'path';
+import { Readability } from '@mozilla/readability';
+import { parseHTML } from 'linkedom';
+import type { ExtractedContent } from './extractor-registry';
+import { buildMarkdownContent } from './markdown-extractor';
+import { htmlToMarkdown } from './html-extractor';
+
+export interface HttpResponse {
+  status: number;
+  url: string; // Final URL after redirects
+  contentType?: string;
+  body: string;
+}
+
+/**
+ * Minimal HTTP client used to download pages
+ */
+export interface HttpClient {
+  get(url: string): Promise<HttpResponse>;
+}
+
+export interface WebArticle extends ExtractedContent {
+  url?: string;
+  canonicalUrl?: string;
+  author?: string;
+  publishedAt?: string;
+  siteName?: string;
+}
+
+// ============================================================================
+// HTTP Clients
+// ============================================================================
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; LearnFlow/1.0; +https://github.com/Peshwa707/Shortform-educator)';
+
+/**
+ * Download pages over the network
+ */
+export function createFetchHttpClient(fetchImpl: typeof fetch = fetch): HttpClient {
+  return {
+    async get(url) {
+      const res = await fetchImpl(url, {
+        headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml' },
+        redirect: 'follow',
+      });
+      return {
+        status: res.status,
+        url: res.url || url,
+        contentType: res.headers.get('content-type') || undefined,
+        body: await res.text(),
+      };
+    },
+  };
+}
+
+/**
+ * Turn a URL into the fixture file name used by createFixtureHttpClient,
+ * e.g. https://example.com/blog/post?id=1 -> example.com_blog_post_id_1.html
+ */
+export function getFixtureFileName(url: string): string {
+  const parsed = new URL(url);
+  const slug = `${parsed.hostname}${parsed.pathname}${parsed.search}`
+    .replace(/[^\w.-]+/g, '_')
+    .replace(/_+$/, '');
+  return `${slug}.html`;
+}
+
+/**
+ * Serve saved HTML pages from a local directory. Used for tests and
+ * offline development.
+ */
+export function createFixtureHttpClient(directory: string): HttpClient {
+  return {
+    async get(url) {
+      const filePath = path.join(directory, getFixtureFileName(url));
+      if (!fs.existsSync(filePath)) {
+        return { status: 404, url, body: '' };
+      }
+      return { status: 200, url, contentType: 'text/html', body: fs.readFileSync(filePath, 'utf-8') };
+    },
+  };
+}
+
+let activeClient: HttpClient | null = null;
+
+/**
+ * Get the HTTP client in use. Defaults to the fixture client when
+ * WEB_FIXTURES_DIR is set, otherwise the network client.
+ */
+export function getHttpClient(): HttpClient {
+  if (!activeClient) {
+    const fixturesDir = process.env.WEB_FIXTURES_DIR;
+    activeClient = fixturesDir ? createFixtureHttpClient(fixturesDir) : createFetchHttpClient();
+  }
+  return activeClient;
+}
+
+/**
+ * Replace the HTTP client (pass null to restore the default)
+ */
+export function setHttpClient(client: HttpClient | null): void {
+  activeClient = client;
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+function getMetaContent(document: Document, names: string[]): string | undefined {
+  for (const name of names) {
+    const element = document.querySelector(`meta[name="${name}"], meta[property="${name}"], meta[itemprop="${name}"]`);
+    const content = element?.getAttribute('content')?.trim();
+    if (content) return content;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a date string to ISO 8601, dropping values that are not dates
+ */
+function toIsoDate(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function resolveUrl(href: string | null | undefined, baseUrl?: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extract the main article from a page's HTML. `url` is the page address,
+ * used to resolve relative links and as the fallback canonical URL.
+ */
+export function extractWebArticle(html: string, url?: string): WebArticle {
+  const { document } = parseHTML(html);
+
+  // Page metadata is read before Readability, which mutates the document
+  const canonicalUrl = resolveUrl(
+    document.querySelector('link[rel="canonical"]')?.getAttribute('href') ||
+      getMetaContent(document, ['og:url']),
+    url
+  ) || url;
+  const metaAuthor = getMetaContent(document, ['author', 'article:author', 'parsely-author']);
+  const metaPublished = getMetaContent(document, ['article:published_time', 'datePublished', 'date', 'dc.date', 'pubdate'])
+    || document.querySelector('time[datetime]')?.getAttribute('datetime');
+
+  // Let relative links and images resolve against the page address
+  if (url && !document.querySelector('base[href]') && document.head) {
+    const base = document.createElement('base');
+    base.setAttribute('href', url);
+    document.head.prepend(base);
+  }
+
+  const article = new Readability(document as unknown as Document).parse();
+  if (!article || !article.content) {
+    throw new Error('Could not find article content on this page');
+  }
+
+  const content = buildMarkdownContent(htmlToMarkdown(article.content), {
+    title: article.title?.trim() || undefined,
+    author: article.byline?.trim() || metaAuthor,
+    subject: article.excerpt?.trim() || undefined,
+  });
+
+  return {
+    ...content,
+    url,
+    canonicalUrl,
+    author: article.byline?.trim() || metaAuthor,
+    publishedAt: toIsoDate(article.publishedTime) || toIsoDate(metaPublished),
+    siteName: article.siteName?.trim() || undefined,
+  };
+}
+
+export interface WebArticleInput {
+  url?: string;
+  html?: string;
+}
+
+/**
+ * Resolve a web article from a URL (downloaded with the HTTP client) or from
+ * HTML supplied directly. When both are given the HTML is used and the URL
+ * only resolves links.
+ */
+export async function importWebArticle(
+  input: WebArticleInput,
+  client: HttpClient = getHttpClient()
+): Promise<WebArticle> {
+  if (input.html) {
+    return extractWebArticle(input.html, input.url);
+  }
+  if (!input.url) {
+    throw new Error('A URL or HTML is required');
+  }
+
+  const response = await client.get(input.url);
+  if (response.status < 200 || response.status >= 300) {
+    throw new Error(`Failed to download page (${response.status})`);
+  }
+  if (response.contentType && !/html|xml/i.test(response.contentType)) {
+    throw new Error(`Unsupported content type: ${response.contentType}`);
+  }
+
+  return extractWebArticle(response.body, response.url);
+}
@@ -0,0 +1,219 @@
+// YouTube Transcript Service
+// Resolves caption tracks for YouTube videos behind a pluggable fetcher so
+// ingestion can run against local fixtures instead of the network
+
+import fs from 'fs';
+import path from 'path';
+import { CaptionFormat, TranscriptCue } from '@/types';
+import { parseCaptions, detectCaptionFormat, formatTranscriptText } from './transcript';
+
+export interface CaptionTrack {
+  content: string;
+  format: CaptionFormat;
+  language?: string;
+  videoTitle?: string;
+}
+
+export interface TranscriptFetchOptions {
+  language?: string;
+}
+
+/**
+ * Fetches a caption track for a video. Returns null when the video has no
+ * captions available.
+ */
+export interface TranscriptFetcher {
+  fetchTranscript(videoId: string, options?: TranscriptFetchOptions): Promise<CaptionTrack | null>;
+}
+
+// ============================================================================
+// URL Helpers
+// ============================================================================
+
+/**
+ * Extract the 11-character video ID from the common YouTube URL shapes
+ * (watch, youtu.be, shorts, embed, live)
+ */
+export function extractYouTubeVideoId(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.replace(/^(www\.|m\.|music\.)/, '');
+  let candidate: string | null = null;
+
+  if (host === 'youtu.be') {
+    candidate = parsed.pathname.slice(1).split('/')[0];
+  } else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    candidate = parsed.searchParams.get('v');
+    if (!candidate) {
+      const match = parsed.pathname.match(/^\/(?:shorts|embed|live|v)\/([^/?#]+)/);
+      candidate = match ? match[1] : null;
+    }
+  }
+
+  return candidate && /^[\w-]{11}$/.test(candidate) ? candidate : null;
+}
+
+/**
+ * Build a URL that opens the video at a given moment
+ */
+export function buildYouTubeTimestampUrl(url: string, ms: number): string {
+  const videoId = extractYouTubeVideoId(url);
+  const seconds = Math.floor(ms / 1000);
+  return videoId
+    ? `https://www.youtube.com/watch?v=${videoId}&t=${seconds}s`
+    : url;
+}
+
+// ============================================================================
+// Fetchers
+// ============================================================================
+
+interface PlayerCaptionTrack {
+  baseUrl: string;
+  languageCode: string;
+  kind?: string;
+}
+
+/**
+ * Fetch captions from YouTube by reading the caption track list embedded in
+ * the watch page and downloading the chosen track as JSON3
+ */
+export function createYouTubeTranscriptFetcher(fetchImpl: typeof fetch = fetch): TranscriptFetcher {
+  return {
+    async fetchTranscript(videoId, options = {}) {
+      const language = options.language || 'en';
+      const pageRes = await fetchImpl(`https://www.youtube.com/watch?v=${videoId}&hl=${language}`, {
+        headers: { 'Accept-Language': language },
+      });
+      if (!pageRes.ok) {
+        throw new Error(`Failed to load YouTube video page (${pageRes.status})`);
+      }
+      const html = await pageRes.text();
+
+      const tracksMatch = html.match(/"captionTracks":(\[.*?\])\s*,\s*"audioTracks"/);
+      if (!tracksMatch) return null;
+
+      const tracks = JSON.parse(tracksMatch[1]) as PlayerCaptionTrack[];
+      // Prefer human captions in the requested language, then auto-generated ones
+      const track =
+        tracks.find((t) => t.languageCode === language && t.kind !== 'asr') ||
+        tracks.find((t) => t.languageCode === language) ||
+        tracks.find((t) => t.kind !== 'asr') ||
+        tracks[0];
+      if (!track) return null;
+
+      const captionRes = await fetchImpl(`${track.baseUrl}&fmt=json3`);
+      if (!captionRes.ok) {
+        throw new Error(`Failed to download YouTube captions (${captionRes.status})`);
+      }
+      const content = await captionRes.text();
+      if (!content.trim()) return null;
+
+      const titleMatch = html.match(/"videoDetails":\{"videoId":"[^"]+","title":"((?:[^"\\]|\\.)*)"/);
+
+      return {
+        content,
+        format: 'json3',
+        language: track.languageCode,
+        videoTitle: titleMatch ? JSON.parse(`"${titleMatch[1]}"`) : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Serve caption tracks from a local directory of `<videoId>.json3|vtt|srt`
+ * files. Used for tests and offline development.
+ */
+export function createFixtureTranscriptFetcher(directory: string): TranscriptFetcher {
+  const formats: CaptionFormat[] = ['json3', 'vtt', 'srt'];
+
+  return {
+    async fetchTranscript(videoId) {
+      for (const format of formats) {
+        const filePath = path.join(directory, `${videoId}.${format}`);
+        if (fs.existsSync(filePath)) {
+          return { content: fs.readFileSync(filePath, 'utf-8'), format };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+let activeFetcher: TranscriptFetcher | null = null;
+
+/**
+ * Get the transcript fetcher in use. Defaults to the fixture fetcher when
+ * YOUTUBE_TRANSCRIPT_FIXTURES_DIR is set, otherwise the network fetcher.
+ */
+export function getTranscriptFetcher(): TranscriptFetcher {
+  if (!activeFetcher) {
+    const fixturesDir = process.env.YOUTUBE_TRANSCRIPT_FIXTURES_DIR;
+    activeFetcher = fixturesDir
+      ? createFixtureTranscriptFetcher(fixturesDir)
+      : createYouTubeTranscriptFetcher();
+  }
+  return activeFetcher;
+}
+
+/**
+ * Replace the transcript fetcher (pass null to restore the default)
+ */
+export function setTranscriptFetcher(fetcher: TranscriptFetcher | null): void {
+  activeFetcher = fetcher;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+export interface YouTubeTranscriptInput {
+  url: string;
+  captions?: string;
+  captionFormat?: CaptionFormat;
+  language?: string;
+}
+
+export interface YouTubeTranscript {
+  videoId: string;
+  videoTitle?: string;
+  cues: TranscriptCue[];
+  text: string;
+}
+
+/**
+ * Resolve a transcript for a YouTube URL, using uploaded captions when given
+ * and the fetcher otherwise. Returns null when no captions could be found.
+ */
+export async function importYouTubeTranscript(
+  input: YouTubeTranscriptInput,
+  fetcher: TranscriptFetcher = getTranscriptFetcher()
+): Promise<YouTubeTranscript | null> {
+  const videoId = extractYouTubeVideoId(input.url);
+  if (!videoId) {
+    throw new Error('Could not find a video ID in the YouTube URL');
+  }
+
+  const track: CaptionTrack | null = input.captions
+    ? { content: input.captions, format: input.captionFormat || detectCaptionFormat(input.captions) }
+    : await fetcher.fetchTranscript(videoId, { language: input.language });
+
+  if (!track) return null;
+
+  const cues = parseCaptions(track.content, track.format);
+  if (cues.length === 0) return null;
+
+  return {
+    videoId,
+    videoTitle: track.videoTitle,
+    cues,
+    text: formatTranscriptText(cues),
+  };
+}
+
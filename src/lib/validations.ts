@@ -1,6 +1,8 @@
 // Zod validation schemas for API routes
 import { z } from 'zod';
 import { FileUploadLimits } from './constants';
+import { REVIEW_CONFIG } from '@/config/review-config';
+import { FLASHCARD_FLAGS } from '@/types';
 
 // Source creation schemas
 export const TextSourceSchema = z.object({
@@ -17,29 +19,164 @@ export const YouTubeSourceSchema = z.object({
     (url) => url.includes('youtube.com') || url.includes('youtu.be'),
     'Must be a YouTube URL'
   ),
+  title: z.string().min(1).max(200, 'Title too long').optional(),
+  // Uploaded caption track; fetched from YouTube when omitted
+  captions: z.string()
+    .max(FileUploadLimits.MAX_CAPTION_LENGTH, `Captions exceed ${FileUploadLimits.MAX_CAPTION_LENGTH} characters`)
+    .optional(),
+  captionFormat: z.enum(['srt', 'vtt', 'json3']).optional(),
+  language: z.string().min(2).max(10).optional(),
+});
+
+export const UrlSourceSchema = z.object({
+  type: z.literal('url'),
+  url: z.string().url('Invalid URL').refine(
+    (url) => /^https?:\/\//i.test(url),
+    'Must be an http(s) URL'
+  ).optional(),
+  title: z.string().min(1).max(200, 'Title too long').optional(),
+  // Page HTML for offline use; downloaded from `url` when omitted
+  html: z.string()
+    .max(FileUploadLimits.MAX_HTML_LENGTH, `HTML exceeds ${FileUploadLimits.MAX_HTML_LENGTH} characters`)
+    .optional(),
+}).refine((data) => data.url || data.html, {
+  message: 'A URL or HTML is required',
+  path: ['url'],
 });
 
 export const AudioSourceSchema = z.object({
   type: z.literal('audio'),
-  // Audio fields TBD in Phase 2
+  title: z.string().min(1).max(200, 'Title too long').optional(),
+  // Spoken language hint for the transcriber (auto-detected when omitted)
+  language: z.string().min(2).max(10).optional(),
 });
 
 export const CreateSourceSchema = z.discriminatedUnion('type', [
   TextSourceSchema,
   YouTubeSourceSchema,
+  UrlSourceSchema,
   AudioSourceSchema,
 ]);
 
-// Flashcard review schema
+// Flashcard review schema: a self-rating, or the answer to a multiple choice or typed card
 export const FlashcardReviewSchema = z.object({
   rating: z.enum(['again', 'hard', 'good', 'easy'], {
     message: 'Rating must be one of: again, hard, good, easy',
-  }),
+  }).optional(),
+  answer: z.string().max(1000, 'Answer too long').optional(),
   timeToAnswerMs: z.number()
     .int({ message: 'Time must be an integer' })
     .nonnegative({ message: 'Time cannot be negative' })
     .max(600000, { message: 'Time exceeds maximum (10 minutes)' })
     .optional(),
+}).refine((data) => data.rating !== undefined || data.answer !== undefined, {
+  message: 'Either rating or answer is required',
+}).refine((data) => data.answer === undefined || data.timeToAnswerMs !== undefined, {
+  // Answers are rated by speed as well as correctness
+  message: 'timeToAnswerMs is required with an answer',
+  path: ['timeToAnswerMs'],
+});
+
+// Extra flashcards for a lesson
+export const GenerateFlashcardsSchema = z.object({
+  formats: z.array(z.enum(['basic', 'multiple_choice', 'typed'], {
+    message: 'Format must be one of: basic, multiple_choice, typed',
+  })).min(1, 'At least one format is required').default(['multiple_choice', 'typed']),
+});
+
+// Note edit schema: fields left out are unchanged; null clears an optional one
+const NoteTextSchema = z.string().trim().min(1, 'Must not be empty').max(2000, 'Too long');
+const NoteListSchema = z.array(NoteTextSchema).max(10, 'At most 10 entries').nullable().optional();
+
+export const UpdateNoteSchema = z.object({
+  front: NoteTextSchema.optional(),
+  back: z.string().trim().max(2000, 'Too long').optional(),
+  hint: NoteTextSchema.nullable().optional(),
+  mnemonic: NoteTextSchema.nullable().optional(),
+  visualCue: z.string().trim().min(1, 'Must not be empty').max(20, 'Too long').nullable().optional(),
+  // Setting a term adds a reverse card; null removes it
+  term: NoteTextSchema.nullable().optional(),
+  distractors: NoteListSchema,
+  acceptedAnswers: NoteListSchema,
+  excerpt: NoteTextSchema.nullable().optional(),
+}).refine((data) => Object.values(data).some((value) => value !== undefined), {
+  message: 'Nothing to update',
+});
+
+// Flashcard edit schema: content edits go to the card's note
+export const UpdateFlashcardSchema = z.object({
+  front: NoteTextSchema.optional(),
+  back: z.string().trim().max(2000, 'Too long').optional(),
+  hint: NoteTextSchema.nullable().optional(),
+  mnemonic: NoteTextSchema.nullable().optional(),
+  visualCue: z.string().trim().min(1, 'Must not be empty').max(20, 'Too long').nullable().optional(),
+  isSuspended: z.boolean().optional(),
+  // true hides the card until tomorrow, false brings it back
+  buried: z.boolean().optional(),
+  flag: z.enum(FLASHCARD_FLAGS, {
+    message: `Flag must be one of: ${FLASHCARD_FLAGS.join(', ')}`,
+  }).nullable().optional(),
+  deckId: z.string().min(1).optional(),
+}).refine((data) => Object.values(data).some((value) => value !== undefined), {
+  message: 'Nothing to update',
+});
+
+// Leech rewrite schemas
+export const RewriteFlashcardSchema = z.object({
+  mode: z.enum(['split', 'memory_aid', 'excerpt'], {
+    message: 'Mode must be one of: split, memory_aid, excerpt',
+  }),
+});
+
+export const ApplyFlashcardRewriteSchema = z.object({
+  jobId: z.string().min(1, 'Job ID is required'),
+});
+
+// Deck schemas
+const DeckNameSchema = z.string().trim().min(1, 'Name is required').max(100, 'Name too long');
+
+const DailyLimitSchema = z.number()
+  .int('Must be a whole number')
+  .min(0, 'Must not be negative')
+  .max(9999, 'Must be at most 9999');
+
+export const CreateDeckSchema = z.object({
+  name: DeckNameSchema,
+  parentId: z.string().min(1).optional(),
+});
+
+// null moves the deck to the top level, or restores a setting's configured default
+export const UpdateDeckSchema = z.object({
+  name: DeckNameSchema.optional(),
+  parentId: z.string().min(1).nullable().optional(),
+  scheduler: z.enum(['sm2', 'fsrs'], { message: 'Scheduler must be one of: sm2, fsrs' }).nullable().optional(),
+  newCardsPerDay: DailyLimitSchema.nullable().optional(),
+  maxReviewsPerDay: DailyLimitSchema.nullable().optional(),
+  reviewOrder: z.enum(['mixed', 'new_first', 'reviews_first'], {
+    message: 'Review order must be one of: mixed, new_first, reviews_first',
+  }).nullable().optional(),
+}).refine((data) => Object.values(data).some((value) => value !== undefined), {
+  message: 'Nothing to update',
+});
+
+// Review settings schemas
+const { minRequestRetention, maxRequestRetention } = REVIEW_CONFIG.fsrs;
+
+export const UpdateReviewSettingsSchema = z.object({
+  // Desired retention; null restores the configured default
+  desiredRetention: z.number()
+    .min(minRequestRetention, { message: `Desired retention must be at least ${minRequestRetention}` })
+    .max(maxRequestRetention, { message: `Desired retention must be at most ${maxRequestRetention}` })
+    .nullable()
+    .optional(),
+  // Only null is accepted: restores the default weights. Fitted weights are applied via /apply.
+  weights: z.null().optional(),
+}).refine((data) => data.desiredRetention !== undefined || data.weights !== undefined, {
+  message: 'Nothing to update',
+});
+
+export const ApplyFSRSWeightsSchema = z.object({
+  jobId: z.string().min(1, 'Job ID is required'),
 });
 
 // Query parameter schemas
@@ -53,6 +190,35 @@ export const FlashcardsQuerySchema = z.object({
   sourceId: z.string().uuid('Invalid source ID').optional(),
 });
 
+// Usage report range: whole UTC days, `to` inclusive. Defaults to the current month.
+const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date (YYYY-MM-DD)');
+
+export const UsageQuerySchema = z.object({
+  from: IsoDateSchema.optional(),
+  to: IsoDateSchema.optional(),
+}).refine((data) => !data.from || !data.to || data.from <= data.to, {
+  message: 'from must not be after to',
+  path: ['from'],
+});
+
+// Prompt template schemas
+export const CreatePromptVersionSchema = z.object({
+  body: z.string().trim().min(1, 'Template body is required').max(50000, 'Template body too long'),
+  description: z.string().max(500, 'Description too long').optional(),
+  activate: z.boolean().optional(),
+});
+
+export const ActivatePromptVersionSchema = z.object({
+  version: z.number().int().positive('Version must be a positive integer'),
+});
+
+const PromptVersionParamSchema = z.string().regex(/^[1-9]\d*$/, 'Must be a version number').transform(Number);
+
+export const PromptDiffQuerySchema = z.object({
+  from: PromptVersionParamSchema.optional(),
+  to: PromptVersionParamSchema.optional(),
+});
+
 // Source ID parameter schema
 export const SourceIdSchema = z.object({
   sourceId: z.string().uuid('Invalid source ID'),
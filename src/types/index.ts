@@ -1,6 +1,6 @@
 // Core types for ADHD-Friendly Learning Bot
 
-export type SourceType = 'pdf' | 'youtube' | 'audio' | 'text';
+export type SourceType = 'pdf' | 'youtube' | 'audio' | 'text' | 'epub' | 'docx' | 'html' | 'markdown' | 'url';
 
 export interface Source {
   id: string;
@@ -12,6 +12,7 @@ export interface Source {
   processingStatus?: string;
   processingProgress?: number;
   errorMessage?: string;
+  metadata?: SourceMetadata;
   processedAt?: Date;
   createdAt: Date;
   // Computed fields
@@ -20,6 +21,42 @@ export interface Source {
   progress?: number;
 }
 
+// A heading taken from the document's own structure (EPUB, DOCX, HTML, Markdown)
+export interface DocumentHeading {
+  offset: number; // Character offset of the heading line in rawText
+  title: string;
+  level: number;
+}
+
+// Character range of one page of the original document within rawText
+export interface PageRange {
+  page: number; // 1-based
+  start: number;
+  end: number; // Exclusive
+}
+
+// Extraction details kept alongside a source
+export interface SourceMetadata {
+  author?: string;
+  subject?: string;
+  pageCount?: number;
+  pageMap?: PageRange[];
+  headings?: DocumentHeading[];
+  // Web articles
+  canonicalUrl?: string;
+  publishedAt?: string; // ISO 8601
+  siteName?: string;
+}
+
+// Transcript types (YouTube captions, audio transcription)
+export type CaptionFormat = 'srt' | 'vtt' | 'json3';
+
+export interface TranscriptCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
 export interface MicroLesson {
   id: string;
   sourceId: string;
@@ -31,14 +68,62 @@ export interface MicroLesson {
   estimatedMinutes: number;
   difficulty: 1 | 2 | 3;
   audioPath?: string;
+  // Pages of the original document this lesson was drawn from
+  pageStart?: number;
+  pageEnd?: number;
+  promptTemplateId?: string; // Prompt template version the lesson was generated with
   createdAt: Date;
   // Computed
   isCompleted?: boolean;
 }
 
+// Basic cards show front then back. Cloze cards hold text with {{c1::...}}
+// deletions in `front`, one sibling card per deletion, and extra notes in `back`.
+// Multiple choice and typed cards are graded from the learner's answer, with
+// `back` as the correct one.
+export type CardType = 'basic' | 'cloze' | 'multiple_choice' | 'typed';
+
+// What the learner writes or edits. Each note has one or more cards, which are
+// scheduled independently and hold a copy of the note's content as shown on
+// that card.
+export interface Note {
+  id: string;
+  lessonId: string;
+  noteType: CardType;
+  front: string;
+  back: string;
+  hint?: string;
+  mnemonic?: string;
+  visualCue?: string;
+  // Definitional notes: the term the front asks about. Basic notes with a term
+  // get a reverse card asking for it from the back.
+  term?: string;
+  distractors?: string[];
+  acceptedAnswers?: string[];
+  excerpt?: string; // Passage of the lesson shown with the answer
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// How a leech (a card that keeps being forgotten) can be rewritten
+export type LeechRewriteMode = 'split' | 'memory_aid' | 'excerpt';
+
+export interface LeechRewriteSuggestion {
+  mode: LeechRewriteMode;
+  // The card's new content first; split rewrites add the rest as new notes
+  cards: { front: string; back: string; hint?: string; mnemonic?: string }[];
+  excerpt?: string;
+}
+
+// Colored flags the learner marks cards with, e.g. to come back to them
+export const FLASHCARD_FLAGS = ['red', 'orange', 'green', 'blue'] as const;
+
+export type FlashcardFlag = (typeof FLASHCARD_FLAGS)[number];
+
 export interface Flashcard {
   id: string;
   lessonId: string;
+  cardType?: CardType; // Unset means basic
   front: string;
   back: string;
   hint?: string;
@@ -49,9 +134,58 @@ export interface Flashcard {
   interval: number;
   repetitions: number;
   nextReview?: Date;
+  // FSRS memory state, kept current under either scheduler; unset until the first review
+  stability?: number; // Days until recall probability falls to 90%
+  difficulty?: number; // 1-10
+  lastReviewedAt?: Date;
+  // Learning steps; unset means a new card
+  cardState?: CardState;
+  learningStep?: number; // Index into the learning or relearning steps
+  // The note the card was made from; reviewing a card buries its siblings for the day
+  noteId?: string;
+  clozeIndex?: number; // The deletion this card asks for, e.g. 2 for {{c2::...}}
+  isReverse?: boolean; // Asks for the note's term from its back
+  excerpt?: string;
+  // Reviews rated "again"; cards with enough of them are leeches and get suspended
+  lapses?: number;
+  isLeech?: boolean;
+  isSuspended?: boolean; // Left out of reviews
+  distractors?: string[]; // Multiple choice: the wrong options
+  acceptedAnswers?: string[]; // Typed: other answers that count as correct
+  buriedUntil?: Date;
+  flag?: FlashcardFlag;
+  deckId?: string;
+  createdAt: Date;
+  // Computed: scheduler of the card's deck
+  scheduler?: SchedulerName;
+}
+
+// Decks group cards for review and carry their review settings. Every source
+// has a default deck its cards start in; decks nest, and reviewing a deck
+// includes its subdecks.
+export interface Deck {
+  id: string;
+  name: string;
+  parentId?: string;
+  sourceId?: string; // Set on a source's default deck
+  scheduler?: SchedulerName; // Unset uses REVIEW_CONFIG.defaultScheduler
+  // Daily limits of the deck's own cards; unset uses REVIEW_CONFIG.dailyLimits
+  newCardsPerDay?: number;
+  maxReviewsPerDay?: number;
+  reviewOrder?: ReviewOrder;
   createdAt: Date;
+  // Computed: cards in the deck, not counting subdecks
+  cardCount?: number;
+  // Computed: cards left today in the deck and its subdecks
+  dueCounts?: QueueCounts;
 }
 
+// What a note shows on one of its cards
+export type CardContent = Pick<
+  Flashcard,
+  'cardType' | 'clozeIndex' | 'isReverse' | 'front' | 'back' | 'hint' | 'mnemonic' | 'visualCue' | 'distractors' | 'acceptedAnswers' | 'excerpt'
+>;
+
 export interface Progress {
   id: string;
   lessonId: string;
@@ -111,6 +245,32 @@ export interface SM2Result {
   nextReview: Date;
 }
 
+// Spaced repetition algorithm used to schedule a deck's flashcards
+export type SchedulerName = 'sm2' | 'fsrs';
+
+// How a day's new cards are ordered among its reviews: spread evenly through
+// them, or before or after all of them
+export type ReviewOrder = 'mixed' | 'new_first' | 'reviews_first';
+
+// The review screen's counters: new cards, cards in their learning or
+// relearning steps, and cards due for review
+export type QueueKind = 'new' | 'learning' | 'review';
+
+export type QueueCounts = Record<QueueKind, number>;
+
+// Where a card is in the review cycle. Learning (new) and relearning (lapsed)
+// cards come back within minutes until they pass their last step.
+export type CardState = 'new' | 'learning' | 'review' | 'relearning';
+
+// Scheduling state of a card after a review
+export interface CardSchedule extends SM2Result {
+  stability: number;
+  difficulty: number;
+  lastReviewedAt: Date;
+  cardState: CardState;
+  learningStep: number;
+}
+
 // API request/response types
 export interface ProcessingStatus {
   sourceId: string;
@@ -0,0 +1,70 @@
+// Types for the Background Job Queue
+// Long-running pipelines run as persisted jobs instead of inside HTTP requests
+
+// ============================================================================
+// Job Types
+// ============================================================================
+
+export type JobType =
+  | 'transcribe_audio'
+  | 'process_source'
+  | 'generate_summaries'
+  | 'aggregate_collection'
+  | 'optimize_fsrs'
+  | 'generate_flashcards'
+  | 'rewrite_leech';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// Pipelines whose steps are checkpointed per source
+export type CheckpointPipeline = 'lessons' | 'summaries';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  subjectId: string; // Source, collection, lesson or flashcard the job works on ('review_history' for optimize_fsrs)
+  payload: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: string;
+  progress: number; // 0-100
+  phase?: string; // e.g. "Summarizing segment 3/9"
+  progressCurrent?: number;
+  progressTotal?: number;
+
+  // Retry state
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date; // Earliest time the job may (re)start
+
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateJobInput {
+  type: JobType;
+  subjectId: string;
+  payload: Record<string, unknown>;
+  maxAttempts?: number;
+}
+
+// ============================================================================
+// Progress Types
+// ============================================================================
+
+export interface JobProgress {
+  phase?: string;
+  current?: number;
+  total?: number;
+  percent: number;
+}
+
+// Sent by GET /api/jobs/[id]/events
+export interface JobProgressEvent extends JobProgress {
+  jobId: string;
+  status: JobStatus;
+  error?: string;
+  result?: Record<string, unknown>;
+}
@@ -0,0 +1,59 @@
+// Types for Prompt Templates
+// System prompts are stored as versioned templates that can be edited without a deploy
+
+// ============================================================================
+// Template Types
+// ============================================================================
+
+export const PROMPT_TEMPLATE_NAMES = [
+  'lesson_generation',
+  'segment_summary',
+  'key_points_summary',
+  'executive_summary',
+  'detailed_summary',
+  'aggregation',
+] as const;
+
+export type PromptTemplateName = (typeof PROMPT_TEMPLATE_NAMES)[number];
+
+export interface PromptTemplate {
+  id: string;
+  name: PromptTemplateName;
+  version: number; // 1 is the built-in default
+  body: string; // Text with {{variable}} placeholders
+  description?: string;
+  isActive: boolean; // Exactly one version per name is active
+  createdAt: Date;
+}
+
+// Active template filled in with the current variables, ready to send
+export interface RenderedPrompt {
+  templateId: string;
+  version: number;
+  text: string;
+}
+
+// ============================================================================
+// API Types
+// ============================================================================
+
+// One entry of GET /api/prompts
+export interface PromptTemplateSummary {
+  name: PromptTemplateName;
+  activeVersion: number;
+  latestVersion: number;
+  description?: string;
+}
+
+export interface PromptDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+// Returned by GET /api/prompts/[name]/diff
+export interface PromptDiff {
+  name: PromptTemplateName;
+  from: number;
+  to: number;
+  lines: PromptDiffLine[];
+}
@@ -0,0 +1,59 @@
+// Types for Flashcard Review Settings
+// Scheduler parameters, and fitting them to the learner's review history
+
+import { Flashcard, FlashcardRating, SchedulerName } from '@/types';
+
+// ============================================================================
+// Parameter Types
+// ============================================================================
+
+export interface FSRSParameters {
+  weights: number[]; // w0-w18
+  requestRetention: number; // Desired probability of recall when a card comes due, 0-1
+}
+
+// Returned by GET /api/review-settings
+export interface ReviewSettings {
+  defaultScheduler: SchedulerName;
+  fsrs: FSRSParameters & {
+    weightsSource: 'default' | 'optimized';
+    optimizedAt?: string; // When optimized weights were applied
+  };
+}
+
+// ============================================================================
+// Optimizer Types
+// ============================================================================
+
+// One row of flashcard_reviews
+export interface ReviewLogEntry {
+  flashcardId: string;
+  rating: FlashcardRating; // SM-2 scale
+  reviewedAt: Date;
+}
+
+// A card's state before a review, recorded with it so the review can be undone
+export type ReviewUndoState = Pick<
+  Flashcard,
+  'easeFactor' | 'interval' | 'repetitions' | 'nextReview' | 'stability' | 'difficulty' | 'lastReviewedAt' | 'cardState' | 'learningStep'
+> & Required<Pick<Flashcard, 'lapses' | 'isLeech' | 'isSuspended'>> & {
+  // The other cards of the note, which the review buried, as they were before
+  siblings: Pick<Flashcard, 'id' | 'buriedUntil'>[];
+};
+
+// How well a set of weights predicts the recorded reviews
+export interface FSRSEvaluation {
+  logLoss: number;
+  rmse: number; // Root mean square error of predicted recall probability
+  reviewCount: number; // Reviews scored (those at least a day after the previous one)
+}
+
+// Result of an optimize_fsrs job
+export interface FSRSOptimizationResult {
+  weights: number[];
+  before: FSRSEvaluation;
+  after: FSRSEvaluation;
+  improved: boolean; // False means the current weights fit the history better
+  cardCount: number;
+  iterations: number;
+}
@@ -25,11 +25,16 @@ export interface Summary {
   generationDurationMs?: number;
   inputTokenCount?: number;
   outputTokenCount?: number;
+  promptTemplateId?: string; // Prompt template version it was generated with
 
   // Quality metrics
   qualityScore?: number;
   userRating?: 1 | 2 | 3 | 4 | 5;
 
+  // Pages of the original document covered
+  pageStart?: number;
+  pageEnd?: number;
+
   createdAt: Date;
   updatedAt: Date;
 }
@@ -51,6 +56,8 @@ export interface DocumentSegment {
   sectionTitle?: string;
   level: number;
   estimatedTokens?: number;
+  pageStart?: number;
+  pageEnd?: number;
   text?: string; // Not stored in DB, used during processing
   createdAt: Date;
 }
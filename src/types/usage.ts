@@ -0,0 +1,74 @@
+// Types for AI Usage Tracking
+// Every LLM call is recorded with its tokens, latency and estimated cost
+
+// ============================================================================
+// Ledger Types
+// ============================================================================
+
+export type AIOperation =
+  | 'lesson_generation'
+  | 'flashcard_generation'
+  | 'leech_rewrite'
+  | 'simplify_text'
+  | 'segment_summary'
+  | 'key_points_summary'
+  | 'executive_summary'
+  | 'detailed_summary'
+  | 'aggregation'
+  | 'theme_extraction'
+  | 'insight_extraction'
+  | 'summary_comparison';
+
+// Outcome of a cache lookup; calls that skip the cache have none
+export type CacheStatus = 'hit' | 'miss';
+
+export interface AIUsageRecord {
+  id: string;
+  operation: AIOperation;
+  sourceId?: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  costUsd: number; // Estimated from AI_CONFIG.usage.prices; 0 for cache hits
+  cacheStatus?: CacheStatus;
+  createdAt: Date;
+}
+
+export type CreateAIUsageInput = Omit<AIUsageRecord, 'id' | 'createdAt'>;
+
+// ============================================================================
+// Report Types
+// ============================================================================
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  cacheHits: number;
+  cacheMisses: number;
+  cacheHitRate: number; // Hits / cacheable calls, 0-1
+}
+
+export interface UsageRollups {
+  totals: UsageTotals;
+  bySource: (UsageTotals & { sourceId: string | null; sourceTitle?: string })[];
+  byDay: (UsageTotals & { day: string })[]; // YYYY-MM-DD (UTC)
+  byOperation: (UsageTotals & { operation: AIOperation })[];
+}
+
+export interface BudgetStatus {
+  monthlyBudgetUsd?: number; // Unset means no limit
+  spentThisMonthUsd: number;
+  remainingUsd?: number;
+  exceeded: boolean;
+}
+
+// Returned by GET /api/usage
+export interface UsageReport extends UsageRollups {
+  from: string;
+  to: string;
+  budget: BudgetStatus;
+}
@@ -0,0 +1,24 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+async function loadTranscriberBackend(value: string | undefined) {
+  vi.resetModules();
+  vi.stubEnv('TRANSCRIBER', value);
+  const { AI_CONFIG } = await import('@/config/ai-config');
+  return AI_CONFIG.transcription.backend;
+}
+
+describe('AI_CONFIG.transcription.backend', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the configured backend', async () => {
+    expect(await loadTranscriberBackend('fake')).toBe('fake');
+    expect(await loadTranscriberBackend('whisper-cpp')).toBe('whisper-cpp');
+  });
+
+  it('falls back to whisper-cpp when unset or unknown', async () => {
+    expect(await loadTranscriberBackend(undefined)).toBe('whisper-cpp');
+    expect(await loadTranscriberBackend('fak')).toBe('whisper-cpp');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { formatCloze, getClozeIndexes, hasClozeDeletions, renderCloze } from '@/lib/services/cloze';
+
+const TEXT = 'The {{c1::mitochondria}} is the {{c2::powerhouse::energy}} of the {{c1::cell}}';
+
+describe('getClozeIndexes', () => {
+  it('lists each deletion number once, ascending', () => {
+    expect(getClozeIndexes(TEXT)).toEqual([1, 2]);
+    expect(getClozeIndexes('{{c3::a}} {{c1::b}} {{c3::c}}')).toEqual([1, 3]);
+  });
+
+  it('ignores empty deletions and c0', () => {
+    expect(getClozeIndexes('{{c1::  }} {{c0::zero}}')).toEqual([]);
+    expect(hasClozeDeletions('no deletions here')).toBe(false);
+    expect(hasClozeDeletions(TEXT)).toBe(true);
+  });
+});
+
+describe('renderCloze', () => {
+  it('blanks every occurrence of the asked-for deletion', () => {
+    expect(renderCloze(TEXT, 1, false)).toEqual([
+      { text: 'The ' },
+      { text: '[...]', blank: true },
+      { text: ' is the ' },
+      { text: 'powerhouse' },
+      { text: ' of the ' },
+      { text: '[...]', blank: true },
+    ]);
+  });
+
+  it('shows the hint in the blank and the answer once revealed', () => {
+    expect(formatCloze(TEXT, 2)).toBe('The mitochondria is the [energy] of the cell');
+    expect(renderCloze(TEXT, 2, true)[3]).toEqual({ text: 'powerhouse', blank: true });
+  });
+
+  it('keeps multi-line answers', () => {
+    expect(formatCloze('A {{c1::two\nlines}} answer', 1, true)).toBe('A two\nlines answer');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { flattenDeckTree, getDeckParentError, getSubdeckIds } from '@/lib/services/decks';
+import { Deck } from '@/types';
+
+const createdAt = new Date('2026-01-01T00:00:00Z');
+const deck = (id: string, name: string, parentId?: string): Deck => ({ id, name, parentId, createdAt });
+
+const decks = [
+  deck('bio', 'Biology'),
+  deck('cells', 'Cells', 'bio'),
+  deck('organelles', 'Organelles', 'cells'),
+  deck('animals', 'Animals', 'bio'),
+  deck('art', 'Art'),
+];
+
+describe('flattenDeckTree', () => {
+  it('lists each deck before its subdecks, siblings by name', () => {
+    expect(flattenDeckTree(decks).map(({ deck, depth }) => `${depth}:${deck.id}`)).toEqual([
+      '0:art',
+      '0:bio',
+      '1:animals',
+      '1:cells',
+      '2:organelles',
+    ]);
+  });
+
+  it('shows decks whose parent is gone at the top level', () => {
+    expect(flattenDeckTree([deck('orphan', 'Orphan', 'missing')])).toEqual([
+      { deck: deck('orphan', 'Orphan', 'missing'), depth: 0 },
+    ]);
+  });
+});
+
+describe('getSubdeckIds', () => {
+  it('includes the deck and every deck below it', () => {
+    expect(getSubdeckIds(decks, 'bio')).toEqual(new Set(['bio', 'cells', 'organelles', 'animals']));
+    expect(getSubdeckIds(decks, 'art')).toEqual(new Set(['art']));
+  });
+});
+
+describe('getDeckParentError', () => {
+  it('allows moving a deck under another branch', () => {
+    expect(getDeckParentError(decks, 'cells', 'art')).toBeNull();
+  });
+
+  it('rejects unknown parents and cycles', () => {
+    expect(getDeckParentError(decks, 'cells', 'missing')).toBe('Parent deck not found');
+    expect(getDeckParentError(decks, 'bio', 'bio')).toMatch(/inside itself/);
+    expect(getDeckParentError(decks, 'bio', 'organelles')).toMatch(/inside itself/);
+  });
+});
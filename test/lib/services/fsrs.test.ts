@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getIntervalDays,
+  getNextMemoryState,
+  getRetrievability,
+  replayReviews,
+  sm2RatingToGrade,
+} from '@/lib/services/fsrs';
+import { REVIEW_CONFIG } from '@/config/review-config';
+
+const w = REVIEW_CONFIG.fsrs.weights;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getRetrievability', () => {
+  it('is 90% once the elapsed days equal the stability', () => {
+    expect(getRetrievability(0, 5)).toBe(1);
+    expect(getRetrievability(5, 5)).toBeCloseTo(0.9, 10);
+    expect(getRetrievability(10, 5)).toBeLessThan(0.9);
+  });
+});
+
+describe('getIntervalDays', () => {
+  it('equals the stability at 90% retention', () => {
+    expect(getIntervalDays(12, 0.9)).toBe(12);
+  });
+
+  it('is shorter for higher retention', () => {
+    expect(getIntervalDays(12, 0.95)).toBeLessThan(12);
+    expect(getIntervalDays(12, 0.8)).toBeGreaterThan(12);
+  });
+
+  it('is at least a day and at most the maximum interval', () => {
+    expect(getIntervalDays(0.01, 0.9)).toBe(1);
+    expect(getIntervalDays(1e9, 0.9, 365)).toBe(365);
+  });
+});
+
+describe('getNextMemoryState', () => {
+  it('starts new cards from the initial stability weights', () => {
+    for (const grade of [1, 2, 3, 4] as const) {
+      expect(getNextMemoryState(undefined, grade, 0).stability).toBe(w[grade - 1]);
+    }
+  });
+
+  it('makes cards rated higher on the first review easier', () => {
+    const difficulties = ([1, 2, 3, 4] as const).map((grade) => getNextMemoryState(undefined, grade, 0).difficulty);
+    expect(difficulties).toEqual([...difficulties].sort((a, b) => b - a));
+    for (const difficulty of difficulties) {
+      expect(difficulty).toBeGreaterThanOrEqual(1);
+      expect(difficulty).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it('grows stability on a successful review and shrinks it on a lapse', () => {
+    const state = { stability: 10, difficulty: 5 };
+    const good = getNextMemoryState(state, 3, 10);
+    const easy = getNextMemoryState(state, 4, 10);
+    const again = getNextMemoryState(state, 1, 10);
+
+    expect(good.stability).toBeGreaterThan(10);
+    expect(easy.stability).toBeGreaterThan(good.stability);
+    expect(again.stability).toBeLessThan(10);
+    expect(again.difficulty).toBeGreaterThan(5);
+  });
+
+  it('uses the short-term formula for reviews on the same day', () => {
+    const state = { stability: 2, difficulty: 5 };
+    expect(getNextMemoryState(state, 3, 0.1).stability).toBeCloseTo(2 * Math.exp(w[17] * w[18]), 10);
+  });
+});
+
+describe('sm2RatingToGrade', () => {
+  it('maps the SM-2 scale onto the four grades', () => {
+    expect([0, 1, 2, 3, 4, 5].map((rating) => sm2RatingToGrade(rating as 0 | 1 | 2 | 3 | 4 | 5))).toEqual([1, 1, 2, 2, 3, 4]);
+  });
+});
+
+describe('replayReviews', () => {
+  it('returns undefined without reviews', () => {
+    expect(replayReviews([])).toBeUndefined();
+  });
+
+  it('applies the reviews in order with the days between them', () => {
+    const start = new Date('2026-01-01T00:00:00Z');
+    const later = new Date(start.getTime() + 3 * DAY_MS);
+    const first = getNextMemoryState(undefined, 3, 0);
+    const second = getNextMemoryState(first, 4, 3);
+
+    expect(replayReviews([
+      { grade: 3, reviewedAt: start },
+      { grade: 4, reviewedAt: later },
+    ])).toEqual({ ...second, lastReviewedAt: later });
+  });
+});
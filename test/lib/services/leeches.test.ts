@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { canRewriteText, isLeechLapse } from '@/lib/services/leeches';
+import { REVIEW_CONFIG } from '@/config/review-config';
+
+describe('isLeechLapse', () => {
+  const { threshold, repeatEvery } = REVIEW_CONFIG.leech;
+
+  it('flags the lapse that reaches the threshold', () => {
+    expect(isLeechLapse(threshold - 1)).toBe(false);
+    expect(isLeechLapse(threshold)).toBe(true);
+  });
+
+  it('flags again every repeatEvery lapses after that', () => {
+    expect(isLeechLapse(threshold + 1)).toBe(false);
+    expect(isLeechLapse(threshold + repeatEvery)).toBe(true);
+    expect(isLeechLapse(threshold + 2 * repeatEvery)).toBe(true);
+    expect(isLeechLapse(threshold + repeatEvery - 1)).toBe(false);
+  });
+});
+
+describe('canRewriteText', () => {
+  it('allows only basic cards that are not reverse cards', () => {
+    expect(canRewriteText({ cardType: 'basic', isReverse: false })).toBe(true);
+    expect(canRewriteText({})).toBe(true);
+    expect(canRewriteText({ cardType: 'basic', isReverse: true })).toBe(false);
+    expect(canRewriteText({ cardType: 'cloze', isReverse: false })).toBe(false);
+    expect(canRewriteText({ cardType: 'typed', isReverse: false })).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getAnswerSimilarity,
+  getMultipleChoiceOptions,
+  gradeQuizAnswer,
+  normalizeAnswer,
+  QuizCard,
+} from '@/lib/services/quiz-grading';
+
+const typedCard: QuizCard = {
+  id: 'typed-1',
+  cardType: 'typed',
+  back: 'Photosynthesis',
+  acceptedAnswers: ['carbon fixation'],
+};
+
+const choiceCard: QuizCard = {
+  id: 'choice-1',
+  cardType: 'multiple_choice',
+  back: 'Paris',
+  distractors: ['Lyon', 'Marseille', 'Nice'],
+};
+
+describe('normalizeAnswer', () => {
+  it('ignores case, accents, punctuation and a leading article', () => {
+    expect(normalizeAnswer('  The Café-Crème! ')).toBe('cafe creme');
+    expect(normalizeAnswer('An apple')).toBe('apple');
+  });
+});
+
+describe('getAnswerSimilarity', () => {
+  it('is 1 for the same answer after normalising', () => {
+    expect(getAnswerSimilarity('the Mitochondria.', 'mitochondria')).toBe(1);
+  });
+
+  it('counts a swapped pair of letters as one edit', () => {
+    expect(getAnswerSimilarity('mitochondrai', 'mitochondria')).toBeCloseTo(1 - 1 / 12, 10);
+  });
+
+  it('is 0 for nothing in common and handles empty answers', () => {
+    expect(getAnswerSimilarity('xyz', 'abc')).toBe(0);
+    expect(getAnswerSimilarity('', 'abc')).toBe(0);
+    expect(getAnswerSimilarity('!!', '?')).toBe(1);
+  });
+});
+
+describe('getMultipleChoiceOptions', () => {
+  it('includes the answer and every distractor', () => {
+    expect([...getMultipleChoiceOptions(choiceCard)].sort()).toEqual(['Lyon', 'Marseille', 'Nice', 'Paris']);
+  });
+
+  it('keeps the same order for the same card', () => {
+    expect(getMultipleChoiceOptions(choiceCard)).toEqual(getMultipleChoiceOptions({ ...choiceCard }));
+  });
+});
+
+describe('gradeQuizAnswer', () => {
+  it('rates correct multiple choice answers by speed', () => {
+    expect(gradeQuizAnswer(choiceCard, 'paris', 3000)).toMatchObject({ correct: true, score: 1, rating: 'easy' });
+    expect(gradeQuizAnswer(choiceCard, 'Paris', 10_000).rating).toBe('good');
+    expect(gradeQuizAnswer(choiceCard, 'Paris', 25_000).rating).toBe('hard');
+  });
+
+  it('rates correct answers without a time good', () => {
+    expect(gradeQuizAnswer(choiceCard, 'Paris').rating).toBe('good');
+    expect(gradeQuizAnswer(typedCard, 'photosynthesis').rating).toBe('good');
+    expect(gradeQuizAnswer(choiceCard, 'Lyon').rating).toBe('again');
+  });
+
+  it('rates wrong multiple choice answers again', () => {
+    expect(gradeQuizAnswer(choiceCard, 'Lyon', 1000)).toMatchObject({ correct: false, score: 0, rating: 'again', expected: 'Paris' });
+  });
+
+  it('accepts typed answers with a typo or from the accepted list', () => {
+    expect(gradeQuizAnswer(typedCard, 'photosynthesys', 5000)).toMatchObject({ correct: true, rating: 'easy' });
+    expect(gradeQuizAnswer(typedCard, 'Carbon fixation', 15_000)).toMatchObject({ correct: true, score: 1, rating: 'good' });
+  });
+
+  it('gives partly right typed answers partial credit', () => {
+    const grade = gradeQuizAnswer(typedCard, 'photosynth', 5000);
+    expect(grade.correct).toBe(false);
+    expect(grade.score).toBeGreaterThanOrEqual(0.6);
+    expect(grade.rating).toBe('hard');
+  });
+
+  it('rates unrelated typed answers again', () => {
+    expect(gradeQuizAnswer(typedCard, 'respiration', 5000).rating).toBe('again');
+  });
+});
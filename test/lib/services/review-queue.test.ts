@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { buildReviewQueue, countQueue, getDailyLimits, getDeckDueCounts } from '@/lib/services/review-queue';
+import { REVIEW_CONFIG } from '@/config/review-config';
+import { CardState, Deck, Flashcard } from '@/types';
+
+const now = new Date('2026-06-01T09:00:00Z');
+
+function makeCard(id: string, deckId: string, cardState: CardState, nextReview: Date = now): Flashcard {
+  return { id, deckId, cardState, nextReview } as Flashcard;
+}
+
+function makeCards(prefix: string, deckId: string, cardState: CardState, count: number): Flashcard[] {
+  return Array.from({ length: count }, (_, i) => makeCard(`${prefix}${i}`, deckId, cardState));
+}
+
+const ids = (cards: Flashcard[]) => cards.map((card) => card.id);
+
+describe('getDailyLimits', () => {
+  it('falls back to the configured defaults', () => {
+    expect(getDailyLimits()).toEqual(REVIEW_CONFIG.dailyLimits);
+    expect(getDailyLimits({ newCardsPerDay: 3 })).toEqual({ ...REVIEW_CONFIG.dailyLimits, newCardsPerDay: 3 });
+  });
+});
+
+describe('buildReviewQueue', () => {
+  const deck: Deck = { id: 'd', name: 'D', newCardsPerDay: 2, maxReviewsPerDay: 3, createdAt: now };
+
+  it('limits new and review cards separately, counting what was done today', () => {
+    const due = [...makeCards('n', 'd', 'new', 5), ...makeCards('r', 'd', 'review', 5)];
+    expect(countQueue(buildReviewQueue(due, [deck], {}, now))).toEqual({ new: 2, learning: 0, review: 3 });
+    expect(countQueue(buildReviewQueue(due, [deck], { d: { new: 1, review: 3 } }, now))).toEqual({ new: 1, learning: 0, review: 0 });
+  });
+
+  it('never holds back learning cards and puts those due later at the end', () => {
+    const later = new Date(now.getTime() + 5 * 60 * 1000);
+    const due = [
+      makeCard('ahead', 'd', 'learning', later),
+      ...makeCards('r', 'd', 'review', 2),
+      makeCard('learning', 'd', 'relearning'),
+    ];
+    const queue = buildReviewQueue(due, [{ ...deck, maxReviewsPerDay: 0 }], {}, now);
+    expect(ids(queue)).toEqual(['learning', 'ahead']);
+  });
+
+  it('follows the deck review order', () => {
+    const due = [...makeCards('n', 'd', 'new', 2), ...makeCards('r', 'd', 'review', 2)];
+    expect(ids(buildReviewQueue(due, [{ ...deck, reviewOrder: 'new_first' }], {}, now))).toEqual(['n0', 'n1', 'r0', 'r1']);
+    expect(ids(buildReviewQueue(due, [{ ...deck, reviewOrder: 'reviews_first' }], {}, now))).toEqual(['r0', 'r1', 'n0', 'n1']);
+    expect(ids(buildReviewQueue(due, [{ ...deck, reviewOrder: 'mixed' }], {}, now))).toEqual(['r0', 'n0', 'r1', 'n1']);
+  });
+
+  describe('with subdecks', () => {
+    const decks: Deck[] = [
+      { id: 'parent', name: 'Parent', newCardsPerDay: 5, createdAt: now },
+      { id: 'a', name: 'A', parentId: 'parent', newCardsPerDay: 4, createdAt: now },
+      { id: 'b', name: 'B', parentId: 'parent', newCardsPerDay: 4, createdAt: now },
+    ];
+    const due = [...makeCards('a', 'a', 'new', 10), ...makeCards('b', 'b', 'new', 10)];
+
+    it("caps the subdecks together at the parent's limit, drawing from each evenly", () => {
+      expect(ids(buildReviewQueue(due, decks, {}, now))).toEqual(['a0', 'b0', 'a1', 'b1', 'a2']);
+    });
+
+    it("counts cards done in a subdeck against the parent's limit", () => {
+      const queue = buildReviewQueue(due, decks, { a: { new: 3, review: 0 } }, now);
+      expect(ids(queue)).toEqual(['a0', 'b0']);
+    });
+
+    it('leaves out the limits of decks not passed in', () => {
+      const queue = buildReviewQueue(due.filter((card) => card.deckId === 'a'), [decks[1]], {}, now);
+      expect(countQueue(queue).new).toBe(4);
+    });
+  });
+});
+
+describe('getDeckDueCounts', () => {
+  it("counts what reviewing each deck with its subdecks would show", () => {
+    const decks: Deck[] = [
+      { id: 'parent', name: 'Parent', newCardsPerDay: 5, createdAt: now },
+      { id: 'a', name: 'A', parentId: 'parent', newCardsPerDay: 4, createdAt: now },
+      { id: 'b', name: 'B', parentId: 'parent', newCardsPerDay: 4, createdAt: now },
+    ];
+    const due = [
+      ...makeCards('a', 'a', 'new', 10),
+      ...makeCards('b', 'b', 'new', 10),
+      makeCard('l', 'b', 'learning'),
+    ];
+    expect(getDeckDueCounts(due, decks, {}, now)).toEqual({
+      parent: { new: 5, learning: 1, review: 0 },
+      a: { new: 4, learning: 0, review: 0 },
+      b: { new: 4, learning: 1, review: 0 },
+    });
+  });
+});
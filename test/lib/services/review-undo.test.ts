@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getReviewUndoState } from '@/lib/services/review-undo';
+import { getScheduler } from '@/lib/services/scheduler';
+import { SimpleRating } from '@/lib/services/sm2';
+import { Flashcard } from '@/types';
+
+const now = new Date('2026-05-01T09:00:00Z');
+
+const card: Flashcard = {
+  id: 'card-1',
+  lessonId: 'lesson-1',
+  front: 'Q',
+  back: 'A',
+  easeFactor: 2.4,
+  interval: 6,
+  repetitions: 2,
+  nextReview: now,
+  stability: 6,
+  difficulty: 4.5,
+  lastReviewedAt: new Date('2026-04-25T09:00:00Z'),
+  cardState: 'review',
+  learningStep: 0,
+  lapses: 7,
+  isLeech: false,
+  isSuspended: false,
+  createdAt: new Date('2026-04-01T09:00:00Z'),
+} as Flashcard;
+
+describe('getReviewUndoState', () => {
+  it("records the note's other cards without the reviewed one", () => {
+    const buriedUntil = new Date('2026-05-02T00:00:00Z');
+    const state = getReviewUndoState(card, [
+      { id: 'card-1' },
+      { id: 'card-2', buriedUntil },
+      { id: 'card-3' },
+    ]);
+    expect(state.siblings).toEqual([{ id: 'card-2', buriedUntil }, { id: 'card-3', buriedUntil: undefined }]);
+  });
+
+  it('defaults lapses and the leech and suspended flags', () => {
+    const state = getReviewUndoState({ ...card, lapses: undefined, isLeech: undefined, isSuspended: undefined }, []);
+    expect(state).toMatchObject({ lapses: 0, isLeech: false, isSuspended: false });
+  });
+
+  describe.each(['sm2', 'fsrs'] as const)('after a %s review', (schedulerName) => {
+    it.each<SimpleRating>(['again', 'hard', 'good', 'easy'])('restores every field a "%s" rating changes', (rating) => {
+      const state = getReviewUndoState(card, []);
+      const reviewed = { ...card, ...getScheduler(schedulerName).review(card, rating, now) };
+      expect(reviewed).not.toEqual(card);
+      expect({ ...reviewed, ...state }).toEqual({ ...card, siblings: [] });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, addMinutes } from 'date-fns';
+import { createFSRSScheduler, createSM2Scheduler, SchedulingState, withLearningSteps } from '@/lib/services/scheduler';
+import { getDefaultFSRSParameters } from '@/lib/services/fsrs';
+
+const now = new Date('2026-03-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const reviewCard: SchedulingState = {
+  easeFactor: 2.5,
+  interval: 10,
+  repetitions: 3,
+  stability: 10,
+  difficulty: 5,
+  lastReviewedAt: new Date(now.getTime() - 10 * DAY_MS),
+  cardState: 'review',
+  learningStep: 0,
+};
+
+describe('createFSRSScheduler', () => {
+  const scheduler = createFSRSScheduler();
+
+  it('keeps the rating buttons in order', () => {
+    const intervals = scheduler.predictIntervals(reviewCard, now);
+    expect(intervals.hard).toBeLessThanOrEqual(intervals.good);
+    expect(intervals.good).toBeLessThan(intervals.easy);
+    expect(intervals.again).toBeLessThan(intervals.good);
+  });
+
+  it('schedules the next review with the predicted interval', () => {
+    const intervals = scheduler.predictIntervals(reviewCard, now);
+    const schedule = scheduler.review(reviewCard, 'good', now);
+
+    expect(schedule.interval).toBe(intervals.good);
+    expect(schedule.nextReview).toEqual(addDays(now, intervals.good));
+    expect(schedule.lastReviewedAt).toBe(now);
+    expect(schedule.stability).toBeGreaterThan(reviewCard.stability!);
+  });
+
+  it('keeps SM-2 fields meaningful for switching back', () => {
+    expect(scheduler.review(reviewCard, 'good', now)).toMatchObject({ easeFactor: 2.5, repetitions: 4 });
+    expect(scheduler.review(reviewCard, 'again', now).repetitions).toBe(0);
+  });
+
+  it('schedules further out with lower desired retention', () => {
+    const { weights } = getDefaultFSRSParameters();
+    const relaxed = createFSRSScheduler({ weights, requestRetention: 0.8 }).review(reviewCard, 'good', now);
+    const strict = createFSRSScheduler({ weights, requestRetention: 0.95 }).review(reviewCard, 'good', now);
+    expect(relaxed.interval).toBeGreaterThan(strict.interval);
+  });
+});
+
+describe('createSM2Scheduler', () => {
+  it('tracks FSRS memory state as well', () => {
+    const schedule = createSM2Scheduler().review(reviewCard, 'good', now);
+    expect(schedule.stability).toBeGreaterThan(reviewCard.stability!);
+    expect(schedule.nextReview).toEqual(addDays(now, schedule.interval));
+  });
+});
+
+describe('withLearningSteps', () => {
+  const scheduler = withLearningSteps(createSM2Scheduler(), [1, 10], [10]);
+  const newCard: SchedulingState = {
+    easeFactor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    cardState: 'new',
+    learningStep: 0,
+  };
+
+  it('moves a new card through the learning steps', () => {
+    const first = scheduler.review(newCard, 'good', now);
+    expect(first).toMatchObject({ cardState: 'learning', learningStep: 1, interval: 0, repetitions: 0 });
+    expect(first.nextReview).toEqual(addMinutes(now, 10));
+
+    const graduated = scheduler.review({ ...newCard, ...first }, 'good', now);
+    expect(graduated).toMatchObject({ cardState: 'review', learningStep: 0 });
+    expect(graduated.interval).toBeGreaterThanOrEqual(1);
+  });
+
+  it('restarts on again, repeats on hard and graduates on easy', () => {
+    const learning: SchedulingState = { ...newCard, cardState: 'learning', learningStep: 1 };
+    expect(scheduler.review(learning, 'again', now)).toMatchObject({ cardState: 'learning', learningStep: 0 });
+    expect(scheduler.review(learning, 'hard', now)).toMatchObject({ cardState: 'learning', learningStep: 1 });
+    expect(scheduler.review(learning, 'easy', now).cardState).toBe('review');
+  });
+
+  it('keeps the SM-2 state of cards in their steps', () => {
+    const learning: SchedulingState = { ...newCard, easeFactor: 2.3, cardState: 'learning', learningStep: 0 };
+    expect(scheduler.review(learning, 'again', now)).toMatchObject({ easeFactor: 2.3, repetitions: 0 });
+  });
+
+  it('sends a lapsed review card through the relearning steps', () => {
+    const lapse = scheduler.review(reviewCard, 'again', now);
+    expect(lapse).toMatchObject({ cardState: 'relearning', learningStep: 0, interval: 0 });
+    expect(lapse.nextReview).toEqual(addMinutes(now, 10));
+    // The lapse still counts against the card's ease
+    expect(lapse.easeFactor).toBeLessThan(reviewCard.easeFactor);
+
+    const relearned = scheduler.review({ ...reviewCard, ...lapse }, 'good', now);
+    expect(relearned.cardState).toBe('review');
+  });
+
+  it('leaves passed review cards to the wrapped scheduler', () => {
+    expect(scheduler.review(reviewCard, 'good', now)).toEqual(createSM2Scheduler().review(reviewCard, 'good', now));
+  });
+
+  it('predicts step intervals as fractions of a day', () => {
+    expect(scheduler.predictIntervals(newCard, now)).toMatchObject({ again: 1 / 1440, hard: 1 / 1440, good: 10 / 1440 });
+    expect(scheduler.predictIntervals(newCard, now).easy).toBeGreaterThanOrEqual(1);
+  });
+
+  it('graduates straight away without steps', () => {
+    expect(withLearningSteps(createSM2Scheduler(), [], []).review(newCard, 'again', now).cardState).toBe('review');
+  });
+});
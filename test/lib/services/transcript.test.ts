@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectCaptionFormat,
+  formatTimestamp,
+  formatTranscriptText,
+  getTimestampAtOffset,
+  parseCaptions,
+} from '@/lib/services/transcript';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+<font color="#fff">Hello &amp; welcome</font>
+
+2
+00:01:02,250 --> 00:01:04,000
+to the   course
+`;
+
+const VTT = `WEBVTT
+Kind: captions
+
+NOTE a comment
+
+00:01.000 --> 00:03.000 align:start position:0%
+<v Speaker>First line
+
+00:03.000 --> 00:05.000
+First line and more
+`;
+
+const JSON3 = JSON.stringify({
+  events: [
+    { tStartMs: 0, dDurationMs: 1000, segs: [{ utf8: 'one ' }, { utf8: 'two' }] },
+    { tStartMs: 1000, dDurationMs: 500 },
+    { tStartMs: 1000, dDurationMs: 2000, segs: [{ utf8: 'one two' }] },
+    { tStartMs: 3000, dDurationMs: 1000, segs: [{ utf8: '\n' }] },
+  ],
+});
+
+describe('detectCaptionFormat', () => {
+  it('recognises JSON3, WebVTT and falls back to SRT', () => {
+    expect(detectCaptionFormat('  {"events": []}')).toBe('json3');
+    expect(detectCaptionFormat('WEBVTT\n\n')).toBe('vtt');
+    expect(detectCaptionFormat(SRT)).toBe('srt');
+  });
+});
+
+describe('parseCaptions', () => {
+  it('parses SRT timings and strips markup and entities', () => {
+    expect(parseCaptions(SRT)).toEqual([
+      { startMs: 1000, endMs: 3500, text: 'Hello & welcome' },
+      { startMs: 62250, endMs: 64000, text: 'to the course' },
+    ]);
+  });
+
+  it('parses WebVTT with cue settings and trims rolling prefixes', () => {
+    expect(parseCaptions(VTT)).toEqual([
+      { startMs: 1000, endMs: 3000, text: 'First line' },
+      { startMs: 3000, endMs: 5000, text: 'and more' },
+    ]);
+  });
+
+  it('parses JSON3, merging repeated cues and skipping empty events', () => {
+    expect(parseCaptions(JSON3)).toEqual([{ startMs: 0, endMs: 3000, text: 'one two' }]);
+  });
+
+  it('handles CRLF line endings', () => {
+    expect(parseCaptions(SRT.replace(/\n/g, '\r\n'))).toHaveLength(2);
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('formats minutes and hours', () => {
+    expect(formatTimestamp(5000)).toBe('0:05');
+    expect(formatTimestamp(245_999)).toBe('4:05');
+    expect(formatTimestamp(3_845_000)).toBe('1:04:05');
+  });
+});
+
+describe('formatTranscriptText', () => {
+  it('starts a new paragraph every minute of transcript', () => {
+    const text = formatTranscriptText([
+      { startMs: 0, endMs: 1000, text: 'a' },
+      { startMs: 30_000, endMs: 31_000, text: 'b' },
+      { startMs: 61_000, endMs: 62_000, text: 'c' },
+    ]);
+    expect(text).toBe('[0:00] a\n[0:30] b\n\n[1:01] c');
+  });
+});
+
+describe('getTimestampAtOffset', () => {
+  const text = '[0:05] first line\n[1:02:03] second line';
+
+  it('finds the timestamp of the line containing the offset', () => {
+    expect(getTimestampAtOffset(text, 3)).toBe(5000);
+    expect(getTimestampAtOffset(text, text.indexOf('second'))).toBe(3_723_000);
+  });
+
+  it('returns undefined for text without markers', () => {
+    expect(getTimestampAtOffset('plain text', 2)).toBeUndefined();
+  });
+});
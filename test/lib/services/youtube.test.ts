@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildYouTubeTimestampUrl,
+  extractYouTubeVideoId,
+  importYouTubeTranscript,
+  TranscriptFetcher,
+} from '@/lib/services/youtube';
+
+const VIDEO_ID = 'dQw4w9WgXcQ';
+
+const noFetcher: TranscriptFetcher = {
+  async fetchTranscript() {
+    throw new Error('should not be called');
+  },
+};
+
+describe('extractYouTubeVideoId', () => {
+  it.each([
+    `https://www.youtube.com/watch?v=${VIDEO_ID}&t=10s`,
+    `https://m.youtube.com/watch?v=${VIDEO_ID}`,
+    `https://youtu.be/${VIDEO_ID}?si=abc`,
+    `https://www.youtube.com/shorts/${VIDEO_ID}`,
+    `https://www.youtube.com/embed/${VIDEO_ID}`,
+    `https://www.youtube-nocookie.com/embed/${VIDEO_ID}`,
+    `https://www.youtube.com/live/${VIDEO_ID}`,
+  ])('finds the ID in %s', (url) => {
+    expect(extractYouTubeVideoId(url)).toBe(VIDEO_ID);
+  });
+
+  it.each([
+    'not a url',
+    'https://vimeo.com/123456',
+    'https://www.youtube.com/watch?v=short',
+    'https://www.youtube.com/channel/UC1234567890',
+  ])('rejects %s', (url) => {
+    expect(extractYouTubeVideoId(url)).toBeNull();
+  });
+});
+
+describe('buildYouTubeTimestampUrl', () => {
+  it('links to the moment in whole seconds', () => {
+    expect(buildYouTubeTimestampUrl(`https://youtu.be/${VIDEO_ID}`, 62_900)).toBe(
+      `https://www.youtube.com/watch?v=${VIDEO_ID}&t=62s`
+    );
+  });
+
+  it('leaves other URLs alone', () => {
+    expect(buildYouTubeTimestampUrl('https://example.com/video', 1000)).toBe('https://example.com/video');
+  });
+});
+
+describe('importYouTubeTranscript', () => {
+  it('uses uploaded captions instead of the fetcher', async () => {
+    const transcript = await importYouTubeTranscript(
+      { url: `https://youtu.be/${VIDEO_ID}`, captions: '1\n00:00:01,000 --> 00:00:02,000\nHi there\n' },
+      noFetcher
+    );
+    expect(transcript).toMatchObject({ videoId: VIDEO_ID, text: '[0:01] Hi there' });
+  });
+
+  it('returns null when the fetcher finds no captions', async () => {
+    const fetcher: TranscriptFetcher = { fetchTranscript: async () => null };
+    expect(await importYouTubeTranscript({ url: `https://youtu.be/${VIDEO_ID}` }, fetcher)).toBeNull();
+  });
+
+  it('throws for URLs without a video ID', async () => {
+    await expect(importYouTubeTranscript({ url: 'https://example.com' }, noFetcher)).rejects.toThrow(
+      'Could not find a video ID'
+    );
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { FlashcardReviewSchema } from '@/lib/validations';
+
+describe('FlashcardReviewSchema', () => {
+  it('accepts a rating with or without a time', () => {
+    expect(FlashcardReviewSchema.safeParse({ rating: 'good' }).success).toBe(true);
+    expect(FlashcardReviewSchema.safeParse({ rating: 'good', timeToAnswerMs: 4000 }).success).toBe(true);
+  });
+
+  it('requires a time with an answer', () => {
+    expect(FlashcardReviewSchema.safeParse({ answer: 'Paris', timeToAnswerMs: 4000 }).success).toBe(true);
+
+    const result = FlashcardReviewSchema.safeParse({ answer: 'Paris' });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({ path: ['timeToAnswerMs'], message: 'timeToAnswerMs is required with an answer' }),
+    ]);
+  });
+
+  it('requires a rating or an answer', () => {
+    expect(FlashcardReviewSchema.safeParse({ timeToAnswerMs: 4000 }).success).toBe(false);
+  });
+});